@@ -5,108 +5,119 @@ import { useUser } from "@clerk/nextjs";
 import { PostCard } from "@/components/post/PostCard";
 import { PostCardSkeleton } from "@/components/post/PostCardSkeleton";
 import { PostModal } from "@/components/post/PostModal";
+import { NotificationList } from "@/components/notification/NotificationList";
+import { FollowRequestList } from "@/components/notification/FollowRequestList";
+import { useApiClient } from "@/hooks/use-api-client";
+import { useCachedPosts } from "@/hooks/use-post-cache";
+import { upsertPosts } from "@/lib/post-cache";
 import { PostWithUser } from "@/lib/types";
-import { handleFetchError, logError } from "@/lib/utils/error-handler";
-import { Heart } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Bell, Heart } from "lucide-react";
 
 /**
  * 활동 페이지
  *
- * 좋아요 누른 게시물 리스트 표시
+ * 알림 탭 (기본)
+ * - 받은 팔로우 요청 (비공개 계정, 확인/삭제)
+ * - 좋아요/댓글/팔로우 알림 (묶음 표시)
+ * - 읽지 않은 알림 수 배지
+ *
+ * 좋아요한 게시물 탭
+ * - 좋아요 누른 게시물 리스트 표시
  * - 무한 스크롤 지원
  * - 게시물 상세 모달
+ * - 게시물 내용은 캐시(lib/post-cache.ts)에서 읽어 피드/모달과 좋아요, 댓글 상태 공유
  */
+type ActivityTab = "notifications" | "likes";
+
 export default function ActivityPage() {
   const { user } = useUser();
-  const [posts, setPosts] = useState<PostWithUser[]>([]);
+  const api = useApiClient();
+  const [activeTab, setActiveTab] = useState<ActivityTab>("notifications");
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [hasLoadedLikes, setHasLoadedLikes] = useState(false);
+  const [likedPosts, setLikedPosts] = useState<PostWithUser[]>([]);
+  const posts = useCachedPosts(likedPosts); // 다른 화면에서 바뀐 좋아요/댓글 반영
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
-  const [offset, setOffset] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [selectedPostIndex, setSelectedPostIndex] = useState(-1);
   const limit = 10;
 
   // 게시물 목록 조회
   const fetchLikedPosts = useCallback(
-    async (currentOffset: number, append = false) => {
+    async (cursor: string | null, append = false) => {
       if (isLoadingMore) return;
 
       try {
         setIsLoadingMore(true);
 
-        const params = new URLSearchParams({
-          limit: limit.toString(),
-          offset: currentOffset.toString(),
-        });
-
-        let response: Response | null = null;
-        try {
-          response = await fetch(`/api/likes/user?${params}`);
-        } catch (fetchErr) {
-          const errorInfo = await handleFetchError(null, fetchErr);
-          logError(errorInfo, "ActivityPage.fetchLikedPosts");
-          setError(errorInfo.message);
-          setIsLoadingMore(false);
-          return;
-        }
+        const { data, error: apiError } = await api.likes.listMine(
+          { limit, cursor },
+          { context: "ActivityPage.fetchLikedPosts" },
+        );
 
-        if (!response.ok) {
-          const errorInfo = await handleFetchError(response, null);
-          logError(errorInfo, "ActivityPage.fetchLikedPosts");
-          setError(errorInfo.message);
-          setIsLoadingMore(false);
+        if (apiError) {
+          if (apiError.type !== "ABORTED") {
+            setError(apiError.message);
+          }
           return;
         }
 
-        const data = await response.json();
+        upsertPosts(data.data);
 
         if (append) {
-          setPosts((prev) => [...prev, ...data.data]);
+          setLikedPosts((prev) => [...prev, ...data.data]);
         } else {
-          setPosts(data.data);
+          setLikedPosts(data.data);
         }
 
         setHasMore(data.pagination.hasMore);
-        setOffset(currentOffset + data.data.length);
+        setNextCursor(data.pagination.nextCursor);
         setError(null);
-      } catch (err) {
-        const errorInfo = await handleFetchError(null, err);
-        logError(errorInfo, "ActivityPage.fetchLikedPosts");
-        setError(errorInfo.message);
-        setHasMore(false);
       } finally {
         setIsLoadingMore(false);
         setIsLoading(false);
       }
     },
-    [isLoadingMore]
+    [api, isLoadingMore]
   );
 
-  // 초기 데이터 로드
+  // 좋아요한 게시물 탭을 처음 열 때 데이터 로드
   useEffect(() => {
-    if (user) {
-      fetchLikedPosts(0, false);
+    if (user && activeTab === "likes" && !hasLoadedLikes) {
+      setHasLoadedLikes(true);
+      fetchLikedPosts(null, false);
     }
-  }, [user, fetchLikedPosts]);
+  }, [user, activeTab, hasLoadedLikes, fetchLikedPosts]);
 
-  // 무한 스크롤
+  // 무한 스크롤 (좋아요한 게시물 탭)
   useEffect(() => {
-    if (!hasMore || isLoadingMore || isLoading) return;
+    if (activeTab !== "likes" || !hasMore || isLoadingMore || isLoading)
+      return;
 
     const handleScroll = () => {
       if (
         window.innerHeight + window.scrollY >=
         document.documentElement.scrollHeight - 1000
       ) {
-        fetchLikedPosts(offset, true);
+        fetchLikedPosts(nextCursor, true);
       }
     };
 
     window.addEventListener("scroll", handleScroll);
     return () => window.removeEventListener("scroll", handleScroll);
-  }, [hasMore, isLoadingMore, isLoading, offset, fetchLikedPosts]);
+  }, [
+    activeTab,
+    hasMore,
+    isLoadingMore,
+    isLoading,
+    nextCursor,
+    fetchLikedPosts,
+  ]);
 
   // 게시물 상세 모달 열기
   const handleShowDetail = useCallback((postId: string) => {
@@ -115,6 +126,12 @@ export default function ActivityPage() {
     setSelectedPostId(postId);
   }, [posts]);
 
+  // 알림에서 게시물 상세 모달 열기 (이전/다음 이동 없음)
+  const handleShowNotificationPost = useCallback((postId: string) => {
+    setSelectedPostIndex(-1);
+    setSelectedPostId(postId);
+  }, []);
+
   // 모달 닫기
   const handleCloseModal = useCallback(() => {
     setSelectedPostId(null);
@@ -138,87 +155,143 @@ export default function ActivityPage() {
     }
   }, [selectedPostIndex, posts]);
 
-  // 로딩 상태
-  if (isLoading) {
-    return (
-      <div className="min-h-screen bg-background py-8 px-4">
-        <div className="max-w-[630px] mx-auto space-y-6">
+  // 이전/다음 이동은 좋아요한 게시물 목록에서 연 경우만 가능
+  const hasPrevious = selectedPostIndex > 0;
+  const hasNext =
+    selectedPostIndex >= 0 && selectedPostIndex < posts.length - 1;
+
+  // 좋아요한 게시물 탭 내용
+  const renderLikedPosts = () => {
+    // 로딩 상태
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
           <PostCardSkeleton />
           <PostCardSkeleton />
           <PostCardSkeleton />
         </div>
-      </div>
-    );
-  }
+      );
+    }
+
+    // 에러 상태
+    if (error && posts.length === 0) {
+      return (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={() => fetchLikedPosts(null, false)}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+
+    if (posts.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <Heart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 mb-2">좋아요한 게시물이 없습니다</p>
+          <p className="text-sm text-gray-400">
+            게시물에 좋아요를 눌러보세요
+          </p>
+        </div>
+      );
+    }
 
-  // 에러 상태
-  if (error && posts.length === 0) {
     return (
-      <div className="min-h-screen bg-background py-8 px-4">
-        <div className="max-w-[630px] mx-auto">
-          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
-            <p className="text-red-600 mb-4">{error}</p>
-            <button
-              onClick={() => fetchLikedPosts(0, false)}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              다시 시도
-            </button>
+      <div className="space-y-6">
+        {posts.map((post, index) => (
+          <PostCard
+            key={post.post_id}
+            post={post}
+            currentUserId={user?.id}
+            onShowDetail={handleShowDetail}
+            index={index}
+          />
+        ))}
+
+        {/* 더 로딩 중 */}
+        {isLoadingMore && (
+          <div className="py-8">
+            <PostCardSkeleton />
           </div>
-        </div>
+        )}
+
+        {/* 더 이상 없음 */}
+        {!hasMore && posts.length > 0 && (
+          <div className="text-center py-8 text-gray-500 text-sm">
+            모든 게시물을 불러왔습니다
+          </div>
+        )}
       </div>
     );
-  }
+  };
 
   return (
     <div className="min-h-screen bg-background py-8 px-4">
       <div className="max-w-[630px] mx-auto">
         {/* 페이지 헤더 */}
         <div className="mb-6">
-          <h1 className="text-2xl font-bold text-black mb-2 flex items-center gap-2">
-            <Heart className="w-6 h-6 text-red-500 fill-red-500" />
-            좋아요한 게시물
-          </h1>
+          <h1 className="text-2xl font-bold text-black mb-2">활동</h1>
           <p className="text-gray-600 text-sm">
-            내가 좋아요를 누른 게시물을 확인하세요
+            받은 알림과 내가 좋아요를 누른 게시물을 확인하세요
           </p>
         </div>
 
-        {/* 게시물 목록 */}
-        {posts.length === 0 ? (
-          <div className="text-center py-12">
-            <Heart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-500 mb-2">좋아요한 게시물이 없습니다</p>
-            <p className="text-sm text-gray-400">
-              게시물에 좋아요를 눌러보세요
-            </p>
-          </div>
-        ) : (
-          <div className="space-y-6">
-            {posts.map((post, index) => (
-              <PostCard
-                key={post.post_id}
-                post={post}
-                currentUserId={user?.id}
-                onShowDetail={handleShowDetail}
-                index={index}
-              />
-            ))}
-
-            {/* 더 로딩 중 */}
-            {isLoadingMore && (
-              <div className="py-8">
-                <PostCardSkeleton />
-              </div>
+        {/* 탭 */}
+        <div className="flex border-b border-border mb-6" role="tablist">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={activeTab === "notifications"}
+            onClick={() => setActiveTab("notifications")}
+            className={cn(
+              "flex-1 flex items-center justify-center gap-2 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors",
+              activeTab === "notifications"
+                ? "border-black text-black"
+                : "border-transparent text-gray-500 hover:text-black",
             )}
-
-            {/* 더 이상 없음 */}
-            {!hasMore && posts.length > 0 && (
-              <div className="text-center py-8 text-gray-500 text-sm">
-                모든 게시물을 불러왔습니다
-              </div>
+          >
+            <Bell className="w-4 h-4" />
+            알림
+            {unreadCount > 0 && (
+              <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[11px] leading-[18px] text-center">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
             )}
-          </div>
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={activeTab === "likes"}
+            onClick={() => setActiveTab("likes")}
+            className={cn(
+              "flex-1 flex items-center justify-center gap-2 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors",
+              activeTab === "likes"
+                ? "border-black text-black"
+                : "border-transparent text-gray-500 hover:text-black",
+            )}
+          >
+            <Heart className="w-4 h-4" />
+            좋아요한 게시물
+          </button>
+        </div>
+
+        {/* 탭 내용 */}
+        {activeTab === "notifications" ? (
+          user && (
+            <>
+              <FollowRequestList />
+              <NotificationList
+                onShowPost={handleShowNotificationPost}
+                onUnreadCountChange={setUnreadCount}
+              />
+            </>
+          )
+        ) : (
+          renderLikedPosts()
         )}
 
         {/* 게시물 상세 모달 */}
@@ -227,12 +300,10 @@ export default function ActivityPage() {
             postId={selectedPostId}
             isOpen={!!selectedPostId}
             onClose={handleCloseModal}
-            onPrevious={selectedPostIndex > 0 ? handlePrevious : undefined}
-            onNext={
-              selectedPostIndex < posts.length - 1 ? handleNext : undefined
-            }
-            hasPrevious={selectedPostIndex > 0}
-            hasNext={selectedPostIndex < posts.length - 1}
+            onPrevious={hasPrevious ? handlePrevious : undefined}
+            onNext={hasNext ? handleNext : undefined}
+            hasPrevious={hasPrevious}
+            hasNext={hasNext}
             currentUserId={user?.id}
           />
         )}
@@ -240,4 +311,3 @@ export default function ActivityPage() {
     </div>
   );
 }
-
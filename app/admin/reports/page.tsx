@@ -0,0 +1,39 @@
+import { notFound } from "next/navigation";
+import { isCurrentUserAdmin } from "@/lib/admin";
+import { ReportQueue } from "@/components/admin/ReportQueue";
+
+/**
+ * 관리자 신고 검토 페이지
+ *
+ * 경로: /admin/reports
+ * - 관리자(Clerk public metadata role: "admin")만 접근 가능, 그 외에는 404
+ * - 처리 대기 중인 신고 목록과 처리 완료 목록 (ReportQueue)
+ * - 콘텐츠 숨김 / 신고 기각
+ */
+
+export default async function AdminReportsPage() {
+  if (!(await isCurrentUserAdmin())) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-background py-8 px-4">
+      <div className="max-w-[800px] mx-auto">
+        {/* 페이지 헤더 */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-black mb-2">신고 관리</h1>
+          <p className="text-gray-600 text-sm">
+            접수된 신고를 검토하고 콘텐츠를 숨기거나 신고를 기각하세요
+          </p>
+        </div>
+
+        <ReportQueue />
+      </div>
+    </div>
+  );
+}
+
+// 메타데이터 설정
+export const metadata = {
+  title: "신고 관리 • Instagram 클론",
+};
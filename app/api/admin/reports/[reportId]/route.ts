@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { isCurrentUserAdmin } from "@/lib/admin";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+import { ReportTargetType } from "@/lib/types";
+
+/**
+ * 관리자 신고 처리 API
+ *
+ * PATCH /api/admin/reports/[reportId]
+ * - 관리자 전용 (Clerk public metadata role: "admin")
+ * - 요청 본문: { action: "hide" | "dismiss" }
+ *   - hide: 대상 게시물/댓글/계정을 숨김 처리하고, 같은 대상의 처리 대기 중인 신고를 모두 actioned로 변경
+ *   - dismiss: 해당 신고만 dismissed로 변경 (콘텐츠 유지)
+ * - 이미 처리된 신고는 409 (조회 후 다른 관리자가 먼저 처리한 경우 포함)
+ */
+
+/** 신고 대상 종류별 숨김 처리 테이블과 reports 컬럼 */
+const TARGET_COLUMNS: Record<
+  ReportTargetType,
+  { table: string; column: "post_id" | "comment_id" | "user_id" }
+> = {
+  post: { table: "posts", column: "post_id" },
+  comment: { table: "comments", column: "comment_id" },
+  user: { table: "users", column: "user_id" },
+};
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> },
+) {
+  try {
+    const { reportId } = await params;
+    if (process.env.NODE_ENV === "development") {
+      console.log(`API /api/admin/reports/${reportId} PATCH called`);
+    }
+
+    // Clerk 인증 및 관리자 권한 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    if (!(await isCurrentUserAdmin())) {
+      return createForbiddenResponse("관리자만 접근할 수 있습니다.");
+    }
+
+    // 요청 본문 파싱
+    const { action } = await request.json();
+
+    if (action !== "hide" && action !== "dismiss") {
+      return createBadRequestResponse("올바르지 않은 처리 방식입니다.");
+    }
+
+    const supabase = getServiceRoleClient();
+
+    // 1. 신고 조회
+    const { data: reportData, error: reportError } = await supabase
+      .from("reports")
+      .select("id, target_type, post_id, comment_id, user_id, status")
+      .eq("id", reportId)
+      .maybeSingle();
+
+    if (reportError || !reportData) {
+      console.error("Report lookup error:", reportError);
+      return createNotFoundResponse("신고를 찾을 수 없습니다.");
+    }
+
+    if (reportData.status !== "open") {
+      return createErrorResponse("이미 처리된 신고입니다.", 409, "CONFLICT");
+    }
+
+    const resolution = {
+      resolved_at: new Date().toISOString(),
+      resolved_by: userId,
+    };
+
+    // 2-1. 기각: 해당 신고만 처리 완료 (아직 처리 대기 중인 경우만)
+    if (action === "dismiss") {
+      const { data: dismissedData, error: dismissError } = await supabase
+        .from("reports")
+        .update({ status: "dismissed", ...resolution })
+        .eq("id", reportId)
+        .eq("status", "open")
+        .select("id");
+
+      if (dismissError) {
+        console.error("Report dismiss error:", dismissError);
+        return createServerErrorResponse(
+          "신고 기각에 실패했습니다.",
+          dismissError,
+        );
+      }
+
+      if (!dismissedData || dismissedData.length === 0) {
+        return createErrorResponse("이미 처리된 신고입니다.", 409, "CONFLICT");
+      }
+
+      return NextResponse.json({
+        success: true,
+        resolvedReportIds: [reportId],
+      });
+    }
+
+    // 2-2. 숨김: 대상 콘텐츠 숨김 처리
+    const { table, column } =
+      TARGET_COLUMNS[reportData.target_type as ReportTargetType];
+    const targetId = reportData[column];
+
+    const { error: hideError } = await supabase
+      .from(table)
+      .update({ is_hidden: true })
+      .eq("id", targetId);
+
+    if (hideError) {
+      console.error("Content hide error:", hideError);
+      return createServerErrorResponse(
+        "콘텐츠 숨김 처리에 실패했습니다.",
+        hideError,
+      );
+    }
+
+    // 3. 같은 대상에 대한 처리 대기 중인 신고 모두 처리 완료
+    const { data: resolvedData, error: resolveError } = await supabase
+      .from("reports")
+      .update({ status: "actioned", ...resolution })
+      .eq(column, targetId)
+      .eq("status", "open")
+      .select("id");
+
+    if (resolveError) {
+      console.error("Report resolve error:", resolveError);
+      return createServerErrorResponse(
+        "신고 상태 변경에 실패했습니다.",
+        resolveError,
+      );
+    }
+
+    const resolvedReportIds = (resolvedData || []).map((report) => report.id);
+
+    // 조회 후 다른 관리자가 이 신고를 먼저 기각한 경우 (숨김 처리는 반복해도 결과가 같음)
+    if (!resolvedReportIds.includes(reportId)) {
+      return createErrorResponse("이미 처리된 신고입니다.", 409, "CONFLICT");
+    }
+
+    return NextResponse.json({
+      success: true,
+      resolvedReportIds,
+    });
+  } catch (error) {
+    console.error("Admin report PATCH API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
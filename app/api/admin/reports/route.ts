@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { isCurrentUserAdmin } from "@/lib/admin";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { ReportStatus, ReportWithTarget } from "@/lib/types";
+
+/**
+ * 관리자 신고 검토 큐 API Route
+ *
+ * GET /api/admin/reports?status=open&limit=50&offset=0
+ * - 관리자 전용 (Clerk public metadata role: "admin")
+ * - 숨김 처리된 콘텐츠도 조회해야 하므로 service role 클라이언트 사용
+ * - 오래된 신고부터 정렬 (검토 대기 순서)
+ * - 신고자 핸들과 대상 미리보기(게시물 이미지/캡션, 댓글 내용, 프로필 핸들) 포함
+ *
+ * 신고 처리(숨김/기각)는 PATCH /api/admin/reports/[reportId]
+ */
+
+const REPORT_STATUSES: ReportStatus[] = ["open", "dismissed", "actioned"];
+
+export async function GET(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/admin/reports GET called");
+    }
+
+    // Clerk 인증 및 관리자 권한 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    if (!(await isCurrentUserAdmin())) {
+      return createForbiddenResponse("관리자만 접근할 수 있습니다.");
+    }
+
+    // 쿼리 파라미터
+    const searchParams = request.nextUrl.searchParams;
+    const status = (searchParams.get("status") || "open") as ReportStatus;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 100);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    if (!REPORT_STATUSES.includes(status)) {
+      return createBadRequestResponse("올바르지 않은 신고 상태입니다.");
+    }
+
+    const supabase = getServiceRoleClient();
+
+    // 신고 목록 조회 (신고자, 대상 정보 포함)
+    const {
+      data: reportsData,
+      error: reportsError,
+      count,
+    } = await supabase
+      .from("reports")
+      .select(
+        `
+        *,
+        reporter:users!reports_reporter_id_fkey (
+          username
+        ),
+        posts (
+          image_url,
+          caption,
+          is_hidden,
+          users (
+            username
+          )
+        ),
+        comments (
+          content,
+          is_hidden,
+          users (
+            username
+          )
+        ),
+        target_user:users!reports_user_id_fkey (
+          username,
+          is_hidden
+        )
+      `,
+        { count: "exact" },
+      )
+      .eq("status", status)
+      .order("created_at", { ascending: status === "open" })
+      .range(offset, offset + limit - 1);
+
+    if (reportsError) {
+      console.error("Reports fetch error:", reportsError);
+      return createServerErrorResponse(
+        "신고 목록을 불러오는데 실패했습니다.",
+        reportsError,
+      );
+    }
+
+    // 응답 포맷 맞추기
+    // 관계 조회 결과는 단일 객체이지만 타입 추론을 위해 배열 여부 확인
+    const pickOne = <T,>(value: T | T[] | null): T | null =>
+      Array.isArray(value) ? (value[0] ?? null) : value;
+
+    const reports: ReportWithTarget[] = (reportsData || []).map((report) => {
+      const reporter = pickOne(report.reporter);
+      const post = pickOne(report.posts);
+      const comment = pickOne(report.comments);
+      const targetUser = pickOne(report.target_user);
+      const author = pickOne(post?.users ?? comment?.users ?? null);
+
+      return {
+        id: report.id,
+        reporter_id: report.reporter_id,
+        target_type: report.target_type,
+        post_id: report.post_id,
+        comment_id: report.comment_id,
+        user_id: report.user_id,
+        reason: report.reason,
+        details: report.details,
+        status: report.status,
+        created_at: report.created_at,
+        resolved_at: report.resolved_at,
+        resolved_by: report.resolved_by,
+        reporter_username: reporter?.username || "알 수 없음",
+        target_username: targetUser?.username || author?.username || null,
+        target_image_url: post?.image_url || null,
+        target_text: post?.caption || comment?.content || null,
+        target_is_hidden: Boolean(
+          post?.is_hidden || comment?.is_hidden || targetUser?.is_hidden,
+        ),
+      };
+    });
+
+    const hasMore = count ? offset + limit < count : false;
+
+    return NextResponse.json({
+      data: reports,
+      pagination: {
+        limit,
+        offset,
+        hasMore,
+      },
+    });
+  } catch (error) {
+    console.error("Admin reports GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,263 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+import { RestrictedUser, User } from "@/lib/types";
+
+/**
+ * 차단 API Route
+ *
+ * GET /api/blocks - 내가 차단한 사용자 목록 (최신순)
+ * POST /api/blocks - 사용자 차단 (양방향 팔로우 관계 및 팔로우 요청 삭제)
+ * DELETE /api/blocks - 차단 해제
+ *
+ * 요청 본문(POST/DELETE): { user_id: string } // 대상 사용자의 Supabase UUID
+ */
+
+/** blocks + blocked 사용자 정보 조회 결과 (!inner join으로 단일 객체) */
+interface BlockRow {
+  id: string;
+  blocked_id: string;
+  created_at: string;
+  blocked: Pick<User, "name" | "clerk_id" | "username" | "avatar_url">;
+}
+
+/**
+ * 차단한 사용자 목록 조회 API
+ */
+export async function GET() {
+  try {
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 차단 목록 조회
+    const { data: blocksData, error: blocksError } = await supabase
+      .from("blocks")
+      .select(
+        `
+        id,
+        blocked_id,
+        created_at,
+        blocked:users!blocks_blocked_id_fkey!inner (
+          name,
+          clerk_id,
+          username,
+          avatar_url
+        )
+      `,
+      )
+      .eq("blocker_id", userData.id)
+      .order("created_at", { ascending: false })
+      .overrideTypes<BlockRow[], { merge: false }>();
+
+    if (blocksError) {
+      console.error("Blocks query error:", blocksError);
+      return createServerErrorResponse(
+        "차단 목록을 불러오는데 실패했습니다.",
+        blocksError,
+      );
+    }
+
+    const users: RestrictedUser[] = (blocksData || []).map((block) => {
+      const { blocked } = block;
+      return {
+        id: block.id,
+        user_id: block.blocked_id,
+        created_at: block.created_at,
+        name: blocked.name,
+        clerk_id: blocked.clerk_id,
+        username: blocked.username,
+        avatar_url: blocked.avatar_url,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: users,
+    });
+  } catch (error) {
+    console.error("Blocks GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 사용자 차단 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/blocks POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { user_id } = await request.json();
+
+    // 유효성 검증
+    if (!user_id) {
+      return createBadRequestResponse("차단할 사용자 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 자기 자신 차단 방지
+    if (userData.id === user_id) {
+      return createBadRequestResponse("자기 자신을 차단할 수 없습니다.");
+    }
+
+    // 3. 차단할 사용자 존재 확인
+    const { data: targetData, error: targetError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", user_id)
+      .single();
+
+    if (targetError || !targetData) {
+      console.error("Block target lookup error:", targetError);
+      return createNotFoundResponse("차단할 사용자를 찾을 수 없습니다.");
+    }
+
+    // 4. 차단 추가 (UNIQUE 제약조건으로 중복 방지)
+    const { data: blockData, error: blockError } = await supabase
+      .from("blocks")
+      .insert({
+        blocker_id: userData.id,
+        blocked_id: user_id,
+      })
+      .select()
+      .single();
+
+    if (blockError) {
+      if (blockError.code === "23505") {
+        return createErrorResponse("이미 차단한 사용자입니다.", 409, "CONFLICT");
+      }
+      console.error("Block insert error:", blockError);
+      return createServerErrorResponse("차단에 실패했습니다.", blockError);
+    }
+
+    // 5. 양방향 팔로우 관계 및 팔로우 요청 삭제 (실패해도 차단은 유지)
+    const { error: followsError } = await supabase
+      .from("follows")
+      .delete()
+      .or(
+        `and(follower_id.eq.${userData.id},following_id.eq.${user_id}),and(follower_id.eq.${user_id},following_id.eq.${userData.id})`,
+      );
+
+    if (followsError) {
+      console.error("Block follows cleanup error:", followsError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      block: blockData,
+    });
+  } catch (error) {
+    console.error("Blocks POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 차단 해제 API
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/blocks DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { user_id } = await request.json();
+
+    // 유효성 검증
+    if (!user_id) {
+      return createBadRequestResponse("차단 해제할 사용자 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 차단 해제
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("blocks")
+      .delete()
+      .eq("blocker_id", userData.id)
+      .eq("blocked_id", user_id)
+      .select();
+
+    if (deleteError) {
+      console.error("Block deletion error:", deleteError);
+      return createServerErrorResponse("차단 해제에 실패했습니다.", deleteError);
+    }
+
+    // 삭제된 레코드가 없는 경우 (차단하지 않았던 경우)
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("차단한 사용자가 아닙니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("Blocks DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
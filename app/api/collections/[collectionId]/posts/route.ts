@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+
+/**
+ * 컬렉션 게시물 API Route
+ *
+ * POST /api/collections/[collectionId]/posts - 컬렉션에 게시물 추가
+ *   (저장하지 않은 게시물이면 먼저 저장)
+ * DELETE /api/collections/[collectionId]/posts - 컬렉션에서 게시물 제거
+ *   (저장 상태는 유지)
+ *
+ * 요청 본문: { post_id: string }
+ * - 본인 컬렉션만 가능
+ */
+
+/**
+ * 현재 사용자와 컬렉션 소유 여부 확인
+ *
+ * @returns 본인 컬렉션이면 Supabase user_id, 아니면 null
+ */
+async function getCollectionOwnerId(
+  supabase: SupabaseClient,
+  clerkId: string,
+  collectionId: string,
+): Promise<string | null> {
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (userError || !userData) {
+    console.error("User lookup error:", userError);
+    return null;
+  }
+
+  const { data: collectionData, error: collectionError } = await supabase
+    .from("collections")
+    .select("id")
+    .eq("id", collectionId)
+    .eq("user_id", userData.id)
+    .maybeSingle();
+
+  if (collectionError || !collectionData) {
+    console.error("Collection lookup error:", collectionError);
+    return null;
+  }
+
+  return userData.id;
+}
+
+/**
+ * 컬렉션에 게시물 추가 API
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ collectionId: string }> },
+) {
+  try {
+    const { collectionId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/collections/[collectionId]/posts POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { post_id } = await request.json();
+
+    // 유효성 검증
+    if (!post_id) {
+      return createBadRequestResponse("게시물 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 및 컬렉션 소유 확인
+    const ownerId = await getCollectionOwnerId(supabase, userId, collectionId);
+    if (!ownerId) {
+      return createNotFoundResponse("컬렉션을 찾을 수 없습니다.");
+    }
+
+    // 2. 게시물 저장 (이미 저장한 게시물이면 그대로 사용)
+    const { error: saveError } = await supabase
+      .from("saves")
+      .upsert(
+        { user_id: ownerId, post_id },
+        { onConflict: "user_id,post_id", ignoreDuplicates: true },
+      );
+
+    if (saveError) {
+      // 존재하지 않는 게시물 (외래 키 에러)
+      if (saveError.code === "23503") {
+        return createNotFoundResponse("게시물을 찾을 수 없습니다.");
+      }
+      console.error("Save upsert error:", saveError);
+      return createServerErrorResponse("게시물 저장에 실패했습니다.", saveError);
+    }
+
+    const { data: saveData, error: saveLookupError } = await supabase
+      .from("saves")
+      .select("id")
+      .eq("user_id", ownerId)
+      .eq("post_id", post_id)
+      .single();
+
+    if (saveLookupError || !saveData) {
+      console.error("Save lookup error:", saveLookupError);
+      return createServerErrorResponse(
+        "게시물 저장에 실패했습니다.",
+        saveLookupError,
+      );
+    }
+
+    // 3. 컬렉션에 추가 (중복 방지: UNIQUE 제약조건 활용)
+    const { data: itemData, error: insertError } = await supabase
+      .from("collection_posts")
+      .insert({
+        collection_id: collectionId,
+        save_id: saveData.id,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return createErrorResponse(
+          "이미 컬렉션에 있는 게시물입니다.",
+          409,
+          "CONFLICT",
+        );
+      }
+      console.error("Collection post insertion error:", insertError);
+      return createServerErrorResponse(
+        "컬렉션에 추가하지 못했습니다.",
+        insertError,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: itemData,
+    });
+  } catch (error) {
+    console.error("Collection posts POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 컬렉션에서 게시물 제거 API
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ collectionId: string }> },
+) {
+  try {
+    const { collectionId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/collections/[collectionId]/posts DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { post_id } = await request.json();
+
+    // 유효성 검증
+    if (!post_id) {
+      return createBadRequestResponse("게시물 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 및 컬렉션 소유 확인
+    const ownerId = await getCollectionOwnerId(supabase, userId, collectionId);
+    if (!ownerId) {
+      return createNotFoundResponse("컬렉션을 찾을 수 없습니다.");
+    }
+
+    // 2. 저장 정보 확인
+    const { data: saveData, error: saveError } = await supabase
+      .from("saves")
+      .select("id")
+      .eq("user_id", ownerId)
+      .eq("post_id", post_id)
+      .maybeSingle();
+
+    if (saveError) {
+      console.error("Save lookup error:", saveError);
+      return createServerErrorResponse(
+        "컬렉션에서 제거하지 못했습니다.",
+        saveError,
+      );
+    }
+
+    if (!saveData) {
+      return createNotFoundResponse("컬렉션에 없는 게시물입니다.");
+    }
+
+    // 3. 컬렉션에서 제거
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("collection_posts")
+      .delete()
+      .eq("collection_id", collectionId)
+      .eq("save_id", saveData.id)
+      .select();
+
+    if (deleteError) {
+      console.error("Collection post deletion error:", deleteError);
+      return createServerErrorResponse(
+        "컬렉션에서 제거하지 못했습니다.",
+        deleteError,
+      );
+    }
+
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("컬렉션에 없는 게시물입니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: deleteData[0],
+    });
+  } catch (error) {
+    console.error("Collection posts DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+import {
+  MAX_COLLECTION_NAME_LENGTH,
+  normalizeCollectionName,
+} from "@/lib/utils/collection";
+
+/**
+ * 컬렉션 이름 변경/삭제 API Route
+ *
+ * PATCH /api/collections/[collectionId] - 이름 변경 (요청 본문: { name: string })
+ * DELETE /api/collections/[collectionId] - 컬렉션 삭제 (저장한 게시물은 유지)
+ * - 본인 컬렉션만 가능
+ */
+
+/**
+ * 컬렉션 이름 변경 API
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ collectionId: string }> },
+) {
+  try {
+    const { collectionId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/collections/[collectionId] PATCH called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const body = await request.json();
+    const name = normalizeCollectionName(body.name);
+
+    // 유효성 검증
+    if (!name) {
+      return createBadRequestResponse(
+        `컬렉션 이름은 1~${MAX_COLLECTION_NAME_LENGTH}자로 입력해주세요.`,
+      );
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 이름 변경 (본인 컬렉션만)
+    const { data: collectionData, error: updateError } = await supabase
+      .from("collections")
+      .update({ name })
+      .eq("id", collectionId)
+      .eq("user_id", userData.id)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      if (updateError.code === "23505") {
+        return createErrorResponse(
+          "같은 이름의 컬렉션이 이미 있습니다.",
+          409,
+          "CONFLICT",
+        );
+      }
+      console.error("Collection update error:", updateError);
+      return createServerErrorResponse(
+        "컬렉션 이름 변경에 실패했습니다.",
+        updateError,
+      );
+    }
+
+    if (!collectionData) {
+      return createNotFoundResponse("컬렉션을 찾을 수 없습니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: collectionData,
+    });
+  } catch (error) {
+    console.error("Collection PATCH API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 컬렉션 삭제 API
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ collectionId: string }> },
+) {
+  try {
+    const { collectionId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/collections/[collectionId] DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 컬렉션 삭제 (collection_posts는 CASCADE로 함께 삭제, saves는 유지)
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("collections")
+      .delete()
+      .eq("id", collectionId)
+      .eq("user_id", userData.id)
+      .select();
+
+    if (deleteError) {
+      console.error("Collection deletion error:", deleteError);
+      return createServerErrorResponse(
+        "컬렉션 삭제에 실패했습니다.",
+        deleteError,
+      );
+    }
+
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("컬렉션을 찾을 수 없습니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: deleteData[0],
+    });
+  } catch (error) {
+    console.error("Collection DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+import {
+  MAX_COLLECTION_NAME_LENGTH,
+  normalizeCollectionName,
+} from "@/lib/utils/collection";
+import { CollectionWithPreview } from "@/lib/types";
+
+/**
+ * 컬렉션 API Route
+ *
+ * GET /api/collections - 내 컬렉션 목록 (최신순, 게시물 수와 커버 이미지 포함)
+ * POST /api/collections - 컬렉션 생성
+ *
+ * 요청 본문(POST): { name: string }
+ */
+
+/** collection_posts + saves + posts(image_url) 조회 결과 (!inner join으로 단일 객체) */
+interface CollectionCoverRow {
+  created_at: string;
+  saves: { posts: { image_url: string } };
+}
+
+/**
+ * 컬렉션 커버 이미지 조회 (가장 최근에 추가한 게시물의 대표 이미지)
+ */
+async function getCollectionCoverImage(
+  supabase: SupabaseClient,
+  collectionId: string,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("collection_posts")
+    .select("created_at, saves!inner(posts!inner(image_url))")
+    .eq("collection_id", collectionId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+    .overrideTypes<CollectionCoverRow, { merge: false }>();
+
+  if (error) {
+    console.error("Collection cover query error:", error);
+    return null;
+  }
+
+  return data?.saves.posts.image_url ?? null;
+}
+
+/**
+ * 내 컬렉션 목록 조회 API
+ */
+export async function GET() {
+  try {
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 컬렉션 목록 조회 (게시물 수 포함)
+    const { data: collectionsData, error: collectionsError } = await supabase
+      .from("collections")
+      .select(
+        "id, user_id, name, created_at, updated_at, collection_posts(count)",
+      )
+      .eq("user_id", userData.id)
+      .order("created_at", { ascending: false });
+
+    if (collectionsError) {
+      console.error("Collections query error:", collectionsError);
+      return createServerErrorResponse(
+        "컬렉션 목록을 불러오는데 실패했습니다.",
+        collectionsError,
+      );
+    }
+
+    // 3. 컬렉션별 커버 이미지 조회
+    const collections: CollectionWithPreview[] = await Promise.all(
+      (collectionsData || []).map(async ({ collection_posts, ...collection }) => ({
+        ...collection,
+        posts_count: collection_posts?.[0]?.count ?? 0,
+        cover_image_url: await getCollectionCoverImage(supabase, collection.id),
+      })),
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: collections,
+    });
+  } catch (error) {
+    console.error("Collections GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 컬렉션 생성 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/collections POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const body = await request.json();
+    const name = normalizeCollectionName(body.name);
+
+    // 유효성 검증
+    if (!name) {
+      return createBadRequestResponse(
+        `컬렉션 이름은 1~${MAX_COLLECTION_NAME_LENGTH}자로 입력해주세요.`,
+      );
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 컬렉션 생성 (이름 중복 방지: UNIQUE 제약조건 활용)
+    const { data: collectionData, error: insertError } = await supabase
+      .from("collections")
+      .insert({
+        user_id: userData.id,
+        name,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return createErrorResponse(
+          "같은 이름의 컬렉션이 이미 있습니다.",
+          409,
+          "CONFLICT",
+        );
+      }
+      console.error("Collection insertion error:", insertError);
+      return createServerErrorResponse(
+        "컬렉션 생성에 실패했습니다.",
+        insertError,
+      );
+    }
+
+    const collection: CollectionWithPreview = {
+      ...collectionData,
+      posts_count: 0,
+      cover_image_url: null,
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: collection,
+    });
+  } catch (error) {
+    console.error("Collections POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+
+/**
+ * 댓글 좋아요 API Route
+ *
+ * POST /api/comments/likes - 댓글 좋아요 추가
+ * DELETE /api/comments/likes - 댓글 좋아요 제거
+ *
+ * 요청 본문: { comment_id: string }
+ * 응답: { success, like, likes_count }
+ */
+
+/**
+ * 댓글의 현재 좋아요 수 조회
+ */
+async function getCommentLikesCount(
+  supabase: SupabaseClient,
+  commentId: string,
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("comment_likes")
+    .select("id", { count: "exact", head: true })
+    .eq("comment_id", commentId);
+
+  if (error) {
+    console.error("Comment likes count error:", error);
+  }
+
+  return count || 0;
+}
+
+/**
+ * 댓글 좋아요 추가 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/comments/likes POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { comment_id } = await request.json();
+
+    // 유효성 검증
+    if (!comment_id) {
+      return createBadRequestResponse("댓글 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 댓글 존재 확인
+    const { data: commentData, error: commentError } = await supabase
+      .from("comments")
+      .select("id")
+      .eq("id", comment_id)
+      .single();
+
+    if (commentError || !commentData) {
+      console.error("Comment lookup error:", commentError);
+      return createNotFoundResponse("댓글을 찾을 수 없습니다.");
+    }
+
+    // 3. 좋아요 추가 (중복 방지: UNIQUE 제약조건 활용)
+    const { data: likeData, error: likeError } = await supabase
+      .from("comment_likes")
+      .insert({
+        comment_id,
+        user_id: userData.id,
+      })
+      .select()
+      .single();
+
+    if (likeError) {
+      // 이미 좋아요한 경우 (중복 키 에러)
+      if (likeError.code === "23505") {
+        return createErrorResponse(
+          "이미 좋아요한 댓글입니다.",
+          409,
+          "CONFLICT",
+        );
+      }
+      console.error("Comment like insertion error:", likeError);
+      return createServerErrorResponse(
+        "좋아요 추가에 실패했습니다.",
+        likeError,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      like: likeData,
+      likes_count: await getCommentLikesCount(supabase, comment_id),
+    });
+  } catch (error) {
+    console.error("Comment likes POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 댓글 좋아요 제거 API
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/comments/likes DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { comment_id } = await request.json();
+
+    // 유효성 검증
+    if (!comment_id) {
+      return createBadRequestResponse("댓글 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 좋아요 제거
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("comment_likes")
+      .delete()
+      .eq("comment_id", comment_id)
+      .eq("user_id", userData.id)
+      .select();
+
+    if (deleteError) {
+      console.error("Comment like deletion error:", deleteError);
+      return createServerErrorResponse(
+        "좋아요 제거에 실패했습니다.",
+        deleteError,
+      );
+    }
+
+    // 삭제된 레코드가 없는 경우 (좋아요가 없었던 경우)
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("좋아요가 존재하지 않습니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+      like: deleteData[0],
+      likes_count: await getCommentLikesCount(supabase, comment_id),
+    });
+  } catch (error) {
+    console.error("Comment likes DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
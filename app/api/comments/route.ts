@@ -8,11 +8,16 @@ import {
   createNotFoundResponse,
   createServerErrorResponse,
 } from "@/lib/utils/api-error";
+import { createNotification } from "@/lib/notifications";
+import { syncMentions } from "@/lib/mentions";
+import { isBlockedBetween } from "@/lib/blocks";
+import { canViewUserPosts } from "@/lib/privacy";
 
 /**
  * 댓글 관련 API
  *
- * POST /api/comments - 댓글 작성
+ * POST /api/comments - 댓글 작성 (parent_id 전달 시 답글, @멘션 저장)
+ *   게시물 작성자 또는 답글 대상과 차단 관계이거나, 볼 수 없는 비공개 계정의 게시물이면 작성 불가 (403)
  * DELETE /api/comments - 댓글 삭제
  */
 
@@ -29,7 +34,7 @@ export async function POST(request: NextRequest) {
     }
 
     // 요청 본문 파싱
-    const { post_id, content } = await request.json();
+    const { post_id, content, parent_id } = await request.json();
 
     // 유효성 검증
     if (
@@ -45,6 +50,10 @@ export async function POST(request: NextRequest) {
       return createBadRequestResponse("댓글은 500자 이하여야 합니다.");
     }
 
+    if (parent_id != null && typeof parent_id !== "string") {
+      return createBadRequestResponse("parent_id가 올바르지 않습니다.");
+    }
+
     const supabase = createClerkSupabaseClient();
 
     // Clerk ID로 Supabase user_id 조회
@@ -59,12 +68,74 @@ export async function POST(request: NextRequest) {
       return createNotFoundResponse("사용자를 찾을 수 없습니다.");
     }
 
+    // 게시물 존재 확인 (알림 수신자, 비공개 계정 확인을 위해 작성자 포함)
+    const { data: postData, error: postError } = await supabase
+      .from("posts")
+      .select("id, user_id, users!inner(is_private)")
+      .eq("id", post_id)
+      .single();
+
+    if (postError || !postData) {
+      console.error("Post lookup error:", postError);
+      return createNotFoundResponse("게시물을 찾을 수 없습니다.");
+    }
+
+    // 비공개 계정의 게시물은 본인과 승인된 팔로워만 댓글 작성 가능
+    const author = Array.isArray(postData.users)
+      ? postData.users[0]
+      : postData.users;
+
+    if (
+      !(await canViewUserPosts(supabase, userData.id, {
+        id: postData.user_id,
+        is_private: author.is_private,
+      }))
+    ) {
+      return createForbiddenResponse("비공개 계정의 게시물입니다.");
+    }
+
+    // 게시물 작성자와 차단 관계이면 댓글 작성 불가
+    if (await isBlockedBetween(supabase, userData.id, postData.user_id)) {
+      return createForbiddenResponse("이 게시물에 댓글을 달 수 없습니다.");
+    }
+
+    // 답글인 경우 부모 댓글 확인 (같은 게시물의 댓글이어야 함)
+    // 답글의 답글은 최상위 댓글에 연결하여 스레드 깊이를 1단계로 유지
+    let threadParentId: string | null = null;
+
+    if (parent_id) {
+      const { data: parentData, error: parentError } = await supabase
+        .from("comments")
+        .select("id, post_id, parent_id, user_id")
+        .eq("id", parent_id)
+        .single();
+
+      if (parentError || !parentData) {
+        console.error("Parent comment lookup error:", parentError);
+        return createNotFoundResponse("답글을 달 댓글을 찾을 수 없습니다.");
+      }
+
+      if (parentData.post_id !== post_id) {
+        return createBadRequestResponse(
+          "같은 게시물의 댓글에만 답글을 달 수 있습니다.",
+        );
+      }
+
+      // 답글 대상 댓글 작성자와 차단 관계이면 답글 작성 불가
+      if (await isBlockedBetween(supabase, userData.id, parentData.user_id)) {
+        return createForbiddenResponse("이 댓글에 답글을 달 수 없습니다.");
+      }
+
+      threadParentId = parentData.parent_id ?? parentData.id;
+    }
+
     // 댓글 삽입
     const { data: commentData, error: commentError } = await supabase
       .from("comments")
       .insert({
         post_id,
         user_id: userData.id,
+        parent_id: threadParentId,
         content: content.trim(),
       })
       .select(
@@ -72,12 +143,14 @@ export async function POST(request: NextRequest) {
         id,
         post_id,
         user_id,
+        parent_id,
         content,
         created_at,
         updated_at,
         users!inner (
           name,
-          clerk_id
+          clerk_id,
+          username
         )
       `,
       )
@@ -91,6 +164,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 게시물 작성자에게 알림 생성 (실패해도 댓글은 유지)
+    await createNotification(supabase, {
+      type: "comment",
+      recipientId: postData.user_id,
+      actorId: userData.id,
+      postId: post_id,
+      commentId: commentData.id,
+    });
+
+    // 댓글의 @멘션 저장 (실패해도 댓글은 유지)
+    await syncMentions(supabase, {
+      text: commentData.content,
+      actorId: userData.id,
+      postId: post_id,
+      commentId: commentData.id,
+    });
+
     // 응답 포맷 맞추기
     // users는 !inner join으로 단일 객체이지만 타입 추론을 위해 타입 단언 사용
     const users = Array.isArray(commentData.users)
@@ -101,11 +191,15 @@ export async function POST(request: NextRequest) {
       id: commentData.id,
       post_id: commentData.post_id,
       user_id: commentData.user_id,
+      parent_id: commentData.parent_id,
       content: commentData.content,
       created_at: commentData.created_at,
       updated_at: commentData.updated_at,
       name: users.name,
       clerk_id: users.clerk_id,
+      username: users.username,
+      likes_count: 0,
+      isLiked: false,
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { CursorPaginationInfo, Message } from "@/lib/types";
+import { decodeCursor, encodeCursor, getCursorFilter } from "@/lib/utils/cursor";
+import { MAX_MESSAGE_LENGTH, MESSAGES_PAGE_SIZE } from "@/lib/utils/message";
+import { getConversationMembers } from "@/lib/conversations";
+import { isBlockedBetween } from "@/lib/blocks";
+
+/**
+ * 메시지 API Route
+ *
+ * GET /api/conversations/[conversationId]/messages - 메시지 목록 (최신순, 커서 기반 페이지네이션)
+ * POST /api/conversations/[conversationId]/messages - 메시지 전송
+ *
+ * 참여자가 아니면 404
+ * 새 메시지는 Supabase Realtime(messages INSERT)으로 상대방에게 전달됩니다.
+ */
+
+/**
+ * 메시지 목록 조회
+ *
+ * GET /api/conversations/[conversationId]/messages?limit=30&cursor=...
+ * - 최신 메시지부터 반환 (화면에는 역순으로 표시)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> },
+) {
+  try {
+    const { conversationId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/conversations/[conversationId]/messages GET called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 쿼리 파라미터
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(
+      parseInt(searchParams.get("limit") || `${MESSAGES_PAGE_SIZE}`, 10),
+      100,
+    );
+    const cursor = decodeCursor(searchParams.get("cursor")); // 이전 응답의 nextCursor
+
+    if (cursor === undefined) {
+      return createBadRequestResponse("잘못된 cursor입니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 대화 참여자 확인
+    const members = await getConversationMembers(
+      supabase,
+      conversationId,
+      userData.id,
+    );
+    if (!members) {
+      return createNotFoundResponse("대화를 찾을 수 없습니다.");
+    }
+
+    // 3. 메시지 조회 (다음 페이지 확인을 위해 limit + 1개)
+    let messagesQuery = supabase
+      .from("messages")
+      .select("id, conversation_id, sender_id, content, created_at")
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      messagesQuery = messagesQuery.or(getCursorFilter(cursor));
+    }
+
+    const { data: messagesPage, error: messagesError } = await messagesQuery;
+
+    if (messagesError) {
+      console.error("Messages query error:", messagesError);
+      return createServerErrorResponse(
+        "메시지를 불러오는데 실패했습니다.",
+        messagesError,
+      );
+    }
+
+    const hasMore = (messagesPage?.length || 0) > limit;
+    const messages: Message[] = (messagesPage || []).slice(0, limit);
+    const lastMessage = messages[messages.length - 1];
+
+    const pagination: CursorPaginationInfo = {
+      limit,
+      hasMore,
+      nextCursor: hasMore
+        ? encodeCursor({ createdAt: lastMessage.created_at, id: lastMessage.id })
+        : null,
+    };
+
+    return NextResponse.json({
+      data: messages,
+      pagination,
+    });
+  } catch (error) {
+    console.error("Messages GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 메시지 전송
+ *
+ * POST /api/conversations/[conversationId]/messages
+ * 요청 본문: { content: string }
+ * - 차단 관계가 되면 더 이상 보낼 수 없음
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> },
+) {
+  try {
+    const { conversationId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/conversations/[conversationId]/messages POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const body = await request.json();
+    const { content } = body;
+
+    // 유효성 검증
+    if (!content || typeof content !== "string" || !content.trim()) {
+      return createBadRequestResponse("메시지 내용을 입력해주세요.");
+    }
+
+    if (content.trim().length > MAX_MESSAGE_LENGTH) {
+      return createBadRequestResponse(
+        `메시지는 ${MAX_MESSAGE_LENGTH}자 이하여야 합니다.`,
+      );
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 대화 참여자 확인
+    const members = await getConversationMembers(
+      supabase,
+      conversationId,
+      userData.id,
+    );
+    if (!members) {
+      return createNotFoundResponse("대화를 찾을 수 없습니다.");
+    }
+
+    // 3. 차단 관계 확인
+    if (await isBlockedBetween(supabase, userData.id, members.other.user.id)) {
+      return createForbiddenResponse("메시지를 보낼 수 없는 사용자입니다.");
+    }
+
+    // 4. 메시지 저장 (대화방 마지막 메시지, 보낸 사람 읽음 시각은 DB 트리거에서 갱신)
+    const { data: messageData, error: messageError } = await supabase
+      .from("messages")
+      .insert({
+        conversation_id: conversationId,
+        sender_id: userData.id,
+        content: content.trim(),
+      })
+      .select("id, conversation_id, sender_id, content, created_at")
+      .single();
+
+    if (messageError) {
+      console.error("Message creation error:", messageError);
+      return createServerErrorResponse(
+        "메시지 전송에 실패했습니다.",
+        messageError,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: messageData as Message,
+    });
+  } catch (error) {
+    console.error("Messages POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
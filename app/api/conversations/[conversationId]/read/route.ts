@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+
+/**
+ * 대화방 읽음 처리 API Route
+ *
+ * POST /api/conversations/[conversationId]/read
+ * - 현재 사용자의 last_read_at을 대화방의 마지막 메시지 작성 시각으로 갱신
+ *   (서버 시계 대신 메시지 시각을 사용해 읽음 확인 비교가 어긋나지 않도록)
+ * - 갱신 내용은 Supabase Realtime(conversation_participants UPDATE)으로 상대방에게 전달
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> },
+) {
+  try {
+    const { conversationId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/conversations/[conversationId]/read POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 대화방 마지막 메시지 시각 조회 (참여자가 아니면 RLS로 조회되지 않음)
+    const { data: conversationData, error: conversationError } = await supabase
+      .from("conversations")
+      .select("id, last_message_at")
+      .eq("id", conversationId)
+      .maybeSingle();
+
+    if (conversationError) {
+      console.error("Conversation lookup error:", conversationError);
+      return createServerErrorResponse(
+        "대화방 조회에 실패했습니다.",
+        conversationError,
+      );
+    }
+
+    if (!conversationData) {
+      return createNotFoundResponse("대화를 찾을 수 없습니다.");
+    }
+
+    if (!conversationData.last_message_at) {
+      return NextResponse.json({ success: true, last_read_at: null });
+    }
+
+    // 3. 읽음 시각 갱신 (이미 더 최근까지 읽었으면 변경 없음)
+    const { error: updateError } = await supabase
+      .from("conversation_participants")
+      .update({ last_read_at: conversationData.last_message_at })
+      .eq("conversation_id", conversationId)
+      .eq("user_id", userData.id)
+      .or(
+        `last_read_at.is.null,last_read_at.lt."${conversationData.last_message_at}"`,
+      );
+
+    if (updateError) {
+      console.error("Read status update error:", updateError);
+      return createServerErrorResponse(
+        "읽음 처리에 실패했습니다.",
+        updateError,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      last_read_at: conversationData.last_message_at,
+    });
+  } catch (error) {
+    console.error("Conversation read API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { ConversationDetail } from "@/lib/types";
+import { getConversationMembers } from "@/lib/conversations";
+
+/**
+ * 대화방 상세 API Route
+ *
+ * GET /api/conversations/[conversationId] - 대화 상대 정보 + 상대방 읽음 시각 (읽음 확인용)
+ *
+ * 참여자가 아니면 404
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> },
+) {
+  try {
+    const { conversationId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/conversations/[conversationId] GET called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 대화 참여자 확인
+    const members = await getConversationMembers(
+      supabase,
+      conversationId,
+      userData.id,
+    );
+    if (!members) {
+      return createNotFoundResponse("대화를 찾을 수 없습니다.");
+    }
+
+    const conversation: ConversationDetail = {
+      id: conversationId,
+      current_user_id: userData.id,
+      other_user: members.other.user,
+      other_last_read_at: members.other.last_read_at,
+    };
+
+    return NextResponse.json({ data: conversation });
+  } catch (error) {
+    console.error("Conversation GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { ConversationWithPreview } from "@/lib/types";
+import { getBlockedUserIds, isBlockedBetween } from "@/lib/blocks";
+
+/**
+ * 다이렉트 메시지 대화방 API Route
+ *
+ * GET /api/conversations - 받은 메시지함 (내가 참여한 대화방 + 마지막 메시지, 최근 메시지 순)
+ * POST /api/conversations - 1:1 대화방 시작 (이미 있으면 기존 대화방 반환)
+ *
+ * 대화방/메시지 테이블은 RLS로 참여자에게만 조회됩니다.
+ */
+
+/**
+ * 받은 메시지함 조회
+ *
+ * GET /api/conversations
+ * - 인증 필요
+ * - 메시지가 한 번도 오가지 않은 대화방과 차단 관계인 사용자와의 대화방은 제외
+ * - hasUnread: 상대방이 보낸 마지막 메시지를 아직 읽지 않음
+ * - unreadCount: 읽지 않은 대화방 수
+ */
+export async function GET() {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/conversations GET called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 내가 참여한 대화방 + 차단 관계 사용자
+    const [participationsResult, blockedUserIds] = await Promise.all([
+      supabase
+        .from("conversation_participants")
+        .select("conversation_id, last_read_at")
+        .eq("user_id", userData.id),
+      getBlockedUserIds(supabase, userData.id),
+    ]);
+
+    if (participationsResult.error) {
+      console.error("Participations query error:", participationsResult.error);
+      return createServerErrorResponse(
+        "메시지함을 불러오는데 실패했습니다.",
+        participationsResult.error,
+      );
+    }
+
+    const lastReadAtMap = new Map(
+      (participationsResult.data || []).map((participation) => [
+        participation.conversation_id,
+        participation.last_read_at as string | null,
+      ]),
+    );
+
+    if (lastReadAtMap.size === 0) {
+      return NextResponse.json({ data: [], unreadCount: 0 });
+    }
+
+    // 3. 대화방 조회 (참여자, 마지막 메시지 포함)
+    const { data: conversationsData, error: conversationsError } =
+      await supabase
+        .from("conversations")
+        .select(
+          `
+          id,
+          last_message_at,
+          last_message:messages!conversations_last_message_id_fkey (
+            id,
+            conversation_id,
+            sender_id,
+            content,
+            created_at
+          ),
+          conversation_participants (
+            user_id,
+            users!inner (
+              id,
+              clerk_id,
+              name,
+              username,
+              avatar_url
+            )
+          )
+        `,
+        )
+        .in("id", Array.from(lastReadAtMap.keys()))
+        .not("last_message_at", "is", null)
+        .order("last_message_at", { ascending: false });
+
+    if (conversationsError) {
+      console.error("Conversations query error:", conversationsError);
+      return createServerErrorResponse(
+        "메시지함을 불러오는데 실패했습니다.",
+        conversationsError,
+      );
+    }
+
+    // 4. 응답 포맷 맞추기
+    // 관계 조회 결과는 단일 객체이지만 타입 추론을 위해 배열 여부 확인
+    const pickOne = <T,>(value: T | T[] | null): T | null =>
+      Array.isArray(value) ? (value[0] ?? null) : value;
+    const blocked = new Set(blockedUserIds);
+
+    const conversations: ConversationWithPreview[] = [];
+
+    (conversationsData || []).forEach((conversation) => {
+      const otherParticipant = conversation.conversation_participants.find(
+        (participant) => participant.user_id !== userData.id,
+      );
+      const otherUser = pickOne(otherParticipant?.users ?? null);
+
+      if (!otherUser || blocked.has(otherUser.id)) {
+        return;
+      }
+
+      const lastMessage = pickOne(conversation.last_message);
+      const lastReadAt = lastReadAtMap.get(conversation.id) ?? null;
+      const hasUnread =
+        !!lastMessage &&
+        lastMessage.sender_id !== userData.id &&
+        (!lastReadAt ||
+          new Date(lastMessage.created_at).getTime() >
+            new Date(lastReadAt).getTime());
+
+      conversations.push({
+        id: conversation.id,
+        other_user: otherUser,
+        last_message: lastMessage,
+        last_message_at: conversation.last_message_at,
+        hasUnread,
+      });
+    });
+
+    return NextResponse.json({
+      data: conversations,
+      unreadCount: conversations.filter((conversation) => conversation.hasUnread)
+        .length,
+    });
+  } catch (error) {
+    console.error("Conversations GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 1:1 대화방 시작
+ *
+ * POST /api/conversations
+ * 요청 본문: { user_id: string } // 대화할 사용자의 Supabase UUID
+ * - 인증 필요
+ * - 자기 자신, 숨김 처리된 사용자, 차단 관계인 사용자와는 대화 불가
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/conversations POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const body = await request.json();
+    const { user_id } = body;
+
+    // 유효성 검증
+    if (!user_id || typeof user_id !== "string") {
+      return createBadRequestResponse("대화할 사용자 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 대화할 사용자 존재 확인
+    const { data: otherUserData, error: otherUserError } = await supabase
+      .from("users")
+      .select("id, is_hidden")
+      .eq("id", user_id)
+      .single();
+
+    if (otherUserError || !otherUserData || otherUserData.is_hidden) {
+      console.error("Other user lookup error:", otherUserError);
+      return createNotFoundResponse("대화할 사용자를 찾을 수 없습니다.");
+    }
+
+    // 3. 자기 자신과의 대화 방지
+    if (userData.id === user_id) {
+      return createBadRequestResponse("자기 자신에게 메시지를 보낼 수 없습니다.");
+    }
+
+    // 4. 차단 관계 확인 (어느 쪽이 차단했든 대화 불가)
+    if (await isBlockedBetween(supabase, userData.id, user_id)) {
+      return createForbiddenResponse("메시지를 보낼 수 없는 사용자입니다.");
+    }
+
+    // 5. 대화방 조회 또는 생성 (대화방과 참여자는 DB 함수에서 함께 생성)
+    const { data: conversationId, error: conversationError } =
+      await supabase.rpc("get_or_create_direct_conversation", {
+        other_user_id: user_id,
+      });
+
+    if (conversationError || !conversationId) {
+      console.error("Conversation creation error:", conversationError);
+      return createServerErrorResponse(
+        "대화방을 만드는데 실패했습니다.",
+        conversationError,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation_id: conversationId as string,
+    });
+  } catch (error) {
+    console.error("Conversations POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
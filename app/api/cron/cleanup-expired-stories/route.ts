@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  createServerErrorResponse,
+  createUnauthorizedResponse,
+} from "@/lib/utils/api-error";
+import { isAuthorizedCronRequest } from "@/lib/utils/cron";
+import { extractStoragePath, removeStorageFiles } from "@/lib/utils/storage";
+
+/**
+ * 만료된 스토리 정리 API (Vercel Cron, vercel.json 참고)
+ *
+ * GET /api/cron/cleanup-expired-stories
+ * - Authorization: Bearer ${CRON_SECRET} 헤더가 있어야 실행
+ * - expires_at이 지난 스토리의 Storage 이미지를 먼저 삭제한 뒤 행 삭제 (조회 기록은 CASCADE)
+ *   이미지 삭제에 실패하면 행을 남겨두고 다음 실행에서 다시 시도
+ */
+
+const BATCH_SIZE = 500;
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return createUnauthorizedResponse();
+  }
+
+  try {
+    const supabase = getServiceRoleClient();
+    const now = new Date().toISOString();
+    let removedCount = 0;
+
+    while (true) {
+      const { data: stories, error: storiesError } = await supabase
+        .from("stories")
+        .select("id, image_url")
+        .lte("expires_at", now)
+        .limit(BATCH_SIZE);
+
+      if (storiesError) {
+        throw storiesError;
+      }
+
+      if (!stories || stories.length === 0) {
+        break;
+      }
+
+      await removeStorageFiles(
+        supabase,
+        stories
+          .map((story) => extractStoragePath(story.image_url))
+          .filter((path): path is string => path !== null),
+      );
+
+      const { error: deleteError } = await supabase
+        .from("stories")
+        .delete()
+        .in(
+          "id",
+          stories.map((story) => story.id),
+        );
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      removedCount += stories.length;
+      if (stories.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return NextResponse.json({ success: true, removedCount });
+  } catch (error) {
+    console.error("Expired story cleanup API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  createServerErrorResponse,
+  createUnauthorizedResponse,
+} from "@/lib/utils/api-error";
+import { isAuthorizedCronRequest } from "@/lib/utils/cron";
+import {
+  getPendingUploadFolder,
+  listStorageFiles,
+  removeStorageFiles,
+} from "@/lib/utils/storage";
+
+/**
+ * 방치된 임시 업로드 정리 API (Vercel Cron, vercel.json 참고)
+ *
+ * GET /api/cron/cleanup-pending-uploads
+ * - Authorization: Bearer ${CRON_SECRET} 헤더가 있어야 실행
+ * - pending_uploads에 기록된 업로드 중 일정 시간이 지나도 게시물 생성까지 이어지지 않은
+ *   임시 폴더([clerkId]/pending/[uploadId]/)를 삭제한 뒤 기록 삭제
+ *   (원본은 EXIF/GPS 정보가 남아 있는 상태로 공개 버킷에 있으므로 오래 두지 않음)
+ */
+
+const PENDING_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000; // 24시간
+const BATCH_SIZE = 100;
+
+/** pending_uploads + 작성자 Clerk ID (임시 폴더 경로 계산용) */
+interface PendingUploadRow {
+  id: string;
+  users: { clerk_id: string };
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return createUnauthorizedResponse();
+  }
+
+  try {
+    const supabase = getServiceRoleClient();
+    const cutoff = new Date(Date.now() - PENDING_UPLOAD_TTL_MS).toISOString();
+    let removedCount = 0;
+
+    while (true) {
+      const { data: pendingUploads, error: pendingError } = await supabase
+        .from("pending_uploads")
+        .select("id, users!inner(clerk_id)")
+        .lt("created_at", cutoff)
+        .limit(BATCH_SIZE)
+        .overrideTypes<PendingUploadRow[], { merge: false }>();
+
+      if (pendingError) {
+        throw pendingError;
+      }
+
+      if (!pendingUploads || pendingUploads.length === 0) {
+        break;
+      }
+
+      const paths: string[] = [];
+      for (const pendingUpload of pendingUploads) {
+        const files = await listStorageFiles(
+          supabase,
+          getPendingUploadFolder(
+            pendingUpload.users.clerk_id,
+            pendingUpload.id,
+          ),
+        );
+        paths.push(...files.map((file) => file.path));
+      }
+
+      await removeStorageFiles(supabase, paths);
+
+      const { error: deleteError } = await supabase
+        .from("pending_uploads")
+        .delete()
+        .in(
+          "id",
+          pendingUploads.map((pendingUpload) => pendingUpload.id),
+        );
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      removedCount += pendingUploads.length;
+      if (pendingUploads.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return NextResponse.json({ success: true, removedCount });
+  } catch (error) {
+    console.error("Pending upload cleanup API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,249 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { createNotification } from "@/lib/notifications";
+import { FollowRequest, User } from "@/lib/types";
+
+/**
+ * 받은 팔로우 요청 API Route (비공개 계정)
+ *
+ * GET /api/follows/requests - 받은 팔로우 요청 목록 (최신순)
+ * POST /api/follows/requests - 팔로우 요청 승인
+ * DELETE /api/follows/requests - 팔로우 요청 거절
+ *
+ * 요청 본문(POST/DELETE): { follower_id: string } // 요청한 사용자의 Supabase UUID
+ */
+
+/** follows + follower 사용자 정보 조회 결과 (!inner join으로 단일 객체) */
+interface FollowRequestRow {
+  id: string;
+  follower_id: string;
+  created_at: string;
+  follower: Pick<User, "name" | "clerk_id" | "username" | "avatar_url">;
+}
+
+/**
+ * 받은 팔로우 요청 목록 조회 API
+ */
+export async function GET() {
+  try {
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 승인 대기 중인 팔로우 요청 조회
+    const { data: requestsData, error: requestsError } = await supabase
+      .from("follows")
+      .select(
+        `
+        id,
+        follower_id,
+        created_at,
+        follower:users!follows_follower_id_fkey!inner (
+          name,
+          clerk_id,
+          username,
+          avatar_url
+        )
+      `,
+      )
+      .eq("following_id", userData.id)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .overrideTypes<FollowRequestRow[], { merge: false }>();
+
+    if (requestsError) {
+      console.error("Follow requests query error:", requestsError);
+      return createServerErrorResponse(
+        "팔로우 요청을 불러오는데 실패했습니다.",
+        requestsError,
+      );
+    }
+
+    const requests: FollowRequest[] = (requestsData || []).map((request) => {
+      const { follower } = request;
+      return {
+        id: request.id,
+        follower_id: request.follower_id,
+        created_at: request.created_at,
+        name: follower.name,
+        clerk_id: follower.clerk_id,
+        username: follower.username,
+        avatar_url: follower.avatar_url,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: requests,
+    });
+  } catch (error) {
+    console.error("Follow requests GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 팔로우 요청 승인 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/follows/requests POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { follower_id } = await request.json();
+
+    // 유효성 검증
+    if (!follower_id) {
+      return createBadRequestResponse("요청한 사용자 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 대기 중인 요청을 승인 상태로 변경
+    const { data: followData, error: updateError } = await supabase
+      .from("follows")
+      .update({ status: "accepted" })
+      .eq("follower_id", follower_id)
+      .eq("following_id", userData.id)
+      .eq("status", "pending")
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Follow request approve error:", updateError);
+      return createServerErrorResponse(
+        "팔로우 요청 승인에 실패했습니다.",
+        updateError,
+      );
+    }
+
+    if (!followData) {
+      return createNotFoundResponse("팔로우 요청이 존재하지 않습니다.");
+    }
+
+    // 3. 팔로우 알림 생성 (실패해도 승인은 유지)
+    await createNotification(supabase, {
+      type: "follow",
+      recipientId: userData.id,
+      actorId: follower_id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      follow: followData,
+    });
+  } catch (error) {
+    console.error("Follow requests POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 팔로우 요청 거절 API
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/follows/requests DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { follower_id } = await request.json();
+
+    // 유효성 검증
+    if (!follower_id) {
+      return createBadRequestResponse("요청한 사용자 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 대기 중인 요청 삭제
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("follows")
+      .delete()
+      .eq("follower_id", follower_id)
+      .eq("following_id", userData.id)
+      .eq("status", "pending")
+      .select();
+
+    if (deleteError) {
+      console.error("Follow request deny error:", deleteError);
+      return createServerErrorResponse(
+        "팔로우 요청 거절에 실패했습니다.",
+        deleteError,
+      );
+    }
+
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("팔로우 요청이 존재하지 않습니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("Follow requests DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
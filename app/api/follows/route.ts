@@ -4,18 +4,22 @@ import { createClerkSupabaseClient } from "@/lib/supabase/server";
 import {
   createUnauthorizedResponse,
   createBadRequestResponse,
+  createForbiddenResponse,
   createNotFoundResponse,
   createServerErrorResponse,
   createErrorResponse,
 } from "@/lib/utils/api-error";
+import { createNotification, deleteNotification } from "@/lib/notifications";
+import { isBlockedBetween } from "@/lib/blocks";
 
 /**
  * 팔로우 API Route
  *
- * POST /api/follows - 팔로우 추가
- * DELETE /api/follows - 팔로우 제거
+ * POST /api/follows - 팔로우 추가 (비공개 계정이면 승인 대기 상태의 팔로우 요청, 차단 관계면 403)
+ * DELETE /api/follows - 팔로우 제거 (보낸 팔로우 요청 취소 포함)
  *
  * 요청 본문: { following_id: string } // 팔로우할 사용자의 Supabase UUID
+ * 팔로우 요청 승인/거절은 /api/follows/requests에서 처리
  */
 
 /**
@@ -57,9 +61,13 @@ export async function POST(request: NextRequest) {
       return createNotFoundResponse("사용자를 찾을 수 없습니다.");
     }
 
-    // 2. 팔로우할 사용자 존재 확인
+    // 2. 팔로우할 사용자 존재 확인 (비공개 계정 여부 포함)
     const { data: followingUserData, error: followingUserError } =
-      await supabase.from("users").select("id").eq("id", following_id).single();
+      await supabase
+        .from("users")
+        .select("id, is_private")
+        .eq("id", following_id)
+        .single();
 
     if (followingUserError || !followingUserData) {
       console.error("Following user lookup error:", followingUserError);
@@ -71,12 +79,19 @@ export async function POST(request: NextRequest) {
       return createBadRequestResponse("자기 자신을 팔로우할 수 없습니다.");
     }
 
-    // 4. 팔로우 추가 (UNIQUE 제약조건으로 중복 방지)
+    // 4. 차단 관계 확인 (어느 쪽이 차단했든 팔로우 불가)
+    if (await isBlockedBetween(supabase, userData.id, following_id)) {
+      return createForbiddenResponse("팔로우할 수 없는 사용자입니다.");
+    }
+
+    // 5. 팔로우 추가 (UNIQUE 제약조건으로 중복 방지)
+    // 비공개 계정은 승인 전까지 pending 상태로 저장
     const { data: followData, error: followError } = await supabase
       .from("follows")
       .insert({
         follower_id: userData.id,
         following_id: following_id,
+        status: followingUserData.is_private ? "pending" : "accepted",
       })
       .select()
       .single();
@@ -85,7 +100,7 @@ export async function POST(request: NextRequest) {
       // UNIQUE 제약조건 위반 (이미 팔로우 중)
       if (followError.code === "23505") {
         return createErrorResponse(
-          "이미 팔로우하고 있습니다.",
+          "이미 팔로우하고 있거나 팔로우 요청을 보냈습니다.",
           409,
           "CONFLICT",
         );
@@ -101,6 +116,16 @@ export async function POST(request: NextRequest) {
       console.log("Follow created successfully:", followData.id);
     }
 
+    // 6. 팔로우 대상에게 알림 생성 (실패해도 팔로우는 유지)
+    // 팔로우 요청은 알림 대신 활동 페이지의 팔로우 요청 목록에 표시
+    if (followData.status === "accepted") {
+      await createNotification(supabase, {
+        type: "follow",
+        recipientId: following_id,
+        actorId: userData.id,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       follow: followData,
@@ -175,6 +200,13 @@ export async function DELETE(request: NextRequest) {
       console.log("Follow removed successfully:", deleteData[0].id);
     }
 
+    // 3. 팔로우 알림 삭제
+    await deleteNotification(supabase, {
+      type: "follow",
+      actorId: userData.id,
+      recipientId: following_id,
+    });
+
     return NextResponse.json({
       success: true,
     });
@@ -4,15 +4,18 @@ import { createClerkSupabaseClient } from "@/lib/supabase/server";
 import {
   createUnauthorizedResponse,
   createBadRequestResponse,
+  createForbiddenResponse,
   createNotFoundResponse,
   createServerErrorResponse,
   createErrorResponse,
 } from "@/lib/utils/api-error";
+import { createNotification, deleteNotification } from "@/lib/notifications";
+import { canViewUserPosts } from "@/lib/privacy";
 
 /**
  * 좋아요 API Route
  *
- * POST /api/likes - 좋아요 추가
+ * POST /api/likes - 좋아요 추가 (볼 수 없는 비공개 계정의 게시물이면 403)
  * DELETE /api/likes - 좋아요 제거
  *
  * 요청 본문: { post_id: string }
@@ -63,10 +66,10 @@ export async function POST(request: NextRequest) {
       return createNotFoundResponse("사용자를 찾을 수 없습니다.");
     }
 
-    // 2. 게시물 존재 확인
+    // 2. 게시물 존재 확인 (알림 수신자, 비공개 계정 확인을 위해 작성자 포함)
     const { data: postData, error: postError } = await supabase
       .from("posts")
-      .select("id")
+      .select("id, user_id, users!inner(is_private)")
       .eq("id", post_id)
       .single();
 
@@ -75,6 +78,20 @@ export async function POST(request: NextRequest) {
       return createNotFoundResponse("게시물을 찾을 수 없습니다.");
     }
 
+    // 비공개 계정의 게시물은 본인과 승인된 팔로워만 좋아요 가능
+    const author = Array.isArray(postData.users)
+      ? postData.users[0]
+      : postData.users;
+
+    if (
+      !(await canViewUserPosts(supabase, userData.id, {
+        id: postData.user_id,
+        is_private: author.is_private,
+      }))
+    ) {
+      return createForbiddenResponse("비공개 계정의 게시물입니다.");
+    }
+
     // 3. 좋아요 추가 (중복 방지: UNIQUE 제약조건 활용)
     const { data: likeData, error: likeError } = await supabase
       .from("likes")
@@ -105,6 +122,14 @@ export async function POST(request: NextRequest) {
       console.log("Like added successfully:", likeData.id);
     }
 
+    // 4. 게시물 작성자에게 알림 생성 (실패해도 좋아요는 유지)
+    await createNotification(supabase, {
+      type: "like",
+      recipientId: postData.user_id,
+      actorId: userData.id,
+      postId: post_id,
+    });
+
     return NextResponse.json({
       success: true,
       like: likeData,
@@ -185,6 +210,13 @@ export async function DELETE(request: NextRequest) {
       console.log("Like removed successfully:", deleteData[0].id);
     }
 
+    // 3. 좋아요 알림 삭제
+    await deleteNotification(supabase, {
+      type: "like",
+      actorId: userData.id,
+      postId: post_id,
+    });
+
     return NextResponse.json({
       success: true,
       like: deleteData[0],
@@ -4,8 +4,10 @@ import { createClerkSupabaseClient } from "@/lib/supabase/server";
 import {
   createUnauthorizedResponse,
   createServerErrorResponse,
+  createBadRequestResponse,
 } from "@/lib/utils/api-error";
-import { PostWithUser } from "@/lib/types";
+import { CursorPaginationInfo, PostWithUser } from "@/lib/types";
+import { decodeCursor, encodeCursor, getCursorFilter } from "@/lib/utils/cursor";
 
 /**
  * 사용자가 좋아요한 게시물 목록 조회 API
@@ -13,7 +15,8 @@ import { PostWithUser } from "@/lib/types";
  * GET /api/likes/user
  * - 인증 필요
  * - 현재 사용자가 좋아요한 게시물 목록 반환
- * - 페이지네이션 지원 (limit, offset)
+ * - 커서 기반 페이지네이션 지원 (limit, cursor / includeTotal=true 시 총 개수 포함)
+ * - 좋아요를 누른 순서 (likes.created_at, likes.id) 기준 최신순
  */
 export async function GET(request: NextRequest) {
   try {
@@ -26,7 +29,12 @@ export async function GET(request: NextRequest) {
     // 쿼리 파라미터
     const searchParams = request.nextUrl.searchParams;
     const limit = parseInt(searchParams.get("limit") || "10", 10);
-    const offset = parseInt(searchParams.get("offset") || "0", 10);
+    const cursor = decodeCursor(searchParams.get("cursor")); // 이전 응답의 nextCursor
+    const includeTotal = searchParams.get("includeTotal") === "true";
+
+    if (cursor === undefined) {
+      return createBadRequestResponse("잘못된 cursor입니다.");
+    }
 
     const supabase = createClerkSupabaseClient();
 
@@ -45,13 +53,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // 2. 사용자가 좋아요한 게시물 ID 조회
-    const { data: likes, error: likesError } = await supabase
+    // 2. 사용자가 좋아요한 게시물 ID 조회 (다음 페이지 확인을 위해 limit + 1개)
+    let likesQuery = supabase
       .from("likes")
-      .select("post_id")
+      .select("id, post_id, created_at")
       .eq("user_id", userData.id)
       .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      likesQuery = likesQuery.or(getCursorFilter(cursor));
+    }
+
+    const { data: likesPage, error: likesError } = await likesQuery;
 
     if (likesError) {
       console.error("Likes fetch error:", likesError);
@@ -61,7 +76,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const postIds = likes?.map((like) => like.post_id) || [];
+    const hasMore = (likesPage?.length || 0) > limit;
+    const likes = (likesPage || []).slice(0, limit);
+    const postIds = likes.map((like) => like.post_id);
     let postsWithStats: PostWithUser[] = [];
 
     // 3. 게시물 정보 및 통계 조회 (post_stats 뷰 활용)
@@ -74,12 +91,14 @@ export async function GET(request: NextRequest) {
           image_url,
           caption,
           created_at,
+          updated_at,
           likes_count,
           comments_count,
           users!inner (
             id,
             clerk_id,
             name,
+            username,
             created_at
           )
         `)
@@ -94,6 +113,17 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      // 게시물 이미지 목록 조회 (캐러셀용, 실패해도 대표 이미지로 표시)
+      const { data: mediaData, error: mediaError } = await supabase
+        .from("post_media")
+        .select("id, post_id, image_url, position, created_at, width, height, blurhash, variants")
+        .in("post_id", postIds)
+        .order("position", { ascending: true });
+
+      if (mediaError) {
+        console.error("Post media fetch error:", mediaError);
+      }
+
       if (postStats) {
         // PostWithUser 형식으로 변환
         postsWithStats = postStats.map((stat: any) => ({
@@ -101,35 +131,53 @@ export async function GET(request: NextRequest) {
           user_id: stat.user_id,
           clerk_id: stat.users.clerk_id,
           name: stat.users.name,
+          username: stat.users.username,
           image_url: stat.image_url,
           caption: stat.caption,
           created_at: stat.created_at,
-          updated_at: stat.created_at, // post_stats에는 updated_at이 없으므로 created_at 사용
+          updated_at: stat.updated_at,
+          media: (mediaData || []).filter(
+            (media) => media.post_id === stat.post_id,
+          ),
           likes_count: stat.likes_count || 0,
           comments_count: stat.comments_count || 0,
           isLiked: true, // 이 API는 좋아요한 게시물만 반환하므로 항상 true
           recentComments: [], // 활동 페이지에서는 댓글 미리보기 불필요
         }));
+
+        // 커서와 순서가 일치하도록 좋아요를 누른 순서로 정렬
+        postsWithStats.sort(
+          (a, b) => postIds.indexOf(a.post_id) - postIds.indexOf(b.post_id),
+        );
       }
     }
 
-    // 4. 다음 페이지 존재 여부 확인
-    const { count } = await supabase
-      .from("likes")
-      .select("*", { count: "exact", head: true })
-      .eq("user_id", userData.id);
+    // 4. 총 개수 조회 (includeTotal=true 요청 시에만)
+    let total: number | undefined;
+
+    if (includeTotal) {
+      const { count } = await supabase
+        .from("likes")
+        .select("*", { count: "exact", head: true })
+        .eq("user_id", userData.id);
+
+      total = count || 0;
+    }
 
-    const hasMore = count ? offset + limit < count : false;
+    const lastLike = likes[likes.length - 1];
+    const pagination: CursorPaginationInfo = {
+      limit,
+      hasMore,
+      nextCursor: hasMore
+        ? encodeCursor({ createdAt: lastLike.created_at, id: lastLike.id })
+        : null,
+      total,
+    };
 
     return NextResponse.json({
       success: true,
       data: postsWithStats,
-      pagination: {
-        limit,
-        offset,
-        hasMore,
-        total: count || 0,
-      },
+      pagination,
     });
   } catch (error) {
     console.error("Likes user API error:", error);
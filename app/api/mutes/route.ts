@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+import { RestrictedUser, User } from "@/lib/types";
+
+/**
+ * 뮤트 API Route
+ *
+ * GET /api/mutes - 내가 뮤트한 사용자 목록 (최신순)
+ * POST /api/mutes - 사용자 뮤트 (팔로우 관계는 유지, 상대에게 알리지 않음)
+ * DELETE /api/mutes - 뮤트 해제
+ *
+ * 요청 본문(POST/DELETE): { user_id: string } // 대상 사용자의 Supabase UUID
+ */
+
+/** mutes + muted 사용자 정보 조회 결과 (!inner join으로 단일 객체) */
+interface MuteRow {
+  id: string;
+  muted_id: string;
+  created_at: string;
+  muted: Pick<User, "name" | "clerk_id" | "username" | "avatar_url">;
+}
+
+/**
+ * 뮤트한 사용자 목록 조회 API
+ */
+export async function GET() {
+  try {
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 뮤트 목록 조회
+    const { data: mutesData, error: mutesError } = await supabase
+      .from("mutes")
+      .select(
+        `
+        id,
+        muted_id,
+        created_at,
+        muted:users!mutes_muted_id_fkey!inner (
+          name,
+          clerk_id,
+          username,
+          avatar_url
+        )
+      `,
+      )
+      .eq("muter_id", userData.id)
+      .order("created_at", { ascending: false })
+      .overrideTypes<MuteRow[], { merge: false }>();
+
+    if (mutesError) {
+      console.error("Mutes query error:", mutesError);
+      return createServerErrorResponse(
+        "뮤트 목록을 불러오는데 실패했습니다.",
+        mutesError,
+      );
+    }
+
+    const users: RestrictedUser[] = (mutesData || []).map((mute) => {
+      const { muted } = mute;
+      return {
+        id: mute.id,
+        user_id: mute.muted_id,
+        created_at: mute.created_at,
+        name: muted.name,
+        clerk_id: muted.clerk_id,
+        username: muted.username,
+        avatar_url: muted.avatar_url,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: users,
+    });
+  } catch (error) {
+    console.error("Mutes GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 사용자 뮤트 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/mutes POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { user_id } = await request.json();
+
+    // 유효성 검증
+    if (!user_id) {
+      return createBadRequestResponse("뮤트할 사용자 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 자기 자신 뮤트 방지
+    if (userData.id === user_id) {
+      return createBadRequestResponse("자기 자신을 뮤트할 수 없습니다.");
+    }
+
+    // 3. 뮤트할 사용자 존재 확인
+    const { data: targetData, error: targetError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", user_id)
+      .single();
+
+    if (targetError || !targetData) {
+      console.error("Mute target lookup error:", targetError);
+      return createNotFoundResponse("뮤트할 사용자를 찾을 수 없습니다.");
+    }
+
+    // 4. 뮤트 추가 (UNIQUE 제약조건으로 중복 방지)
+    const { data: muteData, error: muteError } = await supabase
+      .from("mutes")
+      .insert({
+        muter_id: userData.id,
+        muted_id: user_id,
+      })
+      .select()
+      .single();
+
+    if (muteError) {
+      if (muteError.code === "23505") {
+        return createErrorResponse("이미 뮤트한 사용자입니다.", 409, "CONFLICT");
+      }
+      console.error("Mute insert error:", muteError);
+      return createServerErrorResponse("뮤트에 실패했습니다.", muteError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      mute: muteData,
+    });
+  } catch (error) {
+    console.error("Mutes POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 뮤트 해제 API
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/mutes DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { user_id } = await request.json();
+
+    // 유효성 검증
+    if (!user_id) {
+      return createBadRequestResponse("뮤트 해제할 사용자 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 뮤트 해제
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("mutes")
+      .delete()
+      .eq("muter_id", userData.id)
+      .eq("muted_id", user_id)
+      .select();
+
+    if (deleteError) {
+      console.error("Mute deletion error:", deleteError);
+      return createServerErrorResponse("뮤트 해제에 실패했습니다.", deleteError);
+    }
+
+    // 삭제된 레코드가 없는 경우 (뮤트하지 않았던 경우)
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("뮤트한 사용자가 아닙니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("Mutes DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { NotificationWithActor } from "@/lib/types";
+
+/**
+ * 알림 API Route
+ *
+ * GET /api/notifications - 내 알림 목록 + 읽지 않은 알림 수
+ * PATCH /api/notifications - 알림 읽음 처리
+ */
+
+/**
+ * 알림 목록 조회
+ *
+ * GET /api/notifications?limit=20&offset=0
+ * - 인증 필요
+ * - 최신순 정렬, 발생자/게시물 썸네일/댓글 내용 포함
+ * - unreadCount: 전체 읽지 않은 알림 수 (페이지와 무관)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/notifications GET called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 쿼리 파라미터
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 알림 목록 조회 (발생자, 게시물, 댓글 정보 포함)
+    const {
+      data: notificationsData,
+      error: notificationsError,
+      count,
+    } = await supabase
+      .from("notifications")
+      .select(
+        `
+        id,
+        recipient_id,
+        actor_id,
+        type,
+        post_id,
+        comment_id,
+        is_read,
+        created_at,
+        actor:users!notifications_actor_id_fkey (
+          name,
+          clerk_id,
+          username
+        ),
+        posts (
+          image_url
+        ),
+        comments (
+          content
+        )
+      `,
+        { count: "exact" },
+      )
+      .eq("recipient_id", userData.id)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (notificationsError) {
+      console.error("Notifications fetch error:", notificationsError);
+      return createServerErrorResponse(
+        "알림 조회에 실패했습니다.",
+        notificationsError,
+      );
+    }
+
+    // 3. 읽지 않은 알림 수 조회
+    const { count: unreadCount, error: unreadError } = await supabase
+      .from("notifications")
+      .select("*", { count: "exact", head: true })
+      .eq("recipient_id", userData.id)
+      .eq("is_read", false);
+
+    if (unreadError) {
+      console.error("Unread count fetch error:", unreadError);
+    }
+
+    // 응답 포맷 맞추기
+    // 관계 조회 결과는 단일 객체이지만 타입 추론을 위해 배열 여부 확인
+    const pickOne = <T,>(value: T | T[] | null): T | null =>
+      Array.isArray(value) ? (value[0] ?? null) : value;
+
+    const notifications: NotificationWithActor[] = (
+      notificationsData || []
+    ).map((notification) => {
+      const actor = pickOne(notification.actor);
+      const post = pickOne(notification.posts);
+      const comment = pickOne(notification.comments);
+
+      return {
+        id: notification.id,
+        recipient_id: notification.recipient_id,
+        actor_id: notification.actor_id,
+        type: notification.type,
+        post_id: notification.post_id,
+        comment_id: notification.comment_id,
+        is_read: notification.is_read,
+        created_at: notification.created_at,
+        actor_name: actor?.name || "알 수 없음",
+        actor_clerk_id: actor?.clerk_id || "",
+        actor_username: actor?.username || "",
+        post_image_url: post?.image_url || null,
+        comment_content: comment?.content || null,
+      };
+    });
+
+    const hasMore = count ? offset + limit < count : false;
+
+    return NextResponse.json({
+      data: notifications,
+      unreadCount: unreadCount || 0,
+      pagination: {
+        limit,
+        offset,
+        hasMore,
+      },
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return createServerErrorResponse("서버 오류가 발생했습니다.", error);
+  }
+}
+
+/**
+ * 알림 읽음 처리
+ *
+ * PATCH /api/notifications
+ * Body: { notification_ids: string[] } 또는 { all: true }
+ * - 인증 필요
+ * - 본인이 받은 알림만 처리됨
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/notifications PATCH called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { notification_ids, all } = await request.json();
+
+    // 유효성 검증
+    const hasIds =
+      Array.isArray(notification_ids) &&
+      notification_ids.length > 0 &&
+      notification_ids.every((id: unknown) => typeof id === "string");
+
+    if (all !== true && !hasIds) {
+      return createBadRequestResponse(
+        "notification_ids 또는 all이 필요합니다.",
+      );
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 읽음 처리 (recipient_id 조건으로 본인 알림만)
+    let query = supabase
+      .from("notifications")
+      .update({ is_read: true })
+      .eq("recipient_id", userData.id)
+      .eq("is_read", false);
+
+    if (all !== true) {
+      query = query.in("id", notification_ids);
+    }
+
+    const { error: updateError } = await query;
+
+    if (updateError) {
+      console.error("Notification update error:", updateError);
+      return createServerErrorResponse(
+        "알림 읽음 처리에 실패했습니다.",
+        updateError,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return createServerErrorResponse("서버 오류가 발생했습니다.", error);
+  }
+}
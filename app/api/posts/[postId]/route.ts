@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { ImageVariant } from "@/lib/types";
+import { syncPostHashtags } from "@/lib/hashtags";
+import { syncMentions } from "@/lib/mentions";
+import { canViewUserPosts } from "@/lib/privacy";
+import { getExcludedUserIds, isBlockedBetween } from "@/lib/blocks";
+import { MAX_CAPTION_LENGTH } from "@/lib/utils/post";
+import { extractStoragePath } from "@/lib/utils/storage";
 
 /**
  * 게시물 상세 조회 API
@@ -8,9 +15,12 @@ import { createClerkSupabaseClient } from "@/lib/supabase/server";
  * GET /api/posts/[postId]
  * - 게시물 상세 정보 조회 (post_stats 뷰 활용)
  * - 사용자 정보 포함
+ * - 비공개 계정의 게시물은 본인과 승인된 팔로워만 조회 가능 (403)
+ * - 작성자와 차단 관계이면 없는 게시물로 처리 (404)
+ * - 이미지 목록 포함 (post_media, position 순)
  * - 좋아요 상태 확인
- * - 전체 댓글 목록 조회 (최신순, 제한 없음)
- * - 댓글 작성자 정보 포함
+ * - 전체 댓글 목록 조회 (최신순, 제한 없음, 차단/뮤트한 사용자의 댓글 제외)
+ * - 댓글 작성자 정보 및 댓글 좋아요 수/상태 포함
  */
 
 export async function GET(
@@ -44,11 +54,14 @@ export async function GET(
         image_url,
         caption,
         created_at,
+        updated_at,
         likes_count,
         comments_count,
         users!inner (
           clerk_id,
-          name
+          name,
+          username,
+          is_private
         )
       `)
       .eq("post_id", postId)
@@ -62,20 +75,54 @@ export async function GET(
       );
     }
 
-    // 2. 좋아요 상태 확인 (현재 사용자가 로그인한 경우)
-    let isLiked = false;
+    // 현재 사용자의 Supabase user_id 조회
+    let viewerId: string | undefined;
     if (currentUserId) {
+      viewerId = (
+        await supabase
+          .from("users")
+          .select("id")
+          .eq("clerk_id", currentUserId)
+          .single()
+      ).data?.id;
+    }
+
+    // 1-1. 비공개 계정의 게시물은 본인과 승인된 팔로워만 조회 가능
+    // users는 !inner join으로 단일 객체이지만 타입 추론을 위해 타입 단언 사용
+    const author = Array.isArray(postData.users)
+      ? postData.users[0]
+      : postData.users;
+
+    const canView = await canViewUserPosts(supabase, viewerId ?? null, {
+      id: postData.user_id,
+      is_private: author.is_private,
+    });
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "비공개 계정의 게시물입니다." },
+        { status: 403 }
+      );
+    }
+
+    // 1-2. 작성자와 차단 관계이면 게시물을 찾을 수 없는 것으로 처리
+    if (viewerId && (await isBlockedBetween(supabase, viewerId, postData.user_id))) {
+      return NextResponse.json(
+        { error: "게시물을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 2. 좋아요/저장 상태 확인 (현재 사용자가 로그인한 경우)
+    let isLiked = false;
+    let isSaved = false;
+    if (viewerId) {
       const { data: likeData, error: likeError } = await supabase
         .from("likes")
         .select("id")
         .eq("post_id", postId)
-        .eq("user_id", (
-          await supabase
-            .from("users")
-            .select("id")
-            .eq("clerk_id", currentUserId)
-            .single()
-        ).data?.id);
+        .eq("user_id", viewerId)
+        .maybeSingle();
 
       if (likeError) {
         console.error("Like check error:", likeError);
@@ -83,26 +130,57 @@ export async function GET(
       } else {
         isLiked = !!likeData;
       }
+
+      const { data: saveData, error: saveError } = await supabase
+        .from("saves")
+        .select("id")
+        .eq("post_id", postId)
+        .eq("user_id", viewerId)
+        .maybeSingle();
+
+      if (saveError) {
+        console.error("Save check error:", saveError);
+        // 에러가 발생해도 게시물 조회는 계속 진행
+      } else {
+        isSaved = !!saveData;
+      }
     }
 
-    // 3. 전체 댓글 목록 조회 (최신순, 제한 없음)
-    const { data: commentsData, error: commentsError } = await supabase
+    // 3. 전체 댓글 목록 조회 (최신순, 제한 없음, 답글 포함)
+    // 차단/뮤트한 사용자의 댓글은 제외
+    const excludedUserIds = await getExcludedUserIds(supabase, viewerId ?? null);
+
+    let commentsQuery = supabase
       .from("comments")
       .select(`
         id,
         post_id,
         user_id,
+        parent_id,
         content,
         created_at,
         updated_at,
         users!inner (
           name,
-          clerk_id
-        )
+          clerk_id,
+          username
+        ),
+        comment_likes (count)
       `)
       .eq("post_id", postId)
+      .eq("is_hidden", false) // 관리자가 숨김 처리한 댓글 제외
       .order("created_at", { ascending: false }); // 최신순 정렬
 
+    if (excludedUserIds.length > 0) {
+      commentsQuery = commentsQuery.not(
+        "user_id",
+        "in",
+        `(${excludedUserIds.join(",")})`,
+      );
+    }
+
+    const { data: commentsData, error: commentsError } = await commentsQuery;
+
     if (commentsError) {
       console.error("Comments lookup error:", commentsError);
       return NextResponse.json(
@@ -111,26 +189,40 @@ export async function GET(
       );
     }
 
-    // 4. 응답 데이터 포맷팅
-    // users는 !inner join으로 단일 객체이지만 타입 추론을 위해 타입 단언 사용
-    const users = Array.isArray(postData.users)
-      ? postData.users[0]
-      : postData.users;
+    // 3-1. 현재 사용자가 좋아요한 댓글 조회 (좋아요 수는 위 comment_likes(count)로 집계)
+    const likedCommentIds = new Set<string>();
 
-    const post: any = {
-      post_id: postData.post_id,
-      user_id: postData.user_id,
-      image_url: postData.image_url,
-      caption: postData.caption,
-      created_at: postData.created_at,
-      likes_count: postData.likes_count,
-      comments_count: postData.comments_count,
-      name: users.name,
-      clerk_id: users.clerk_id,
-      isLiked,
-      recentComments: commentsData.slice(0, 2), // 호환성을 위해 포함 (모달에서는 전체 사용)
-    };
+    if (viewerId && commentsData.length > 0) {
+      const { data: commentLikesData, error: commentLikesError } =
+        await supabase
+          .from("comment_likes")
+          .select("comment_id, comments!inner(post_id)")
+          .eq("user_id", viewerId)
+          .eq("comments.post_id", postId);
+
+      if (commentLikesError) {
+        console.error("Comment likes lookup error:", commentLikesError);
+        // 에러가 발생해도 댓글은 표시 (좋아요하지 않은 상태로 표시)
+      }
+
+      commentLikesData?.forEach((like) => {
+        likedCommentIds.add(like.comment_id);
+      });
+    }
+
+    // 4. 게시물 이미지 목록 조회 (캐러셀용)
+    const { data: mediaData, error: mediaError } = await supabase
+      .from("post_media")
+      .select("id, post_id, image_url, position, created_at, width, height, blurhash, variants")
+      .eq("post_id", postId)
+      .order("position", { ascending: true });
+
+    if (mediaError) {
+      console.error("Post media lookup error:", mediaError);
+      // 에러가 발생해도 대표 이미지(image_url)로 표시 가능
+    }
 
+    // 5. 응답 데이터 포맷팅
     const comments: any[] = commentsData.map(comment => {
       // users는 !inner join으로 단일 객체이지만 타입 추론을 위해 타입 단언 사용
       const commentUsers = Array.isArray(comment.users)
@@ -141,14 +233,38 @@ export async function GET(
         id: comment.id,
         post_id: comment.post_id,
         user_id: comment.user_id,
+        parent_id: comment.parent_id,
         content: comment.content,
         created_at: comment.created_at,
         updated_at: comment.updated_at,
         name: commentUsers.name,
         clerk_id: commentUsers.clerk_id,
+        username: commentUsers.username,
+        likes_count: comment.comment_likes?.[0]?.count ?? 0,
+        isLiked: likedCommentIds.has(comment.id),
       };
     });
 
+    const post: any = {
+      post_id: postData.post_id,
+      user_id: postData.user_id,
+      image_url: postData.image_url,
+      caption: postData.caption,
+      created_at: postData.created_at,
+      updated_at: postData.updated_at,
+      likes_count: postData.likes_count,
+      comments_count: postData.comments_count,
+      name: author.name,
+      clerk_id: author.clerk_id,
+      username: author.username,
+      media: mediaData || [],
+      isLiked,
+      isSaved,
+      recentComments: comments
+        .filter((comment) => !comment.parent_id)
+        .slice(0, 2), // 피드 미리보기와 같은 형식 (모달에서는 전체 사용)
+    };
+
     return NextResponse.json({
       post,
       comments,
@@ -163,13 +279,151 @@ export async function GET(
   }
 }
 
+/**
+ * 게시물 수정 API
+ *
+ * PATCH /api/posts/[postId]
+ * - 캡션 수정 (본인만 가능)
+ * - 요청 본문: { caption: string } (빈 문자열이면 캡션 삭제)
+ * - updated_at은 트리거로 자동 갱신
+ * - 수정된 캡션 기준으로 해시태그, 멘션 다시 저장
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { postId } = await params;
+    console.log(`API /api/posts/${postId} PATCH called`);
+
+    // 유효성 검증
+    if (!postId) {
+      return NextResponse.json(
+        { error: "postId가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    // Clerk 인증 확인
+    const { userId: clerkUserId } = await auth();
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    // 요청 본문 파싱
+    const { caption } = await request.json();
+
+    if (caption !== null && typeof caption !== "string") {
+      return NextResponse.json(
+        { error: "caption은 문자열이어야 합니다." },
+        { status: 400 }
+      );
+    }
+
+    const trimmedCaption = (caption ?? "").trim();
+
+    if (trimmedCaption.length > MAX_CAPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `캡션은 ${MAX_CAPTION_LENGTH.toLocaleString()}자 이하여야 합니다.` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", clerkUserId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return NextResponse.json(
+        { error: "사용자를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 2. 게시물 존재 확인 및 소유자 검증
+    const { data: postData, error: postError } = await supabase
+      .from("posts")
+      .select("id, user_id")
+      .eq("id", postId)
+      .single();
+
+    if (postError || !postData) {
+      console.error("Post lookup error:", postError);
+      return NextResponse.json(
+        { error: "게시물을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 3. 본인 게시물인지 확인
+    if (postData.user_id !== userData.id) {
+      return NextResponse.json(
+        { error: "본인의 게시물만 수정할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    // 4. 캡션 업데이트 (updated_at은 set_updated_at 트리거가 갱신)
+    const { data: updatedPost, error: updateError } = await supabase
+      .from("posts")
+      .update({ caption: trimmedCaption || null })
+      .eq("id", postId)
+      .select("id, caption, created_at, updated_at")
+      .single();
+
+    if (updateError || !updatedPost) {
+      console.error("Post update error:", updateError);
+      return NextResponse.json(
+        { error: "게시물 수정에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    // 5. 해시태그, 멘션 갱신
+    await syncPostHashtags(supabase, postId, updatedPost.caption);
+    await syncMentions(supabase, {
+      text: updatedPost.caption,
+      actorId: userData.id,
+      postId,
+    });
+
+    console.log("Post updated successfully:", postId);
+
+    return NextResponse.json({
+      success: true,
+      post: {
+        post_id: updatedPost.id,
+        caption: updatedPost.caption,
+        created_at: updatedPost.created_at,
+        updated_at: updatedPost.updated_at,
+      },
+    });
+
+  } catch (error) {
+    console.error("Post PATCH API error:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * 게시물 삭제 API
  *
  * DELETE /api/posts/[postId]
  * - 게시물 삭제 (본인만 가능)
- * - Supabase Storage에서 이미지 파일 삭제
- * - posts 테이블에서 레코드 삭제 (CASCADE로 likes, comments 자동 삭제)
+ * - Supabase Storage에서 이미지 파일 삭제 (캐러셀 이미지 전체, 너비별 변환본 포함)
+ * - posts 테이블에서 레코드 삭제 (CASCADE로 likes, comments, post_media 자동 삭제)
  */
 export async function DELETE(
   request: NextRequest,
@@ -236,40 +490,46 @@ export async function DELETE(
       );
     }
 
-    // 4. 이미지 파일 경로 추출
-    // image_url 형식: https://[project].supabase.co/storage/v1/object/public/uploads/[userId]/posts/[fileName]
-    let filePath = null;
-    try {
-      const url = new URL(postData.image_url);
-      const pathParts = url.pathname.split('/');
-      // /storage/v1/object/public/uploads/[userId]/posts/[fileName]
-      // uploads 이후 부분 추출
-      const uploadsIndex = pathParts.indexOf('uploads');
-      if (uploadsIndex !== -1 && pathParts.length > uploadsIndex + 1) {
-        filePath = pathParts.slice(uploadsIndex + 1).join('/');
-      }
-    } catch (error) {
-      console.warn("Failed to parse image URL, skipping storage deletion:", error);
+    // 4. 삭제할 이미지 파일 경로 추출 (post_media + 변환본 + 대표 이미지)
+    const { data: mediaData, error: mediaError } = await supabase
+      .from("post_media")
+      .select("image_url, variants")
+      .eq("post_id", postId);
+
+    if (mediaError) {
+      console.warn("Post media lookup failed, deleting cover image only:", mediaError);
     }
 
+    const imageUrls = new Set<string>([postData.image_url]);
+    mediaData?.forEach((media) => {
+      imageUrls.add(media.image_url);
+      (media.variants as ImageVariant[] | null)?.forEach((variant) =>
+        imageUrls.add(variant.url),
+      );
+    });
+
+    const filePaths = Array.from(imageUrls)
+      .map(extractStoragePath)
+      .filter((path): path is string => path !== null);
+
     // 5. Supabase Storage에서 이미지 파일 삭제 (실패해도 DB 삭제는 계속 진행)
-    if (filePath) {
+    if (filePaths.length > 0) {
       try {
         const { error: storageError } = await supabase.storage
           .from("uploads")
-          .remove([filePath]);
+          .remove(filePaths);
 
         if (storageError) {
           console.warn("Storage deletion failed, but continuing with DB deletion:", storageError);
         } else {
-          console.log("Storage file deleted successfully:", filePath);
+          console.log("Storage files deleted successfully:", filePaths);
         }
       } catch (storageError) {
         console.warn("Storage deletion exception, but continuing with DB deletion:", storageError);
       }
     }
 
-    // 6. posts 테이블에서 게시물 삭제 (CASCADE로 likes, comments 자동 삭제)
+    // 6. posts 테이블에서 게시물 삭제 (CASCADE로 likes, comments, post_media 자동 삭제)
     const { error: deleteError } = await supabase
       .from("posts")
       .delete()
@@ -297,4 +557,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
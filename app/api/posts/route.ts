@@ -1,32 +1,84 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
-import { PostsResponse } from "@/lib/types";
+import { ImageVariant, PostMedia, PostsResponse } from "@/lib/types";
 import {
+  createErrorResponse,
   createUnauthorizedResponse,
   createBadRequestResponse,
   createForbiddenResponse,
   createNotFoundResponse,
   createServerErrorResponse,
 } from "@/lib/utils/api-error";
+import {
+  MAX_POST_IMAGES,
+  MAX_POST_IMAGE_SIZE,
+  UPLOAD_REJECTED_CODE,
+} from "@/lib/utils/post";
+import {
+  getPendingUploadFolder,
+  isValidUploadId,
+} from "@/lib/utils/storage";
+import { decodeCursor, encodeCursor, getCursorFilter } from "@/lib/utils/cursor";
+import { normalizeHashtag } from "@/lib/utils/hashtag";
+import { syncPostHashtags } from "@/lib/hashtags";
+import {
+  POST_IMAGE_CONTENT_TYPE,
+  POST_IMAGE_EXTENSION,
+  ProcessedImage,
+  processPostImage,
+} from "@/lib/images";
+import { syncMentions } from "@/lib/mentions";
+import { canViewUserPosts } from "@/lib/privacy";
+import { getExcludedUserIds, isBlockedBetween } from "@/lib/blocks";
 
 /**
  * 게시물 목록 조회 API
  *
  * GET /api/posts
  * - 게시물 목록 조회 (홈 피드)
- * - 페이지네이션 지원
+ * - 커서 기반 페이지네이션 지원 (cursor, nextCursor / includeTotal=true 시 총 개수 포함)
  * - 사용자별 필터링 지원 (프로필 페이지용)
+ * - 피드 모드 지원 (feed=following: 팔로우한 사용자 + 본인 게시물만, 인증 필요)
+ * - 해시태그 필터링 지원 (tag=여행: #여행이 포함된 게시물만, 태그 페이지용)
+ * - 비공개 계정의 게시물은 본인과 승인된 팔로워에게만 표시 (userId 지정 시 403)
+ * - 차단/뮤트한 사용자의 게시물과 댓글 제외 (userId 지정 시 차단 관계면 404)
  * - 좋아요 상태 및 댓글 포함
  */
 
+/** 게시물 목록 조회 컬럼 (post_stats 뷰 + 작성자 정보) */
+const POST_STATS_SELECT = `
+  post_id,
+  user_id,
+  image_url,
+  caption,
+  created_at,
+  updated_at,
+  likes_count,
+  comments_count,
+  users!inner(name, clerk_id, username)
+`;
+
+/** 해시태그 피드용 (post_hashtags!inner 조인으로 태그가 달린 게시물만) */
+const TAGGED_POST_STATS_SELECT = `${POST_STATS_SELECT},
+  post_hashtags!inner(hashtag_id)
+`;
+
 /**
  * 게시물 생성 API
  *
  * POST /api/posts
  * - 새 게시물 생성
- * - 이미지 파일 업로드 (Supabase Storage)
- * - posts 테이블에 데이터 저장
+ * - 이미지 파일 업로드 (Supabase Storage, 최대 10장)
+ *   - JSON { uploadId, caption }: POST /api/posts/uploads로 발급받은 URL에 직접 올린 임시 파일로 생성
+ *     (게시물 생성 후 임시 파일 삭제)
+ *   - multipart/form-data: files(순서대로), caption, userId 직접 전송
+ *   - 자동 회전, EXIF/GPS 제거 후 너비별 WebP 변환본으로 저장 (원본은 저장하지 않음)
+ * - posts 테이블에 데이터 저장 (image_url은 첫 번째 이미지의 가장 큰 변환본)
+ * - post_media 테이블에 이미지 순서, 크기, blurhash, 변환본 목록 저장
+ * - 캡션의 해시태그를 hashtags/post_hashtags 테이블에 저장
+ * - 캡션의 @멘션을 mentions 테이블에 저장
  * - 인증 필수
  */
 
@@ -42,32 +94,96 @@ export async function POST(request: NextRequest) {
       return createUnauthorizedResponse();
     }
 
-    // FormData 파싱
-    const formData = await request.formData();
-    const file = formData.get("file") as File;
-    const caption = formData.get("caption") as string;
-    const formUserId = formData.get("userId") as string;
+    // Supabase 클라이언트 생성
+    const supabase = createClerkSupabaseClient();
+
+    // 요청 형식에 따라 이미지 준비
+    // - JSON { uploadId, caption }: 서명된 URL로 Storage에 직접 올린 임시 파일 사용 (재개 가능 업로드)
+    // - multipart/form-data: 요청 본문으로 파일 직접 전송
+    let files: Blob[] = [];
+    let caption: string | null = null;
+    let pendingPaths: string[] = [];
+    let pendingUploadId: string | null = null;
 
-    // 유효성 검증
-    if (!file) {
-      return createBadRequestResponse("이미지 파일이 필요합니다.");
-    }
+    if (request.headers.get("content-type")?.includes("application/json")) {
+      const body = await request.json();
+
+      if (!isValidUploadId(body.uploadId)) {
+        return createBadRequestResponse("잘못된 업로드 ID입니다.");
+      }
+
+      pendingUploadId = body.uploadId;
 
-    if (!file.type.startsWith("image/")) {
-      return createBadRequestResponse("이미지 파일만 업로드할 수 있습니다.");
+      caption = typeof body.caption === "string" ? body.caption : null;
+
+      try {
+        const pending = await readPendingUploads(
+          supabase,
+          userId,
+          body.uploadId,
+        );
+        files = pending.files;
+        pendingPaths = pending.paths;
+      } catch (pendingError) {
+        console.error("Pending upload read error:", pendingError);
+        return createServerErrorResponse(
+          "업로드된 이미지를 불러오는데 실패했습니다.",
+          pendingError,
+        );
+      }
+    } else {
+      // FormData 파싱
+      // 다중 이미지는 "files"로 순서대로 전달 (단일 이미지 "file"도 호환 지원)
+      const formData = await request.formData();
+      files = formData
+        .getAll("files")
+        .filter((value): value is File => value instanceof File);
+      if (files.length === 0) {
+        files = formData
+          .getAll("file")
+          .filter((value): value is File => value instanceof File);
+      }
+      caption = formData.get("caption") as string;
+
+      if (formData.get("userId") !== userId) {
+        return createForbiddenResponse();
+      }
     }
 
-    if (file.size > 5 * 1024 * 1024) {
-      // 5MB
-      return createBadRequestResponse("파일 크기는 5MB 이하여야 합니다.");
+    // 잘못된 임시 파일은 다시 시도해도 사용할 수 없으므로 삭제 후 400 응답
+    // (클라이언트가 이어서 업로드하지 않고 처음부터 다시 업로드하도록 에러 코드 포함)
+    const rejectFiles = async (message: string) => {
+      if (!pendingUploadId) {
+        return createBadRequestResponse(message);
+      }
+
+      if (pendingPaths.length > 0) {
+        await supabase.storage.from("uploads").remove(pendingPaths);
+      }
+      await supabase.from("pending_uploads").delete().eq("id", pendingUploadId);
+      return createErrorResponse(message, 400, UPLOAD_REJECTED_CODE);
+    };
+
+    // 유효성 검증
+    if (files.length === 0) {
+      return rejectFiles("이미지 파일이 필요합니다.");
     }
 
-    if (formUserId !== userId) {
-      return createForbiddenResponse();
+    if (files.length > MAX_POST_IMAGES) {
+      return rejectFiles(
+        `이미지는 최대 ${MAX_POST_IMAGES}장까지 업로드할 수 있습니다.`,
+      );
     }
 
-    // Supabase 클라이언트 생성
-    const supabase = createClerkSupabaseClient();
+    for (const file of files) {
+      if (!file.type.startsWith("image/")) {
+        return rejectFiles("이미지 파일만 업로드할 수 있습니다.");
+      }
+
+      if (file.size > MAX_POST_IMAGE_SIZE) {
+        return rejectFiles("파일 크기는 5MB 이하여야 합니다.");
+      }
+    }
 
     // 1. 사용자 정보 확인
     const { data: userData, error: userError } = await supabase
@@ -81,49 +197,88 @@ export async function POST(request: NextRequest) {
       return createNotFoundResponse("사용자를 찾을 수 없습니다.");
     }
 
-    // 2. 파일명을 안전하게 생성
-    const fileExt = file.name.split(".").pop();
-    const fileName = `${Date.now()}-${Math.random()
-      .toString(36)
-      .substring(2)}.${fileExt}`;
-    // uploads 버킷 정책에 맞춰 첫 번째 폴더가 user ID가 되도록 경로 설정
-    const filePath = `${userId}/posts/${fileName}`;
+    // 2. 이미지 변환 (자동 회전, 메타데이터 제거, WebP 리사이즈, blurhash)
+    const processedImages: ProcessedImage[] = [];
 
-    // 3. Supabase Storage에 업로드
-    if (process.env.NODE_ENV === "development") {
-      console.log("Uploading to storage:", filePath);
+    for (const file of files) {
+      try {
+        processedImages.push(await processPostImage(file));
+      } catch (processError) {
+        console.error("Image processing error:", processError);
+        return rejectFiles("이미지 파일을 읽을 수 없습니다.");
+      }
     }
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from("uploads")
-      .upload(filePath, file, {
-        cacheControl: "3600",
-        upsert: false,
-      });
 
-    if (uploadError) {
-      console.error("Storage upload error:", uploadError);
-      // 상세한 에러 정보를 로그에 기록
-      console.error("Upload error details:", {
-        message: uploadError.message,
-        error: uploadError,
-      });
-      return createServerErrorResponse(
-        "이미지 업로드에 실패했습니다.",
-        uploadError,
-      );
+    // 3. Supabase Storage에 변환본 업로드 (이미지별 폴더에 너비별 파일)
+    const filePaths: string[] = [];
+    const uploadedImages: {
+      image: ProcessedImage;
+      variants: ImageVariant[];
+    }[] = [];
+
+    for (const image of processedImages) {
+      // 폴더명을 안전하게 생성
+      const folderName = `${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(2)}`;
+      const variants: ImageVariant[] = [];
+
+      for (const variant of image.variants) {
+        // uploads 버킷 정책에 맞춰 첫 번째 폴더가 user ID가 되도록 경로 설정
+        const filePath = `${userId}/posts/${folderName}/${variant.width}.${POST_IMAGE_EXTENSION}`;
+
+        if (process.env.NODE_ENV === "development") {
+          console.log("Uploading to storage:", filePath);
+        }
+        // 경로가 매번 새로 생성되어 내용이 바뀌지 않으므로 장기 캐시
+        const { error: uploadError } = await supabase.storage
+          .from("uploads")
+          .upload(filePath, variant.buffer, {
+            cacheControl: "31536000",
+            contentType: POST_IMAGE_CONTENT_TYPE,
+            upsert: false,
+          });
+
+        if (uploadError) {
+          console.error("Storage upload error:", uploadError);
+          // 상세한 에러 정보를 로그에 기록
+          console.error("Upload error details:", {
+            message: uploadError.message,
+            error: uploadError,
+          });
+          // 이미 업로드된 파일 정리
+          if (filePaths.length > 0) {
+            await supabase.storage.from("uploads").remove(filePaths);
+          }
+          return createServerErrorResponse(
+            "이미지 업로드에 실패했습니다.",
+            uploadError,
+          );
+        }
+
+        // 공개 URL 생성
+        const {
+          data: { publicUrl },
+        } = supabase.storage.from("uploads").getPublicUrl(filePath);
+
+        filePaths.push(filePath);
+        variants.push({ width: variant.width, url: publicUrl });
+      }
+
+      uploadedImages.push({ image, variants });
     }
 
-    // 4. 공개 URL 생성
-    const {
-      data: { publicUrl },
-    } = supabase.storage.from("uploads").getPublicUrl(filePath);
+    // 가장 큰 변환본을 이미지 대표 URL로 사용
+    const publicUrls = uploadedImages.map(
+      ({ variants }) => variants[variants.length - 1].url,
+    );
 
-    // 5. posts 테이블에 저장
+    // 4. posts 테이블에 저장 (첫 번째 이미지를 대표 이미지로 사용)
     const { data: postData, error: postError } = await supabase
       .from("posts")
       .insert({
         user_id: userData.id,
-        image_url: publicUrl,
+        image_url: publicUrls[0],
         caption: caption || null,
       })
       .select()
@@ -132,7 +287,7 @@ export async function POST(request: NextRequest) {
     if (postError) {
       console.error("Post creation error:", postError);
       // 업로드된 파일 정리 (실패 시)
-      await supabase.storage.from("uploads").remove([filePath]);
+      await supabase.storage.from("uploads").remove(filePaths);
 
       return createServerErrorResponse(
         "게시물 생성에 실패했습니다.",
@@ -140,13 +295,66 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 5. post_media 테이블에 이미지 순서와 변환본 정보 저장
+    const { data: mediaData, error: mediaError } = await supabase
+      .from("post_media")
+      .insert(
+        uploadedImages.map(({ image, variants }, position) => ({
+          post_id: postData.id,
+          image_url: publicUrls[position],
+          position,
+          width: image.width,
+          height: image.height,
+          blurhash: image.blurhash,
+          variants,
+        })),
+      )
+      .select()
+      .order("position", { ascending: true });
+
+    if (mediaError) {
+      console.error("Post media creation error:", mediaError);
+      // 게시물 및 업로드된 파일 정리 (실패 시)
+      await supabase.from("posts").delete().eq("id", postData.id);
+      await supabase.storage.from("uploads").remove(filePaths);
+
+      return createServerErrorResponse(
+        "게시물 생성에 실패했습니다.",
+        mediaError,
+      );
+    }
+
+    // 6. 캡션의 해시태그, 멘션 저장
+    await syncPostHashtags(supabase, postData.id, postData.caption);
+    await syncMentions(supabase, {
+      text: postData.caption,
+      actorId: userData.id,
+      postId: postData.id,
+    });
+
+    // 7. 재개 가능 업로드 임시 파일 삭제 (실패해도 게시물 생성은 완료, 남은 파일은 정리 작업이 삭제)
+    if (pendingUploadId) {
+      const { error: pendingRemoveError } = await supabase.storage
+        .from("uploads")
+        .remove(pendingPaths);
+
+      if (pendingRemoveError) {
+        console.warn("Pending upload cleanup failed:", pendingRemoveError);
+      } else {
+        await supabase
+          .from("pending_uploads")
+          .delete()
+          .eq("id", pendingUploadId);
+      }
+    }
+
     if (process.env.NODE_ENV === "development") {
       console.log("Post created successfully:", postData.id);
     }
 
     return NextResponse.json({
       success: true,
-      post: postData,
+      post: { ...postData, media: mediaData },
     });
   } catch (error) {
     console.error("Posts POST API error:", error);
@@ -166,55 +374,239 @@ export async function GET(request: NextRequest) {
     // URL 파라미터 파싱
     const { searchParams } = new URL(request.url);
     const limit = Math.min(parseInt(searchParams.get("limit") || "10"), 50); // 최대 50개
-    const offset = parseInt(searchParams.get("offset") || "0");
+    const cursor = decodeCursor(searchParams.get("cursor")); // 이전 응답의 nextCursor
+    const includeTotal = searchParams.get("includeTotal") === "true"; // 총 개수 포함 여부
     const userId = searchParams.get("userId"); // 특정 사용자의 게시물만 조회 (프로필용)
+    const feed = searchParams.get("feed"); // "following": 팔로잉 피드
+    const tag = searchParams.get("tag"); // 해시태그 ('#' 제외)
+
+    if (cursor === undefined) {
+      return createBadRequestResponse("잘못된 cursor입니다.");
+    }
+
+    if (feed === "following" && !currentUserId) {
+      return createUnauthorizedResponse();
+    }
 
     // Supabase 클라이언트 생성
     const supabase = createClerkSupabaseClient();
-    // 1. 게시물 총 개수 조회
-    let countQuery = supabase
-      .from("post_stats")
-      .select("post_id", { count: "exact", head: true });
 
-    if (userId) {
-      countQuery = countQuery.eq("user_id", userId);
+    // 현재 사용자의 Supabase user_id 조회 (좋아요 상태, 팔로잉 피드용)
+    let viewerId: string | null = null;
+
+    if (currentUserId) {
+      const { data: userData, error: userLookupError } = await supabase
+        .from("users")
+        .select("id")
+        .eq("clerk_id", currentUserId)
+        .single();
+
+      if (userLookupError) {
+        console.error("User lookup error:", userLookupError);
+        // 사용자 조회 실패해도 게시물 조회는 계속 진행 (좋아요 상태는 표시되지 않음)
+      } else if (userData) {
+        viewerId = userData.id;
+      }
     }
 
-    const { count: totalCount, error: countError } = await countQuery;
+    // 팔로잉 피드: 팔로우한 사용자 + 본인
+    let feedUserIds: string[] | null = null;
 
-    if (countError) {
-      console.error("Count query error:", countError);
-      return NextResponse.json(
-        { error: "Failed to count posts" },
-        { status: 500 },
-      );
+    if (feed === "following") {
+      if (!viewerId) {
+        return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+      }
+
+      const { data: followsData, error: followsError } = await supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", viewerId)
+        .eq("status", "accepted");
+
+      if (followsError) {
+        console.error("Follows query error:", followsError);
+        return createServerErrorResponse(
+          "팔로잉 목록 조회에 실패했습니다.",
+          followsError,
+        );
+      }
+
+      feedUserIds = [
+        viewerId,
+        ...(followsData || []).map((follow) => follow.following_id),
+      ];
+    }
+
+    // 해시태그 필터: 해시태그 ID 조회 (게시물은 post_hashtags!inner 조인으로 DB에서 필터)
+    let tagHashtagId: string | null = null;
+
+    if (tag) {
+      const { data: hashtagData, error: tagError } = await supabase
+        .from("hashtags")
+        .select("id")
+        .eq("name", normalizeHashtag(tag))
+        .maybeSingle();
+
+      if (tagError) {
+        console.error("Hashtag query error:", tagError);
+        return createServerErrorResponse(
+          "해시태그 게시물 조회에 실패했습니다.",
+          tagError,
+        );
+      }
+
+      // 사용된 적 없는 해시태그
+      if (!hashtagData) {
+        return NextResponse.json({
+          data: [],
+          pagination: {
+            limit,
+            hasMore: false,
+            nextCursor: null,
+            total: includeTotal ? 0 : undefined,
+          },
+        } satisfies PostsResponse);
+      }
+
+      tagHashtagId = hashtagData.id;
+    }
+
+    // 차단/뮤트한 사용자 (피드와 댓글에서 제외)
+    const excludedUserIds = await getExcludedUserIds(supabase, viewerId);
+
+    // 차단/뮤트 필터 (비공개 계정은 users.can_view_posts로 DB에서 필터)
+    let hiddenUserIds: string[] = [];
+    let hidePrivateAuthors = false;
+
+    if (userId) {
+      // 특정 사용자의 게시물: 비공개 계정이면 본인과 승인된 팔로워만 조회 가능
+      const { data: ownerData, error: ownerError } = await supabase
+        .from("users")
+        .select("id, is_private")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (ownerError) {
+        console.error("Post owner lookup error:", ownerError);
+        return createServerErrorResponse(
+          "사용자 정보 조회에 실패했습니다.",
+          ownerError,
+        );
+      }
+
+      if (
+        ownerData &&
+        viewerId &&
+        (await isBlockedBetween(supabase, viewerId, ownerData.id))
+      ) {
+        return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+      }
+
+      if (ownerData && !(await canViewUserPosts(supabase, viewerId, ownerData))) {
+        return createForbiddenResponse("비공개 계정입니다.");
+      }
+    } else if (feedUserIds) {
+      // 팔로잉 피드: 뮤트한 사용자는 팔로우 중이어도 제외
+      hiddenUserIds = excludedUserIds;
+    } else {
+      // 전체/해시태그 피드: 볼 수 없는 비공개 계정과 차단/뮤트한 사용자의 게시물 제외
+      hiddenUserIds = excludedUserIds;
+      hidePrivateAuthors = true;
     }
 
-    const total = totalCount || 0;
+    // 1. 게시물 총 개수 조회 (includeTotal=true 요청 시에만)
+    let total: number | undefined;
+
+    if (includeTotal) {
+      let countQuery = supabase
+        .from("post_stats")
+        .select(
+          tagHashtagId
+            ? "post_id, users!inner(id), post_hashtags!inner(hashtag_id)"
+            : "post_id, users!inner(id)",
+          { count: "exact", head: true },
+        );
+
+      if (userId) {
+        countQuery = countQuery.eq("user_id", userId);
+      }
+
+      if (feedUserIds) {
+        countQuery = countQuery.in("user_id", feedUserIds);
+      }
+
+      if (tagHashtagId) {
+        countQuery = countQuery.eq("post_hashtags.hashtag_id", tagHashtagId);
+      }
 
-    // 2. 게시물 목록 조회 (post_stats 뷰 활용)
+      if (hidePrivateAuthors) {
+        countQuery = countQuery.eq("users.can_view_posts", true);
+      }
+
+      if (hiddenUserIds.length > 0) {
+        countQuery = countQuery.not(
+          "user_id",
+          "in",
+          `(${hiddenUserIds.join(",")})`,
+        );
+      }
+
+      const { count: totalCount, error: countError } = await countQuery;
+
+      if (countError) {
+        console.error("Count query error:", countError);
+        return NextResponse.json(
+          { error: "Failed to count posts" },
+          { status: 500 },
+        );
+      }
+
+      total = totalCount || 0;
+    }
+
+    // 2. 게시물 목록 조회 (post_stats 뷰 활용, (created_at, post_id) 커서 기준)
+    // 다음 페이지 존재 여부 확인을 위해 limit + 1개 조회
     let postsQuery = supabase
       .from("post_stats")
+      // post_hashtags는 필터 전용이므로 조회 결과 타입은 POST_STATS_SELECT 기준
       .select(
-        `
-        post_id,
-        user_id,
-        image_url,
-        caption,
-        created_at,
-        likes_count,
-        comments_count,
-        users!inner(name, clerk_id)
-      `,
+        (tagHashtagId
+          ? TAGGED_POST_STATS_SELECT
+          : POST_STATS_SELECT) as typeof POST_STATS_SELECT,
       )
       .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
+      .order("post_id", { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      postsQuery = postsQuery.or(getCursorFilter(cursor, "post_id"));
+    }
 
     if (userId) {
       postsQuery = postsQuery.eq("user_id", userId);
     }
 
-    const { data: postsData, error: postsError } = await postsQuery;
+    if (feedUserIds) {
+      postsQuery = postsQuery.in("user_id", feedUserIds);
+    }
+
+    if (tagHashtagId) {
+      postsQuery = postsQuery.eq("post_hashtags.hashtag_id", tagHashtagId);
+    }
+
+    if (hidePrivateAuthors) {
+      postsQuery = postsQuery.eq("users.can_view_posts", true);
+    }
+
+    if (hiddenUserIds.length > 0) {
+      postsQuery = postsQuery.not(
+        "user_id",
+        "in",
+        `(${hiddenUserIds.join(",")})`,
+      );
+    }
+
+    const { data: pageData, error: postsError } = await postsQuery;
 
     if (postsError) {
       console.error("Posts query error:", postsError);
@@ -224,56 +616,62 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (!postsData || postsData.length === 0) {
+    if (!pageData || pageData.length === 0) {
       return NextResponse.json({
         data: [],
         pagination: {
-          total: 0,
           limit,
-          offset,
           hasMore: false,
+          nextCursor: null,
+          total,
         },
       } satisfies PostsResponse);
     }
 
-    // 3. 좋아요 상태 조회 (현재 사용자가 로그인한 경우)
+    const hasMore = pageData.length > limit;
+    const postsData = hasMore ? pageData.slice(0, limit) : pageData;
+
+    // 3. 좋아요/저장 상태 조회 (현재 사용자가 로그인한 경우)
     const likesMap = new Map<string, boolean>();
+    const savedPostIds = new Set<string>();
 
-    if (currentUserId) {
+    if (viewerId) {
       const postIds = postsData.map((post) => post.post_id);
 
-      // 먼저 users 테이블에서 clerk_id로 user_id 조회
-      const { data: userData, error: userLookupError } = await supabase
-        .from("users")
-        .select("id")
-        .eq("clerk_id", currentUserId)
-        .single();
-
-      if (userLookupError) {
-        console.error("User lookup error for likes:", userLookupError);
-        // 사용자 조회 실패해도 게시물 조회는 계속 진행 (좋아요 상태는 표시되지 않음)
-      } else if (userData) {
-        const { data: likesData, error: likesError } = await supabase
+      const [likesResult, savesResult] = await Promise.all([
+        supabase
           .from("likes")
           .select("post_id")
-          .eq("user_id", userData.id)
-          .in("post_id", postIds);
-
-        if (likesError) {
-          console.error("Likes query error:", likesError);
-          // 좋아요 조회 실패해도 게시물 조회는 계속 진행
-        } else if (likesData) {
-          likesData.forEach((like) => {
-            likesMap.set(like.post_id, true);
-          });
-        }
+          .eq("user_id", viewerId)
+          .in("post_id", postIds),
+        supabase
+          .from("saves")
+          .select("post_id")
+          .eq("user_id", viewerId)
+          .in("post_id", postIds),
+      ]);
+
+      if (likesResult.error) {
+        console.error("Likes query error:", likesResult.error);
+        // 좋아요 조회 실패해도 게시물 조회는 계속 진행
+      } else if (likesResult.data) {
+        likesResult.data.forEach((like) => {
+          likesMap.set(like.post_id, true);
+        });
+      }
+
+      if (savesResult.error) {
+        console.error("Saves query error:", savesResult.error);
+        // 저장 상태 조회 실패해도 게시물 조회는 계속 진행
+      } else if (savesResult.data) {
+        savesResult.data.forEach((save) => savedPostIds.add(save.post_id));
       }
     }
 
-    // 4. 최신 댓글 2개 조회
+    // 4. 최신 댓글 2개 조회 (답글 제외)
     const postIds = postsData.map((post) => post.post_id);
 
-    const { data: commentsData, error: commentsError } = await supabase
+    let commentsQuery = supabase
       .from("comments")
       .select(
         `
@@ -283,13 +681,26 @@ export async function GET(request: NextRequest) {
         content,
         created_at,
         updated_at,
-        users!inner(name, clerk_id)
+        users!inner(name, clerk_id, username)
       `,
       )
       .in("post_id", postIds)
+      .is("parent_id", null)
+      .eq("is_hidden", false) // 관리자가 숨김 처리한 댓글 제외
       .order("created_at", { ascending: false })
       .limit(2 * postIds.length); // 각 게시물당 최대 2개씩 조회
 
+    // 차단/뮤트한 사용자의 댓글 제외
+    if (excludedUserIds.length > 0) {
+      commentsQuery = commentsQuery.not(
+        "user_id",
+        "in",
+        `(${excludedUserIds.join(",")})`,
+      );
+    }
+
+    const { data: commentsData, error: commentsError } = await commentsQuery;
+
     if (commentsError) {
       console.error("Comments query error:", commentsError);
       // 댓글 조회 실패해도 게시물 조회는 계속 진행
@@ -319,7 +730,26 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // 5. 응답 데이터 구성
+    // 5. 게시물 이미지 목록 조회 (캐러셀용)
+    const { data: mediaData, error: mediaError } = await supabase
+      .from("post_media")
+      .select("id, post_id, image_url, position, created_at, width, height, blurhash, variants")
+      .in("post_id", postIds)
+      .order("position", { ascending: true });
+
+    if (mediaError) {
+      console.error("Post media query error:", mediaError);
+      // 이미지 목록 조회 실패해도 대표 이미지(image_url)로 표시 가능
+    }
+
+    const mediaMap = new Map<string, PostMedia[]>();
+    mediaData?.forEach((media) => {
+      const postMedia = mediaMap.get(media.post_id) || [];
+      postMedia.push(media);
+      mediaMap.set(media.post_id, postMedia);
+    });
+
+    // 6. 응답 데이터 구성
     const posts: PostsResponse["data"] = postsData.map((post) => {
       // users는 !inner join으로 단일 객체이지만 타입 추론을 위해 타입 단언 사용
       const users = Array.isArray(post.users) ? post.users[0] : post.users;
@@ -339,6 +769,7 @@ export async function GET(request: NextRequest) {
             updated_at: comment.updated_at,
             name: commentUsers.name,
             clerk_id: commentUsers.clerk_id,
+            username: commentUsers.username,
           };
         },
       );
@@ -349,25 +780,31 @@ export async function GET(request: NextRequest) {
         image_url: post.image_url,
         caption: post.caption,
         created_at: post.created_at,
+        updated_at: post.updated_at,
         likes_count: post.likes_count,
         comments_count: post.comments_count,
         name: users.name,
         clerk_id: users.clerk_id,
+        username: users.username,
+        media: mediaMap.get(post.post_id) || [],
         isLiked: likesMap.get(post.post_id) || false,
+        isSaved: savedPostIds.has(post.post_id),
         recentComments,
       };
     });
 
-    // 6. 페이지네이션 정보
-    const hasMore = total > offset + limit;
+    // 7. 페이지네이션 정보 (마지막 게시물 기준 다음 커서)
+    const lastPost = postsData[postsData.length - 1];
 
     const response: PostsResponse = {
       data: posts,
       pagination: {
-        total,
         limit,
-        offset,
         hasMore,
+        nextCursor: hasMore
+          ? encodeCursor({ createdAt: lastPost.created_at, id: lastPost.post_id })
+          : null,
+        total,
       },
     };
 
@@ -377,3 +814,44 @@ export async function GET(request: NextRequest) {
     return createServerErrorResponse(undefined, error);
   }
 }
+
+/**
+ * 재개 가능 업로드 임시 폴더의 이미지 읽기 (파일명 숫자 = 게시물 이미지 순서)
+ *
+ * 목록 조회나 다운로드에 실패하면 에러를 throw합니다.
+ */
+async function readPendingUploads(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  uploadId: string,
+): Promise<{ files: Blob[]; paths: string[] }> {
+  const folder = getPendingUploadFolder(clerkUserId, uploadId);
+
+  const { data: objects, error: listError } = await supabase.storage
+    .from("uploads")
+    .list(folder, { limit: MAX_POST_IMAGES + 1 });
+
+  if (listError) {
+    throw listError;
+  }
+
+  const paths = (objects || [])
+    .map((object) => object.name)
+    .sort((a, b) => parseInt(a, 10) - parseInt(b, 10))
+    .map((name) => `${folder}/${name}`);
+
+  const files: Blob[] = [];
+  for (const path of paths) {
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from("uploads")
+      .download(path);
+
+    if (downloadError || !blob) {
+      throw downloadError || new Error(`Pending upload not found: ${path}`);
+    }
+
+    files.push(blob);
+  }
+
+  return { files, paths };
+}
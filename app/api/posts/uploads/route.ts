@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import {
+  MAX_POST_IMAGES,
+  MAX_POST_IMAGE_SIZE,
+  POST_UPLOAD_EXTENSIONS,
+} from "@/lib/utils/post";
+import { getPendingUploadFolder } from "@/lib/utils/storage";
+
+/**
+ * 게시물 이미지 업로드 URL 발급 API
+ *
+ * POST /api/posts/uploads
+ * - 요청 본문: { files: [{ name, type, size }] } (게시물 이미지 순서대로, 최대 10장)
+ * - 이미지마다 uploads 버킷 임시 폴더([clerkId]/pending/[uploadId]/[순서].[확장자])의
+ *   서명된 업로드 토큰 발급 (확장자는 MIME 타입으로 결정)
+ * - 방치된 임시 폴더를 정리할 수 있도록 pending_uploads에 업로드 ID 기록
+ * - 클라이언트는 토큰으로 Supabase Storage에 직접 재개 가능(TUS) 업로드 후
+ *   POST /api/posts { uploadId, caption } 로 게시물 생성 (서버에서 변환 후 임시 파일 삭제)
+ * - 인증 필수
+ */
+
+interface UploadFileInfo {
+  name: string;
+  type: string;
+  size: number;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/posts/uploads POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { files } = (await request.json()) as { files?: UploadFileInfo[] };
+
+    // 유효성 검증 (실제 파일은 게시물 생성 시 다시 검증)
+    if (!Array.isArray(files) || files.length === 0) {
+      return createBadRequestResponse("이미지 파일이 필요합니다.");
+    }
+
+    if (files.length > MAX_POST_IMAGES) {
+      return createBadRequestResponse(
+        `이미지는 최대 ${MAX_POST_IMAGES}장까지 업로드할 수 있습니다.`,
+      );
+    }
+
+    for (const file of files) {
+      if (typeof file?.type !== "string" || !file.type.startsWith("image/")) {
+        return createBadRequestResponse("이미지 파일만 업로드할 수 있습니다.");
+      }
+
+      if (!Object.hasOwn(POST_UPLOAD_EXTENSIONS, file.type)) {
+        return createBadRequestResponse("지원하지 않는 이미지 형식입니다.");
+      }
+
+      if (typeof file.size !== "number" || file.size > MAX_POST_IMAGE_SIZE) {
+        return createBadRequestResponse("파일 크기는 5MB 이하여야 합니다.");
+      }
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 1. 업로드 ID 발급 (임시 폴더명) 및 기록
+    const uploadId = randomUUID();
+    const folder = getPendingUploadFolder(userId, uploadId);
+
+    const { error: pendingError } = await supabase
+      .from("pending_uploads")
+      .insert({ id: uploadId, user_id: userData.id });
+
+    if (pendingError) {
+      console.error("Pending upload insert error:", pendingError);
+      return createServerErrorResponse(
+        "업로드 URL 발급에 실패했습니다.",
+        pendingError,
+      );
+    }
+
+    // 2. 이미지별 서명된 업로드 토큰 발급 (파일명의 숫자가 게시물 이미지 순서)
+    const uploads: { path: string; token: string }[] = [];
+
+    for (const [position, file] of files.entries()) {
+      const path = `${folder}/${position}.${POST_UPLOAD_EXTENSIONS[file.type]}`;
+
+      const { data: signedData, error: signedError } = await supabase.storage
+        .from("uploads")
+        .createSignedUploadUrl(path);
+
+      if (signedError || !signedData) {
+        console.error("Signed upload URL error:", signedError);
+        return createServerErrorResponse(
+          "업로드 URL 발급에 실패했습니다.",
+          signedError,
+        );
+      }
+
+      uploads.push({ path: signedData.path, token: signedData.token });
+    }
+
+    return NextResponse.json({ uploadId, uploads });
+  } catch (error) {
+    console.error("Post uploads POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
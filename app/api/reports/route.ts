@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_TARGET_TYPES,
+  isReportReason,
+} from "@/lib/utils/report";
+import { ReportTargetType } from "@/lib/types";
+
+/**
+ * 신고 API Route
+ *
+ * POST /api/reports - 게시물/댓글/프로필 신고 접수
+ *
+ * 요청 본문: { target_type: "post" | "comment" | "user", target_id: string, reason, details? }
+ * - target_id: 대상 게시물/댓글/사용자의 Supabase UUID
+ * - 같은 대상에 대해 처리 대기 중인 신고가 있으면 409
+ * 신고 검토/처리는 /api/admin/reports (관리자 전용)
+ */
+
+/** 신고 대상 종류별 테이블과 reports 컬럼 */
+const TARGET_COLUMNS: Record<
+  ReportTargetType,
+  { table: string; column: "post_id" | "comment_id" | "user_id" }
+> = {
+  post: { table: "posts", column: "post_id" },
+  comment: { table: "comments", column: "comment_id" },
+  user: { table: "users", column: "user_id" },
+};
+
+/** 신고 대상 조회 결과 (게시물/댓글만 작성자 user_id 포함) */
+interface ReportTargetRow {
+  id: string;
+  user_id?: string;
+}
+
+/**
+ * 신고 접수 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/reports POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { target_type, target_id, reason, details } = await request.json();
+
+    // 유효성 검증
+    if (!REPORT_TARGET_TYPES.includes(target_type) || !target_id) {
+      return createBadRequestResponse("신고 대상이 올바르지 않습니다.");
+    }
+
+    if (!isReportReason(reason)) {
+      return createBadRequestResponse("신고 사유를 선택해주세요.");
+    }
+
+    if (details != null && typeof details !== "string") {
+      return createBadRequestResponse("상세 설명이 올바르지 않습니다.");
+    }
+
+    const trimmedDetails = details?.trim() || null;
+    if (trimmedDetails && trimmedDetails.length > MAX_REPORT_DETAILS_LENGTH) {
+      return createBadRequestResponse(
+        `상세 설명은 ${MAX_REPORT_DETAILS_LENGTH}자 이하여야 합니다.`,
+      );
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 신고 대상 존재 확인 (본인 콘텐츠는 신고 불가)
+    const { table, column } = TARGET_COLUMNS[target_type as ReportTargetType];
+    const { data: targetData, error: targetError } = await supabase
+      .from(table)
+      .select(target_type === "user" ? "id" : "id, user_id")
+      .eq("id", target_id)
+      .maybeSingle()
+      .overrideTypes<ReportTargetRow, { merge: false }>();
+
+    if (targetError || !targetData) {
+      console.error("Report target lookup error:", targetError);
+      return createNotFoundResponse("신고할 대상을 찾을 수 없습니다.");
+    }
+
+    const ownerId = target_type === "user" ? target_id : targetData.user_id;
+    if (ownerId === userData.id) {
+      return createBadRequestResponse("본인의 콘텐츠는 신고할 수 없습니다.");
+    }
+
+    // 3. 신고 저장 (처리 대기 중인 중복 신고는 부분 UNIQUE 인덱스로 방지)
+    const { data: reportData, error: reportError } = await supabase
+      .from("reports")
+      .insert({
+        reporter_id: userData.id,
+        target_type,
+        [column]: target_id,
+        reason,
+        details: trimmedDetails,
+      })
+      .select()
+      .single();
+
+    if (reportError) {
+      if (reportError.code === "23505") {
+        return createErrorResponse(
+          "이미 신고한 콘텐츠입니다. 검토가 끝날 때까지 기다려주세요.",
+          409,
+          "CONFLICT",
+        );
+      }
+      console.error("Report insert error:", reportError);
+      return createServerErrorResponse("신고 접수에 실패했습니다.", reportError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      report: reportData,
+    });
+  } catch (error) {
+    console.error("Reports POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+  createErrorResponse,
+} from "@/lib/utils/api-error";
+
+/**
+ * 게시물 저장(북마크) API Route
+ *
+ * POST /api/saves - 게시물 저장
+ * DELETE /api/saves - 저장 취소 (모든 컬렉션에서도 제거됨)
+ *
+ * 요청 본문: { post_id: string }
+ * 응답: { success, save }
+ */
+
+/**
+ * 게시물 저장 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/saves POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { post_id } = await request.json();
+
+    // 유효성 검증
+    if (!post_id) {
+      return createBadRequestResponse("게시물 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 게시물 존재 확인
+    const { data: postData, error: postError } = await supabase
+      .from("posts")
+      .select("id")
+      .eq("id", post_id)
+      .single();
+
+    if (postError || !postData) {
+      console.error("Post lookup error:", postError);
+      return createNotFoundResponse("게시물을 찾을 수 없습니다.");
+    }
+
+    // 3. 저장 추가 (중복 방지: UNIQUE 제약조건 활용)
+    const { data: saveData, error: saveError } = await supabase
+      .from("saves")
+      .insert({
+        post_id,
+        user_id: userData.id,
+      })
+      .select()
+      .single();
+
+    if (saveError) {
+      // 이미 저장한 경우 (중복 키 에러)
+      if (saveError.code === "23505") {
+        return createErrorResponse(
+          "이미 저장한 게시물입니다.",
+          409,
+          "CONFLICT",
+        );
+      }
+      console.error("Save insertion error:", saveError);
+      return createServerErrorResponse("게시물 저장에 실패했습니다.", saveError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      save: saveData,
+    });
+  } catch (error) {
+    console.error("Saves POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 게시물 저장 취소 API
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/saves DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const { post_id } = await request.json();
+
+    // 유효성 검증
+    if (!post_id) {
+      return createBadRequestResponse("게시물 ID가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 저장 제거 (collection_posts는 CASCADE로 함께 삭제)
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("saves")
+      .delete()
+      .eq("post_id", post_id)
+      .eq("user_id", userData.id)
+      .select();
+
+    if (deleteError) {
+      console.error("Save deletion error:", deleteError);
+      return createServerErrorResponse(
+        "저장 취소에 실패했습니다.",
+        deleteError,
+      );
+    }
+
+    // 삭제된 레코드가 없는 경우 (저장하지 않았던 경우)
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("저장한 게시물이 아닙니다.");
+    }
+
+    return NextResponse.json({
+      success: true,
+      save: deleteData[0],
+    });
+  } catch (error) {
+    console.error("Saves DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,252 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createServerErrorResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+} from "@/lib/utils/api-error";
+import {
+  CursorPaginationInfo,
+  PostStats,
+  PostWithUser,
+  User,
+} from "@/lib/types";
+import { decodeCursor, encodeCursor, getCursorFilter } from "@/lib/utils/cursor";
+
+/**
+ * 사용자가 저장한 게시물 목록 조회 API
+ *
+ * GET /api/saves/user?collectionId={collectionId}
+ * - 인증 필요 (저장 목록은 본인만 조회 가능)
+ * - collectionId가 있으면 해당 컬렉션의 게시물만 반환
+ * - 커서 기반 페이지네이션 지원 (limit, cursor / includeTotal=true 시 총 개수 포함)
+ * - 저장한(컬렉션에 추가한) 순서 (created_at, id) 기준 최신순
+ */
+/** saves 또는 collection_posts + saves(post_id) 조회 결과 */
+interface SavedItemRow {
+  id: string;
+  created_at: string;
+  post_id?: string; // saves 조회 시
+  saves?: { post_id: string }; // collection_posts 조회 시 (!inner join으로 단일 객체)
+}
+
+/** post_stats + 작성자 정보 조회 결과 */
+interface PostStatsRow extends PostStats {
+  users: Pick<User, "id" | "clerk_id" | "name" | "username" | "created_at">;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 쿼리 파라미터
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get("limit") || "10", 10);
+    const cursor = decodeCursor(searchParams.get("cursor")); // 이전 응답의 nextCursor
+    const includeTotal = searchParams.get("includeTotal") === "true";
+    const collectionId = searchParams.get("collectionId");
+
+    if (cursor === undefined) {
+      return createBadRequestResponse("잘못된 cursor입니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 컬렉션 소유자 확인 (컬렉션별 조회 시)
+    if (collectionId) {
+      const { data: collectionData, error: collectionError } = await supabase
+        .from("collections")
+        .select("id")
+        .eq("id", collectionId)
+        .eq("user_id", userData.id)
+        .maybeSingle();
+
+      if (collectionError || !collectionData) {
+        console.error("Collection lookup error:", collectionError);
+        return createNotFoundResponse("컬렉션을 찾을 수 없습니다.");
+      }
+    }
+
+    // 3. 저장한 게시물 ID 조회 (다음 페이지 확인을 위해 limit + 1개)
+    // 컬렉션별 조회는 컬렉션에 추가한 순서, 전체 조회는 저장한 순서 기준
+    let itemsQuery = collectionId
+      ? supabase
+          .from("collection_posts")
+          .select("id, created_at, saves!inner(post_id)")
+          .eq("collection_id", collectionId)
+      : supabase
+          .from("saves")
+          .select("id, post_id, created_at")
+          .eq("user_id", userData.id);
+
+    itemsQuery = itemsQuery
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      itemsQuery = itemsQuery.or(getCursorFilter(cursor));
+    }
+
+    const { data: itemsPage, error: itemsError } =
+      await itemsQuery.overrideTypes<SavedItemRow[], { merge: false }>();
+
+    if (itemsError) {
+      console.error("Saves fetch error:", itemsError);
+      return createServerErrorResponse(
+        "저장한 게시물 조회에 실패했습니다.",
+        itemsError,
+      );
+    }
+
+    const hasMore = (itemsPage?.length || 0) > limit;
+    const items = (itemsPage || []).slice(0, limit).map((item) => ({
+      id: item.id,
+      created_at: item.created_at,
+      post_id: (item.post_id ?? item.saves?.post_id) as string,
+    }));
+    const postIds = items.map((item) => item.post_id);
+    let postsWithStats: PostWithUser[] = [];
+
+    // 4. 게시물 정보 및 통계 조회 (post_stats 뷰 활용)
+    if (postIds.length > 0) {
+      const { data: postStats, error: statsError } = await supabase
+        .from("post_stats")
+        .select(`
+          post_id,
+          user_id,
+          image_url,
+          caption,
+          created_at,
+          updated_at,
+          likes_count,
+          comments_count,
+          users!inner (
+            id,
+            clerk_id,
+            name,
+            username,
+            created_at
+          )
+        `)
+        .in("post_id", postIds)
+        .overrideTypes<PostStatsRow[], { merge: false }>();
+
+      if (statsError) {
+        console.error("Post stats fetch error:", statsError);
+        return createServerErrorResponse(
+          "게시물 정보 조회에 실패했습니다.",
+          statsError,
+        );
+      }
+
+      // 게시물 이미지 목록과 좋아요 상태 조회 (실패해도 목록은 표시)
+      const [mediaResult, likesResult] = await Promise.all([
+        supabase
+          .from("post_media")
+          .select("id, post_id, image_url, position, created_at, width, height, blurhash, variants")
+          .in("post_id", postIds)
+          .order("position", { ascending: true }),
+        supabase
+          .from("likes")
+          .select("post_id")
+          .eq("user_id", userData.id)
+          .in("post_id", postIds),
+      ]);
+
+      if (mediaResult.error) {
+        console.error("Post media fetch error:", mediaResult.error);
+      }
+
+      if (likesResult.error) {
+        console.error("Likes fetch error:", likesResult.error);
+      }
+
+      const likedPostIds = new Set(
+        (likesResult.data || []).map((like) => like.post_id),
+      );
+
+      if (postStats) {
+        // PostWithUser 형식으로 변환
+        postsWithStats = postStats.map((stat) => ({
+          post_id: stat.post_id,
+          user_id: stat.user_id,
+          clerk_id: stat.users.clerk_id,
+          name: stat.users.name,
+          username: stat.users.username,
+          image_url: stat.image_url,
+          caption: stat.caption,
+          created_at: stat.created_at,
+          updated_at: stat.updated_at,
+          media: (mediaResult.data || []).filter(
+            (media) => media.post_id === stat.post_id,
+          ),
+          likes_count: stat.likes_count || 0,
+          comments_count: stat.comments_count || 0,
+          isLiked: likedPostIds.has(stat.post_id),
+          isSaved: true, // 이 API는 저장한 게시물만 반환하므로 항상 true
+          recentComments: [], // 저장됨 탭에서는 댓글 미리보기 불필요
+        }));
+
+        // 커서와 순서가 일치하도록 저장한 순서로 정렬
+        postsWithStats.sort(
+          (a, b) => postIds.indexOf(a.post_id) - postIds.indexOf(b.post_id),
+        );
+      }
+    }
+
+    // 5. 총 개수 조회 (includeTotal=true 요청 시에만)
+    let total: number | undefined;
+
+    if (includeTotal) {
+      const { count } = collectionId
+        ? await supabase
+            .from("collection_posts")
+            .select("*", { count: "exact", head: true })
+            .eq("collection_id", collectionId)
+        : await supabase
+            .from("saves")
+            .select("*", { count: "exact", head: true })
+            .eq("user_id", userData.id);
+
+      total = count || 0;
+    }
+
+    const lastItem = items[items.length - 1];
+    const pagination: CursorPaginationInfo = {
+      limit,
+      hasMore,
+      nextCursor: hasMore
+        ? encodeCursor({ createdAt: lastItem.created_at, id: lastItem.id })
+        : null,
+      total,
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: postsWithStats,
+      pagination,
+    });
+  } catch (error) {
+    console.error("Saves user API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -0,0 +1,252 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { MAX_RECENT_SEARCHES, sanitizeSearchQuery } from "@/lib/utils/search";
+
+/**
+ * 최근 검색어 API Route
+ *
+ * GET /api/search/recent - 최근 검색어 목록 (최신순, 최대 10개)
+ * POST /api/search/recent - 검색어 기록 (이미 있으면 맨 앞으로 이동)
+ * DELETE /api/search/recent - 검색어 삭제 (query가 없으면 전체 삭제)
+ *
+ * 요청 본문(POST/DELETE): { query?: string }
+ * 응답: { success, data: RecentSearch[] }
+ */
+
+/**
+ * 현재 사용자의 Supabase user_id 조회
+ */
+async function getCurrentUserId(
+  supabase: SupabaseClient,
+  clerkId: string,
+): Promise<string | null> {
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (userError || !userData) {
+    console.error("User lookup error:", userError);
+    return null;
+  }
+
+  return userData.id;
+}
+
+/**
+ * 최근 검색어 목록 조회 (최신순)
+ */
+async function getRecentSearches(supabase: SupabaseClient, userId: string) {
+  return supabase
+    .from("recent_searches")
+    .select("id, user_id, query, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_RECENT_SEARCHES);
+}
+
+/**
+ * 최근 검색어 목록 조회 API
+ */
+export async function GET() {
+  try {
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    const currentUserId = await getCurrentUserId(supabase, userId);
+    if (!currentUserId) {
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    const { data, error } = await getRecentSearches(supabase, currentUserId);
+
+    if (error) {
+      console.error("Recent searches query error:", error);
+      return createServerErrorResponse(
+        "최근 검색어를 불러오는데 실패했습니다.",
+        error,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data || [],
+    });
+  } catch (error) {
+    console.error("Recent searches GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 검색어 기록 API
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/search/recent POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱
+    const body = await request.json();
+    const query = sanitizeSearchQuery(
+      typeof body.query === "string" ? body.query : null,
+    );
+
+    // 유효성 검증
+    if (!query) {
+      return createBadRequestResponse("검색어가 필요합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const currentUserId = await getCurrentUserId(supabase, userId);
+    if (!currentUserId) {
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 검색어 저장 (같은 검색어는 검색 시각만 갱신)
+    const { error: upsertError } = await supabase
+      .from("recent_searches")
+      .upsert(
+        {
+          user_id: currentUserId,
+          query,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id,query" },
+      );
+
+    if (upsertError) {
+      console.error("Recent search upsert error:", upsertError);
+      return createServerErrorResponse(
+        "검색어 저장에 실패했습니다.",
+        upsertError,
+      );
+    }
+
+    // 3. 보관 개수를 넘는 오래된 검색어 정리
+    const { data, error } = await getRecentSearches(supabase, currentUserId);
+
+    if (error) {
+      console.error("Recent searches query error:", error);
+      return createServerErrorResponse(
+        "최근 검색어를 불러오는데 실패했습니다.",
+        error,
+      );
+    }
+
+    const recentSearches = data || [];
+    if (recentSearches.length === MAX_RECENT_SEARCHES) {
+      const oldest = recentSearches[recentSearches.length - 1];
+      const { error: pruneError } = await supabase
+        .from("recent_searches")
+        .delete()
+        .eq("user_id", currentUserId)
+        .lt("created_at", oldest.created_at);
+
+      if (pruneError) {
+        // 정리 실패해도 목록 조회는 최대 개수까지만 하므로 무시
+        console.error("Recent searches prune error:", pruneError);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: recentSearches,
+    });
+  } catch (error) {
+    console.error("Recent searches POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 검색어 삭제 API (query가 없으면 전체 삭제)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/search/recent DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 요청 본문 파싱 (본문 없이 호출하면 전체 삭제)
+    const body = await request.json().catch(() => ({}));
+    const query =
+      typeof body.query === "string" ? sanitizeSearchQuery(body.query) : null;
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const currentUserId = await getCurrentUserId(supabase, userId);
+    if (!currentUserId) {
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 검색어 삭제
+    let deleteQuery = supabase
+      .from("recent_searches")
+      .delete()
+      .eq("user_id", currentUserId);
+
+    if (query) {
+      deleteQuery = deleteQuery.eq("query", query);
+    }
+
+    const { error: deleteError } = await deleteQuery;
+
+    if (deleteError) {
+      console.error("Recent search deletion error:", deleteError);
+      return createServerErrorResponse(
+        "검색어 삭제에 실패했습니다.",
+        deleteError,
+      );
+    }
+
+    // 3. 남은 목록 반환
+    const { data, error } = await getRecentSearches(supabase, currentUserId);
+
+    if (error) {
+      console.error("Recent searches query error:", error);
+      return createServerErrorResponse(
+        "최근 검색어를 불러오는데 실패했습니다.",
+        error,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data || [],
+    });
+  } catch (error) {
+    console.error("Recent searches DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
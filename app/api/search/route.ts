@@ -0,0 +1,304 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { normalizeHashtag } from "@/lib/utils/hashtag";
+import { getPostImages } from "@/lib/utils/post";
+import { getBlockedUserIds, getExcludedUserIds } from "@/lib/blocks";
+import { sanitizeSearchQuery, stripSearchPrefix } from "@/lib/utils/search";
+import type {
+  HashtagSearchResult,
+  PostMedia,
+  PostThumbnail,
+  SearchResults,
+  SearchType,
+  UserSearchResult,
+} from "@/lib/types";
+
+/**
+ * 통합 검색 API
+ *
+ * GET /api/search?q={query}&type={type}&limit={limit}
+ * - q: 검색어 (앞의 '@', '#'은 무시)
+ * - type: all(기본값) | users | hashtags | posts
+ * - limit: 종류별 결과 수 (type이 all이 아닐 때만 사용, 기본 20, 최대 50)
+ * - 인증 필요
+ *
+ * 응답: { success, data: { users, hashtags, posts } }
+ * - users: username 또는 name 부분 일치 (차단 관계인 사용자, 숨김 처리된 계정 제외)
+ * - hashtags: 태그 이름 접두사 일치, 게시물 수 많은 순
+ * - posts: 캡션 전문 검색(caption_search), 최신순
+ *   (볼 수 없는 비공개 계정과 차단/뮤트한 사용자 제외)
+ */
+
+const SEARCH_TYPES: SearchType[] = ["all", "users", "hashtags", "posts"];
+
+/** 전체 탭에서 종류별로 보여줄 결과 수 */
+const ALL_PREVIEW_LIMITS = { users: 5, hashtags: 5, posts: 9 };
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/**
+ * 사용자 검색 (username 또는 name 부분 일치)
+ */
+async function searchUsers(
+  supabase: SupabaseClient,
+  term: string,
+  limit: number,
+  blockedUserIds: string[],
+): Promise<UserSearchResult[]> {
+  let query = supabase
+    .from("users")
+    .select("id, clerk_id, name, username, avatar_url")
+    .or(`username.ilike.%${term}%,name.ilike.%${term}%`)
+    .eq("is_hidden", false)
+    .order("username", { ascending: true })
+    .limit(limit);
+
+  if (blockedUserIds.length > 0) {
+    query = query.not("id", "in", `(${blockedUserIds.join(",")})`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * 해시태그 검색 (이름 접두사 일치, 게시물 수 많은 순)
+ */
+async function searchHashtags(
+  supabase: SupabaseClient,
+  term: string,
+  limit: number,
+): Promise<HashtagSearchResult[]> {
+  const normalized = normalizeHashtag(term);
+  if (!normalized) {
+    return [];
+  }
+
+  // 게시물 수로 정렬하기 위해 후보를 넉넉히 가져온 뒤 정렬
+  const { data, error } = await supabase
+    .from("hashtags")
+    .select("name, post_hashtags(count)")
+    .ilike("name", `${normalized}%`)
+    .limit(limit * 4);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || [])
+    .map((hashtag) => ({
+      name: hashtag.name,
+      posts_count: hashtag.post_hashtags?.[0]?.count ?? 0,
+    }))
+    .filter((hashtag) => hashtag.posts_count > 0)
+    .sort(
+      (a, b) => b.posts_count - a.posts_count || a.name.localeCompare(b.name),
+    )
+    .slice(0, limit);
+}
+
+/**
+ * 게시물 검색 (캡션 전문 검색, 최신순)
+ */
+async function searchPosts(
+  supabase: SupabaseClient,
+  term: string,
+  limit: number,
+  hiddenUserIds: string[],
+): Promise<PostThumbnail[]> {
+  // 1. 캡션이 일치하는 게시물 ID 조회 (볼 수 없는 비공개 계정, 차단/뮤트한 사용자 제외)
+  let matchQuery = supabase
+    .from("posts")
+    .select("id, users!inner(id)")
+    .eq("is_hidden", false)
+    .eq("users.can_view_posts", true)
+    .textSearch("caption_search", term, {
+      type: "websearch",
+      config: "simple",
+    })
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (hiddenUserIds.length > 0) {
+    matchQuery = matchQuery.not(
+      "user_id",
+      "in",
+      `(${hiddenUserIds.join(",")})`,
+    );
+  }
+
+  const { data: matchData, error: matchError } = await matchQuery;
+
+  if (matchError) {
+    throw matchError;
+  }
+
+  const postIds = (matchData || []).map((post) => post.id);
+  if (postIds.length === 0) {
+    return [];
+  }
+
+  // 2. 좋아요/댓글 수와 이미지 목록 조회
+  const [statsResult, mediaResult] = await Promise.all([
+    supabase
+      .from("post_stats")
+      .select("post_id, image_url, likes_count, comments_count")
+      .in("post_id", postIds),
+    supabase
+      .from("post_media")
+      .select("id, post_id, image_url, position, created_at, width, height, blurhash, variants")
+      .in("post_id", postIds),
+  ]);
+
+  if (statsResult.error) {
+    throw statsResult.error;
+  }
+
+  if (mediaResult.error) {
+    console.error("Search post media query error:", mediaResult.error);
+    // 이미지 목록 조회 실패해도 대표 이미지(image_url)로 표시 가능
+  }
+
+  const mediaMap = new Map<string, PostMedia[]>();
+  mediaResult.data?.forEach((media) => {
+    const postMedia = mediaMap.get(media.post_id) || [];
+    postMedia.push(media);
+    mediaMap.set(media.post_id, postMedia);
+  });
+
+  const statsMap = new Map(
+    (statsResult.data || []).map((post) => [post.post_id, post]),
+  );
+
+  // 3. 검색 결과 순서(최신순)대로 썸네일 구성
+  return postIds.flatMap((postId) => {
+    const post = statsMap.get(postId);
+    if (!post) {
+      return [];
+    }
+
+    const media = mediaMap.get(postId);
+    const image = getPostImages({ image_url: post.image_url, media })[0];
+    return [
+      {
+        post_id: postId,
+        image_url: image.url,
+        image,
+        media_count: media?.length || 1,
+        likes_count: post.likes_count || 0,
+        comments_count: post.comments_count || 0,
+      },
+    ];
+  });
+}
+
+/**
+ * 현재 사용자의 Supabase user_id 조회
+ */
+async function getViewerId(
+  supabase: SupabaseClient,
+  clerkId: string,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.id ?? null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/search GET called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // 쿼리 파라미터 추출
+    const searchParams = request.nextUrl.searchParams;
+    const term = stripSearchPrefix(sanitizeSearchQuery(searchParams.get("q")));
+    const type = (searchParams.get("type") || "all") as SearchType;
+    const limitParam = parseInt(searchParams.get("limit") || "", 10);
+    const limit = Math.min(
+      Math.max(isNaN(limitParam) ? DEFAULT_LIMIT : limitParam, 1),
+      MAX_LIMIT,
+    );
+
+    // 유효성 검증
+    if (!term) {
+      return createBadRequestResponse("검색어를 입력해주세요.");
+    }
+
+    if (!SEARCH_TYPES.includes(type)) {
+      return createBadRequestResponse("올바르지 않은 검색 종류입니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 종류별 결과 수 (전체 탭은 미리보기 개수 사용)
+    const limits =
+      type === "all"
+        ? ALL_PREVIEW_LIMITS
+        : { users: limit, hashtags: limit, posts: limit };
+
+    const viewerId = await getViewerId(supabase, userId);
+
+    // 사용자 검색 시 차단 관계인 사용자 제외
+    const blockedUserIds =
+      type === "all" || type === "users"
+        ? await getBlockedUserIds(supabase, viewerId)
+        : [];
+
+    // 게시물 검색 시 차단/뮤트한 사용자 제외 (볼 수 없는 비공개 계정은 searchPosts에서 DB 필터)
+    const hiddenUserIds =
+      type === "all" || type === "posts"
+        ? await getExcludedUserIds(supabase, viewerId)
+        : [];
+
+    // 요청한 종류만 병렬 검색
+    const [users, hashtags, posts] = await Promise.all([
+      type === "all" || type === "users"
+        ? searchUsers(supabase, term, limits.users, blockedUserIds)
+        : [],
+      type === "all" || type === "hashtags"
+        ? searchHashtags(supabase, term, limits.hashtags)
+        : [],
+      type === "all" || type === "posts"
+        ? searchPosts(supabase, term, limits.posts, hiddenUserIds)
+        : [],
+    ]);
+
+    const data: SearchResults = { users, hashtags, posts };
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error("Search API error:", error);
+    return createServerErrorResponse("검색 중 오류가 발생했습니다.", error);
+  }
+}
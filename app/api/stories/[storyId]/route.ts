@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { extractStoragePath } from "@/lib/utils/storage";
+
+/**
+ * 스토리 삭제 API
+ *
+ * DELETE /api/stories/[storyId]
+ * - 본인 스토리만 삭제 가능 (다른 사용자의 스토리는 404)
+ * - Supabase Storage 이미지 파일 삭제 (실패해도 DB 삭제는 완료)
+ * - 조회 기록(story_views)은 CASCADE로 함께 삭제
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ storyId: string }> },
+) {
+  try {
+    const { storyId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/stories/[storyId] DELETE called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 스토리 삭제 (본인 것만)
+    const { data: deleteData, error: deleteError } = await supabase
+      .from("stories")
+      .delete()
+      .eq("id", storyId)
+      .eq("user_id", userData.id)
+      .select("image_url");
+
+    if (deleteError) {
+      console.error("Story deletion error:", deleteError);
+      return createServerErrorResponse(
+        "스토리 삭제에 실패했습니다.",
+        deleteError,
+      );
+    }
+
+    if (!deleteData || deleteData.length === 0) {
+      return createNotFoundResponse("스토리를 찾을 수 없습니다.");
+    }
+
+    // 3. Storage 이미지 파일 삭제
+    const filePath = extractStoragePath(deleteData[0].image_url);
+    if (filePath) {
+      const { error: storageError } = await supabase.storage
+        .from("uploads")
+        .remove([filePath]);
+
+      if (storageError) {
+        console.warn("Story image deletion failed:", storageError);
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Story DELETE API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
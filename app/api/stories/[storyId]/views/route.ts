@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createForbiddenResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { StoryViewer } from "@/lib/types";
+import { canViewUserPosts } from "@/lib/privacy";
+import { isBlockedBetween } from "@/lib/blocks";
+
+/**
+ * 스토리 조회 기록 API Route
+ *
+ * GET /api/stories/[storyId]/views - 스토리를 본 사용자 목록 (작성자 전용, 최근 순)
+ * POST /api/stories/[storyId]/views - 현재 사용자의 조회 기록 (중복 기록 무시, 본인 스토리는 기록하지 않음)
+ *
+ * 만료되었거나 볼 수 없는 스토리(비공개 계정, 차단 관계)는 404
+ */
+
+/**
+ * 스토리와 작성자 조회 (만료된 스토리는 null)
+ */
+async function getActiveStory(
+  supabase: SupabaseClient,
+  storyId: string,
+) {
+  const { data, error } = await supabase
+    .from("stories")
+    .select("id, user_id, users!inner(is_private)")
+    .eq("id", storyId)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const author = Array.isArray(data.users) ? data.users[0] : data.users;
+  return { id: data.id, user_id: data.user_id, is_private: author.is_private };
+}
+
+/**
+ * 스토리 조회자 목록 API (작성자 전용)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ storyId: string }> },
+) {
+  try {
+    const { storyId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/stories/[storyId]/views GET called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 스토리 확인 (작성자만 조회자 목록 확인 가능)
+    const story = await getActiveStory(supabase, storyId);
+    if (!story) {
+      return createNotFoundResponse("스토리를 찾을 수 없습니다.");
+    }
+
+    if (story.user_id !== userData.id) {
+      return createForbiddenResponse("본인 스토리의 조회자만 볼 수 있습니다.");
+    }
+
+    // 3. 조회 기록 조회 (조회자 정보 포함)
+    const { data: viewsData, error: viewsError } = await supabase
+      .from("story_views")
+      .select(
+        `
+        viewer_id,
+        viewed_at,
+        viewer:users!story_views_viewer_id_fkey!inner (
+          name,
+          username,
+          avatar_url
+        )
+      `,
+      )
+      .eq("story_id", storyId)
+      .order("viewed_at", { ascending: false });
+
+    if (viewsError) {
+      console.error("Story views query error:", viewsError);
+      return createServerErrorResponse(
+        "조회자 목록을 불러오는데 실패했습니다.",
+        viewsError,
+      );
+    }
+
+    const viewers: StoryViewer[] = (viewsData || []).map((view) => {
+      // viewer는 !inner join으로 단일 객체이지만 타입 추론을 위해 배열 여부 확인
+      const viewer = Array.isArray(view.viewer) ? view.viewer[0] : view.viewer;
+      return {
+        user_id: view.viewer_id,
+        name: viewer.name,
+        username: viewer.username,
+        avatar_url: viewer.avatar_url,
+        viewed_at: view.viewed_at,
+      };
+    });
+
+    return NextResponse.json({ data: viewers });
+  } catch (error) {
+    console.error("Story views GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+/**
+ * 스토리 조회 기록 API
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ storyId: string }> },
+) {
+  try {
+    const { storyId } = await params;
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/stories/[storyId]/views POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 볼 수 있는 스토리인지 확인
+    const story = await getActiveStory(supabase, storyId);
+    if (
+      !story ||
+      (await isBlockedBetween(supabase, userData.id, story.user_id)) ||
+      !(await canViewUserPosts(supabase, userData.id, {
+        id: story.user_id,
+        is_private: story.is_private,
+      }))
+    ) {
+      return createNotFoundResponse("스토리를 찾을 수 없습니다.");
+    }
+
+    // 본인 스토리는 기록하지 않음
+    if (story.user_id === userData.id) {
+      return NextResponse.json({ success: true });
+    }
+
+    // 3. 조회 기록 (이미 본 스토리는 무시)
+    const { error: viewError } = await supabase.from("story_views").upsert(
+      {
+        story_id: storyId,
+        viewer_id: userData.id,
+      },
+      { onConflict: "story_id,viewer_id", ignoreDuplicates: true },
+    );
+
+    if (viewError) {
+      console.error("Story view creation error:", viewError);
+      return createServerErrorResponse(
+        "조회 기록에 실패했습니다.",
+        viewError,
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Story views POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
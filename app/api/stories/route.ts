@@ -0,0 +1,307 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  createUnauthorizedResponse,
+  createBadRequestResponse,
+  createNotFoundResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { StoryTrayItem } from "@/lib/types";
+import { MAX_POST_IMAGE_SIZE } from "@/lib/utils/post";
+import {
+  POST_IMAGE_CONTENT_TYPE,
+  POST_IMAGE_EXTENSION,
+  processPostImage,
+} from "@/lib/images";
+import { getExcludedUserIds } from "@/lib/blocks";
+
+/**
+ * 스토리 API Route
+ *
+ * GET /api/stories - 홈 피드 스토리 트레이
+ * - 본인 + 팔로우(accepted)한 사용자의 만료되지 않은 스토리 (사용자별 오래된 순)
+ * - 차단/뮤트한 사용자, 숨김 처리된 사용자 제외
+ * - 정렬: 본인 → 안 본 스토리가 있는 사용자 → 최근 스토리 순
+ *
+ * POST /api/stories - 스토리 작성
+ * - FormData: file (이미지 1장, 5MB 이하)
+ * - 게시물 이미지와 같이 자동 회전, EXIF 제거 후 WebP 변환 (가장 큰 변환본 1장만 저장)
+ * - 작성 후 24시간 뒤 만료 (expires_at)
+ */
+
+export async function GET() {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/stories GET called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    const viewerId = userData.id;
+
+    // 2. 팔로우한 사용자 목록 (차단/뮤트 제외) + 본인
+    const [followsResult, excludedUserIds] = await Promise.all([
+      supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", viewerId)
+        .eq("status", "accepted"),
+      getExcludedUserIds(supabase, viewerId),
+    ]);
+
+    if (followsResult.error) {
+      console.error("Follows query error:", followsResult.error);
+      return createServerErrorResponse(
+        "팔로잉 목록 조회에 실패했습니다.",
+        followsResult.error,
+      );
+    }
+
+    const excluded = new Set(excludedUserIds);
+    const trayUserIds = [
+      viewerId,
+      ...(followsResult.data || [])
+        .map((follow) => follow.following_id)
+        .filter((id) => !excluded.has(id)),
+    ];
+
+    // 3. 만료되지 않은 스토리 조회 (작성자 정보 포함)
+    const { data: storiesData, error: storiesError } = await supabase
+      .from("stories")
+      .select(
+        `
+        id,
+        user_id,
+        image_url,
+        width,
+        height,
+        blurhash,
+        created_at,
+        expires_at,
+        users!inner (
+          clerk_id,
+          name,
+          username,
+          avatar_url,
+          is_hidden
+        )
+      `,
+      )
+      .in("user_id", trayUserIds)
+      .gt("expires_at", new Date().toISOString())
+      .eq("users.is_hidden", false)
+      .order("created_at", { ascending: true });
+
+    if (storiesError) {
+      console.error("Stories query error:", storiesError);
+      return createServerErrorResponse(
+        "스토리를 불러오는데 실패했습니다.",
+        storiesError,
+      );
+    }
+
+    // 4. 현재 사용자가 본 스토리
+    const storyIds = (storiesData || []).map((story) => story.id);
+    const seenStoryIds = new Set<string>();
+
+    if (storyIds.length > 0) {
+      const { data: viewsData, error: viewsError } = await supabase
+        .from("story_views")
+        .select("story_id")
+        .eq("viewer_id", viewerId)
+        .in("story_id", storyIds);
+
+      if (viewsError) {
+        console.error("Story views query error:", viewsError);
+        // 조회 기록 실패해도 트레이는 표시 (모두 안 본 것으로 표시)
+      }
+
+      viewsData?.forEach((view) => seenStoryIds.add(view.story_id));
+    }
+
+    // 5. 사용자별로 묶기
+    const trayMap = new Map<string, StoryTrayItem>();
+
+    (storiesData || []).forEach((story) => {
+      // users는 !inner join으로 단일 객체이지만 타입 추론을 위해 배열 여부 확인
+      const author = Array.isArray(story.users) ? story.users[0] : story.users;
+      const isOwn = story.user_id === viewerId;
+      const isSeen = isOwn || seenStoryIds.has(story.id);
+
+      const item = trayMap.get(story.user_id) || {
+        user_id: story.user_id,
+        clerk_id: author.clerk_id,
+        name: author.name,
+        username: author.username,
+        avatar_url: author.avatar_url,
+        stories: [],
+        hasUnseen: false,
+        isOwn,
+      };
+
+      item.stories.push({
+        id: story.id,
+        user_id: story.user_id,
+        image_url: story.image_url,
+        width: story.width,
+        height: story.height,
+        blurhash: story.blurhash,
+        created_at: story.created_at,
+        expires_at: story.expires_at,
+        isSeen,
+      });
+      item.hasUnseen = item.hasUnseen || !isSeen;
+      trayMap.set(story.user_id, item);
+    });
+
+    // 6. 정렬: 본인 → 안 본 스토리가 있는 사용자 → 최근 스토리 순
+    const latestAt = (item: StoryTrayItem) =>
+      new Date(item.stories[item.stories.length - 1].created_at).getTime();
+
+    const tray = Array.from(trayMap.values()).sort((a, b) => {
+      if (a.isOwn !== b.isOwn) return a.isOwn ? -1 : 1;
+      if (a.hasUnseen !== b.hasUnseen) return a.hasUnseen ? -1 : 1;
+      return latestAt(b) - latestAt(a);
+    });
+
+    return NextResponse.json({ data: tray });
+  } catch (error) {
+    console.error("Stories GET API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === "development") {
+      console.log("API /api/stories POST called");
+    }
+
+    // Clerk 인증 확인
+    const { userId } = await auth();
+    if (!userId) {
+      return createUnauthorizedResponse();
+    }
+
+    // FormData 파싱
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    // 유효성 검증
+    if (!(file instanceof File)) {
+      return createBadRequestResponse("이미지 파일이 필요합니다.");
+    }
+
+    if (!file.type.startsWith("image/")) {
+      return createBadRequestResponse("이미지 파일만 업로드할 수 있습니다.");
+    }
+
+    if (file.size > MAX_POST_IMAGE_SIZE) {
+      return createBadRequestResponse("파일 크기는 5MB 이하여야 합니다.");
+    }
+
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 사용자 정보 확인
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return createNotFoundResponse("사용자를 찾을 수 없습니다.");
+    }
+
+    // 2. 이미지 변환 (자동 회전, 메타데이터 제거, WebP 리사이즈, blurhash)
+    // 전체 화면으로 표시하므로 가장 큰 변환본만 생성해서 저장
+    let processed;
+    try {
+      processed = await processPostImage(file, { largestOnly: true });
+    } catch (processError) {
+      console.error("Image processing error:", processError);
+      return createBadRequestResponse("이미지 파일을 읽을 수 없습니다.");
+    }
+
+    const variant = processed.variants[0];
+
+    // 3. Supabase Storage에 업로드
+    const fileName = `${Date.now()}-${Math.random()
+      .toString(36)
+      .substring(2)}.${POST_IMAGE_EXTENSION}`;
+    // uploads 버킷 정책에 맞춰 첫 번째 폴더가 user ID가 되도록 경로 설정
+    const filePath = `${userId}/stories/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("uploads")
+      .upload(filePath, variant.buffer, {
+        cacheControl: "31536000",
+        contentType: POST_IMAGE_CONTENT_TYPE,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error("Storage upload error:", uploadError);
+      return createServerErrorResponse(
+        "이미지 업로드에 실패했습니다.",
+        uploadError,
+      );
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from("uploads").getPublicUrl(filePath);
+
+    // 4. stories 테이블에 저장 (expires_at은 DB 기본값: 24시간 후)
+    const { data: storyData, error: storyError } = await supabase
+      .from("stories")
+      .insert({
+        user_id: userData.id,
+        image_url: publicUrl,
+        width: variant.width,
+        height: variant.height,
+        blurhash: processed.blurhash,
+      })
+      .select()
+      .single();
+
+    if (storyError) {
+      console.error("Story creation error:", storyError);
+      // 업로드된 파일 정리 (실패 시)
+      await supabase.storage.from("uploads").remove([filePath]);
+
+      return createServerErrorResponse(
+        "스토리 작성에 실패했습니다.",
+        storyError,
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      story: { ...storyData, isSeen: true },
+    });
+  } catch (error) {
+    console.error("Stories POST API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
@@ -1,12 +1,14 @@
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { getDisplayName } from "@/lib/utils/profile";
 
 /**
  * Clerk 사용자를 Supabase users 테이블에 동기화하는 API
  *
  * 클라이언트에서 로그인 후 이 API를 호출하여 사용자 정보를 Supabase에 저장합니다.
- * 이미 존재하는 경우 업데이트하고, 없으면 새로 생성합니다.
+ * 없으면 새로 생성하고, 이미 존재하는 경우 기존 정보를 그대로 반환합니다.
+ * (프로필 편집으로 변경한 이름이 로그인할 때마다 덮어써지지 않도록 함)
  */
 export async function POST() {
   try {
@@ -28,22 +30,38 @@ export async function POST() {
     // Supabase에 사용자 정보 동기화
     const supabase = getServiceRoleClient();
 
+    // 웹훅(user.updated)에서 Clerk 쪽 이름 변경 여부를 판단할 수 있도록 clerk_name도 저장
+    const displayName = getDisplayName({
+      firstName: clerkUser.firstName,
+      lastName: clerkUser.lastName,
+      username: clerkUser.username,
+      primaryEmail: clerkUser.primaryEmailAddress?.emailAddress,
+    });
+
+    const { error: upsertError } = await supabase.from("users").upsert(
+      {
+        clerk_id: clerkUser.id,
+        name: displayName,
+        clerk_name: displayName,
+      },
+      {
+        onConflict: "clerk_id",
+        ignoreDuplicates: true,
+      }
+    );
+
+    if (upsertError) {
+      console.error("Supabase sync error:", upsertError);
+      return NextResponse.json(
+        { error: "Failed to sync user", details: upsertError.message },
+        { status: 500 }
+      );
+    }
+
     const { data, error } = await supabase
       .from("users")
-      .upsert(
-        {
-          clerk_id: clerkUser.id,
-          name:
-            clerkUser.fullName ||
-            clerkUser.username ||
-            clerkUser.emailAddresses[0]?.emailAddress ||
-            "Unknown",
-        },
-        {
-          onConflict: "clerk_id",
-        }
-      )
       .select()
+      .eq("clerk_id", clerkUser.id)
       .single();
 
     if (error) {
@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  MAX_AVATAR_SIZE,
+  normalizeWebsite,
+  profileFormSchema,
+} from "@/lib/utils/profile";
+import { extractStoragePath } from "@/lib/utils/storage";
 
 /**
  * 사용자 정보 조회 API
  *
  * GET /api/users/[userId]
  * - 사용자 통계 정보 조회 (user_stats 뷰 활용)
- * - 팔로우 관계 확인 (팔로우 기능 구현 전까지는 false)
+ * - 팔로우 관계 확인 (isFollowing: 승인된 팔로우, isRequested: 승인 대기 중인 팔로우 요청)
+ * - 차단 관계 확인 (isBlocked: 내가 차단한 사용자, 상대가 나를 차단했으면 404)
  * - 본인 프로필 여부 확인
  */
 
@@ -53,6 +60,8 @@ export async function GET(
 
     // 3. 팔로우 관계 확인
     let isFollowing = false;
+    let isRequested = false;
+    let isBlocked = false;
 
     if (currentUserId && !isOwnProfile) {
       // 현재 사용자의 Supabase user_id 조회
@@ -66,10 +75,32 @@ export async function GET(
         console.error("Current user lookup error:", currentUserError);
         // 에러가 발생해도 프로필 조회는 계속 진행 (isFollowing은 false로 유지)
       } else {
+        // 차단 관계 확인
+        const { data: blocksData, error: blocksError } = await supabase
+          .from("blocks")
+          .select("blocker_id")
+          .or(
+            `and(blocker_id.eq.${currentUserData.id},blocked_id.eq.${userData.user_id}),and(blocker_id.eq.${userData.user_id},blocked_id.eq.${currentUserData.id})`,
+          );
+
+        if (blocksError) {
+          console.error("Block check error:", blocksError);
+          // 에러가 발생해도 프로필 조회는 계속 진행 (isBlocked는 false로 유지)
+        } else {
+          // 상대가 나를 차단한 경우 프로필을 찾을 수 없는 것으로 처리
+          if (blocksData.some((block) => block.blocker_id === userData.user_id)) {
+            return NextResponse.json(
+              { error: "사용자를 찾을 수 없습니다." },
+              { status: 404 }
+            );
+          }
+          isBlocked = blocksData.length > 0;
+        }
+
         // 팔로우 관계 확인
         const { data: followData, error: followError } = await supabase
           .from("follows")
-          .select("id")
+          .select("id, status")
           .eq("follower_id", currentUserData.id)
           .eq("following_id", userData.user_id)
           .single();
@@ -81,7 +112,8 @@ export async function GET(
           }
           // isFollowing은 이미 false로 초기화되어 있음
         } else {
-          isFollowing = !!followData;
+          isFollowing = followData.status === "accepted";
+          isRequested = followData.status === "pending";
         }
       }
     }
@@ -89,6 +121,8 @@ export async function GET(
     return NextResponse.json({
       user: userData,
       isFollowing,
+      isRequested,
+      isBlocked,
       isOwnProfile,
     });
 
@@ -100,3 +134,235 @@ export async function GET(
     );
   }
 }
+
+/**
+ * 프로필 수정 API
+ *
+ * PATCH /api/users/[userId]
+ * - 본인 프로필만 수정 가능
+ * - FormData: name, username, bio, website, isPrivate("true"/"false"),
+ *   avatar(File, 선택), removeAvatar("true", 선택)
+ * - 공개 계정으로 전환하면 대기 중인 팔로우 요청은 모두 승인
+ * - username은 소문자로 저장되며 중복 불가 (409)
+ * - 프로필 이미지는 uploads 버킷 [userId]/avatars/ 경로에 업로드
+ * - 수정된 사용자 통계 정보(user_stats) 반환
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId: requestedUserId } = await params;
+    if (process.env.NODE_ENV === "development") {
+      console.log(`API /api/users/${requestedUserId} PATCH called`);
+    }
+
+    // Clerk 인증 확인
+    const { userId: currentUserId } = await auth();
+    if (!currentUserId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    // 본인 프로필인지 확인
+    if (currentUserId !== requestedUserId) {
+      return NextResponse.json(
+        { error: "본인의 프로필만 수정할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    // FormData 파싱 및 유효성 검증
+    const formData = await request.formData();
+    const parsed = profileFormSchema.safeParse({
+      name: formData.get("name") ?? "",
+      username: formData.get("username") ?? "",
+      bio: formData.get("bio") ?? "",
+      website: formData.get("website") ?? "",
+      isPrivate: formData.get("isPrivate") === "true",
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "잘못된 요청입니다." },
+        { status: 400 }
+      );
+    }
+
+    const avatar = formData.get("avatar");
+    const avatarFile = avatar instanceof File && avatar.size > 0 ? avatar : null;
+    const removeAvatar = formData.get("removeAvatar") === "true";
+
+    if (avatarFile) {
+      if (!avatarFile.type.startsWith("image/")) {
+        return NextResponse.json(
+          { error: "이미지 파일만 업로드할 수 있습니다." },
+          { status: 400 }
+        );
+      }
+
+      if (avatarFile.size > MAX_AVATAR_SIZE) {
+        return NextResponse.json(
+          { error: "프로필 이미지는 2MB 이하여야 합니다." },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { name, username, bio, website, isPrivate } = parsed.data;
+    const supabase = createClerkSupabaseClient();
+
+    // 1. 현재 사용자 정보 조회
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id, avatar_url, is_private")
+      .eq("clerk_id", currentUserId)
+      .single();
+
+    if (userError || !userData) {
+      console.error("User lookup error:", userError);
+      return NextResponse.json(
+        { error: "사용자를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 2. 사용자 이름 중복 확인
+    const { data: duplicateUser, error: duplicateError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("username", username)
+      .neq("id", userData.id)
+      .maybeSingle();
+
+    if (duplicateError) {
+      console.error("Username check error:", duplicateError);
+    } else if (duplicateUser) {
+      return NextResponse.json(
+        { error: "이미 사용 중인 사용자 이름입니다.", code: "CONFLICT" },
+        { status: 409 }
+      );
+    }
+
+    // 3. 프로필 이미지 업로드
+    let avatarUrl: string | null = removeAvatar ? null : userData.avatar_url;
+    let uploadedPath: string | null = null;
+
+    if (avatarFile) {
+      const fileExt = avatarFile.name.split(".").pop();
+      const fileName = `${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(2)}.${fileExt}`;
+      // uploads 버킷 정책에 맞춰 첫 번째 폴더가 user ID가 되도록 경로 설정
+      uploadedPath = `${currentUserId}/avatars/${fileName}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from("uploads")
+        .upload(uploadedPath, avatarFile, {
+          cacheControl: "3600",
+          upsert: false,
+        });
+
+      if (uploadError) {
+        console.error("Avatar upload error:", uploadError);
+        return NextResponse.json(
+          { error: "프로필 이미지 업로드에 실패했습니다." },
+          { status: 500 }
+        );
+      }
+
+      avatarUrl = supabase.storage.from("uploads").getPublicUrl(uploadedPath)
+        .data.publicUrl;
+    }
+
+    // 4. 사용자 정보 업데이트
+    const { error: updateError } = await supabase
+      .from("users")
+      .update({
+        name,
+        username,
+        bio: bio || null,
+        website: website ? normalizeWebsite(website) : null,
+        avatar_url: avatarUrl,
+        is_private: isPrivate,
+      })
+      .eq("id", userData.id);
+
+    if (updateError) {
+      // 새로 올린 이미지 정리
+      if (uploadedPath) {
+        await supabase.storage.from("uploads").remove([uploadedPath]);
+      }
+
+      // 동시에 같은 사용자 이름으로 변경한 경우 (UNIQUE 제약조건)
+      if (updateError.code === "23505") {
+        return NextResponse.json(
+          { error: "이미 사용 중인 사용자 이름입니다.", code: "CONFLICT" },
+          { status: 409 }
+        );
+      }
+
+      console.error("Profile update error:", updateError);
+      return NextResponse.json(
+        { error: "프로필 수정에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    // 5. 이전 프로필 이미지 삭제 (교체 또는 삭제한 경우)
+    if (userData.avatar_url && userData.avatar_url !== avatarUrl) {
+      const oldPath = extractStoragePath(userData.avatar_url);
+      if (oldPath) {
+        const { error: removeError } = await supabase.storage
+          .from("uploads")
+          .remove([oldPath]);
+        if (removeError) {
+          console.error("Old avatar delete error:", removeError);
+          // 이전 이미지 삭제 실패는 수정 결과에 영향 없음
+        }
+      }
+    }
+
+    // 6. 공개 계정으로 전환한 경우 대기 중인 팔로우 요청 모두 승인
+    if (userData.is_private && !isPrivate) {
+      const { error: approveError } = await supabase
+        .from("follows")
+        .update({ status: "accepted" })
+        .eq("following_id", userData.id)
+        .eq("status", "pending");
+
+      if (approveError) {
+        console.error("Pending follows approve error:", approveError);
+        // 요청 승인 실패는 수정 결과에 영향 없음 (요청 목록에서 직접 승인 가능)
+      }
+    }
+
+    // 7. 수정된 사용자 통계 정보 조회
+    const { data: updatedUser, error: statsError } = await supabase
+      .from("user_stats")
+      .select("*")
+      .eq("clerk_id", currentUserId)
+      .single();
+
+    if (statsError || !updatedUser) {
+      console.error("User stats lookup error:", statsError);
+      return NextResponse.json(
+        { error: "수정된 프로필을 불러오지 못했습니다." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: updatedUser,
+    });
+  } catch (error) {
+    console.error("User profile PATCH API error:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -6,14 +6,16 @@ import {
   createBadRequestResponse,
   createServerErrorResponse,
 } from "@/lib/utils/api-error";
+import { sanitizeSearchQuery, stripSearchPrefix } from "@/lib/utils/search";
+import { getBlockedUserIds } from "@/lib/blocks";
 
 /**
  * 사용자 검색 API
  *
  * GET /api/users/search?q={query}
- * - query: 검색할 사용자명 또는 아이디
+ * - query: 검색할 사용자 이름(핸들) 또는 이름 (앞의 @는 무시)
  * - 인증 필요
- * - 사용자명 또는 clerk_id로 검색
+ * - username 또는 name으로 검색 (숨김 처리된 계정, 차단 관계인 사용자 제외)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -25,19 +27,51 @@ export async function GET(request: NextRequest) {
 
     // 쿼리 파라미터 추출
     const searchParams = request.nextUrl.searchParams;
-    const query = searchParams.get("q");
+    const query = stripSearchPrefix(sanitizeSearchQuery(searchParams.get("q")));
 
-    if (!query || query.trim().length === 0) {
+    if (!query) {
       return createBadRequestResponse("검색어를 입력해주세요.");
     }
 
     const supabase = createClerkSupabaseClient();
 
-    // 사용자 검색 (name 또는 clerk_id로 검색)
-    const { data: users, error: searchError } = await supabase
+    // 차단 관계인 사용자 제외 (멘션 자동완성에서도 사용)
+    const { data: viewer, error: viewerError } = await supabase
       .from("users")
-      .select("id, clerk_id, name, created_at")
-      .or(`name.ilike.%${query}%,clerk_id.ilike.%${query}%`)
+      .select("id")
+      .eq("clerk_id", userId)
+      .maybeSingle();
+
+    if (viewerError) {
+      console.error("Viewer lookup error:", viewerError);
+      return createServerErrorResponse(
+        "사용자 검색에 실패했습니다.",
+        viewerError,
+      );
+    }
+
+    const blockedUserIds = await getBlockedUserIds(
+      supabase,
+      viewer?.id ?? null,
+    );
+
+    // 사용자 검색 (username 또는 name으로 검색)
+    let searchQuery = supabase
+      .from("users")
+      .select("id, clerk_id, name, username, avatar_url, created_at")
+      .or(`username.ilike.%${query}%,name.ilike.%${query}%`)
+      .eq("is_hidden", false); // 관리자가 숨김 처리한 계정 제외
+
+    if (blockedUserIds.length > 0) {
+      searchQuery = searchQuery.not(
+        "id",
+        "in",
+        `(${blockedUserIds.join(",")})`,
+      );
+    }
+
+    const { data: users, error: searchError } = await searchQuery
+      .order("username", { ascending: true })
       .limit(20);
 
     if (searchError) {
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyWebhook } from "@clerk/nextjs/webhooks";
+import type { UserJSON, WebhookEvent } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  createBadRequestResponse,
+  createServerErrorResponse,
+} from "@/lib/utils/api-error";
+import { getDisplayName } from "@/lib/utils/profile";
+import { listStorageFiles, removeStorageFiles } from "@/lib/utils/storage";
+
+/**
+ * Clerk 웹훅 API
+ *
+ * POST /api/webhooks/clerk
+ * - Svix 서명 검증 (CLERK_WEBHOOK_SIGNING_SECRET 환경 변수 사용)
+ * - user.created: 사용자 생성 (이미 있으면 무시)
+ * - user.updated: 이름 동기화 (Clerk 쪽 이름이 바뀐 경우만, 이미 반영한 것보다 오래된 이벤트는 무시)
+ * - user.deleted: 사용자 삭제 (게시물, 댓글 등은 CASCADE로 함께 삭제) + Storage 파일 정리
+ *
+ * 같은 이벤트가 여러 번 전달되어도 결과가 같도록 처리합니다.
+ * DB 오류 시 500을 반환하여 Svix가 재시도하도록 합니다.
+ */
+
+/**
+ * 웹훅 사용자 정보에서 표시 이름 추출 (sync-user API와 같은 함수 사용)
+ */
+function getClerkDisplayName(user: UserJSON): string {
+  const primaryEmail = user.email_addresses.find(
+    (email) => email.id === user.primary_email_address_id,
+  );
+
+  return getDisplayName({
+    firstName: user.first_name,
+    lastName: user.last_name,
+    username: user.username,
+    primaryEmail: primaryEmail?.email_address,
+  });
+}
+
+/**
+ * 사용자 생성 (이미 존재하면 무시)
+ */
+async function insertUserIfMissing(supabase: SupabaseClient, user: UserJSON) {
+  return supabase.from("users").upsert(
+    {
+      clerk_id: user.id,
+      name: getClerkDisplayName(user),
+      clerk_name: getClerkDisplayName(user),
+      clerk_updated_at: new Date(user.updated_at).toISOString(),
+    },
+    {
+      onConflict: "clerk_id",
+      ignoreDuplicates: true,
+    },
+  );
+}
+
+/**
+ * Storage에 업로드한 사용자 파일 삭제
+ *
+ * 사용자 폴더 전체를 하위 폴더까지 정리 (게시물 이미지, 프로필 이미지, 스토리, 업로드 중 임시 파일)
+ * 실패해도 사용자 삭제 결과에는 영향 없음
+ */
+async function removeUserFiles(supabase: SupabaseClient, clerkId: string) {
+  try {
+    const files = await listStorageFiles(supabase, clerkId);
+    await removeStorageFiles(supabase, files.map((file) => file.path));
+  } catch (error) {
+    console.error("Storage cleanup error:", error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // 1. 서명 검증
+  let evt: WebhookEvent;
+  try {
+    evt = await verifyWebhook(request);
+  } catch (error) {
+    console.error("Clerk webhook verification failed:", error);
+    return createBadRequestResponse("웹훅 서명 검증에 실패했습니다.");
+  }
+
+  if (process.env.NODE_ENV === "development") {
+    console.log(`API /api/webhooks/clerk POST called: ${evt.type}`);
+  }
+
+  try {
+    const supabase = getServiceRoleClient();
+
+    // 2. 이벤트 타입별 처리
+    switch (evt.type) {
+      case "user.created": {
+        const { error } = await insertUserIfMissing(supabase, evt.data);
+        if (error) {
+          console.error("Webhook user insert error:", error);
+          return createServerErrorResponse("사용자 생성에 실패했습니다.", error);
+        }
+        break;
+      }
+
+      case "user.updated": {
+        // user.created보다 먼저 도착한 경우를 대비해 없으면 생성
+        const { error: insertError } = await insertUserIfMissing(
+          supabase,
+          evt.data,
+        );
+        if (insertError) {
+          console.error("Webhook user insert error:", insertError);
+          return createServerErrorResponse(
+            "사용자 생성에 실패했습니다.",
+            insertError,
+          );
+        }
+
+        // 이름은 Clerk 쪽 이름이 바뀐 경우에만 갱신 (프로필 편집으로 바꾼 이름 유지)
+        const { data: existingUser, error: lookupError } = await supabase
+          .from("users")
+          .select("clerk_name")
+          .eq("clerk_id", evt.data.id)
+          .single();
+
+        if (lookupError) {
+          console.error("Webhook user lookup error:", lookupError);
+          return createServerErrorResponse(
+            "사용자 조회에 실패했습니다.",
+            lookupError,
+          );
+        }
+
+        const clerkName = getClerkDisplayName(evt.data);
+        const nameChanged =
+          existingUser.clerk_name !== null &&
+          existingUser.clerk_name !== clerkName;
+
+        // 이미 반영한 것보다 최신 이벤트인 경우에만 업데이트
+        const updatedAt = new Date(evt.data.updated_at).toISOString();
+        const { error: updateError } = await supabase
+          .from("users")
+          .update({
+            ...(nameChanged && { name: clerkName }),
+            clerk_name: clerkName,
+            clerk_updated_at: updatedAt,
+          })
+          .eq("clerk_id", evt.data.id)
+          .or(`clerk_updated_at.is.null,clerk_updated_at.lt."${updatedAt}"`);
+
+        if (updateError) {
+          console.error("Webhook user update error:", updateError);
+          return createServerErrorResponse(
+            "사용자 정보 수정에 실패했습니다.",
+            updateError,
+          );
+        }
+        break;
+      }
+
+      case "user.deleted": {
+        const clerkId = evt.data.id;
+        if (!clerkId) {
+          return createBadRequestResponse("사용자 ID가 없습니다.");
+        }
+
+        // 이미 삭제된 경우에도 성공으로 처리
+        const { error: deleteError } = await supabase
+          .from("users")
+          .delete()
+          .eq("clerk_id", clerkId);
+
+        if (deleteError) {
+          console.error("Webhook user delete error:", deleteError);
+          return createServerErrorResponse(
+            "사용자 삭제에 실패했습니다.",
+            deleteError,
+          );
+        }
+
+        await removeUserFiles(supabase, clerkId);
+        break;
+      }
+
+      default:
+        // 구독하지 않은 이벤트는 무시
+        break;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Clerk webhook API error:", error);
+    return createServerErrorResponse(undefined, error);
+  }
+}
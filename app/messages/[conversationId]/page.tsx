@@ -0,0 +1,26 @@
+import { MessageThread } from "@/components/message/MessageThread";
+
+/**
+ * 대화방 페이지
+ *
+ * 동적 라우트: /messages/[conversationId]
+ * - 대화 참여자만 조회 가능 (그 외에는 MessageThread에서 에러 표시)
+ * - 메시지 목록, 전송, 실시간 수신, 읽음 확인은 MessageThread에서 처리
+ */
+
+interface ConversationPageProps {
+  params: Promise<{ conversationId: string }>;
+}
+
+export default async function ConversationPage({
+  params,
+}: ConversationPageProps) {
+  const { conversationId } = await params;
+
+  return <MessageThread conversationId={conversationId} />;
+}
+
+// 메타데이터 설정
+export const metadata = {
+  title: "메시지 • Instagram 클론",
+};
@@ -0,0 +1,37 @@
+"use client";
+
+import { useState } from "react";
+import { useUser } from "@clerk/nextjs";
+import { ConversationList } from "@/components/message/ConversationList";
+
+/**
+ * 메시지 페이지 (받은 메시지함)
+ *
+ * - 내가 참여한 1:1 대화 목록 (최근 메시지 순)
+ * - 읽지 않은 대화 수 표시
+ * - 새 메시지는 실시간으로 반영
+ * - 대화는 프로필의 "메시지 보내기"로 시작
+ */
+export default function MessagesPage() {
+  const { user } = useUser();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  return (
+    <div className="min-h-screen bg-background py-8 px-4">
+      <div className="max-w-[630px] mx-auto">
+        {/* 페이지 헤더 */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-black mb-2">메시지</h1>
+          <p className="text-gray-600 text-sm">
+            {unreadCount > 0
+              ? `읽지 않은 대화 ${unreadCount}개`
+              : "친구와 주고받은 메시지를 확인하세요"}
+          </p>
+        </div>
+
+        {/* 대화 목록 */}
+        {user && <ConversationList onUnreadCountChange={setUnreadCount} />}
+      </div>
+    </div>
+  );
+}
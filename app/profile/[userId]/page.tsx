@@ -1,94 +1,38 @@
-import { notFound } from "next/navigation";
-import { auth } from "@clerk/nextjs/server";
-import { ProfilePageClient } from "@/components/profile/ProfilePageClient";
+import { notFound, permanentRedirect } from "next/navigation";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getProfilePath } from "@/lib/utils/profile";
 
 /**
- * 프로필 페이지
+ * 이전 프로필 URL 리다이렉트 페이지
  *
  * 동적 라우트: /profile/[userId] (Clerk user ID)
- * - 사용자 정보 표시 (ProfileHeader)
- * - 게시물 그리드 표시 (PostGrid)
- * - 게시물 상세 모달 연동
+ * - 프로필 URL이 /u/[username]으로 변경되어 기존 링크는 영구 리다이렉트
+ * - 해당 Clerk user ID의 사용자가 없으면 404
  */
 
-interface ProfilePageProps {
+interface LegacyProfilePageProps {
   params: Promise<{ userId: string }>;
 }
 
-export default async function ProfilePage({ params }: ProfilePageProps) {
+export default async function LegacyProfilePage({
+  params,
+}: LegacyProfilePageProps) {
   const { userId } = await params;
 
-  try {
-    // 현재 로그인한 사용자 확인
-    const { userId: currentUserId } = await auth();
+  const supabase = createClerkSupabaseClient();
+  const { data: userData, error } = await supabase
+    .from("users")
+    .select("username")
+    .eq("clerk_id", userId)
+    .maybeSingle();
 
-    // 현재 사용자의 Supabase user_id 조회 (팔로우 버튼용)
-    let currentUserSupabaseId = null;
-    if (currentUserId) {
-      const supabase = (await import('@/lib/supabase/server')).createClerkSupabaseClient();
-      const { data: userData } = await supabase
-        .from('users')
-        .select('id')
-        .eq('clerk_id', currentUserId)
-        .single();
-      currentUserSupabaseId = userData?.id || null;
-    }
-
-    // 사용자 정보 조회
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/users/${userId}`, {
-      cache: 'no-store', // 실시간 데이터 필요
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        notFound(); // Next.js 404 페이지 표시
-      }
-      throw new Error('사용자를 찾을 수 없습니다.');
-    }
-
-    const profileData = await response.json();
-    const { user, isFollowing, isOwnProfile } = profileData;
-
-    return (
-      <ProfilePageClient
-        userId={userId}
-        user={user}
-        isFollowing={isFollowing}
-        isOwnProfile={isOwnProfile}
-        currentUserSupabaseId={currentUserSupabaseId}
-      />
-    );
-  } catch (error) {
-    console.error('Profile page error:', error);
+  if (error) {
+    console.error("Legacy profile lookup error:", error);
+  }
 
-    // 에러 발생 시 404 페이지로 리다이렉트
+  if (!userData?.username) {
     notFound();
   }
-}
 
-// 메타데이터 설정 (선택사항)
-export async function generateMetadata({ params }: ProfilePageProps) {
-  const { userId } = await params;
-
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/users/${userId}`);
-    if (!response.ok) {
-      return {
-        title: '사용자를 찾을 수 없습니다',
-      };
-    }
-
-    const profileData = await response.json();
-    const { user } = profileData;
-
-    return {
-      title: `${user.name} (@${user.name}) • Instagram 클론`,
-      description: `${user.name}님의 프로필입니다. ${user.posts_count}개의 게시물을 확인하세요.`,
-    };
-  } catch (error) {
-    return {
-      title: '프로필',
-      description: 'Instagram 클론 프로필 페이지',
-    };
-  }
+  permanentRedirect(getProfilePath(userData.username));
 }
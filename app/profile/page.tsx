@@ -1,12 +1,14 @@
-import { redirect } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getProfilePath } from "@/lib/utils/profile";
 
 /**
  * 본인 프로필 리다이렉트 페이지
  *
  * /profile로 접근 시 현재 로그인된 사용자의 프로필로 리다이렉트
  * - 로그인하지 않은 경우: /sign-in으로 리다이렉트
- * - 로그인한 경우: /profile/{userId}로 리다이렉트
+ * - 로그인한 경우: /u/{username}으로 리다이렉트
  */
 
 export default async function ProfilePage() {
@@ -17,6 +19,18 @@ export default async function ProfilePage() {
     redirect("/sign-in");
   }
 
-  // 로그인한 경우 본인 프로필 페이지로 리다이렉트
-  redirect(`/profile/${userId}`);
+  // 로그인한 사용자의 username 조회
+  const supabase = createClerkSupabaseClient();
+  const { data: userData } = await supabase
+    .from("users")
+    .select("username")
+    .eq("clerk_id", userId)
+    .maybeSingle();
+
+  if (!userData?.username) {
+    notFound();
+  }
+
+  // 본인 프로필 페이지로 리다이렉트
+  redirect(getProfilePath(userData.username));
 }
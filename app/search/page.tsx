@@ -2,29 +2,53 @@
 
 import { useState, useCallback, useEffect } from "react";
 import { useUser } from "@clerk/nextjs";
-import { Search, User } from "lucide-react";
+import { Copy, Hash, Search, User, X } from "lucide-react";
+import Image from "next/image";
 import Link from "next/link";
 import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { getProfilePath } from "@/lib/utils/profile";
+import { getTagPath } from "@/lib/utils/hashtag";
+import { useToast } from "@/components/ui/toast";
+import { PostModal } from "@/components/post/PostModal";
+import { PostImage } from "@/components/post/PostImage";
+import { RecentSearch, SearchResults, SearchType } from "@/lib/types";
 
 /**
  * 검색 페이지
  *
- * 사용자 아이디 검색 기능
- * - 검색어 입력
- * - 검색 결과 표시 (사용자 목록)
- * - 사용자 클릭 시 프로필 페이지로 이동
+ * 사용자, 해시태그, 게시물(캡션 전문 검색) 통합 검색
+ * - 검색어 입력 (300ms 디바운스)
+ * - 전체/사용자/태그/게시물 탭 (/api/search?type=)
+ * - 게시물 클릭 시 상세 모달, 사용자/태그 클릭 시 해당 페이지로 이동
+ * - 검색어가 없으면 최근 검색어 표시 (개별 삭제, 모두 지우기)
+ * - Enter 또는 결과 클릭 시 최근 검색어에 기록
  */
+
+const SEARCH_TABS: { type: SearchType; label: string }[] = [
+  { type: "all", label: "전체" },
+  { type: "users", label: "사용자" },
+  { type: "hashtags", label: "태그" },
+  { type: "posts", label: "게시물" },
+];
+
+const EMPTY_RESULTS: SearchResults = { users: [], hashtags: [], posts: [] };
+
 export default function SearchPage() {
   const { isSignedIn } = useUser();
+  const { showToast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [activeTab, setActiveTab] = useState<SearchType>("all");
+  const [searchResults, setSearchResults] =
+    useState<SearchResults>(EMPTY_RESULTS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
 
   // 검색 실행
-  const handleSearch = useCallback(async (query: string) => {
+  const handleSearch = useCallback(async (query: string, type: SearchType) => {
     if (!query.trim()) {
-      setSearchResults([]);
+      setSearchResults(EMPTY_RESULTS);
       return;
     }
 
@@ -34,7 +58,8 @@ export default function SearchPage() {
     try {
       let response: Response | null = null;
       try {
-        response = await fetch(`/api/users/search?q=${encodeURIComponent(query)}`);
+        const params = new URLSearchParams({ q: query, type });
+        response = await fetch(`/api/search?${params}`);
       } catch (fetchErr) {
         const errorInfo = await handleFetchError(null, fetchErr);
         logError(errorInfo, "SearchPage.handleSearch");
@@ -52,7 +77,7 @@ export default function SearchPage() {
       }
 
       const data = await response.json();
-      setSearchResults(data.data || []);
+      setSearchResults(data.data || EMPTY_RESULTS);
     } catch (err) {
       const errorInfo = await handleFetchError(null, err);
       logError(errorInfo, "SearchPage.handleSearch");
@@ -62,18 +87,88 @@ export default function SearchPage() {
     }
   }, []);
 
-  // 검색어 변경 시 디바운스 검색
+  // 최근 검색어 API 호출 (GET 조회, POST 기록, DELETE 삭제)
+  const requestRecentSearches = useCallback(
+    async (
+      method: "GET" | "POST" | "DELETE",
+      query?: string,
+    ): Promise<boolean> => {
+      try {
+        let response: Response | null = null;
+        try {
+          response = await fetch("/api/search/recent", {
+            method,
+            headers:
+              method === "GET"
+                ? undefined
+                : { "Content-Type": "application/json" },
+            body: method === "GET" ? undefined : JSON.stringify({ query }),
+          });
+        } catch (fetchErr) {
+          const errorInfo = await handleFetchError(null, fetchErr);
+          logError(errorInfo, "SearchPage.requestRecentSearches");
+          return false;
+        }
+
+        if (!response.ok) {
+          const errorInfo = await handleFetchError(response, null);
+          logError(errorInfo, "SearchPage.requestRecentSearches");
+          return false;
+        }
+
+        const data = await response.json();
+        setRecentSearches(data.data || []);
+        return true;
+      } catch (err) {
+        const errorInfo = await handleFetchError(null, err);
+        logError(errorInfo, "SearchPage.requestRecentSearches");
+        return false;
+      }
+    },
+    [],
+  );
+
+  // 최근 검색어 로드
+  useEffect(() => {
+    if (isSignedIn) {
+      requestRecentSearches("GET");
+    }
+  }, [isSignedIn, requestRecentSearches]);
+
+  // 검색어/탭 변경 시 디바운스 검색
   useEffect(() => {
     const timer = setTimeout(() => {
-      if (searchQuery) {
-        handleSearch(searchQuery);
+      if (searchQuery.trim()) {
+        handleSearch(searchQuery, activeTab);
       } else {
-        setSearchResults([]);
+        setSearchResults(EMPTY_RESULTS);
+        setError(null);
       }
     }, 300); // 300ms 디바운스
 
     return () => clearTimeout(timer);
-  }, [searchQuery, handleSearch]);
+  }, [searchQuery, activeTab, handleSearch]);
+
+  // 현재 검색어를 최근 검색어에 기록
+  const recordSearch = useCallback(() => {
+    const query = searchQuery.trim();
+    if (query) {
+      requestRecentSearches("POST", query);
+    }
+  }, [searchQuery, requestRecentSearches]);
+
+  // 최근 검색어 삭제 (query가 없으면 전체 삭제)
+  const handleRecentDelete = async (query?: string) => {
+    const success = await requestRecentSearches("DELETE", query);
+    if (!success) {
+      showToast("검색어 삭제에 실패했습니다.", "error");
+    }
+  };
+
+  const hasQuery = searchQuery.trim().length > 0;
+  const { users, hashtags, posts } = searchResults;
+  const hasResults =
+    users.length > 0 || hashtags.length > 0 || posts.length > 0;
 
   return (
     <div className="min-h-screen bg-background py-8 px-4">
@@ -81,73 +176,243 @@ export default function SearchPage() {
         {/* 검색 헤더 */}
         <div className="mb-6">
           <h1 className="text-2xl font-bold text-black mb-2">검색</h1>
-          <p className="text-gray-600 text-sm">사용자 아이디 또는 이름으로 검색하세요</p>
+          <p className="text-gray-600 text-sm">
+            사용자, 해시태그, 게시물 내용으로 검색하세요
+          </p>
         </div>
 
         {/* 검색 입력 */}
-        <div className="relative mb-6">
+        <div className="relative mb-4">
           <div className="absolute left-3 top-1/2 -translate-y-1/2">
             <Search className="w-5 h-5 text-gray-400" />
           </div>
           <input
             type="text"
-            placeholder="사용자 검색..."
+            placeholder="검색..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                recordSearch();
+              }
+            }}
             className="w-full pl-10 pr-4 py-3 bg-white border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            aria-label="사용자 검색 입력"
+            aria-label="검색어 입력"
           />
         </div>
 
+        {/* 탭 */}
+        <div className="flex border-b border-border mb-6" role="tablist">
+          {SEARCH_TABS.map((tab) => (
+            <button
+              key={tab.type}
+              role="tab"
+              aria-selected={activeTab === tab.type}
+              onClick={() => setActiveTab(tab.type)}
+              className={`flex-1 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors ${
+                activeTab === tab.type
+                  ? "border-black text-black"
+                  : "border-transparent text-gray-500 hover:text-black"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* 최근 검색어 (검색어가 없을 때) */}
+        {!hasQuery &&
+          (recentSearches.length > 0 ? (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="font-semibold text-black">최근 검색 항목</h2>
+                <button
+                  onClick={() => handleRecentDelete()}
+                  className="text-sm font-semibold text-blue-500 hover:text-blue-600"
+                >
+                  모두 지우기
+                </button>
+              </div>
+              <ul className="space-y-1">
+                {recentSearches.map((recent) => (
+                  <li
+                    key={recent.id}
+                    className="flex items-center gap-3 rounded-lg hover:bg-gray-50"
+                  >
+                    <button
+                      onClick={() => setSearchQuery(recent.query)}
+                      className="flex-1 flex items-center gap-3 px-2 py-2 text-left min-w-0"
+                    >
+                      <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <span className="text-sm text-black truncate">
+                        {recent.query}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => handleRecentDelete(recent.query)}
+                      aria-label={`${recent.query} 검색어 삭제`}
+                      className="p-2 text-gray-400 hover:text-black"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">검색어를 입력하세요</p>
+            </div>
+          ))}
+
         {/* 로딩 상태 */}
-        {isLoading && (
+        {hasQuery && isLoading && (
           <div className="flex items-center justify-center py-12">
             <div className="w-8 h-8 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
           </div>
         )}
 
         {/* 에러 상태 */}
-        {error && !isLoading && (
+        {hasQuery && error && !isLoading && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
             <p className="text-red-600 text-sm">{error}</p>
           </div>
         )}
 
         {/* 검색 결과 */}
-        {!isLoading && !error && (
-          <div className="space-y-2">
-            {searchResults.length === 0 && searchQuery ? (
+        {hasQuery && !isLoading && !error && (
+          <div className="space-y-8">
+            {!hasResults && (
               <div className="text-center py-12">
                 <p className="text-gray-500">검색 결과가 없습니다.</p>
               </div>
-            ) : searchResults.length > 0 ? (
-              searchResults.map((user) => (
-                <Link
-                  key={user.id}
-                  href={`/profile/${user.clerk_id}`}
-                  className="flex items-center gap-4 p-4 bg-white border border-border rounded-lg hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-                >
-                  <div className="w-12 h-12 rounded-full bg-gray-300 overflow-hidden flex-shrink-0">
-                    <div className="w-full h-full bg-gray-400 flex items-center justify-center">
-                      <User className="w-6 h-6 text-white" />
-                    </div>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="font-semibold text-black truncate">{user.name}</p>
-                    <p className="text-sm text-gray-500 truncate">@{user.clerk_id}</p>
-                  </div>
-                </Link>
-              ))
-            ) : (
-              <div className="text-center py-12">
-                <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
-                <p className="text-gray-500">검색어를 입력하세요</p>
-              </div>
+            )}
+
+            {/* 사용자 */}
+            {users.length > 0 && (
+              <section>
+                {activeTab === "all" && (
+                  <h2 className="font-semibold text-black mb-3">사용자</h2>
+                )}
+                <div className="space-y-2">
+                  {users.map((user) => (
+                    <Link
+                      key={user.id}
+                      href={getProfilePath(user.username)}
+                      onClick={recordSearch}
+                      className="flex items-center gap-4 p-4 bg-white border border-border rounded-lg hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                    >
+                      <div className="w-12 h-12 rounded-full bg-gray-300 overflow-hidden relative flex-shrink-0">
+                        {user.avatar_url ? (
+                          <Image
+                            src={user.avatar_url}
+                            alt={`${user.username} 프로필 이미지`}
+                            fill
+                            className="object-cover"
+                            sizes="48px"
+                          />
+                        ) : (
+                          <div className="w-full h-full bg-gray-400 flex items-center justify-center">
+                            <User className="w-6 h-6 text-white" />
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-black truncate">
+                          {user.username}
+                        </p>
+                        <p className="text-sm text-gray-500 truncate">
+                          {user.name}
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* 해시태그 */}
+            {hashtags.length > 0 && (
+              <section>
+                {activeTab === "all" && (
+                  <h2 className="font-semibold text-black mb-3">태그</h2>
+                )}
+                <div className="space-y-2">
+                  {hashtags.map((hashtag) => (
+                    <Link
+                      key={hashtag.name}
+                      href={getTagPath(hashtag.name)}
+                      onClick={recordSearch}
+                      className="flex items-center gap-4 p-4 bg-white border border-border rounded-lg hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                    >
+                      <div className="w-12 h-12 rounded-full border border-border flex items-center justify-center flex-shrink-0">
+                        <Hash className="w-6 h-6 text-gray-500" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-black truncate">
+                          #{hashtag.name}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          게시물 {hashtag.posts_count.toLocaleString()}개
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* 게시물 */}
+            {posts.length > 0 && (
+              <section>
+                {activeTab === "all" && (
+                  <h2 className="font-semibold text-black mb-3">게시물</h2>
+                )}
+                <div className="grid grid-cols-3 gap-1 md:gap-2">
+                  {posts.map((post) => (
+                    <button
+                      key={post.post_id}
+                      onClick={() => {
+                        recordSearch();
+                        setSelectedPostId(post.post_id);
+                      }}
+                      aria-label={`게시물 보기 - 좋아요 ${post.likes_count}개, 댓글 ${post.comments_count}개`}
+                      className="aspect-square relative overflow-hidden bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                    >
+                      <PostImage
+                        image={post.image}
+                        alt="게시물 썸네일"
+                        className="object-cover"
+                        sizes="(max-width: 768px) 33vw, 210px"
+                      />
+                      {post.media_count > 1 && (
+                        <Copy
+                          className="absolute top-2 right-2 w-5 h-5 text-white drop-shadow"
+                          aria-label={`이미지 ${post.media_count}장`}
+                        />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </section>
             )}
           </div>
         )}
       </div>
+
+      {/* 게시물 상세 모달 */}
+      {selectedPostId && (
+        <PostModal
+          postId={selectedPostId}
+          isOpen={selectedPostId !== null}
+          onClose={() => setSelectedPostId(null)}
+          onPrevious={undefined}
+          onNext={undefined}
+          hasPrevious={false}
+          hasNext={false}
+        />
+      )}
     </div>
   );
 }
-
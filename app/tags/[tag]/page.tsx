@@ -0,0 +1,52 @@
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { normalizeHashtag } from "@/lib/utils/hashtag";
+import { TagPageClient } from "@/components/tag/TagPageClient";
+
+/**
+ * 해시태그 페이지
+ *
+ * 동적 라우트: /tags/[tag] ('#' 제외, 대소문자 구분 없음)
+ * - 태그 이름과 게시물 수 표시
+ * - 태그가 달린 게시물 그리드 (PostGrid)
+ * - 게시물 상세 모달 연동
+ */
+
+interface TagPageProps {
+  params: Promise<{ tag: string }>;
+}
+
+/**
+ * 태그가 달린 게시물 수 조회 (없는 태그는 0)
+ */
+async function getTagPostsCount(tag: string): Promise<number> {
+  const supabase = createClerkSupabaseClient();
+  const { count, error } = await supabase
+    .from("post_hashtags")
+    .select("id, hashtags!inner(name)", { count: "exact", head: true })
+    .eq("hashtags.name", tag);
+
+  if (error) {
+    console.error("Tag posts count error:", error);
+  }
+
+  return count || 0;
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { tag: rawTag } = await params;
+  const tag = normalizeHashtag(decodeURIComponent(rawTag));
+  const postsCount = await getTagPostsCount(tag);
+
+  return <TagPageClient tag={tag} postsCount={postsCount} />;
+}
+
+// 메타데이터 설정
+export async function generateMetadata({ params }: TagPageProps) {
+  const { tag: rawTag } = await params;
+  const tag = normalizeHashtag(decodeURIComponent(rawTag));
+
+  return {
+    title: `#${tag} • Instagram 클론`,
+    description: `#${tag} 해시태그가 포함된 게시물을 확인하세요.`,
+  };
+}
@@ -0,0 +1,133 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { ProfilePageClient } from "@/components/profile/ProfilePageClient";
+
+/**
+ * 프로필 페이지
+ *
+ * 동적 라우트: /u/[username] (사용자 이름)
+ * - username으로 Clerk user ID 조회 후 /api/users/[userId]로 프로필 조회
+ * - 사용자 정보 표시 (ProfileHeader)
+ * - 게시물 그리드 표시 (PostGrid, 비공개 계정은 팔로워에게만)
+ * - 게시물 상세 모달 연동
+ */
+
+interface ProfilePageProps {
+  params: Promise<{ username: string }>;
+}
+
+/**
+ * username으로 Clerk user ID 조회 (대소문자 구분 없음)
+ */
+async function getClerkIdByUsername(username: string): Promise<string | null> {
+  const supabase = createClerkSupabaseClient();
+  const { data } = await supabase
+    .from("users")
+    .select("clerk_id")
+    .eq("username", decodeURIComponent(username).toLowerCase())
+    .maybeSingle();
+
+  return data?.clerk_id || null;
+}
+
+export default async function ProfilePage({ params }: ProfilePageProps) {
+  const { username } = await params;
+
+  try {
+    const userId = await getClerkIdByUsername(username);
+    if (!userId) {
+      notFound();
+    }
+
+    // 현재 로그인한 사용자 확인
+    const { userId: currentUserId } = await auth();
+
+    // 현재 사용자의 Supabase user_id 조회 (팔로우 버튼용)
+    let currentUserSupabaseId = null;
+    if (currentUserId) {
+      const supabase = createClerkSupabaseClient();
+      const { data: userData } = await supabase
+        .from("users")
+        .select("id")
+        .eq("clerk_id", currentUserId)
+        .single();
+      currentUserSupabaseId = userData?.id || null;
+    }
+
+    // 사용자 정보 조회 (팔로우/요청 상태 확인을 위해 인증 쿠키 전달)
+    const cookie = (await headers()).get("cookie") ?? "";
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/api/users/${userId}`,
+      {
+        cache: "no-store", // 실시간 데이터 필요
+        headers: { cookie },
+      },
+    );
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        notFound(); // Next.js 404 페이지 표시
+      }
+      throw new Error("사용자를 찾을 수 없습니다.");
+    }
+
+    const profileData = await response.json();
+    const { user, isFollowing, isRequested, isBlocked, isOwnProfile } =
+      profileData;
+
+    return (
+      <ProfilePageClient
+        userId={userId}
+        user={user}
+        isFollowing={isFollowing}
+        isRequested={isRequested}
+        isBlocked={isBlocked}
+        isOwnProfile={isOwnProfile}
+        currentUserSupabaseId={currentUserSupabaseId}
+      />
+    );
+  } catch (error) {
+    console.error("Profile page error:", error);
+
+    // 에러 발생 시 404 페이지로 리다이렉트
+    notFound();
+  }
+}
+
+// 메타데이터 설정
+export async function generateMetadata({ params }: ProfilePageProps) {
+  const { username } = await params;
+
+  try {
+    const userId = await getClerkIdByUsername(username);
+    if (!userId) {
+      return {
+        title: "사용자를 찾을 수 없습니다",
+      };
+    }
+
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/api/users/${userId}`,
+    );
+    if (!response.ok) {
+      return {
+        title: "사용자를 찾을 수 없습니다",
+      };
+    }
+
+    const profileData = await response.json();
+    const { user } = profileData;
+
+    return {
+      title: `${user.name} (@${user.username}) • Instagram 클론`,
+      description: `${user.name}님의 프로필입니다. ${user.posts_count}개의 게시물을 확인하세요.`,
+    };
+  } catch {
+    return {
+      title: "프로필",
+      description: "Instagram 클론 프로필 페이지",
+    };
+  }
+}
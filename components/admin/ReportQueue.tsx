@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Flag } from "lucide-react";
+import { ReportStatus, ReportWithTarget } from "@/lib/types";
+import {
+  getReportReasonLabel,
+  getReportTargetLabel,
+} from "@/lib/utils/report";
+import { getProfilePath } from "@/lib/utils/profile";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { useToast } from "@/components/ui/toast";
+import { cn } from "@/lib/supabase/utils";
+
+/**
+ * 관리자 신고 검토 큐 컴포넌트
+ *
+ * /admin/reports 페이지에 표시
+ * - 상태 탭: 대기 중(오래된 순) / 숨김 처리 / 기각 (최신순)
+ * - 신고 사유, 신고자, 대상 미리보기(게시물 이미지/캡션, 댓글 내용, 계정) 표시
+ * - 숨기기: 대상 콘텐츠 숨김 + 같은 대상의 대기 중인 신고 일괄 처리
+ * - 기각: 해당 신고만 처리 완료
+ */
+
+const STATUS_TABS: { value: ReportStatus; label: string }[] = [
+  { value: "open", label: "대기 중" },
+  { value: "actioned", label: "숨김 처리" },
+  { value: "dismissed", label: "기각" },
+];
+
+const PAGE_SIZE = 50;
+
+export function ReportQueue() {
+  const { showToast } = useToast();
+  const [status, setStatus] = useState<ReportStatus>("open");
+  const [reports, setReports] = useState<ReportWithTarget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // 신고 목록 조회
+  const fetchReports = useCallback(
+    async (offset: number, append = false) => {
+      try {
+        setIsLoadingMore(append);
+
+        const params = new URLSearchParams({
+          status,
+          limit: PAGE_SIZE.toString(),
+          offset: offset.toString(),
+        });
+
+        let response: Response | null = null;
+        try {
+          response = await fetch(`/api/admin/reports?${params}`);
+        } catch (fetchErr) {
+          const errorInfo = await handleFetchError(null, fetchErr);
+          logError(errorInfo, "ReportQueue.fetchReports");
+          setError(errorInfo.message);
+          return;
+        }
+
+        if (!response.ok) {
+          const errorInfo = await handleFetchError(response, null);
+          logError(errorInfo, "ReportQueue.fetchReports");
+          setError(errorInfo.message);
+          return;
+        }
+
+        const data = await response.json();
+
+        setReports((prev) => (append ? [...prev, ...data.data] : data.data));
+        setHasMore(data.pagination.hasMore);
+        setError(null);
+      } catch (err) {
+        const errorInfo = await handleFetchError(null, err);
+        logError(errorInfo, "ReportQueue.fetchReports");
+        setError(errorInfo.message);
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [status],
+  );
+
+  // 상태 탭 변경 시 다시 조회
+  useEffect(() => {
+    setIsLoading(true);
+    setReports([]);
+    fetchReports(0, false);
+  }, [fetchReports]);
+
+  // 신고 처리 (숨기기 / 기각)
+  const handleResolve = async (reportId: string, action: "hide" | "dismiss") => {
+    if (processingId) return;
+
+    setProcessingId(reportId);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch(`/api/admin/reports/${reportId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "ReportQueue.handleResolve");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "ReportQueue.handleResolve");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      // 처리된 신고(같은 대상의 신고 포함)를 대기 목록에서 제거
+      const data = await response.json();
+      const resolvedIds = new Set<string>(data.resolvedReportIds);
+      setReports((prev) => prev.filter((report) => !resolvedIds.has(report.id)));
+      showToast(
+        action === "hide" ? "콘텐츠를 숨겼습니다." : "신고를 기각했습니다.",
+        "success",
+      );
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "ReportQueue.handleResolve");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const renderReports = () => {
+    // 로딩 상태
+    if (isLoading) {
+      return (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <div key={index} className="h-24 rounded-lg bg-gray-200 animate-pulse" />
+          ))}
+        </div>
+      );
+    }
+
+    // 에러 상태
+    if (error && reports.length === 0) {
+      return (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={() => fetchReports(0, false)}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+
+    // 빈 상태
+    if (reports.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <Flag className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {status === "open" ? "검토할 신고가 없습니다" : "신고 내역이 없습니다"}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <ul className="space-y-4">
+          {reports.map((report) => (
+            <li
+              key={report.id}
+              className="bg-white border border-border rounded-lg p-4 flex gap-4"
+            >
+              {/* 게시물 썸네일 */}
+              {report.target_image_url && (
+                <div className="relative w-20 h-20 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
+                  <Image
+                    src={report.target_image_url}
+                    alt="신고된 게시물"
+                    fill
+                    className="object-cover"
+                    sizes="80px"
+                  />
+                </div>
+              )}
+
+              <div className="flex-1 min-w-0">
+                {/* 대상 종류 + 사유 */}
+                <p className="text-sm">
+                  <span className="font-semibold">
+                    {getReportTargetLabel(report.target_type)}
+                  </span>
+                  {" · "}
+                  <span className="text-red-600">
+                    {getReportReasonLabel(report.reason)}
+                  </span>
+                  {report.target_is_hidden && (
+                    <span className="ml-2 text-xs text-gray-500">(숨김 처리됨)</span>
+                  )}
+                </p>
+
+                {/* 대상 미리보기 */}
+                {report.target_username && (
+                  <Link
+                    href={getProfilePath(report.target_username)}
+                    className="text-sm font-semibold hover:underline"
+                  >
+                    @{report.target_username}
+                  </Link>
+                )}
+                {report.target_text && (
+                  <p className="text-sm text-gray-700 line-clamp-2 break-words">
+                    {report.target_text}
+                  </p>
+                )}
+
+                {/* 신고 상세 */}
+                {report.details && (
+                  <p className="text-sm text-gray-500 mt-1 break-words">
+                    &ldquo;{report.details}&rdquo;
+                  </p>
+                )}
+                <p className="text-xs text-gray-400 mt-1">
+                  @{report.reporter_username} 신고 ·{" "}
+                  {new Date(report.created_at).toLocaleString("ko-KR")}
+                </p>
+              </div>
+
+              {/* 처리 버튼 (대기 중인 신고만) */}
+              {report.status === "open" && (
+                <div className="flex flex-col gap-2 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(report.id, "hide")}
+                    disabled={processingId !== null}
+                    className="px-4 py-1.5 bg-red-600 text-white text-sm font-semibold rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    숨기기
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(report.id, "dismiss")}
+                    disabled={processingId !== null}
+                    className="px-4 py-1.5 bg-gray-100 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    기각
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {/* 더 보기 */}
+        {hasMore && (
+          <div className="text-center py-6">
+            <button
+              onClick={() => fetchReports(reports.length, true)}
+              disabled={isLoadingMore}
+              className="text-sm font-semibold text-blue-500 hover:text-blue-600 disabled:opacity-50"
+            >
+              {isLoadingMore ? "불러오는 중..." : "더 보기"}
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div>
+      {/* 상태 탭 */}
+      <div className="flex border-b border-border mb-6" role="tablist">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            type="button"
+            role="tab"
+            aria-selected={status === tab.value}
+            onClick={() => setStatus(tab.value)}
+            className={cn(
+              "flex-1 flex items-center justify-center gap-2 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors",
+              status === tab.value
+                ? "border-black text-black"
+                : "border-transparent text-gray-500 hover:text-black",
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {renderReports()}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/toast";
+import { Collection } from "@/lib/types";
+import {
+  MAX_COLLECTION_NAME_LENGTH,
+  normalizeCollectionName,
+} from "@/lib/utils/collection";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+
+/**
+ * 컬렉션 이름 다이얼로그
+ *
+ * - collection이 없으면 새 컬렉션 생성 (POST /api/collections)
+ * - collection이 있으면 이름 변경 (PATCH /api/collections/[collectionId])
+ * - 같은 이름의 컬렉션이 있으면(409) 입력창 아래에 에러 표시
+ */
+interface CollectionNameDialogProps {
+  collection?: Collection | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (collection: Collection) => void;
+}
+
+export function CollectionNameDialog({
+  collection,
+  open,
+  onOpenChange,
+  onSaved,
+}: CollectionNameDialogProps) {
+  const { showToast } = useToast();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEditing = !!collection;
+
+  // 다이얼로그를 열 때마다 현재 이름으로 초기화
+  useEffect(() => {
+    if (!open) return;
+
+    setName(collection?.name ?? "");
+    setError(null);
+  }, [open, collection]);
+
+  // 컬렉션 저장
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isSubmitting) return;
+
+    const normalizedName = normalizeCollectionName(name);
+    if (!normalizedName) {
+      setError(
+        `컬렉션 이름은 1~${MAX_COLLECTION_NAME_LENGTH}자로 입력해주세요.`,
+      );
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch(
+          isEditing
+            ? `/api/collections/${collection.id}`
+            : "/api/collections",
+          {
+            method: isEditing ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name: normalizedName }),
+          },
+        );
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "CollectionNameDialog.handleSubmit");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "CollectionNameDialog.handleSubmit");
+
+        // 이름 중복은 입력창 아래에 표시
+        if (response.status === 409) {
+          setError(errorInfo.message);
+          return;
+        }
+
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      const data = await response.json();
+      onSaved?.(data.data);
+      onOpenChange(false);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "CollectionNameDialog.handleSubmit");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "컬렉션 이름 변경" : "새 컬렉션"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="컬렉션 이름"
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              disabled={isSubmitting}
+              aria-label="컬렉션 이름"
+              aria-invalid={!!error}
+              autoFocus
+            />
+            {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isSubmitting || !name.trim()}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  저장 중...
+                </>
+              ) : isEditing ? (
+                "완료"
+              ) : (
+                "만들기"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
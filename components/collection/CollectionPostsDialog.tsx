@@ -0,0 +1,228 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import { Check, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { Collection, PostWithUser } from "@/lib/types";
+import { getPostImageUrls } from "@/lib/utils/post";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+
+/**
+ * 컬렉션 게시물 선택 다이얼로그
+ *
+ * 저장한 게시물 중에서 컬렉션에 넣을 게시물을 고르는 그리드
+ * - 저장한 게시물 최근 50개 표시 (/api/saves/user)
+ * - 컬렉션에 있는 게시물은 체크 표시
+ * - 클릭 시 바로 추가/제거 (/api/collections/[collectionId]/posts)
+ * - 변경이 있었으면 닫을 때 onChanged 호출 (부모가 목록 갱신)
+ */
+interface CollectionPostsDialogProps {
+  collection: Collection;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: () => void;
+}
+
+/** 한 번에 표시하는 저장한 게시물 수 */
+const SAVED_POSTS_LIMIT = 50;
+
+export function CollectionPostsDialog({
+  collection,
+  open,
+  onOpenChange,
+  onChanged,
+}: CollectionPostsDialogProps) {
+  const { showToast } = useToast();
+  const [savedPosts, setSavedPosts] = useState<PostWithUser[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  // 저장한 게시물과 컬렉션 게시물 로드
+  const loadPosts = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({ limit: String(SAVED_POSTS_LIMIT) });
+      const collectionParams = new URLSearchParams({
+        limit: String(SAVED_POSTS_LIMIT),
+        collectionId: collection.id,
+      });
+
+      let responses: Response[];
+      try {
+        responses = await Promise.all([
+          fetch(`/api/saves/user?${params}`),
+          fetch(`/api/saves/user?${collectionParams}`),
+        ]);
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "CollectionPostsDialog.loadPosts");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      const failedResponse = responses.find((response) => !response.ok);
+      if (failedResponse) {
+        const errorInfo = await handleFetchError(failedResponse, null);
+        logError(errorInfo, "CollectionPostsDialog.loadPosts");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      const [savedData, collectionData] = await Promise.all(
+        responses.map((response) => response.json()),
+      );
+      setSavedPosts(savedData.data || []);
+      setSelectedIds(
+        new Set(
+          (collectionData.data || []).map((post: PostWithUser) => post.post_id),
+        ),
+      );
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "CollectionPostsDialog.loadPosts");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [collection.id, showToast]);
+
+  // 다이얼로그를 열 때마다 다시 로드
+  useEffect(() => {
+    if (open) {
+      setHasChanges(false);
+      loadPosts();
+    }
+  }, [open, loadPosts]);
+
+  // 게시물 추가/제거 토글
+  const handleToggle = async (postId: string) => {
+    if (pendingIds.has(postId)) return;
+
+    const isSelected = selectedIds.has(postId);
+    const updateSet = (
+      setter: React.Dispatch<React.SetStateAction<Set<string>>>,
+      add: boolean,
+    ) =>
+      setter((prev) => {
+        const next = new Set(prev);
+        if (add) {
+          next.add(postId);
+        } else {
+          next.delete(postId);
+        }
+        return next;
+      });
+
+    // Optimistic UI 업데이트
+    updateSet(setSelectedIds, !isSelected);
+    updateSet(setPendingIds, true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch(`/api/collections/${collection.id}/posts`, {
+          method: isSelected ? "DELETE" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ post_id: postId }),
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "CollectionPostsDialog.handleToggle");
+        updateSet(setSelectedIds, isSelected); // 롤백
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "CollectionPostsDialog.handleToggle");
+        updateSet(setSelectedIds, isSelected); // 롤백
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      setHasChanges(true);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "CollectionPostsDialog.handleToggle");
+      updateSet(setSelectedIds, isSelected);
+      showToast(errorInfo.message, "error");
+    } finally {
+      updateSet(setPendingIds, false);
+    }
+  };
+
+  // 닫을 때 변경사항 알림
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && hasChanges) {
+      onChanged?.();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{collection.name}</DialogTitle>
+          <DialogDescription>
+            저장한 게시물 중에서 컬렉션에 넣을 게시물을 선택하세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : savedPosts.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-12">
+            저장한 게시물이 없습니다.
+          </p>
+        ) : (
+          <div className="grid grid-cols-3 gap-1 max-h-[60vh] overflow-y-auto">
+            {savedPosts.map((post) => {
+              const isSelected = selectedIds.has(post.post_id);
+              return (
+                <button
+                  key={post.post_id}
+                  type="button"
+                  onClick={() => handleToggle(post.post_id)}
+                  disabled={pendingIds.has(post.post_id)}
+                  aria-pressed={isSelected}
+                  aria-label={isSelected ? "컬렉션에서 제거" : "컬렉션에 추가"}
+                  className="aspect-square relative overflow-hidden bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-70"
+                >
+                  <Image
+                    src={getPostImageUrls(post)[0]}
+                    alt="게시물 썸네일"
+                    fill
+                    className={`object-cover ${isSelected ? "opacity-70" : ""}`}
+                    sizes="160px"
+                  />
+                  <span
+                    className={`absolute top-2 right-2 w-6 h-6 rounded-full border-2 border-white flex items-center justify-center ${
+                      isSelected ? "bg-blue-500" : "bg-black/20"
+                    }`}
+                  >
+                    {isSelected && <Check className="w-4 h-4 text-white" />}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
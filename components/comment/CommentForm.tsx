@@ -1,11 +1,13 @@
 "use client";
 
-import { useState, useRef, FormEvent } from "react";
+import { useState, useRef, useEffect, FormEvent } from "react";
 import { useUser } from "@clerk/nextjs";
-import { User } from "lucide-react";
+import { User, X } from "lucide-react";
 import Image from "next/image";
 import { cn } from "@/lib/supabase/utils";
 import { useToast } from "@/components/ui/toast";
+import { MentionSuggestions } from "@/components/mention/MentionSuggestions";
+import { useMentionAutocomplete } from "@/hooks/use-mention-autocomplete";
 
 /**
  * 댓글 입력 폼 컴포넌트
@@ -16,12 +18,16 @@ import { useToast } from "@/components/ui/toast";
  * - "게시" 버튼 (입력 내용이 있을 때만 활성화)
  * - Enter 키로 제출 가능
  * - 로그인 상태 확인
+ * - 답글 모드: "@사용자이름 "으로 입력창을 채우고 답글 대상 표시 (취소 가능)
+ * - "@"로 시작하는 멘션 입력 시 사용자 자동완성
  */
 interface CommentFormProps {
   postId?: string; // 사용하지 않지만 타입 호환성을 위해 유지
   onSubmit: (content: string) => Promise<void>;
   disabled?: boolean;
   placeholder?: string; // 기본값: "댓글 달기..."
+  replyTo?: { commentId: string; name: string; username: string } | null; // 답글 대상 댓글
+  onCancelReply?: () => void;
   className?: string;
 }
 
@@ -30,6 +36,8 @@ export function CommentForm({
   onSubmit,
   disabled = false,
   placeholder = "댓글 달기...",
+  replyTo = null,
+  onCancelReply,
   className,
 }: CommentFormProps) {
   const { user, isSignedIn } = useUser();
@@ -37,6 +45,25 @@ export function CommentForm({
   const [content, setContent] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const mention = useMentionAutocomplete({
+    value: content,
+    onChange: setContent,
+    inputRef: textareaRef,
+  });
+
+  // 답글 대상이 바뀌면 @멘션으로 입력창을 채우고 포커스
+  useEffect(() => {
+    if (!replyTo) return;
+
+    const mention = `@${replyTo.username} `;
+    setContent(mention);
+
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(mention.length, mention.length);
+    }
+  }, [replyTo]);
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -68,6 +95,11 @@ export function CommentForm({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // 멘션 자동완성이 열려 있으면 선택/탐색 우선
+    if (mention.handleKeyDown(e)) {
+      return;
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e as any);
@@ -76,6 +108,7 @@ export function CommentForm({
 
   const handleTextareaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setContent(e.target.value);
+    mention.updateMention(e.target);
 
     // textarea 자동 높이 조절
     if (textareaRef.current) {
@@ -87,68 +120,96 @@ export function CommentForm({
   const canSubmit = content.trim().length > 0 && !isSubmitting && !disabled && isSignedIn;
 
   return (
-    <form
-      onSubmit={handleSubmit}
-      className={cn("flex items-start space-x-3", className)}
-    >
-      {/* 프로필 이미지 */}
-      <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0">
-        {user?.imageUrl ? (
-          <Image
-            src={user.imageUrl}
-            alt={`${user.firstName || "사용자"} 프로필 이미지`}
-            width={32}
-            height={32}
-            className="w-full h-full object-cover"
-          />
-        ) : (
-          <div className="w-full h-full bg-gray-300 flex items-center justify-center">
-            <User className="w-4 h-4 text-gray-600" />
-          </div>
-        )}
-      </div>
-
-      {/* 입력 필드 */}
-      <div className="flex-1 min-w-0">
-        <textarea
-          ref={textareaRef}
-          value={content}
-          onChange={handleTextareaChange}
-          onKeyDown={handleKeyDown}
-          placeholder={isSignedIn ? placeholder : "댓글을 달려면 로그인이 필요합니다"}
-          disabled={disabled || !isSignedIn}
-          aria-label="댓글 입력"
-          aria-describedby={isSignedIn ? undefined : "comment-login-required"}
-          className={cn(
-            "w-full px-0 py-1 text-sm bg-transparent border-none resize-none",
-            "placeholder:text-gray-500 focus:outline-none focus:ring-0",
-            "disabled:opacity-50 disabled:cursor-not-allowed",
-            "max-h-20 overflow-y-auto" // 최대 높이 제한
-          )}
-          rows={1}
-          style={{ height: "auto" }}
-        />
-        {!isSignedIn && (
-          <span id="comment-login-required" className="sr-only">
-            댓글을 작성하려면 로그인이 필요합니다
+    <div className={className}>
+      {/* 답글 대상 표시 */}
+      {replyTo && (
+        <div className="flex items-center justify-between mb-2 px-2 py-1 bg-gray-50 rounded text-xs text-gray-500">
+          <span>
+            <span className="font-semibold">{replyTo.name}</span>님에게 답글 남기는 중
           </span>
-        )}
+          {onCancelReply && (
+            <button
+              type="button"
+              onClick={() => {
+                setContent("");
+                onCancelReply();
+              }}
+              className="p-0.5 hover:text-gray-700 transition-colors"
+              aria-label="답글 취소"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex items-start space-x-3">
+        {/* 프로필 이미지 */}
+        <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0">
+          {user?.imageUrl ? (
+            <Image
+              src={user.imageUrl}
+              alt={`${user.firstName || "사용자"} 프로필 이미지`}
+              width={32}
+              height={32}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full bg-gray-300 flex items-center justify-center">
+              <User className="w-4 h-4 text-gray-600" />
+            </div>
+          )}
+        </div>
 
-        {/* 게시 버튼 */}
-        {canSubmit && (
-          <button
-            type="submit"
-            disabled={isSubmitting}
+        {/* 입력 필드 */}
+        <div className="relative flex-1 min-w-0">
+          <MentionSuggestions
+            suggestions={mention.suggestions}
+            activeIndex={mention.activeIndex}
+            selectSuggestion={mention.selectSuggestion}
+            placement="top"
+          />
+          <textarea
+            ref={textareaRef}
+            value={content}
+            onChange={handleTextareaChange}
+            onKeyDown={handleKeyDown}
+            onBlur={mention.close}
+            placeholder={isSignedIn ? placeholder : "댓글을 달려면 로그인이 필요합니다"}
+            disabled={disabled || !isSignedIn}
+            aria-label="댓글 입력"
+            aria-describedby={isSignedIn ? undefined : "comment-login-required"}
             className={cn(
-              "text-blue-500 text-sm font-semibold hover:text-blue-600",
-              "transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
-              "mt-1"
+              "w-full px-0 py-1 text-sm bg-transparent border-none resize-none",
+              "placeholder:text-gray-500 focus:outline-none focus:ring-0",
+              "disabled:opacity-50 disabled:cursor-not-allowed",
+              "max-h-20 overflow-y-auto" // 최대 높이 제한
             )}
-          >
-            {isSubmitting ? "게시 중..." : "게시"}
-          </button>
-        )}
-      </div>
-    </form>
+            rows={1}
+            style={{ height: "auto" }}
+          />
+          {!isSignedIn && (
+            <span id="comment-login-required" className="sr-only">
+              댓글을 작성하려면 로그인이 필요합니다
+            </span>
+          )}
+
+          {/* 게시 버튼 */}
+          {canSubmit && (
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={cn(
+                "text-blue-500 text-sm font-semibold hover:text-blue-600",
+                "transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                "mt-1"
+              )}
+            >
+              {isSubmitting ? "게시 중..." : "게시"}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
   );
 }
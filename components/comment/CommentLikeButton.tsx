@@ -0,0 +1,103 @@
+"use client";
+
+import { useState, useEffect, memo } from "react";
+import { Heart } from "lucide-react";
+import { useToast } from "@/components/ui/toast";
+import { useApiClient } from "@/hooks/use-api-client";
+import { cn } from "@/lib/supabase/utils";
+
+/**
+ * 댓글 좋아요 버튼 컴포넌트
+ *
+ * 댓글 목록 각 항목 오른쪽에 표시되는 작은 하트
+ * - API 호출 (/api/comments/likes POST/DELETE)
+ * - Optimistic UI 업데이트 + 에러 시 롤백
+ * - 좋아요 수가 있을 때만 숫자 표시
+ * - 로딩 중 중복 클릭 방지
+ */
+interface CommentLikeButtonProps {
+  commentId: string;
+  isLiked: boolean;
+  likesCount: number;
+}
+
+function CommentLikeButtonComponent({
+  commentId,
+  isLiked: initialIsLiked,
+  likesCount: initialLikesCount,
+}: CommentLikeButtonProps) {
+  const { showToast } = useToast();
+  const api = useApiClient();
+  const [isLiked, setIsLiked] = useState(initialIsLiked);
+  const [likesCount, setLikesCount] = useState(initialLikesCount);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // props 변경 시 내부 상태 동기화
+  useEffect(() => {
+    setIsLiked(initialIsLiked);
+    setLikesCount(initialLikesCount);
+  }, [initialIsLiked, initialLikesCount]);
+
+  // 좋아요 토글 핸들러
+  const handleLikeToggle = async () => {
+    if (isLoading) return;
+
+    const prevIsLiked = isLiked;
+    const prevLikesCount = likesCount;
+    const newIsLiked = !isLiked;
+
+    // Optimistic UI 업데이트
+    setIsLiked(newIsLiked);
+    setLikesCount(newIsLiked ? likesCount + 1 : Math.max(0, likesCount - 1));
+    setIsLoading(true);
+
+    try {
+      const options = { context: "CommentLikeButton.handleLikeToggle" };
+      const { data, error } = newIsLiked
+        ? await api.comments.like(commentId, options)
+        : await api.comments.unlike(commentId, options);
+
+      if (error) {
+        // 에러 발생 시 Optimistic Update 롤백
+        setIsLiked(prevIsLiked);
+        setLikesCount(prevLikesCount);
+
+        if (error.type !== "ABORTED") {
+          showToast(error.message, "error");
+        }
+        return;
+      }
+
+      // 서버 기준 좋아요 수로 보정
+      if (typeof data.likes_count === "number") {
+        setLikesCount(data.likes_count);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleLikeToggle}
+      disabled={isLoading}
+      aria-label={isLiked ? "댓글 좋아요 취소" : "댓글 좋아요"}
+      aria-pressed={isLiked}
+      className="flex flex-col items-center p-1 hover:opacity-60 transition-opacity disabled:cursor-not-allowed"
+    >
+      <Heart
+        className={cn(
+          "w-3 h-3 transition-colors",
+          isLiked ? "fill-red-500 text-red-500" : "text-gray-500",
+        )}
+      />
+      {likesCount > 0 && (
+        <span className="text-[10px] leading-none text-gray-500 mt-0.5">
+          {likesCount.toLocaleString()}
+        </span>
+      )}
+    </button>
+  );
+}
+
+export const CommentLikeButton = memo(CommentLikeButtonComponent);
@@ -2,9 +2,14 @@
 
 import { useState, memo, useCallback, useMemo } from "react";
 import { useUser } from "@clerk/nextjs";
+import Link from "next/link";
 import { MoreHorizontal } from "lucide-react";
 import { CommentWithUser } from "@/lib/types";
 import { cn } from "@/lib/supabase/utils";
+import { getProfilePath } from "@/lib/utils/profile";
+import { CommentLikeButton } from "./CommentLikeButton";
+import { CaptionText } from "@/components/post/CaptionText";
+import { ReportDialog } from "@/components/report/ReportDialog";
 
 /**
  * 댓글 목록 컴포넌트
@@ -13,14 +18,18 @@ import { cn } from "@/lib/supabase/utils";
  * - PostCard용: 최신 댓글만 표시 (maxComments 제한)
  * - 상세 모달용: 전체 댓글 표시 + 스크롤 가능
  * - 삭제 버튼: 본인 댓글만 표시
+ * - 신고 버튼: 로그인한 사용자에게 타인 댓글만 표시
  * - 상대 시간 표시
  * - 사용자명 클릭 시 프로필 페이지로 이동
+ * - 답글 스레드: "답글 달기" 버튼, "답글 N개 보기"로 펼치기/접기 (상세 모달용)
+ * - 댓글 좋아요: 좋아요 정보가 포함된 댓글(상세 조회)에 하트 + 개수 표시
  */
 interface CommentListProps {
   comments: CommentWithUser[];
   currentUserId?: string; // Clerk user ID
   maxComments?: number; // PostCard용: 2, 상세용: undefined
   onDelete?: (commentId: string) => void;
+  onReply?: (comment: CommentWithUser) => void; // 전달 시 "답글 달기" 버튼 표시
   showDeleteButton?: boolean; // 기본값: true
   className?: string;
 }
@@ -30,6 +39,7 @@ function CommentListComponent({
   currentUserId,
   maxComments,
   onDelete,
+  onReply,
   showDeleteButton = true,
   className,
 }: CommentListProps) {
@@ -39,12 +49,48 @@ function CommentListComponent({
     null,
   );
 
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(
+    new Set(),
+  );
+  const [reportCommentId, setReportCommentId] = useState<string | null>(
+    null,
+  );
+
+  // 최상위 댓글 / 답글 분리 (답글은 작성순 정렬) - useMemo로 메모이제이션
+  const { topLevelComments, repliesMap } = useMemo(() => {
+    const topLevel: CommentWithUser[] = [];
+    const replies = new Map<string, CommentWithUser[]>();
+
+    comments.forEach((comment) => {
+      if (comment.parent_id) {
+        const threadReplies = replies.get(comment.parent_id) || [];
+        threadReplies.push(comment);
+        replies.set(comment.parent_id, threadReplies);
+      } else {
+        topLevel.push(comment);
+      }
+    });
+
+    replies.forEach((threadReplies) =>
+      threadReplies.sort(
+        (a, b) =>
+          new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+      ),
+    );
+
+    return { topLevelComments: topLevel, repliesMap: replies };
+  }, [comments]);
+
   // 표시할 댓글들 (maxComments 제한) - useMemo로 메모이제이션
   const displayComments = useMemo(
-    () => (maxComments ? comments.slice(0, maxComments) : comments),
-    [comments, maxComments],
+    () =>
+      maxComments ? topLevelComments.slice(0, maxComments) : topLevelComments,
+    [topLevelComments, maxComments],
   );
 
+  // 미리보기(maxComments)에서는 스레드를 표시하지 않음
+  const showThreads = !maxComments;
+
   // 상대 시간 계산 함수 (useCallback으로 메모이제이션)
   const getRelativeTime = useCallback((dateString: string) => {
     const now = new Date();
@@ -82,60 +128,147 @@ function CommentListComponent({
     [onDelete, deletingCommentId],
   );
 
-  // 사용자명 클릭 핸들러 (프로필 페이지 이동) - useCallback으로 메모이제이션
-  const handleUserClick = useCallback((_clerkUserId: string) => {
-    // 프로필 페이지로 이동 (추후 구현)
-    // window.location.href = `/profile/${clerkUserId}`;
+  // 답글 스레드 펼치기/접기
+  const toggleThread = useCallback((commentId: string) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
   }, []);
 
+  // 답글 달기 (작성 후 바로 보이도록 스레드 펼침)
+  const handleReply = useCallback(
+    (comment: CommentWithUser) => {
+      if (!onReply) return;
+
+      const threadId = comment.parent_id ?? comment.id;
+      setExpandedThreads((prev) => new Set(prev).add(threadId));
+      onReply(comment);
+    },
+    [onReply],
+  );
+
   if (displayComments.length === 0) {
     return null;
   }
 
+  // 댓글 한 줄 렌더링 (최상위 댓글, 답글 공통)
+  const renderComment = (comment: CommentWithUser) => {
+    const isOwnComment = currentUserId === comment.clerk_id;
+    const isDeleting = deletingCommentId === comment.id;
+
+    return (
+      <div className="flex items-start space-x-2 group">
+        {/* 사용자명 + 댓글 내용 */}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-black leading-relaxed break-words">
+            <Link
+              href={getProfilePath(comment.username)}
+              className="font-semibold hover:underline transition-colors"
+            >
+              {comment.name}
+            </Link>{" "}
+            <CaptionText text={comment.content} />
+          </p>
+
+          {/* 상대 시간 + 답글 달기 */}
+          <div className="flex items-center gap-3 mt-1">
+            <p className="text-xs text-gray-500">
+              {getRelativeTime(comment.created_at)}
+            </p>
+            {onReply && (
+              <button
+                onClick={() => handleReply(comment)}
+                className="text-xs font-semibold text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                답글 달기
+              </button>
+            )}
+            {currentUserId && !isOwnComment && (
+              <button
+                onClick={() => setReportCommentId(comment.id)}
+                className="text-xs font-semibold text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                신고
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* 좋아요 버튼 (좋아요 정보가 포함된 경우) */}
+        {comment.likes_count !== undefined && (
+          <CommentLikeButton
+            commentId={comment.id}
+            isLiked={comment.isLiked ?? false}
+            likesCount={comment.likes_count}
+          />
+        )}
+
+        {/* 삭제 버튼 (본인 댓글만, showDeleteButton가 true일 때) */}
+        {showDeleteButton && isOwnComment && (
+          <button
+            onClick={() => handleDeleteComment(comment.id)}
+            disabled={isDeleting}
+            className={cn(
+              "opacity-0 group-hover:opacity-100 transition-opacity",
+              "p-1 hover:bg-gray-100 rounded-full",
+              "disabled:opacity-50 disabled:cursor-not-allowed",
+            )}
+            title="댓글 삭제"
+          >
+            <MoreHorizontal className="w-4 h-4 text-gray-500" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className={cn("space-y-2", className)}>
       {displayComments.map((comment) => {
-        const isOwnComment = currentUserId === comment.clerk_id;
-        const isDeleting = deletingCommentId === comment.id;
+        const replies = showThreads ? repliesMap.get(comment.id) || [] : [];
+        const isExpanded = expandedThreads.has(comment.id);
 
         return (
-          <div key={comment.id} className="flex items-start space-x-2 group">
-            {/* 사용자명 + 댓글 내용 */}
-            <div className="flex-1 min-w-0">
-              <p className="text-sm text-black leading-relaxed break-words">
+          <div key={comment.id}>
+            {renderComment(comment)}
+
+            {/* 답글 스레드 */}
+            {replies.length > 0 && (
+              <div className="ml-6 mt-2 space-y-2">
                 <button
-                  onClick={() => handleUserClick(comment.clerk_id)}
-                  className="font-semibold hover:underline transition-colors"
+                  onClick={() => toggleThread(comment.id)}
+                  className="flex items-center gap-3 text-xs font-semibold text-gray-500 hover:text-gray-700 transition-colors"
+                  aria-expanded={isExpanded}
                 >
-                  {comment.name}
-                </button>{" "}
-                <span className="whitespace-pre-wrap">{comment.content}</span>
-              </p>
-
-              {/* 상대 시간 */}
-              <p className="text-xs text-gray-500 mt-1">
-                {getRelativeTime(comment.created_at)}
-              </p>
-            </div>
-
-            {/* 삭제 버튼 (본인 댓글만, showDeleteButton가 true일 때) */}
-            {showDeleteButton && isOwnComment && (
-              <button
-                onClick={() => handleDeleteComment(comment.id)}
-                disabled={isDeleting}
-                className={cn(
-                  "opacity-0 group-hover:opacity-100 transition-opacity",
-                  "p-1 hover:bg-gray-100 rounded-full",
-                  "disabled:opacity-50 disabled:cursor-not-allowed",
-                )}
-                title="댓글 삭제"
-              >
-                <MoreHorizontal className="w-4 h-4 text-gray-500" />
-              </button>
+                  <span className="w-6 border-t border-gray-400" />
+                  {isExpanded ? "답글 숨기기" : `답글 ${replies.length}개 보기`}
+                </button>
+
+                {isExpanded &&
+                  replies.map((reply) => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+              </div>
             )}
           </div>
         );
       })}
+
+      {/* 댓글 신고 다이얼로그 */}
+      {reportCommentId && (
+        <ReportDialog
+          targetType="comment"
+          targetId={reportCommentId}
+          open={reportCommentId !== null}
+          onOpenChange={(open) => !open && setReportCommentId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useUser, useClerk } from "@clerk/nextjs";
-import { Home, Search, PlusSquare, Heart, User } from "lucide-react";
+import { Home, Search, PlusSquare, Send, Heart, User } from "lucide-react";
 import { cn } from "@/lib/supabase/utils";
 import { CreatePostModal } from "@/components/post/CreatePostModal";
 
@@ -12,7 +12,7 @@ import { CreatePostModal } from "@/components/post/CreatePostModal";
  *
  * Mobile 전용 (<768px)
  * - 높이: 50px
- * - 5개 아이콘: 홈, 검색, 만들기, 좋아요, 프로필
+ * - 6개 아이콘: 홈, 검색, 만들기, 메시지, 좋아요, 프로필
  * - 고정 위치 (fixed bottom-0)
  * - 배경: 흰색
  * - 상단 보더
@@ -44,6 +44,12 @@ export function BottomNav() {
       active: pathname === "/create",
       modal: true,
     },
+    {
+      icon: Send,
+      label: "메시지",
+      href: "/messages",
+      active: pathname.startsWith("/messages"),
+    },
     {
       icon: Heart,
       label: "활동",
@@ -54,8 +60,11 @@ export function BottomNav() {
     {
       icon: User,
       label: isSignedIn ? "프로필" : "로그인",
-      href: isSignedIn && user ? `/profile/${user.id}` : "/sign-in",
-      active: pathname.startsWith("/profile") || pathname === "/sign-in",
+      href: isSignedIn && user ? "/profile" : "/sign-in",
+      active:
+        pathname.startsWith("/profile") ||
+        pathname.startsWith("/u/") ||
+        pathname === "/sign-in",
       disabled: false, // 프로필 기능 구현 완료
     },
   ] as const;
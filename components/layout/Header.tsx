@@ -73,7 +73,7 @@ export function Header() {
               }}
             >
               <Link
-                href={`/profile/${user.id}`}
+                href="/profile"
                 aria-label="프로필"
                 className="p-1 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded"
               >
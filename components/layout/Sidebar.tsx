@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useUser, useClerk } from "@clerk/nextjs";
-import { Home, Search, PlusSquare, User, Heart, LogOut } from "lucide-react";
+import { Home, Search, PlusSquare, User, Send, Heart, LogOut } from "lucide-react";
 import { cn } from "@/lib/supabase/utils";
 import { CreatePostModal } from "@/components/post/CreatePostModal";
 
@@ -41,6 +41,12 @@ export function Sidebar() {
       active: pathname === "/create",
       modal: true,
     },
+    {
+      icon: Send,
+      label: "메시지",
+      href: "/messages",
+      active: pathname.startsWith("/messages"),
+    },
     {
       icon: Heart,
       label: "활동",
@@ -51,8 +57,8 @@ export function Sidebar() {
     {
       icon: User,
       label: "프로필",
-      href: user ? `/profile/${user.id}` : "/sign-in",
-      active: pathname.startsWith("/profile"),
+      href: user ? "/profile" : "/sign-in",
+      active: pathname.startsWith("/profile") || pathname.startsWith("/u/"),
       disabled: false, // 프로필 기능 구현 완료
     },
   ] as const;
@@ -188,7 +194,7 @@ export function Sidebar() {
         <div className="hidden lg:block p-4 border-t border-border space-y-2">
           {/* 프로필 정보 */}
           <Link
-            href={`/profile/${user.id}`}
+            href="/profile"
             className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 transition-colors"
           >
             <div className="w-8 h-8 rounded-full bg-gray-300 overflow-hidden">
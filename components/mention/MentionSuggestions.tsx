@@ -0,0 +1,84 @@
+"use client";
+
+import { memo } from "react";
+import Image from "next/image";
+import { User } from "lucide-react";
+import { MentionSuggestion } from "@/hooks/use-mention-autocomplete";
+import { cn } from "@/lib/utils";
+
+/**
+ * @멘션 자동완성 드롭다운
+ *
+ * useMentionAutocomplete 훅의 후보 목록을 입력창 위/아래에 표시
+ * - 사용자 이름 + 이름 + 프로필 이미지
+ * - 키보드로 선택 중인 항목 강조
+ * - 클릭 시 입력창 포커스를 유지한 채 선택 (onMouseDown)
+ */
+interface MentionSuggestionsProps {
+  suggestions: MentionSuggestion[];
+  activeIndex: number;
+  selectSuggestion: (username: string) => void;
+  placement?: "top" | "bottom"; // 기본값: bottom
+}
+
+function MentionSuggestionsComponent({
+  suggestions,
+  activeIndex,
+  selectSuggestion,
+  placement = "bottom",
+}: MentionSuggestionsProps) {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      role="listbox"
+      aria-label="멘션할 사용자"
+      className={cn(
+        "absolute left-0 right-0 z-50 max-h-60 overflow-y-auto bg-white border border-border rounded-md shadow-lg py-1",
+        placement === "top" ? "bottom-full mb-1" : "top-full mt-1",
+      )}
+    >
+      {suggestions.map((user, index) => (
+        <li
+          key={user.id}
+          role="option"
+          aria-selected={index === activeIndex}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            selectSuggestion(user.username);
+          }}
+          className={cn(
+            "flex items-center gap-3 px-3 py-2 cursor-pointer",
+            index === activeIndex ? "bg-gray-100" : "hover:bg-gray-50",
+          )}
+        >
+          <div className="w-8 h-8 rounded-full bg-gray-300 overflow-hidden relative flex-shrink-0">
+            {user.avatar_url ? (
+              <Image
+                src={user.avatar_url}
+                alt={`${user.username} 프로필 이미지`}
+                fill
+                className="object-cover"
+                sizes="32px"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <User className="w-4 h-4 text-gray-600" />
+              </div>
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-black truncate">
+              {user.username}
+            </p>
+            <p className="text-xs text-gray-500 truncate">{user.name}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export const MentionSuggestions = memo(MentionSuggestionsComponent);
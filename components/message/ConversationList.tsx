@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { MessageCircle } from "lucide-react";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { ConversationWithPreview } from "@/lib/types";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { cn } from "@/lib/utils";
+
+/**
+ * 받은 메시지함 목록 컴포넌트
+ *
+ * 메시지 페이지(/messages)에서 사용
+ * - GET /api/conversations (최근 메시지 순)
+ * - 읽지 않은 대화는 굵게 + 파란 점 표시
+ * - 새 메시지가 오면 Supabase Realtime으로 목록 갱신 (RLS로 내 대화방 메시지만 수신)
+ */
+interface ConversationListProps {
+  onUnreadCountChange?: (count: number) => void;
+}
+
+export function ConversationList({
+  onUnreadCountChange,
+}: ConversationListProps) {
+  const supabase = useClerkSupabaseClient();
+  const [conversations, setConversations] = useState<ConversationWithPreview[]>(
+    [],
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 메시지함 조회
+  const fetchConversations = useCallback(async () => {
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch("/api/conversations");
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "ConversationList.fetchConversations");
+        setError(errorInfo.message);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "ConversationList.fetchConversations");
+        setError(errorInfo.message);
+        return;
+      }
+
+      const data = await response.json();
+      setConversations(data.data || []);
+      onUnreadCountChange?.(data.unreadCount || 0);
+      setError(null);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "ConversationList.fetchConversations");
+      setError(errorInfo.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onUnreadCountChange]);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  // 새 메시지 실시간 수신 시 목록 갱신
+  useEffect(() => {
+    const channel = supabase
+      .channel("conversation-list")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages" },
+        () => {
+          fetchConversations();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, fetchConversations]);
+
+  // 상대 시간 계산 함수
+  const getRelativeTime = useCallback((dateString: string) => {
+    const diffInSeconds = Math.floor(
+      (Date.now() - new Date(dateString).getTime()) / 1000,
+    );
+
+    if (diffInSeconds < 60) return "방금 전";
+    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}분 전`;
+    if (diffInSeconds < 86400)
+      return `${Math.floor(diffInSeconds / 3600)}시간 전`;
+    if (diffInSeconds < 604800)
+      return `${Math.floor(diffInSeconds / 86400)}일 전`;
+    return new Date(dateString).toLocaleDateString("ko-KR");
+  }, []);
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 5 }).map((_, index) => (
+          <div key={index} className="flex items-center gap-3 px-4">
+            <div className="w-14 h-14 rounded-full bg-gray-200 animate-pulse" />
+            <div className="flex-1 space-y-2">
+              <div className="h-3 w-32 rounded bg-gray-200 animate-pulse" />
+              <div className="h-3 w-48 rounded bg-gray-200 animate-pulse" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (error && conversations.length === 0) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+        <p className="text-red-600 mb-4">{error}</p>
+        <button
+          onClick={() => {
+            setIsLoading(true);
+            fetchConversations();
+          }}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          다시 시도
+        </button>
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <MessageCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500 mb-2">메시지가 없습니다</p>
+        <p className="text-sm text-gray-400">
+          프로필에서 메시지 보내기를 눌러 대화를 시작하세요
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul>
+      {conversations.map((conversation) => {
+        const { other_user: otherUser, last_message: lastMessage } =
+          conversation;
+        const preview = lastMessage
+          ? lastMessage.sender_id === otherUser.id
+            ? lastMessage.content
+            : `나: ${lastMessage.content}`
+          : "";
+
+        return (
+          <li key={conversation.id}>
+            <Link
+              href={`/messages/${conversation.id}`}
+              className="flex items-center gap-3 px-4 py-3 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <span className="relative w-14 h-14 flex-shrink-0 rounded-full bg-gray-400 overflow-hidden flex items-center justify-center">
+                {otherUser.avatar_url ? (
+                  <Image
+                    src={otherUser.avatar_url}
+                    alt={otherUser.username}
+                    fill
+                    className="object-cover"
+                    sizes="56px"
+                  />
+                ) : (
+                  <span className="text-lg text-white font-semibold">
+                    {otherUser.name.charAt(0).toUpperCase()}
+                  </span>
+                )}
+              </span>
+              <span className="flex-1 min-w-0">
+                <span
+                  className={cn(
+                    "block text-sm truncate",
+                    conversation.hasUnread ? "font-semibold" : "font-medium",
+                  )}
+                >
+                  {otherUser.username}
+                </span>
+                <span
+                  className={cn(
+                    "flex items-center gap-1 text-sm",
+                    conversation.hasUnread
+                      ? "text-black font-semibold"
+                      : "text-gray-500",
+                  )}
+                >
+                  <span className="truncate">{preview}</span>
+                  {conversation.last_message_at && (
+                    <span className="flex-shrink-0 text-gray-500 font-normal">
+                      · {getRelativeTime(conversation.last_message_at)}
+                    </span>
+                  )}
+                </span>
+              </span>
+              {conversation.hasUnread && (
+                <span
+                  className="w-2 h-2 flex-shrink-0 rounded-full bg-blue-500"
+                  aria-label="읽지 않음"
+                />
+              )}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
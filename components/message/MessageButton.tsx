@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/ui/toast";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+
+/**
+ * 메시지 보내기 버튼 컴포넌트
+ *
+ * 타인 프로필 헤더에서 사용
+ * - POST /api/conversations로 1:1 대화방을 만들거나 기존 대화방을 찾아 이동
+ */
+interface MessageButtonProps {
+  targetUserId: string; // 대화할 사용자의 Supabase UUID
+}
+
+export function MessageButton({ targetUserId }: MessageButtonProps) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleClick = async () => {
+    if (isLoading) return;
+
+    setIsLoading(true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch("/api/conversations", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ user_id: targetUserId }),
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "MessageButton.handleClick");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "MessageButton.handleClick");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      const data = await response.json();
+      router.push(`/messages/${data.conversation_id}`);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "MessageButton.handleClick");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isLoading}
+      aria-label="메시지 보내기"
+      className="px-4 py-1.5 bg-gray-100 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+    >
+      메시지 보내기
+    </button>
+  );
+}
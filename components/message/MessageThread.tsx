@@ -0,0 +1,461 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, FormEvent } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { useToast } from "@/components/ui/toast";
+import {
+  ConversationDetail,
+  ConversationParticipant,
+  Message,
+} from "@/lib/types";
+import { getProfilePath } from "@/lib/utils/profile";
+import {
+  MAX_MESSAGE_LENGTH,
+  MESSAGES_PAGE_SIZE,
+  isMessageRead,
+} from "@/lib/utils/message";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { cn } from "@/lib/utils";
+
+/**
+ * 1:1 대화방 컴포넌트
+ *
+ * 대화방 페이지(/messages/[conversationId])에서 사용
+ * - 메시지 목록 (최신 메시지가 아래, 위로 이전 메시지 불러오기)
+ * - 메시지 전송 (Enter 전송, Shift+Enter 줄바꿈)
+ * - Supabase Realtime: 새 메시지(messages INSERT), 상대방 읽음 시각(conversation_participants UPDATE)
+ * - 읽음 확인: 내가 보낸 마지막 메시지 아래에 "읽음"/"전송됨" 표시
+ * - 대화방을 보고 있는 동안 받은 메시지는 바로 읽음 처리
+ */
+interface MessageThreadProps {
+  conversationId: string;
+}
+
+export function MessageThread({ conversationId }: MessageThreadProps) {
+  const supabase = useClerkSupabaseClient();
+  const { showToast } = useToast();
+  const [conversation, setConversation] = useState<ConversationDetail | null>(
+    null,
+  );
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [otherLastReadAt, setOtherLastReadAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // 시간순으로 메시지 합치기 (Realtime과 전송 응답이 겹쳐도 중복 없이)
+  const mergeMessages = useCallback((incoming: Message[]) => {
+    setMessages((prev) => {
+      const byId = new Map(prev.map((message) => [message.id, message]));
+      incoming.forEach((message) => byId.set(message.id, message));
+      return Array.from(byId.values()).sort(
+        (a, b) =>
+          new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+      );
+    });
+  }, []);
+
+  // 읽음 처리 (실패해도 대화에는 영향 없음)
+  const markAsRead = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/conversations/${conversationId}/read`,
+        { method: "POST" },
+      );
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "MessageThread.markAsRead");
+      }
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "MessageThread.markAsRead");
+    }
+  }, [conversationId]);
+
+  // 메시지 조회 (cursor가 있으면 이전 메시지)
+  const fetchMessages = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams({
+        limit: MESSAGES_PAGE_SIZE.toString(),
+      });
+
+      if (cursor) {
+        params.append("cursor", cursor);
+      }
+
+      let response: Response | null = null;
+      try {
+        response = await fetch(
+          `/api/conversations/${conversationId}/messages?${params}`,
+        );
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "MessageThread.fetchMessages");
+        throw new Error(errorInfo.message);
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "MessageThread.fetchMessages");
+        throw new Error(errorInfo.message);
+      }
+
+      const data = await response.json();
+      mergeMessages(data.data || []);
+      setHasMore(data.pagination.hasMore);
+      setNextCursor(data.pagination.nextCursor);
+    },
+    [conversationId, mergeMessages],
+  );
+
+  // 대화방 정보 + 최근 메시지 조회
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchConversation = async () => {
+      setIsLoading(true);
+
+      try {
+        let response: Response | null = null;
+        try {
+          response = await fetch(`/api/conversations/${conversationId}`);
+        } catch (fetchErr) {
+          const errorInfo = await handleFetchError(null, fetchErr);
+          logError(errorInfo, "MessageThread.fetchConversation");
+          if (!cancelled) setError(errorInfo.message);
+          return;
+        }
+
+        if (!response.ok) {
+          const errorInfo = await handleFetchError(response, null);
+          logError(errorInfo, "MessageThread.fetchConversation");
+          if (!cancelled) setError(errorInfo.message);
+          return;
+        }
+
+        const data = await response.json();
+        if (cancelled) return;
+
+        setConversation(data.data);
+        setOtherLastReadAt(data.data.other_last_read_at);
+        await fetchMessages(null);
+        setError(null);
+        markAsRead();
+      } catch (err) {
+        const errorInfo = await handleFetchError(null, err);
+        logError(errorInfo, "MessageThread.fetchConversation");
+        if (!cancelled) setError(errorInfo.message);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchConversation();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, fetchMessages, markAsRead]);
+
+  // 실시간 새 메시지 + 상대방 읽음 시각 구독
+  useEffect(() => {
+    if (!conversation) return;
+
+    const channel = supabase
+      .channel(`conversation:${conversationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const message = payload.new as Message;
+          mergeMessages([message]);
+
+          // 보고 있는 동안 받은 메시지는 바로 읽음 처리
+          if (
+            message.sender_id !== conversation.current_user_id &&
+            document.visibilityState === "visible"
+          ) {
+            markAsRead();
+          }
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "conversation_participants",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const participant = payload.new as ConversationParticipant;
+          if (participant.user_id === conversation.other_user.id) {
+            setOtherLastReadAt(participant.last_read_at);
+          }
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, conversation, conversationId, mergeMessages, markAsRead]);
+
+  // 다른 탭에 있다가 돌아오면 읽음 처리
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        markAsRead();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [markAsRead]);
+
+  // 새 메시지가 추가되면 맨 아래로 스크롤
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [lastMessageId]);
+
+  // 이전 메시지 불러오기
+  const handleLoadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      await fetchMessages(nextCursor);
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "메시지를 불러오지 못했습니다.",
+        "error",
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // 메시지 전송
+  const handleSubmit = async (e?: FormEvent) => {
+    e?.preventDefault();
+
+    const trimmed = content.trim();
+    if (!trimmed || isSending) return;
+
+    setIsSending(true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch(
+          `/api/conversations/${conversationId}/messages`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ content: trimmed }),
+          },
+        );
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "MessageThread.handleSubmit");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "MessageThread.handleSubmit");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      const data = await response.json();
+      mergeMessages([data.message]);
+      setContent("");
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "MessageThread.handleSubmit");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Enter 전송, Shift+Enter 줄바꿈 (한글 조합 중에는 무시)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-114px)] md:h-screen">
+        <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (error || !conversation) {
+    return (
+      <div className="py-8 px-4">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <p className="text-red-600 mb-4">
+            {error || "대화를 찾을 수 없습니다."}
+          </p>
+          <Link
+            href="/messages"
+            className="inline-block px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            메시지함으로 돌아가기
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const otherUser = conversation.other_user;
+  const lastOwnMessage = [...messages]
+    .reverse()
+    .find((message) => message.sender_id === conversation.current_user_id);
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-114px)] md:h-screen bg-white md:border-x border-border">
+      {/* 헤더: 뒤로 가기 + 대화 상대 */}
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-border">
+        <Link
+          href="/messages"
+          aria-label="메시지함으로 돌아가기"
+          className="p-1 -ml-1 text-gray-700 hover:text-black"
+        >
+          <ArrowLeft className="w-6 h-6" />
+        </Link>
+        <Link
+          href={getProfilePath(otherUser.username)}
+          className="flex items-center gap-3 min-w-0"
+        >
+          <span className="relative w-8 h-8 flex-shrink-0 rounded-full bg-gray-400 overflow-hidden flex items-center justify-center">
+            {otherUser.avatar_url ? (
+              <Image
+                src={otherUser.avatar_url}
+                alt={otherUser.username}
+                fill
+                className="object-cover"
+                sizes="32px"
+              />
+            ) : (
+              <span className="text-xs text-white font-semibold">
+                {otherUser.name.charAt(0).toUpperCase()}
+              </span>
+            )}
+          </span>
+          <span className="min-w-0">
+            <span className="block text-sm font-semibold truncate">
+              {otherUser.username}
+            </span>
+            <span className="block text-xs text-gray-500 truncate">
+              {otherUser.name}
+            </span>
+          </span>
+        </Link>
+      </div>
+
+      {/* 메시지 목록 */}
+      <div className="flex-1 overflow-y-auto px-4 py-4">
+        {hasMore && (
+          <div className="flex justify-center mb-4">
+            <button
+              type="button"
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="text-sm font-semibold text-blue-500 hover:text-blue-700 disabled:opacity-50"
+            >
+              {isLoadingMore ? "불러오는 중..." : "이전 메시지 보기"}
+            </button>
+          </div>
+        )}
+
+        {messages.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-500">
+            {otherUser.username}님에게 첫 메시지를 보내보세요
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {messages.map((message) => {
+              const isOwn = message.sender_id === conversation.current_user_id;
+
+              return (
+                <li
+                  key={message.id}
+                  className={cn("flex flex-col", isOwn ? "items-end" : "items-start")}
+                >
+                  <p
+                    className={cn(
+                      "max-w-[75%] px-4 py-2 rounded-3xl text-sm whitespace-pre-wrap break-words",
+                      isOwn ? "bg-blue-500 text-white" : "bg-gray-100 text-black",
+                    )}
+                  >
+                    {message.content}
+                  </p>
+                  {/* 읽음 확인 (내가 보낸 마지막 메시지) */}
+                  {message.id === lastOwnMessage?.id && (
+                    <span className="mt-1 px-2 text-xs text-gray-500">
+                      {isMessageRead(message, otherLastReadAt)
+                        ? "읽음"
+                        : "전송됨"}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* 메시지 입력 */}
+      <form
+        onSubmit={handleSubmit}
+        className="flex items-end gap-2 m-4 px-4 py-2 border border-border rounded-3xl"
+      >
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="메시지 입력..."
+          aria-label="메시지 입력"
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={1}
+          disabled={isSending}
+          className="flex-1 max-h-24 py-1 text-sm resize-none outline-none bg-transparent"
+        />
+        <button
+          type="submit"
+          disabled={!content.trim() || isSending}
+          className="py-1 text-sm font-semibold text-blue-500 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          보내기
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useEffect, useCallback, memo } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { FollowRequest } from "@/lib/types";
+import { getProfilePath } from "@/lib/utils/profile";
+import { useToast } from "@/components/ui/toast";
+import { useApiClient } from "@/hooks/use-api-client";
+
+/**
+ * 팔로우 요청 목록 컴포넌트
+ *
+ * 활동 페이지의 "알림" 탭 상단에 표시 (비공개 계정)
+ * - 받은 팔로우 요청이 없으면 아무것도 표시하지 않음
+ * - 확인: 요청 승인 (/api/follows/requests POST)
+ * - 삭제: 요청 거절 (/api/follows/requests DELETE)
+ */
+function FollowRequestListComponent() {
+  const { showToast } = useToast();
+  const api = useApiClient();
+  const [requests, setRequests] = useState<FollowRequest[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // 받은 팔로우 요청 조회 (실패해도 알림 목록 표시에는 영향 없음)
+  const fetchRequests = useCallback(async () => {
+    const { data } = await api.follows.listRequests({
+      context: "FollowRequestList.fetchRequests",
+    });
+
+    if (data) {
+      setRequests(data.data);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  // 요청 승인/거절 핸들러
+  const handleRespond = async (followerId: string, approve: boolean) => {
+    if (processingId) return;
+
+    setProcessingId(followerId);
+
+    try {
+      const options = { context: "FollowRequestList.handleRespond" };
+      const { error } = approve
+        ? await api.follows.approve(followerId, options)
+        : await api.follows.reject(followerId, options);
+
+      if (error) {
+        if (error.type !== "ABORTED") {
+          showToast(error.message, "error");
+        }
+        return;
+      }
+
+      setRequests((prev) =>
+        prev.filter((request) => request.follower_id !== followerId),
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-6">
+      <h2 className="text-sm font-semibold mb-2 px-2">
+        팔로우 요청 {requests.length}
+      </h2>
+      <ul className="divide-y divide-border border-b border-border">
+        {requests.map((request) => (
+          <li key={request.id} className="flex items-center gap-3 py-3 px-2">
+            {/* 요청한 사용자 아바타 */}
+            <Link
+              href={getProfilePath(request.username)}
+              className="relative w-11 h-11 rounded-full bg-gray-400 flex-shrink-0 flex items-center justify-center overflow-hidden hover:opacity-80 transition-opacity"
+            >
+              {request.avatar_url ? (
+                <Image
+                  src={request.avatar_url}
+                  alt={request.username}
+                  fill
+                  className="object-cover"
+                  sizes="44px"
+                />
+              ) : (
+                <span className="text-sm text-white font-semibold">
+                  {request.name.charAt(0).toUpperCase()}
+                </span>
+              )}
+            </Link>
+
+            {/* 사용자 정보 */}
+            <Link
+              href={getProfilePath(request.username)}
+              className="flex-1 min-w-0"
+            >
+              <p className="text-sm font-semibold truncate">
+                {request.username}
+              </p>
+              <p className="text-sm text-gray-500 truncate">{request.name}</p>
+            </Link>
+
+            {/* 승인/거절 버튼 */}
+            <button
+              type="button"
+              onClick={() => handleRespond(request.follower_id, true)}
+              disabled={processingId !== null}
+              className="px-4 py-1.5 bg-blue-500 text-white text-sm font-semibold rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              확인
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRespond(request.follower_id, false)}
+              disabled={processingId !== null}
+              className="px-4 py-1.5 bg-gray-100 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              삭제
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+export const FollowRequestList = memo(FollowRequestListComponent);
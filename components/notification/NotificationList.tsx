@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Bell } from "lucide-react";
+import { NotificationWithActor, NotificationsResponse } from "@/lib/types";
+import {
+  groupNotifications,
+  getNotificationMessage,
+  NotificationGroup,
+} from "@/lib/utils/notification";
+import { getProfilePath } from "@/lib/utils/profile";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { cn } from "@/lib/utils";
+
+/**
+ * 알림 목록 컴포넌트
+ *
+ * 활동 페이지의 "알림" 탭에 표시
+ * - 좋아요/팔로우는 묶어서 표시 ("A님 외 3명이...")
+ * - 읽지 않은 알림 강조 표시
+ * - 목록을 불러온 뒤 전체 읽음 처리
+ * - 게시물 썸네일 클릭 시 상세 모달 열기
+ */
+interface NotificationListProps {
+  onShowPost?: (postId: string) => void;
+  onUnreadCountChange?: (count: number) => void;
+}
+
+const PAGE_SIZE = 20;
+
+function NotificationListComponent({
+  onShowPost,
+  onUnreadCountChange,
+}: NotificationListProps) {
+  const [notifications, setNotifications] = useState<NotificationWithActor[]>(
+    [],
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  // 그룹화된 알림 (useMemo로 메모이제이션)
+  const groups = useMemo(
+    () => groupNotifications(notifications),
+    [notifications],
+  );
+
+  // 전체 읽음 처리 (실패해도 목록 표시에는 영향 없음)
+  const markAllAsRead = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ all: true }),
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "NotificationList.markAllAsRead");
+        return;
+      }
+
+      onUnreadCountChange?.(0);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "NotificationList.markAllAsRead");
+    }
+  }, [onUnreadCountChange]);
+
+  // 알림 목록 조회
+  const fetchNotifications = useCallback(
+    async (offset: number, append = false) => {
+      try {
+        setIsLoadingMore(append);
+
+        const params = new URLSearchParams({
+          limit: PAGE_SIZE.toString(),
+          offset: offset.toString(),
+        });
+
+        let response: Response | null = null;
+        try {
+          response = await fetch(`/api/notifications?${params}`);
+        } catch (fetchErr) {
+          const errorInfo = await handleFetchError(null, fetchErr);
+          logError(errorInfo, "NotificationList.fetchNotifications");
+          setError(errorInfo.message);
+          return;
+        }
+
+        if (!response.ok) {
+          const errorInfo = await handleFetchError(response, null);
+          logError(errorInfo, "NotificationList.fetchNotifications");
+          setError(errorInfo.message);
+          return;
+        }
+
+        const data: NotificationsResponse = await response.json();
+
+        setNotifications((prev) =>
+          append ? [...prev, ...data.data] : data.data,
+        );
+        setHasMore(data.pagination.hasMore);
+        setError(null);
+        onUnreadCountChange?.(data.unreadCount);
+
+        // 읽지 않은 알림이 있으면 표시 후 읽음 처리
+        if (data.unreadCount > 0) {
+          markAllAsRead();
+        }
+      } catch (err) {
+        const errorInfo = await handleFetchError(null, err);
+        logError(errorInfo, "NotificationList.fetchNotifications");
+        setError(errorInfo.message);
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [markAllAsRead, onUnreadCountChange],
+  );
+
+  // 초기 데이터 로드
+  useEffect(() => {
+    fetchNotifications(0, false);
+  }, [fetchNotifications]);
+
+  // 상대 시간 계산 함수
+  const getRelativeTime = useCallback((dateString: string) => {
+    const diffInSeconds = Math.floor(
+      (Date.now() - new Date(dateString).getTime()) / 1000,
+    );
+
+    if (diffInSeconds < 60) return "방금 전";
+    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}분 전`;
+    if (diffInSeconds < 86400)
+      return `${Math.floor(diffInSeconds / 3600)}시간 전`;
+    if (diffInSeconds < 604800)
+      return `${Math.floor(diffInSeconds / 86400)}일 전`;
+    return new Date(dateString).toLocaleDateString("ko-KR");
+  }, []);
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 5 }).map((_, index) => (
+          <div key={index} className="flex items-center gap-3 animate-pulse">
+            <div className="w-11 h-11 rounded-full bg-gray-200" />
+            <div className="flex-1 h-4 rounded bg-gray-200" />
+            <div className="w-11 h-11 rounded bg-gray-200" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (error && notifications.length === 0) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+        <p className="text-red-600 mb-4">{error}</p>
+        <button
+          onClick={() => fetchNotifications(0, false)}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          다시 시도
+        </button>
+      </div>
+    );
+  }
+
+  // 빈 상태
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Bell className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500 mb-2">아직 알림이 없습니다</p>
+        <p className="text-sm text-gray-400">
+          다른 사람이 회원님의 게시물에 좋아요나 댓글을 남기면 여기에
+          표시됩니다
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <ul className="divide-y divide-border">
+        {groups.map((group: NotificationGroup) => {
+          const firstActor = group.actors[0];
+
+          return (
+            <li
+              key={group.key}
+              className={cn(
+                "flex items-center gap-3 py-3 px-2 rounded-md",
+                !group.isRead && "bg-blue-50",
+              )}
+            >
+              {/* 발생자 아바타 */}
+              <Link
+                href={getProfilePath(firstActor.username)}
+                className="w-11 h-11 rounded-full bg-gray-400 flex-shrink-0 flex items-center justify-center hover:opacity-80 transition-opacity"
+              >
+                <span className="text-sm text-white font-semibold">
+                  {firstActor.name.charAt(0).toUpperCase()}
+                </span>
+              </Link>
+
+              {/* 알림 문구 */}
+              <p className="flex-1 min-w-0 text-sm text-black line-clamp-2">
+                {getNotificationMessage(group)}{" "}
+                <time className="text-gray-500">
+                  {getRelativeTime(group.latestAt)}
+                </time>
+              </p>
+
+              {/* 게시물 썸네일 */}
+              {group.postId && group.postImageUrl && (
+                <button
+                  type="button"
+                  onClick={() => onShowPost?.(group.postId!)}
+                  className="relative w-11 h-11 flex-shrink-0 bg-gray-100 overflow-hidden rounded-sm"
+                  aria-label="게시물 보기"
+                >
+                  <Image
+                    src={group.postImageUrl}
+                    alt="게시물 썸네일"
+                    fill
+                    className="object-cover"
+                    sizes="44px"
+                  />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* 더 보기 */}
+      {hasMore && (
+        <div className="text-center py-6">
+          <button
+            onClick={() => fetchNotifications(notifications.length, true)}
+            disabled={isLoadingMore}
+            className="text-sm font-semibold text-blue-500 hover:text-blue-600 disabled:opacity-50"
+          >
+            {isLoadingMore ? "불러오는 중..." : "더 보기"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const NotificationList = memo(NotificationListComponent);
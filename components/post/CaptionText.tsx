@@ -0,0 +1,57 @@
+"use client";
+
+import { memo, useMemo } from "react";
+import Link from "next/link";
+import { splitCaption } from "@/lib/utils/caption";
+import { getTagPath } from "@/lib/utils/hashtag";
+import { getProfilePath } from "@/lib/utils/profile";
+
+/**
+ * 캡션 텍스트 컴포넌트
+ *
+ * PostCard, PostModal의 캡션과 CommentList의 댓글 내용 표시에 사용
+ * - 줄바꿈 유지 (whitespace-pre-wrap)
+ * - #해시태그를 /tags/[tag] 링크로 표시
+ * - @멘션을 /u/[username] 프로필 링크로 표시
+ */
+interface CaptionTextProps {
+  text: string;
+}
+
+function CaptionTextComponent({ text }: CaptionTextProps) {
+  const segments = useMemo(() => splitCaption(text), [text]);
+
+  return (
+    <span className="whitespace-pre-wrap">
+      {segments.map((segment, index) => {
+        if (segment.type === "hashtag") {
+          return (
+            <Link
+              key={index}
+              href={getTagPath(segment.tag)}
+              className="text-blue-900 hover:underline"
+            >
+              {segment.value}
+            </Link>
+          );
+        }
+
+        if (segment.type === "mention") {
+          return (
+            <Link
+              key={index}
+              href={getProfilePath(segment.username)}
+              className="text-blue-900 hover:underline"
+            >
+              {segment.value}
+            </Link>
+          );
+        }
+
+        return segment.value;
+      })}
+    </span>
+  );
+}
+
+export const CaptionText = memo(CaptionTextComponent);
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useCallback } from "react";
 import { useUser } from "@clerk/nextjs";
 import {
   Dialog,
@@ -11,18 +11,40 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Image as ImageIcon, X } from "lucide-react";
+import {
+  ArrowLeft,
+  Loader2,
+  Image as ImageIcon,
+  Plus,
+  X,
+} from "lucide-react";
 import Image from "next/image";
 import { useToast } from "@/components/ui/toast";
-import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { CropAspectRatio, ImageEdit } from "@/lib/types";
+import { logError } from "@/lib/utils/error-handler";
+import { MAX_POST_IMAGES, UPLOAD_REJECTED_CODE } from "@/lib/utils/post";
+import {
+  DEFAULT_IMAGE_EDIT,
+  getAspectRatioValue,
+  renderEditedImage,
+} from "@/lib/utils/image-edit";
+import { cn } from "@/lib/utils";
+import { MentionSuggestions } from "@/components/mention/MentionSuggestions";
+import { useApiClient } from "@/hooks/use-api-client";
+import { useMentionAutocomplete } from "@/hooks/use-mention-autocomplete";
+import { useResumableUpload } from "@/hooks/use-resumable-upload";
+import { ImageEditor } from "./ImageEditor";
 
 /**
  * Instagram 클론 게시물 작성 모달
  *
  * 기능:
- * - 이미지 선택 및 미리보기
- * - 캡션 입력 (최대 2,200자)
- * - Supabase Storage 업로드
+ * - 이미지 다중 선택 (최대 10장, 선택 순서대로 캐러셀 구성)
+ * - 편집 단계: 자르기 비율(1:1, 4:5, 1.91:1), 확대/위치 이동, 필터, 밝기·대비·채도 (ImageEditor)
+ *   - "다음"을 누르면 캔버스로 편집 결과 이미지를 만들어 업로드에 사용
+ * - 미리보기 + 썸네일 목록 (개별 삭제, 추가 선택)
+ * - 캡션 입력 (최대 2,200자, @멘션 자동완성)
+ * - Supabase Storage 재개 가능 업로드 (실제 진행률 표시, 실패 시 이어서 업로드)
  * - posts 테이블에 데이터 저장
  * - 진행 상태 표시
  */
@@ -33,52 +55,157 @@ interface CreatePostModalProps {
 export function CreatePostModal({ children }: CreatePostModalProps) {
   const { user, isSignedIn } = useUser();
   const { showToast } = useToast();
+  const api = useApiClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const captionRef = useRef<HTMLTextAreaElement>(null);
 
   // 상태 관리
   const [isOpen, setIsOpen] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [step, setStep] = useState<"edit" | "caption">("edit");
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [previewUrls, setPreviewUrls] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // 편집 상태 (자르기 비율은 모든 이미지 공통, 나머지는 이미지별)
+  const [aspectRatio, setAspectRatio] = useState<CropAspectRatio>("1:1");
+  const [edits, setEdits] = useState<ImageEdit[]>([]);
+  // 편집 결과 (캡션 단계 미리보기 및 업로드용)
+  const [editedFiles, setEditedFiles] = useState<File[]>([]);
+  const [editedUrls, setEditedUrls] = useState<string[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
+  const ratio = getAspectRatioValue(aspectRatio);
   const [caption, setCaption] = useState("");
+  const mention = useMentionAutocomplete({
+    value: caption,
+    onChange: setCaption,
+    inputRef: captionRef,
+  });
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [hasFailedUpload, setHasFailedUpload] = useState(false);
+  const { uploadFiles, reset: resetUpload } = useResumableUpload();
 
-  // 파일 선택 핸들러
+  // 파일 선택 핸들러 (여러 장 선택 가능, 기존 선택에 추가)
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files || []);
+    if (files.length === 0) return;
 
-    // 파일 검증
-    if (!file.type.startsWith("image/")) {
-      showToast("이미지 파일만 선택할 수 있습니다.", "error");
-      return;
+    // 같은 파일을 다시 선택할 수 있도록 input 초기화
+    event.target.value = "";
+
+    const validFiles: File[] = [];
+    for (const file of files) {
+      // 파일 검증
+      if (!file.type.startsWith("image/")) {
+        showToast("이미지 파일만 선택할 수 있습니다.", "error");
+        continue;
+      }
+
+      if (file.size > 5 * 1024 * 1024) {
+        // 5MB
+        showToast("파일 크기는 5MB 이하여야 합니다.", "error");
+        continue;
+      }
+
+      validFiles.push(file);
     }
 
-    if (file.size > 5 * 1024 * 1024) {
-      // 5MB
-      showToast("파일 크기는 5MB 이하여야 합니다.", "error");
-      return;
+    const remaining = MAX_POST_IMAGES - selectedFiles.length;
+    if (validFiles.length > remaining) {
+      showToast(
+        `이미지는 최대 ${MAX_POST_IMAGES}장까지 선택할 수 있습니다.`,
+        "error",
+      );
     }
 
-    setSelectedFile(file);
+    const filesToAdd = validFiles.slice(0, Math.max(0, remaining));
+    if (filesToAdd.length === 0) return;
+
+    setSelectedFiles((prev) => [...prev, ...filesToAdd]);
+    setEdits((prev) => [
+      ...prev,
+      ...filesToAdd.map(() => ({ ...DEFAULT_IMAGE_EDIT })),
+    ]);
 
     // 미리보기 URL 생성
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
+    setPreviewUrls((prev) => [
+      ...prev,
+      ...filesToAdd.map((file) => URL.createObjectURL(file)),
+    ]);
   };
 
   // 파일 제거
-  const handleRemoveFile = () => {
-    setSelectedFile(null);
-    setPreviewUrl(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+  const handleRemoveFile = (index: number) => {
+    URL.revokeObjectURL(previewUrls[index]);
+    setSelectedFiles((prev) => prev.filter((_, i) => i !== index));
+    setPreviewUrls((prev) => prev.filter((_, i) => i !== index));
+    setEdits((prev) => prev.filter((_, i) => i !== index));
+    setActiveIndex((prev) =>
+      Math.max(0, Math.min(prev, selectedFiles.length - 2)),
+    );
+  };
+
+  // 현재 이미지의 편집 상태 변경
+  const handleEditChange = useCallback(
+    (edit: ImageEdit) => {
+      setEdits((prev) =>
+        prev.map((item, index) => (index === activeIndex ? edit : item)),
+      );
+    },
+    [activeIndex],
+  );
+
+  // 편집 결과 이미지 생성 후 캡션 단계로 이동
+  const handleNext = async () => {
+    if (selectedFiles.length === 0 || isRendering) return;
+
+    setIsRendering(true);
+
+    try {
+      const files: File[] = [];
+
+      // 메모리 사용을 줄이기 위해 한 장씩 순서대로 처리
+      for (let index = 0; index < previewUrls.length; index++) {
+        const blob = await renderEditedImage(
+          previewUrls[index],
+          ratio,
+          edits[index],
+        );
+        const baseName = selectedFiles[index].name.replace(/\.[^.]+$/, "");
+        files.push(
+          new File([blob], `${baseName}.jpg`, { type: "image/jpeg" }),
+        );
+      }
+
+      editedUrls.forEach((url) => URL.revokeObjectURL(url));
+      // 편집 결과가 바뀌었으므로 이전 업로드는 이어서 진행하지 않음
+      resetUpload();
+      setHasFailedUpload(false);
+      setEditedFiles(files);
+      setEditedUrls(files.map((file) => URL.createObjectURL(file)));
+      setStep("caption");
+    } catch (error) {
+      logError(
+        {
+          type: "UNKNOWN_ERROR",
+          message: "이미지 편집에 실패했습니다.",
+          originalError: error,
+        },
+        "CreatePostModal.handleNext",
+      );
+      showToast("이미지 편집에 실패했습니다.", "error");
+    } finally {
+      setIsRendering(false);
     }
   };
 
+  // 편집 단계로 돌아가기 (편집 상태 유지)
+  const handleBack = () => {
+    setStep("edit");
+  };
+
   // 게시물 업로드
   const handleUpload = async () => {
-    if (!selectedFile) return;
+    if (editedFiles.length === 0) return;
 
     // 인증 상태 확인
     if (!isSignedIn || !user) {
@@ -88,38 +215,32 @@ export function CreatePostModal({ children }: CreatePostModalProps) {
 
     setIsUploading(true);
     setUploadProgress(0);
+    let canResume = true;
 
     try {
-      // 1. Supabase Storage에 이미지 업로드
-      setUploadProgress(20);
-
-      const formData = new FormData();
-      formData.append("file", selectedFile);
-      formData.append("caption", caption);
-      formData.append("userId", user.id);
-
-      let response: Response | null = null;
-      try {
-        response = await fetch("/api/posts", {
-          method: "POST",
-          body: formData,
-        });
-      } catch (fetchErr) {
-        const errorInfo = await handleFetchError(null, fetchErr);
-        logError(errorInfo, "CreatePostModal.handleUpload");
-        throw new Error(errorInfo.message);
-      }
+      // 1. Supabase Storage에 편집 결과 직접 업로드 (진행률 0~90%)
+      // 실패 후 다시 시도하면 완료된 이미지는 건너뛰고 중단된 위치부터 이어서 업로드
+      const uploadId = await uploadFiles(editedFiles, (ratio) =>
+        setUploadProgress(Math.round(ratio * 90)),
+      );
 
-      setUploadProgress(80);
+      // 2. 업로드된 이미지로 게시물 생성 (서버에서 변환 후 저장)
+      const { error } = await api.posts.create(
+        { uploadId, caption },
+        { context: "CreatePostModal.handleUpload" },
+      );
 
-      if (!response.ok) {
-        const errorInfo = await handleFetchError(response, null);
-        logError(errorInfo, "CreatePostModal.handleUpload");
-        throw new Error(errorInfo.message);
+      if (error) {
+        // 업로드한 파일이 거부되면 서버가 임시 파일을 삭제하므로 다음 시도는 처음부터 업로드
+        if (error.code === UPLOAD_REJECTED_CODE) {
+          resetUpload();
+          canResume = false;
+        }
+        throw new Error(error.message);
       }
 
-      await response.json();
       setUploadProgress(100);
+      setHasFailedUpload(false);
 
       // 성공 처리
       showToast("게시물이 성공적으로 업로드되었습니다!", "success");
@@ -141,6 +262,7 @@ export function CreatePostModal({ children }: CreatePostModalProps) {
         "CreatePostModal.handleUpload",
       );
       showToast(errorMessage, "error");
+      setHasFailedUpload(canResume);
     } finally {
       setIsUploading(false);
       setUploadProgress(0);
@@ -159,16 +281,63 @@ export function CreatePostModal({ children }: CreatePostModalProps) {
   // 모달 닫기
   const handleClose = () => {
     setIsOpen(false);
-    setSelectedFile(null);
-    setPreviewUrl(null);
+    previewUrls.forEach((url) => URL.revokeObjectURL(url));
+    editedUrls.forEach((url) => URL.revokeObjectURL(url));
+    setStep("edit");
+    setSelectedFiles([]);
+    setPreviewUrls([]);
+    setActiveIndex(0);
+    setAspectRatio("1:1");
+    setEdits([]);
+    setEditedFiles([]);
+    setEditedUrls([]);
     setCaption("");
     setIsUploading(false);
     setUploadProgress(0);
+    setHasFailedUpload(false);
+    resetUpload();
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
+  // 썸네일 목록 (선택 순서 = 게시물 이미지 순서)
+  const renderThumbnails = (urls: string[], canAdd: boolean) => (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {urls.map((url, index) => (
+        <button
+          key={url}
+          onClick={() => setActiveIndex(index)}
+          aria-label={`이미지 ${index + 1} 미리보기`}
+          aria-pressed={index === activeIndex}
+          className={cn(
+            "relative w-14 h-14 flex-shrink-0 rounded-md overflow-hidden border-2 focus:outline-none focus:ring-2 focus:ring-blue-500",
+            index === activeIndex
+              ? "border-blue-500"
+              : "border-transparent",
+          )}
+        >
+          <Image
+            src={url}
+            alt={`선택한 이미지 ${index + 1}`}
+            fill
+            className="object-cover"
+          />
+        </button>
+      ))}
+      {canAdd && selectedFiles.length < MAX_POST_IMAGES && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          aria-label="이미지 추가"
+          disabled={isRendering}
+          className="w-14 h-14 flex-shrink-0 rounded-md border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 hover:text-gray-600 hover:border-gray-400 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      )}
+    </div>
+  );
+
   // 진행률 표시 컴포넌트
   const ProgressBar = ({ progress }: { progress: number }) => (
     <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
@@ -193,11 +362,23 @@ export function CreatePostModal({ children }: CreatePostModalProps) {
         </DialogHeader>
 
         <div className="p-6">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
           {/* 파일 선택 영역 */}
-          {!selectedFile ? (
+          {selectedFiles.length === 0 ? (
             <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
               <ImageIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-600 mb-4">사진과 동영상을 선택하세요</p>
+              <p className="text-gray-600 mb-1">사진과 동영상을 선택하세요</p>
+              <p className="text-xs text-gray-400 mb-4">
+                최대 {MAX_POST_IMAGES}장까지 선택할 수 있습니다
+              </p>
               <Button
                 onClick={() => fileInputRef.current?.click()}
                 aria-label="이미지 파일 선택"
@@ -205,44 +386,114 @@ export function CreatePostModal({ children }: CreatePostModalProps) {
               >
                 컴퓨터에서 선택
               </Button>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                onChange={handleFileSelect}
-                className="hidden"
-              />
+            </div>
+          ) : step === "edit" ? (
+            /* 편집 단계 */
+            <div className="space-y-4">
+              <div className="relative">
+                <ImageEditor
+                  src={previewUrls[activeIndex]}
+                  aspectRatio={aspectRatio}
+                  onAspectRatioChange={setAspectRatio}
+                  edit={edits[activeIndex]}
+                  onEditChange={handleEditChange}
+                  disabled={isRendering}
+                />
+                <button
+                  onClick={() => handleRemoveFile(activeIndex)}
+                  aria-label="이미지 제거"
+                  disabled={isRendering}
+                  className="absolute top-2 right-2 bg-black bg-opacity-50 text-white rounded-full p-1 hover:bg-opacity-70 transition-all focus:outline-none focus:ring-2 focus:ring-white focus:ring-offset-2"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+                {previewUrls.length > 1 && (
+                  <div className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-black bg-opacity-60 text-white text-xs font-medium pointer-events-none">
+                    {activeIndex + 1}/{previewUrls.length}
+                  </div>
+                )}
+              </div>
+
+              {/* 썸네일 목록 (선택 순서 = 게시물 이미지 순서) */}
+              {renderThumbnails(previewUrls, true)}
+
+              {/* 액션 버튼들 */}
+              <div className="flex gap-3 pt-4">
+                <Button
+                  variant="outline"
+                  onClick={handleClose}
+                  disabled={isRendering}
+                  className="flex-1"
+                >
+                  취소
+                </Button>
+                <Button
+                  onClick={handleNext}
+                  disabled={isRendering}
+                  className="flex-1 bg-blue-500 hover:bg-blue-600"
+                >
+                  {isRendering ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      처리 중...
+                    </>
+                  ) : (
+                    "다음"
+                  )}
+                </Button>
+              </div>
             </div>
           ) : (
-            /* 이미지 미리보기 및 캡션 입력 */
+            /* 편집 결과 미리보기 및 캡션 입력 */
             <div className="space-y-4">
-              {/* 이미지 미리보기 */}
-              <div className="relative aspect-square bg-gray-100 rounded-lg overflow-hidden">
-                {previewUrl && (
-                  <>
+              {/* 이미지 미리보기 (편집 결과) */}
+              <div className="relative flex justify-center bg-gray-100 rounded-lg overflow-hidden">
+                {editedUrls[activeIndex] && (
+                  <div
+                    className="relative"
+                    style={{
+                      aspectRatio: ratio,
+                      width: ratio < 1 ? `${ratio * 100}%` : "100%",
+                    }}
+                  >
                     <Image
-                      src={previewUrl}
-                      alt="업로드할 이미지"
+                      src={editedUrls[activeIndex]}
+                      alt={`업로드할 이미지 ${activeIndex + 1}/${editedUrls.length}`}
                       fill
                       className="object-cover"
                     />
-                    <button
-                      onClick={handleRemoveFile}
-                      aria-label="이미지 제거"
-                      className="absolute top-2 right-2 bg-black bg-opacity-50 text-white rounded-full p-1 hover:bg-opacity-70 transition-all focus:outline-none focus:ring-2 focus:ring-white focus:ring-offset-2"
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
-                  </>
+                  </div>
+                )}
+                <button
+                  onClick={handleBack}
+                  aria-label="편집으로 돌아가기"
+                  disabled={isUploading}
+                  className="absolute top-2 left-2 bg-black bg-opacity-50 text-white rounded-full p-1 hover:bg-opacity-70 transition-all focus:outline-none focus:ring-2 focus:ring-white focus:ring-offset-2"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                </button>
+                {editedUrls.length > 1 && (
+                  <div className="absolute top-2 right-2 px-2 py-0.5 rounded-full bg-black bg-opacity-60 text-white text-xs font-medium">
+                    {activeIndex + 1}/{editedUrls.length}
+                  </div>
                 )}
               </div>
 
+              {/* 썸네일 목록 */}
+              {editedUrls.length > 1 && renderThumbnails(editedUrls, false)}
+
               {/* 캡션 입력 */}
-              <div>
+              <div className="relative">
                 <Textarea
+                  ref={captionRef}
                   placeholder="문구 입력..."
                   value={caption}
-                  onChange={(e) => setCaption(e.target.value)}
+                  onChange={(e) => {
+                    setCaption(e.target.value);
+                    mention.updateMention(e.target);
+                  }}
+                  onKeyDown={mention.handleKeyDown}
+                  onBlur={mention.close}
                   maxLength={2200}
                   rows={3}
                   className="resize-none"
@@ -256,6 +507,11 @@ export function CreatePostModal({ children }: CreatePostModalProps) {
                 >
                   {caption.length}/2,200
                 </p>
+                <MentionSuggestions
+                  suggestions={mention.suggestions}
+                  activeIndex={mention.activeIndex}
+                  selectSuggestion={mention.selectSuggestion}
+                />
               </div>
 
               {/* 업로드 진행률 */}
@@ -273,14 +529,16 @@ export function CreatePostModal({ children }: CreatePostModalProps) {
                 </Button>
                 <Button
                   onClick={handleUpload}
-                  disabled={!selectedFile || isUploading}
+                  disabled={editedFiles.length === 0 || isUploading}
                   className="flex-1 bg-blue-500 hover:bg-blue-600"
                 >
                   {isUploading ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      업로드 중...
+                      업로드 중... {uploadProgress}%
                     </>
+                  ) : hasFailedUpload ? (
+                    "이어서 업로드"
                   ) : (
                     "공유하기"
                   )}
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback } from "react";
+import Image from "next/image";
+import { RotateCcw } from "lucide-react";
+import { CropAspectRatio, ImageEdit } from "@/lib/types";
+import {
+  CROP_ASPECT_RATIOS,
+  DEFAULT_IMAGE_EDIT,
+  IMAGE_FILTERS,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  drawEditedImage,
+  getAspectRatioValue,
+  getCropRect,
+  getFilterString,
+  loadImage,
+} from "@/lib/utils/image-edit";
+import { cn } from "@/lib/utils";
+
+/**
+ * 게시물 작성 이미지 편집기
+ *
+ * CreatePostModal의 편집 단계에서 선택한 이미지 한 장을 편집
+ * - 자르기 비율 (1:1, 4:5, 1.91:1, 게시물의 모든 이미지에 동일 적용)
+ * - 확대 슬라이더 + 미리보기 드래그로 위치 이동
+ * - 필터 프리셋 / 밝기·대비·채도 조정
+ * - 미리보기는 업로드 결과와 같은 캔버스 계산(drawEditedImage)으로 표시
+ */
+interface ImageEditorProps {
+  src: string; // 편집할 이미지 URL (blob URL)
+  aspectRatio: CropAspectRatio;
+  onAspectRatioChange: (aspectRatio: CropAspectRatio) => void;
+  edit: ImageEdit;
+  onEditChange: (edit: ImageEdit) => void;
+  disabled?: boolean;
+}
+
+type EditorTab = "filter" | "adjust";
+
+const ADJUSTMENTS: {
+  key: "brightness" | "contrast" | "saturation";
+  label: string;
+}[] = [
+  { key: "brightness", label: "밝기" },
+  { key: "contrast", label: "대비" },
+  { key: "saturation", label: "채도" },
+];
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export function ImageEditor({
+  src,
+  aspectRatio,
+  onAspectRatioChange,
+  edit,
+  onEditChange,
+  disabled = false,
+}: ImageEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [activeTab, setActiveTab] = useState<EditorTab>("filter");
+  const dragStartRef = useRef<{
+    x: number;
+    y: number;
+    offsetX: number;
+    offsetY: number;
+  } | null>(null);
+
+  const ratio = getAspectRatioValue(aspectRatio);
+
+  // 편집할 이미지 로드
+  useEffect(() => {
+    let cancelled = false;
+    setImage(null);
+
+    loadImage(src)
+      .then((loaded) => {
+        if (!cancelled) setImage(loaded);
+      })
+      .catch((error) => console.error("ImageEditor load error:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  // 편집 상태가 바뀔 때마다 미리보기 다시 그리기 (화면 픽셀 밀도 반영)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(canvas.clientWidth * pixelRatio);
+    canvas.height = Math.round(canvas.width / ratio);
+    drawEditedImage(canvas, image, ratio, edit);
+  }, [image, ratio, edit]);
+
+  // 드래그로 자르기 영역 이동
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = {
+      x: e.clientX,
+      y: e.clientY,
+      offsetX: edit.offsetX,
+      offsetY: edit.offsetY,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    if (!start || !image) return;
+
+    const crop = getCropRect(image.naturalWidth, image.naturalHeight, ratio, edit);
+    // 화면 1px이 원본에서 몇 px인지
+    const scale = crop.width / e.currentTarget.clientWidth;
+    const slackX = image.naturalWidth - crop.width;
+    const slackY = image.naturalHeight - crop.height;
+
+    // 이미지를 끄는 방향과 반대로 자르기 영역이 이동
+    const deltaX = ((e.clientX - start.x) * scale * 2) / (slackX || Infinity);
+    const deltaY = ((e.clientY - start.y) * scale * 2) / (slackY || Infinity);
+
+    onEditChange({
+      ...edit,
+      offsetX: clamp(start.offsetX - deltaX, -1, 1),
+      offsetY: clamp(start.offsetY - deltaY, -1, 1),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+  };
+
+  const updateEdit = useCallback(
+    (changes: Partial<ImageEdit>) => onEditChange({ ...edit, ...changes }),
+    [edit, onEditChange],
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* 미리보기 (드래그로 위치 이동) */}
+      <div className="flex justify-center bg-gray-100 rounded-lg overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label="편집 미리보기 (드래그하여 위치 이동)"
+          className={cn(
+            "touch-none select-none",
+            disabled ? "cursor-default" : "cursor-move",
+          )}
+          style={{
+            aspectRatio: ratio,
+            // 세로 이미지는 정사각형 영역 안에 들어오도록 너비를 줄임
+            width: ratio < 1 ? `${ratio * 100}%` : "100%",
+          }}
+        />
+      </div>
+
+      {/* 자르기 비율 */}
+      <div className="flex items-center gap-2" role="radiogroup" aria-label="자르기 비율">
+        {CROP_ASPECT_RATIOS.map((item) => (
+          <button
+            key={item.value}
+            type="button"
+            role="radio"
+            aria-checked={aspectRatio === item.value}
+            onClick={() => onAspectRatioChange(item.value)}
+            disabled={disabled}
+            className={cn(
+              "px-3 py-1 text-xs font-semibold rounded-full border transition-colors",
+              aspectRatio === item.value
+                ? "border-black bg-black text-white"
+                : "border-gray-300 text-gray-600 hover:border-gray-400",
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+
+        {/* 확대 */}
+        <label className="flex-1 flex items-center gap-2 text-xs text-gray-500 ml-2">
+          확대
+          <input
+            type="range"
+            min={MIN_ZOOM}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={edit.zoom}
+            onChange={(e) => updateEdit({ zoom: Number(e.target.value) })}
+            disabled={disabled}
+            className="flex-1 accent-blue-500"
+          />
+        </label>
+      </div>
+
+      {/* 필터 / 조정 탭 */}
+      <div className="flex border-b border-border" role="tablist">
+        {(
+          [
+            { value: "filter", label: "필터" },
+            { value: "adjust", label: "조정" },
+          ] as { value: EditorTab; label: string }[]
+        ).map((tab) => (
+          <button
+            key={tab.value}
+            type="button"
+            role="tab"
+            aria-selected={activeTab === tab.value}
+            onClick={() => setActiveTab(tab.value)}
+            className={cn(
+              "flex-1 flex items-center justify-center gap-2 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors",
+              activeTab === tab.value
+                ? "border-black text-black"
+                : "border-transparent text-gray-500 hover:text-black",
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "filter" ? (
+        <div className="flex gap-3 overflow-x-auto pb-1" role="radiogroup" aria-label="필터">
+          {IMAGE_FILTERS.map((item) => (
+            <button
+              key={item.value}
+              type="button"
+              role="radio"
+              aria-checked={edit.filter === item.value}
+              onClick={() => updateEdit({ filter: item.value })}
+              disabled={disabled}
+              className="flex flex-col items-center gap-1 flex-shrink-0"
+            >
+              <span
+                className={cn(
+                  "relative w-16 h-16 rounded-md overflow-hidden border-2",
+                  edit.filter === item.value
+                    ? "border-blue-500"
+                    : "border-transparent",
+                )}
+              >
+                <Image
+                  src={src}
+                  alt=""
+                  fill
+                  className="object-cover"
+                  style={{
+                    filter: getFilterString({
+                      ...DEFAULT_IMAGE_EDIT,
+                      filter: item.value,
+                    }),
+                  }}
+                  unoptimized
+                />
+              </span>
+              <span
+                className={cn(
+                  "text-xs",
+                  edit.filter === item.value
+                    ? "font-semibold text-black"
+                    : "text-gray-500",
+                )}
+              >
+                {item.label}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {ADJUSTMENTS.map((item) => (
+            <label key={item.key} className="flex items-center gap-3 text-sm">
+              <span className="w-10 text-gray-700">{item.label}</span>
+              <input
+                type="range"
+                min={-100}
+                max={100}
+                step={1}
+                value={edit[item.key]}
+                onChange={(e) =>
+                  updateEdit({ [item.key]: Number(e.target.value) })
+                }
+                disabled={disabled}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="w-8 text-right text-xs text-gray-500 tabular-nums">
+                {edit[item.key]}
+              </span>
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              updateEdit({ brightness: 0, contrast: 0, saturation: 0 })
+            }
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs font-semibold text-blue-500 hover:text-blue-600 disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            조정 초기화
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
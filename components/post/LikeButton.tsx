@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Heart } from "lucide-react";
-import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { setPostLiked } from "@/lib/post-cache";
 import { useToast } from "@/components/ui/toast";
 
 /**
@@ -11,8 +11,8 @@ import { useToast } from "@/components/ui/toast";
  * PRD의 좋아요 기능 구현:
  * - 빈 하트 ↔ 빨간 하트 상태 관리
  * - 클릭 애니메이션 (scale 1.3 → 1, 0.15초)
- * - API 호출 (/api/likes POST/DELETE)
- * - Optimistic UI 업데이트
+ * - 게시물 캐시(lib/post-cache.ts)를 통해 API 호출 (/api/likes POST/DELETE)
+ * - Optimistic UI 업데이트 (같은 게시물을 보여주는 모든 화면에 반영)
  * - 로딩 상태 (중복 클릭 방지)
  * - 에러 처리 (롤백)
  */
@@ -21,31 +21,21 @@ interface LikeButtonProps {
   postId: string;
   isLiked: boolean;
   likesCount: number;
-  onLikeChange?: (newLikesCount: number, newIsLiked: boolean) => void;
   size?: "sm" | "md" | "lg"; // 기본값: 'md'
   showCount?: boolean; // 좋아요 수 표시 여부 (기본값: false)
 }
 
 export function LikeButton({
   postId,
-  isLiked: initialIsLiked,
-  likesCount: initialLikesCount,
-  onLikeChange,
+  isLiked,
+  likesCount,
   size = "md",
   showCount = false,
 }: LikeButtonProps) {
   const { showToast } = useToast();
-  const [isLiked, setIsLiked] = useState(initialIsLiked);
-  const [likesCount, setLikesCount] = useState(initialLikesCount);
   const [isLoading, setIsLoading] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
 
-  // props 변경 시 내부 상태 동기화 (더블탭 등 외부에서 상태 변경 시)
-  useEffect(() => {
-    setIsLiked(initialIsLiked);
-    setLikesCount(initialLikesCount);
-  }, [initialIsLiked, initialLikesCount]);
-
   // 크기별 스타일링
   const sizeClasses = {
     sm: "w-5 h-5",
@@ -53,16 +43,10 @@ export function LikeButton({
     lg: "w-7 h-7",
   };
 
-  // 좋아요 토글 핸들러
+  // 좋아요 토글 핸들러 (캐시에서 낙관적 업데이트 + 실패 시 롤백)
   const handleLikeToggle = async () => {
     if (isLoading) return; // 로딩 중 중복 클릭 방지
 
-    // Optimistic UI 업데이트
-    const newIsLiked = !isLiked;
-    const newLikesCount = newIsLiked ? likesCount + 1 : likesCount - 1;
-
-    setIsLiked(newIsLiked);
-    setLikesCount(newLikesCount);
     setIsAnimating(true);
     setIsLoading(true);
 
@@ -70,58 +54,12 @@ export function LikeButton({
     setTimeout(() => setIsAnimating(false), 150);
 
     try {
-      const method = newIsLiked ? "POST" : "DELETE";
-      let response: Response | null = null;
-
-      try {
-        response = await fetch("/api/likes", {
-          method,
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ post_id: postId }),
-        });
-      } catch (fetchErr) {
-        // 네트워크 에러 처리
-        const errorInfo = await handleFetchError(null, fetchErr);
-        logError(errorInfo, "LikeButton.handleLikeToggle");
-
-        // 에러 발생 시 Optimistic Update 롤백
-        setIsLiked(!newIsLiked);
-        setLikesCount(initialLikesCount);
-
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      if (!response.ok) {
-        const errorInfo = await handleFetchError(response, null);
-        logError(errorInfo, "LikeButton.handleLikeToggle");
-
-        // 에러 발생 시 Optimistic Update 롤백
-        setIsLiked(!newIsLiked);
-        setLikesCount(initialLikesCount);
-
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      const data = await response.json();
-
-      // 부모 컴포넌트에 변경사항 알림
-      if (onLikeChange) {
-        onLikeChange(newLikesCount, newIsLiked);
-      }
+      await setPostLiked(postId, !isLiked);
     } catch (error) {
-      // 예상치 못한 에러 처리
-      const errorInfo = await handleFetchError(null, error);
-      logError(errorInfo, "LikeButton.handleLikeToggle");
-
-      // 에러 발생 시 Optimistic Update 롤백
-      setIsLiked(!newIsLiked);
-      setLikesCount(initialLikesCount);
-
-      showToast(errorInfo.message, "error");
+      showToast(
+        error instanceof Error ? error.message : "좋아요에 실패했습니다.",
+        "error",
+      );
     } finally {
       setIsLoading(false);
     }
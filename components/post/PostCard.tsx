@@ -1,106 +1,90 @@
 "use client";
 
-import Image from "next/image";
 import Link from "next/link";
 import { useState, memo, useMemo, useCallback } from "react";
-import { Heart, MessageCircle, Send, Bookmark } from "lucide-react";
+import { Heart, MessageCircle, Send } from "lucide-react";
 import { PostWithUser } from "@/lib/types";
 import { LikeButton } from "./LikeButton";
+import { SaveButton } from "./SaveButton";
 import { CommentList } from "@/components/comment/CommentList";
 import { CommentForm } from "@/components/comment/CommentForm";
 import { PostMenu } from "./PostMenu";
+import { PostImageCarousel } from "./PostImageCarousel";
+import { CaptionText } from "./CaptionText";
+import { useToast } from "@/components/ui/toast";
+import {
+  createComment,
+  deleteComment,
+  setPostLiked,
+} from "@/lib/post-cache";
+import {
+  getPostAspectRatio,
+  getPostImages,
+  isPostEdited,
+} from "@/lib/utils/post";
+import { getProfilePath } from "@/lib/utils/profile";
 
 /**
  * Instagram 클론 PostCard 컴포넌트
  *
  * PRD의 PostCard 디자인 구현:
  * - 헤더 (프로필 이미지 32px, 사용자명, 시간, ⋯ 메뉴)
- * - 이미지 영역 (1:1 정사각형, Next.js Image 최적화)
+ * - 이미지 영역 (1:1 정사각형, 다중 이미지는 캐러셀)
  * - 액션 버튼 (좋아요, 댓글, 공유, 북마크)
  * - 좋아요 수 표시
  * - 캡션 (사용자명 Bold + 내용, 2줄 초과 시 "... 더 보기")
  * - 댓글 미리보기 (최신 2개)
  * - 댓글 입력창
+ * - 좋아요/댓글은 게시물 캐시(lib/post-cache.ts)로 처리 (같은 게시물을 보여주는 화면에 모두 반영)
  */
 interface PostCardProps {
   post: PostWithUser;
   currentUserId?: string;
-  onLike?: (postId: string) => void;
-  onUnlike?: (postId: string) => void;
-  onComment?: (postId: string, content: string) => void;
-  onCommentDelete?: (commentId: string) => void;
   onShowDetail?: (postId: string) => void;
   onDelete?: (postId: string) => void;
+  onEdit?: (postId: string) => void;
+  onAuthorRestricted?: (userId: string) => void; // 작성자 뮤트/차단 시
   index?: number; // 게시물 인덱스 (priority 설정용)
 }
 
 function PostCardComponent({
   post,
   currentUserId,
-  onLike,
-  onUnlike,
-  onComment,
-  onCommentDelete,
   onShowDetail,
   onDelete,
+  onEdit,
+  onAuthorRestricted,
   index = 999, // 기본값은 큰 수로 설정하여 priority false
 }: PostCardProps) {
+  const { showToast } = useToast();
   const [showFullCaption, setShowFullCaption] = useState(false);
   const [isDoubleTapped, setIsDoubleTapped] = useState(false);
-  const [imageError, setImageError] = useState(false);
 
-  // 좋아요 상태 관리 (실시간 업데이트용)
-  const [likesCount, setLikesCount] = useState(post.likes_count);
-  const [isLiked, setIsLiked] = useState(post.isLiked);
+  // 캐러셀 이미지 목록 (position 순)
+  const images = useMemo(() => getPostImages(post), [post]);
+  const aspectRatio = getPostAspectRatio(images);
 
   // 더블 탭 감지 및 좋아요 토글 (useCallback으로 메모이제이션)
   const [lastTap, setLastTap] = useState(0);
   const handleImageClick = useCallback(() => {
     const currentTime = new Date().getTime();
-
-    setLastTap((prevLastTap) => {
-      const tapGap = currentTime - prevLastTap;
-
-      if (tapGap < 300 && tapGap > 0) {
-        // 더블 탭 감지
-        setIsDoubleTapped(true);
-        setTimeout(() => setIsDoubleTapped(false), 1000);
-
-        // 좋아요 토글 (로컬 상태 업데이트)
-        setIsLiked((prevIsLiked) => {
-          const newIsLiked = !prevIsLiked;
-
-          setLikesCount((prevLikesCount) => {
-            const newLikesCount = newIsLiked
-              ? prevLikesCount + 1
-              : prevLikesCount - 1;
-
-            // 부모 컴포넌트에도 알림 (선택사항)
-            if (newIsLiked && onLike) {
-              onLike(post.post_id);
-            } else if (!newIsLiked && onUnlike) {
-              onUnlike(post.post_id);
-            }
-
-            return newLikesCount;
-          });
-
-          return newIsLiked;
-        });
-      }
-
-      return currentTime;
-    });
-  }, [onLike, onUnlike, post.post_id]);
-
-  // LikeButton의 좋아요 변경 핸들러 (useCallback으로 메모이제이션)
-  const handleLikeChange = useCallback(
-    (newLikesCount: number, newIsLiked: boolean) => {
-      setLikesCount(newLikesCount);
-      setIsLiked(newIsLiked);
-    },
-    [],
-  );
+    const tapGap = currentTime - lastTap;
+    setLastTap(currentTime);
+
+    if (tapGap < 300 && tapGap > 0) {
+      // 더블 탭 감지
+      setIsDoubleTapped(true);
+      setTimeout(() => setIsDoubleTapped(false), 1000);
+
+      // 좋아요 토글 (캐시에서 낙관적 업데이트 + 실패 시 롤백)
+      setPostLiked(post.post_id, !post.isLiked).catch((error) => {
+        showToast(
+          error instanceof Error ? error.message : "좋아요에 실패했습니다.",
+          "error",
+        );
+      });
+    }
+  }, [lastTap, post.post_id, post.isLiked, showToast]);
 
   // 상대 시간 표시 (메모이제이션)
   const formattedTime = useMemo(() => {
@@ -129,14 +113,27 @@ function PostCardComponent({
     return { shouldShowMoreButton: shouldShow, displayCaption: display };
   }, [post.caption, showFullCaption]);
 
-  // 댓글 제출 (CommentForm에서 호출) - useCallback으로 메모이제이션
+  // 댓글 제출 (CommentForm에서 호출, 실패 시 CommentForm에서 Toast 표시)
   const handleComment = useCallback(
     async (content: string) => {
-      if (onComment) {
-        await onComment(post.post_id, content);
+      await createComment(post.post_id, content);
+    },
+    [post.post_id],
+  );
+
+  // 댓글 삭제 (CommentList에서 호출)
+  const handleCommentDelete = useCallback(
+    async (commentId: string) => {
+      try {
+        await deleteComment(commentId);
+      } catch (error) {
+        showToast(
+          error instanceof Error ? error.message : "댓글 삭제에 실패했습니다.",
+          "error",
+        );
       }
     },
-    [onComment, post.post_id],
+    [showToast],
   );
 
   return (
@@ -144,7 +141,7 @@ function PostCardComponent({
       {/* 헤더 (60px 높이) */}
       <header className="flex items-center justify-between p-4">
         <Link
-          href={`/profile/${post.clerk_id}`}
+          href={getProfilePath(post.username)}
           className="flex items-center space-x-3 hover:opacity-80 transition-opacity"
         >
           <div className="w-8 h-8 rounded-full bg-gray-300 overflow-hidden">
@@ -161,45 +158,40 @@ function PostCardComponent({
         </Link>
 
         <div className="flex items-center space-x-2">
-          <time className="text-xs text-gray-500">{formattedTime}</time>
+          <time className="text-xs text-gray-500">
+            {formattedTime}
+            {isPostEdited(post) && " · 수정됨"}
+          </time>
           <PostMenu
             postId={post.post_id}
             isOwner={currentUserId === post.clerk_id}
+            authorId={currentUserId ? post.user_id : undefined}
+            authorUsername={post.username}
             onDelete={onDelete}
+            onEdit={onEdit}
+            onAuthorRestricted={onAuthorRestricted}
           />
         </div>
       </header>
 
-      {/* 이미지 영역 (1:1 정사각형) */}
+      {/* 이미지 영역 (작성 시 자르기 비율, 이관 전 게시물은 1:1 정사각형) */}
       <div
-        className="aspect-square bg-gray-100 relative cursor-pointer"
+        className="bg-gray-100 relative cursor-pointer"
+        style={{ aspectRatio }}
         onClick={handleImageClick}
       >
-        {!imageError ? (
-          <Image
-            src={post.image_url}
-            alt={`${post.name}의 게시물${
-              post.caption
-                ? `: ${post.caption.substring(0, 30)}${
-                    post.caption.length > 30 ? "..." : ""
-                  }`
-                : ""
-            }`}
-            fill
-            className="object-cover"
-            sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, 33vw"
-            priority={index < 3}
-            loading={index < 3 ? undefined : "lazy"}
-            placeholder="empty"
-            onError={() => setImageError(true)}
-          />
-        ) : (
-          <div className="w-full h-full bg-gray-200 flex items-center justify-center">
-            <span className="text-gray-400 text-sm">
-              이미지를 불러올 수 없습니다
-            </span>
-          </div>
-        )}
+        <PostImageCarousel
+          images={images}
+          alt={`${post.name}의 게시물${
+            post.caption
+              ? `: ${post.caption.substring(0, 30)}${
+                  post.caption.length > 30 ? "..." : ""
+                }`
+              : ""
+          }`}
+          sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, 33vw"
+          priority={index < 3}
+        />
 
         {/* 더블 탭 좋아요 애니메이션 */}
         {isDoubleTapped && (
@@ -214,9 +206,8 @@ function PostCardComponent({
         <div className="flex items-center space-x-4">
           <LikeButton
             postId={post.post_id}
-            isLiked={isLiked}
-            likesCount={likesCount}
-            onLikeChange={handleLikeChange}
+            isLiked={post.isLiked}
+            likesCount={post.likes_count}
           />
 
           <button
@@ -235,12 +226,7 @@ function PostCardComponent({
           </button>
         </div>
 
-        <button
-          aria-label="북마크"
-          className="hover:opacity-60 transition-opacity focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded"
-        >
-          <Bookmark className="w-6 h-6 text-black" />
-        </button>
+        <SaveButton postId={post.post_id} isSaved={post.isSaved ?? false} />
       </div>
 
       {/* 컨텐츠 영역 */}
@@ -248,7 +234,7 @@ function PostCardComponent({
         {/* 좋아요 수 */}
         <div className="mb-2">
           <p className="font-semibold text-sm text-black">
-            좋아요 {likesCount.toLocaleString()}개
+            좋아요 {post.likes_count.toLocaleString()}개
           </p>
         </div>
 
@@ -257,7 +243,7 @@ function PostCardComponent({
           <div className="mb-3">
             <p className="text-sm text-black leading-relaxed">
               <span className="font-semibold">{post.name}</span>{" "}
-              <span className="whitespace-pre-wrap">{displayCaption}</span>
+              <CaptionText text={displayCaption} />
             </p>
             {shouldShowMoreButton && (
               <button
@@ -286,7 +272,7 @@ function PostCardComponent({
               comments={post.recentComments}
               currentUserId={currentUserId}
               maxComments={2}
-              onDelete={onCommentDelete}
+              onDelete={handleCommentDelete}
             />
           </div>
         )}
@@ -4,9 +4,18 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { PostCard } from "./PostCard";
 import { PostCardSkeleton } from "./PostCardSkeleton";
 import { PostModal } from "./PostModal";
-import { PostWithUser, PostsResponse } from "@/lib/types";
-import { handleFetchError, logError } from "@/lib/utils/error-handler";
-import { useToast } from "@/components/ui/toast";
+import { ArrowUp } from "lucide-react";
+import {
+  Comment,
+  Like,
+  Post,
+  PostWithUser,
+} from "@/lib/types";
+import { useApiClient } from "@/hooks/use-api-client";
+import { RealtimeSubscription, useRealtime } from "@/hooks/use-realtime";
+import { useCachedPosts } from "@/hooks/use-post-cache";
+import { updatePost, upsertPosts } from "@/lib/post-cache";
+import { cn } from "@/lib/utils";
 
 /**
  * Instagram 클론 PostFeed 컴포넌트
@@ -14,76 +23,87 @@ import { useToast } from "@/components/ui/toast";
  * 게시물 목록 렌더링 및 무한 스크롤 구현
  * - Intersection Observer API 사용
  * - 하단 감지 요소 (sentinel) 추가
- * - 다음 페이지 자동 로드 (10개씩)
+ * - 다음 페이지 자동 로드 (10개씩, nextCursor 기반)
  * - 로딩 중 중복 요청 방지
  * - 에러 처리 및 재시도 기능
+ * - 홈 피드 모드 전환 (추천: 전체 게시물, 팔로잉: 팔로우한 사용자 + 본인)
+ * - Supabase Realtime (로그인 상태): 새 게시물 알림 버튼, 좋아요 수/댓글 수 실시간 갱신
+ * - 게시물 내용은 캐시(lib/post-cache.ts)에서 읽음 (좋아요/댓글/삭제는 PostCard, PostModal, PostMenu가 캐시로 처리)
  */
+type FeedMode = "all" | "following";
+
+const REALTIME_FILTER_LIMIT = 100;
+
 interface PostFeedProps {
   initialPosts?: PostWithUser[];
+  initialCursor?: string | null; // initialPosts 다음 페이지 커서
   userId?: string; // 프로필 페이지용 필터
   currentUserId?: string; // 현재 로그인한 사용자 ID (삭제 기능용)
 }
 
 export function PostFeed({
   initialPosts = [],
+  initialCursor = null,
   userId,
   currentUserId,
 }: PostFeedProps) {
-  const { showToast } = useToast();
+  const api = useApiClient();
   const [posts, setPosts] = useState<PostWithUser[]>(initialPosts);
+  const visiblePosts = useCachedPosts(posts); // 캐시 내용 반영 + 삭제/뮤트/차단된 게시물 제외
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
-  const [offset, setOffset] = useState(initialPosts.length);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialCursor);
+  const [feedMode, setFeedMode] = useState<FeedMode>("all");
+  const [hasNewPosts, setHasNewPosts] = useState(false);
 
   // 게시물 상세 모달 상태
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [selectedPostIndex, setSelectedPostIndex] = useState<number>(-1);
+  const [isEditingSelected, setIsEditingSelected] = useState(false);
 
   const sentinelRef = useRef<HTMLDivElement>(null);
   const isFetchingRef = useRef(false);
+  const feedModeRef = useRef<FeedMode>("all");
+  const postIdsRef = useRef<Set<string>>(new Set());
+  const pendingStatsRef = useRef<Set<string>>(new Set());
+  const statsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const limit = 10;
 
   // 게시물 목록 조회 함수
   const fetchPosts = useCallback(
-    async (currentOffset: number, append = false) => {
+    async (cursor: string | null, append = false, mode = feedMode) => {
       if (isFetchingRef.current) return;
 
       try {
         isFetchingRef.current = true;
 
-        const params = new URLSearchParams({
-          limit: limit.toString(),
-          offset: currentOffset.toString(),
-        });
+        const { data, error: apiError } = await api.posts.list(
+          {
+            limit,
+            cursor,
+            userId,
+            feed: mode === "following" ? "following" : undefined,
+          },
+          { context: "PostFeed.fetchPosts" },
+        );
 
-        if (userId) {
-          params.append("userId", userId);
-        }
+        // 언마운트로 취소된 요청은 무시
+        if (apiError?.type === "ABORTED") return;
 
-        let response: Response | null = null;
-        try {
-          response = await fetch(`/api/posts?${params}`);
-        } catch (fetchErr) {
-          // 네트워크 에러 처리
-          const errorInfo = await handleFetchError(null, fetchErr);
-          logError(errorInfo, "PostFeed.fetchPosts");
-          setError(errorInfo.message);
+        if (apiError) {
+          setError(apiError.message);
+          // 에러가 발생하면 더 이상 데이터를 로드하지 않음
           setHasMore(false);
           return;
         }
 
-        if (!response.ok) {
-          const errorInfo = await handleFetchError(response, null);
-          logError(errorInfo, "PostFeed.fetchPosts");
-          setError(errorInfo.message);
-          setHasMore(false);
-          return;
-        }
+        // 응답 도착 전에 피드 모드가 바뀐 경우 무시
+        if (mode !== feedModeRef.current) return;
 
-        const data: PostsResponse = await response.json();
+        upsertPosts(data.data);
 
         if (append) {
           setPosts((prev) => [...prev, ...data.data]);
@@ -92,21 +112,13 @@ export function PostFeed({
         }
 
         setHasMore(data.pagination.hasMore);
-        setOffset(currentOffset + data.data.length);
+        setNextCursor(data.pagination.nextCursor);
         setError(null);
-      } catch (err) {
-        // 예상치 못한 에러 처리
-        const errorInfo = await handleFetchError(null, err);
-        logError(errorInfo, "PostFeed.fetchPosts");
-        setError(errorInfo.message);
-
-        // 에러가 발생하면 더 이상 데이터를 로드하지 않음
-        setHasMore(false);
       } finally {
         isFetchingRef.current = false;
       }
     },
-    [userId, limit],
+    [api, userId, limit, feedMode],
   );
 
   // 초기 데이터 로드 (initialPosts가 없을 때)
@@ -116,7 +128,7 @@ export function PostFeed({
     // 실제 API 호출
     if (initialPosts.length === 0 && !isLoading && !error && isMounted) {
       setIsLoading(true);
-      fetchPosts(0, false).finally(() => {
+      fetchPosts(null, false).finally(() => {
         if (isMounted) {
           setIsLoading(false);
         }
@@ -142,7 +154,7 @@ export function PostFeed({
           !isFetchingRef.current
         ) {
           setIsLoadingMore(true);
-          fetchPosts(offset, true).finally(() => setIsLoadingMore(false));
+          fetchPosts(nextCursor, true).finally(() => setIsLoadingMore(false));
         }
       },
       {
@@ -158,114 +170,11 @@ export function PostFeed({
         observer.unobserve(sentinelRef.current);
       }
     };
-  }, [hasMore, isLoadingMore, offset, fetchPosts]);
-
-  // 좋아요 추가 핸들러
-  const handleLike = useCallback(async (postId: string) => {
-    try {
-      let response: Response | null = null;
-      try {
-        response = await fetch("/api/likes", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ post_id: postId }),
-        });
-      } catch (fetchErr) {
-        // 네트워크 에러 처리
-        const errorInfo = await handleFetchError(null, fetchErr);
-        logError(errorInfo, "PostFeed.handleLike");
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      if (!response.ok) {
-        const errorInfo = await handleFetchError(response, null);
-        logError(errorInfo, "PostFeed.handleLike");
-        showToast(errorInfo.message, "error");
-        return;
-      }
+  }, [hasMore, isLoadingMore, nextCursor, fetchPosts]);
 
-      await response.json();
-
-      // 게시물 상태 업데이트
-      setPosts((prevPosts) =>
-        prevPosts.map((post) =>
-          post.post_id === postId
-            ? {
-                ...post,
-                isLiked: true,
-                likes_count: post.likes_count + 1,
-              }
-            : post,
-        ),
-      );
-    } catch (error) {
-      // 예상치 못한 에러 처리
-      const errorInfo = await handleFetchError(null, error);
-      logError(errorInfo, "PostFeed.handleLike");
-      showToast(errorInfo.message, "error");
-    }
-  }, [showToast]);
-
-  // 좋아요 제거 핸들러
-  const handleUnlike = useCallback(async (postId: string) => {
-    try {
-      let response: Response | null = null;
-      try {
-        response = await fetch("/api/likes", {
-          method: "DELETE",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ post_id: postId }),
-        });
-      } catch (fetchErr) {
-        // 네트워크 에러 처리
-        const errorInfo = await handleFetchError(null, fetchErr);
-        logError(errorInfo, "PostFeed.handleUnlike");
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      if (!response.ok) {
-        const errorInfo = await handleFetchError(response, null);
-        logError(errorInfo, "PostFeed.handleUnlike");
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      await response.json();
-
-      // 게시물 상태 업데이트
-      setPosts((prevPosts) =>
-        prevPosts.map((post) =>
-          post.post_id === postId
-            ? {
-                ...post,
-                isLiked: false,
-                likes_count: post.likes_count - 1,
-              }
-            : post,
-        ),
-      );
-    } catch (error) {
-      // 예상치 못한 에러 처리
-      const errorInfo = await handleFetchError(null, error);
-      logError(errorInfo, "PostFeed.handleUnlike");
-      showToast(errorInfo.message, "error");
-    }
-  }, [showToast]);
-
-  // 게시물 삭제 핸들러
+  // 게시물 삭제 핸들러 (목록에서는 캐시를 통해 제외됨)
   const handleDelete = useCallback(
     async (postId: string) => {
-      // 게시물 목록에서 즉시 제거 (낙관적 업데이트)
-      setPosts((prevPosts) =>
-        prevPosts.filter((post) => post.post_id !== postId),
-      );
-
       // 선택된 게시물이 삭제된 경우 모달 닫기
       if (selectedPostId === postId) {
         setSelectedPostId(null);
@@ -275,406 +184,427 @@ export function PostFeed({
     [selectedPostId],
   );
 
-  // 댓글 작성 핸들러
-  const handleComment = useCallback(async (postId: string, content: string) => {
-    try {
-      // Optimistic UI update
-      setPosts((prevPosts) =>
-        prevPosts.map((p) =>
-          p.post_id === postId
-            ? { ...p, comments_count: p.comments_count + 1 }
-            : p,
-        ),
-      );
-
-      let response: Response | null = null;
-      try {
-        response = await fetch("/api/comments", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ post_id: postId, content }),
-        });
-      } catch (fetchErr) {
-        // 네트워크 에러 처리
-        const errorInfo = await handleFetchError(null, fetchErr);
-        logError(errorInfo, "PostFeed.handleComment");
-
-        // Rollback UI
-        setPosts((prevPosts) =>
-          prevPosts.map((p) =>
-            p.post_id === postId
-              ? { ...p, comments_count: Math.max(0, p.comments_count - 1) }
-              : p,
-          ),
-        );
-
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      if (!response.ok) {
-        const errorInfo = await handleFetchError(response, null);
-        logError(errorInfo, "PostFeed.handleComment");
-
-        // Rollback UI
-        setPosts((prevPosts) =>
-          prevPosts.map((p) =>
-            p.post_id === postId
-              ? { ...p, comments_count: Math.max(0, p.comments_count - 1) }
-              : p,
-          ),
-        );
-
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      const newComment = await response.json();
-
-      // 실제 댓글 목록 업데이트 (최신 댓글로 교체)
-      setPosts((prevPosts) =>
-        prevPosts.map((p) => {
-          if (p.post_id === postId) {
-            const updatedComments = [newComment, ...p.recentComments].slice(
-              0,
-              2,
-            );
-            return {
-              ...p,
-              recentComments: updatedComments,
-            };
-          }
-          return p;
-        }),
-      );
-    } catch (error) {
-      // 예상치 못한 에러 처리
-      const errorInfo = await handleFetchError(null, error);
-      logError(errorInfo, "PostFeed.handleComment");
-
-      // Rollback UI
-      setPosts((prevPosts) =>
-        prevPosts.map((p) =>
-          p.post_id === postId
-            ? { ...p, comments_count: Math.max(0, p.comments_count - 1) }
-            : p,
-        ),
-      );
-
-      showToast(errorInfo.message, "error");
-    }
-  }, [showToast]);
-
-  // 댓글 삭제 핸들러
-  const handleCommentDelete = useCallback(async (commentId: string) => {
-    try {
-      // Optimistic UI update
-      setPosts((prevPosts) =>
-        prevPosts.map((p) => {
-          if (p.recentComments.some((c) => c.id === commentId)) {
-            return {
-              ...p,
-              comments_count: Math.max(0, p.comments_count - 1),
-              recentComments: p.recentComments.filter(
-                (c) => c.id !== commentId,
-              ),
-            };
-          }
-          return p;
-        }),
+  // 게시물 상세 보기 핸들러
+  const handleShowDetail = useCallback(
+    (postId: string) => {
+      const postIndex = visiblePosts.findIndex(
+        (post) => post.post_id === postId,
       );
-
-      let response: Response | null = null;
-      try {
-        response = await fetch("/api/comments", {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ comment_id: commentId }),
-        });
-      } catch (fetchErr) {
-        // 네트워크 에러 처리
-        const errorInfo = await handleFetchError(null, fetchErr);
-        logError(errorInfo, "PostFeed.handleCommentDelete");
-
-        // Rollback UI
-        setPosts((prevPosts) =>
-          prevPosts.map((p) => {
-            if (p.recentComments.length < 2) {
-              return {
-                ...p,
-                comments_count: p.comments_count + 1,
-              };
-            }
-            return p;
-          }),
-        );
-
-        showToast(errorInfo.message, "error");
-        return;
-      }
-
-      if (!response.ok) {
-        const errorInfo = await handleFetchError(response, null);
-        logError(errorInfo, "PostFeed.handleCommentDelete");
-
-        // Rollback UI
-        setPosts((prevPosts) =>
-          prevPosts.map((p) => {
-            if (p.recentComments.length < 2) {
-              return {
-                ...p,
-                comments_count: p.comments_count + 1,
-              };
-            }
-            return p;
-          }),
-        );
-
-        showToast(errorInfo.message, "error");
-        return;
+      if (postIndex !== -1) {
+        setSelectedPostId(postId);
+        setSelectedPostIndex(postIndex);
+        setIsEditingSelected(false);
       }
-    } catch (error) {
-      // 예상치 못한 에러 처리
-      const errorInfo = await handleFetchError(null, error);
-      logError(errorInfo, "PostFeed.handleCommentDelete");
-
-      showToast(errorInfo.message, "error");
-
-      // Rollback UI (댓글 수 증가 및 목록 복원 시도)
-      setPosts((prevPosts) =>
-        prevPosts.map((p) => {
-          if (p.recentComments.length < 2) {
-            // 최근 댓글 목록이 2개 미만이었을 때만 복원 시도
-            return {
-              ...p,
-              comments_count: p.comments_count + 1,
-              // 실제로는 삭제된 댓글을 다시 추가하기 어려우므로 카운트만 복원
-            };
-          }
-          return p;
-        }),
-      );
-    }
-  }, []);
-
-  // 모달 내 댓글 변경 핸들러 (PostFeed 상태 동기화용)
-  const handleCommentChange = useCallback(
-    (postId: string, commentsCount: number, newComment?: any) => {
-      setPosts((prevPosts) =>
-        prevPosts.map((p) =>
-          p.post_id === postId
-            ? {
-                ...p,
-                comments_count: commentsCount,
-                recentComments: newComment
-                  ? [newComment, ...p.recentComments].slice(0, 2)
-                  : p.recentComments,
-              }
-            : p,
-        ),
-      );
     },
-    [],
+    [visiblePosts],
   );
 
-  // 모달 내 댓글 삭제 핸들러 (PostFeed 상태 동기화용)
-  const handleCommentDeleteSync = useCallback(
-    (postId: string, commentId: string, commentsCount: number) => {
-      setPosts((prevPosts) =>
-        prevPosts.map((p) =>
-          p.post_id === postId
-            ? {
-                ...p,
-                comments_count: commentsCount,
-                recentComments: p.recentComments.filter(
-                  (c) => c.id !== commentId,
-                ),
-              }
-            : p,
-        ),
-      );
-    },
-    [],
-  );
-
-  // 게시물 상세 보기 핸들러
-  const handleShowDetail = useCallback(
+  // 게시물 수정 핸들러 (상세 모달을 수정 모드로 열기)
+  const handleEdit = useCallback(
     (postId: string) => {
-      const postIndex = posts.findIndex((post) => post.post_id === postId);
+      const postIndex = visiblePosts.findIndex(
+        (post) => post.post_id === postId,
+      );
       if (postIndex !== -1) {
         setSelectedPostId(postId);
         setSelectedPostIndex(postIndex);
+        setIsEditingSelected(true);
       }
     },
-    [posts],
+    [visiblePosts],
   );
 
   // 모달 닫기 핸들러
   const handleCloseModal = useCallback(() => {
     setSelectedPostId(null);
     setSelectedPostIndex(-1);
+    setIsEditingSelected(false);
   }, []);
 
   // 이전 게시물로 이동
   const handlePreviousPost = useCallback(() => {
     if (selectedPostIndex > 0) {
       const prevIndex = selectedPostIndex - 1;
-      const prevPost = posts[prevIndex];
+      const prevPost = visiblePosts[prevIndex];
       setSelectedPostId(prevPost.post_id);
       setSelectedPostIndex(prevIndex);
+      setIsEditingSelected(false);
     }
-  }, [selectedPostIndex, posts]);
+  }, [selectedPostIndex, visiblePosts]);
 
   // 다음 게시물로 이동
   const handleNextPost = useCallback(() => {
-    if (selectedPostIndex < posts.length - 1) {
+    if (selectedPostIndex < visiblePosts.length - 1) {
       const nextIndex = selectedPostIndex + 1;
-      const nextPost = posts[nextIndex];
+      const nextPost = visiblePosts[nextIndex];
       setSelectedPostId(nextPost.post_id);
       setSelectedPostIndex(nextIndex);
+      setIsEditingSelected(false);
     }
-  }, [selectedPostIndex, posts]);
+  }, [selectedPostIndex, visiblePosts]);
 
   // 재시도 핸들러
   const handleRetry = useCallback(() => {
     setError(null);
     setIsLoading(true);
-    fetchPosts(0, false).finally(() => setIsLoading(false));
+    fetchPosts(null, false).finally(() => setIsLoading(false));
   }, [fetchPosts]);
 
+  // 피드 모드 전환 핸들러 (목록 초기화 후 다시 조회)
+  const handleFeedModeChange = useCallback(
+    (mode: FeedMode) => {
+      if (mode === feedModeRef.current) return;
+
+      feedModeRef.current = mode;
+      setFeedMode(mode);
+      setHasNewPosts(false);
+      setPosts([]);
+      setNextCursor(null);
+      setHasMore(true);
+      setError(null);
+      setIsLoading(true);
+      fetchPosts(null, false, mode).finally(() => setIsLoading(false));
+    },
+    [fetchPosts],
+  );
+
+  // 실시간 이벤트 대상 확인용 (현재 피드에 있는 게시물 ID)
+  useEffect(() => {
+    postIdsRef.current = new Set(posts.map((post) => post.post_id));
+  }, [posts]);
+
+  // 실시간 구독 대상 (Supabase Realtime의 in 필터는 값 100개까지 지원)
+  // - 좋아요/댓글: 피드 위쪽 게시물 최대 100개
+  // - 새 게시물: 팔로우 중인(뮤트하지 않은) 사용자 최대 100명 (홈 피드에서만)
+  const [followedUserIds, setFollowedUserIds] = useState<string[]>([]);
+  const watchedPostIds = posts
+    .slice(0, REALTIME_FILTER_LIMIT)
+    .map((post) => post.post_id);
+  const subscriptions: RealtimeSubscription[] = [];
+  if (!userId && followedUserIds.length > 0) {
+    subscriptions.push({
+      table: "posts",
+      event: "INSERT",
+      filter: `user_id=in.(${followedUserIds.join(",")})`,
+    });
+  }
+  if (watchedPostIds.length > 0) {
+    const filter = `post_id=in.(${watchedPostIds.join(",")})`;
+    subscriptions.push(
+      { table: "likes", event: "INSERT", filter },
+      { table: "comments", event: "INSERT", filter },
+    );
+  }
+
+  // 실시간 업데이트 구독 (로그인 상태에서만)
+  // - 홈 피드: 팔로우한 사용자의 posts INSERT → "새 게시물" 버튼 표시 (추천 모드에서만)
+  // - 피드에 있는 게시물의 likes/comments INSERT → 좋아요 수, 댓글 수 갱신
+  //   (취소/삭제는 필터링할 수 없어 구독하지 않고, 다음 갱신 때 실제 값으로 반영)
+  const supabase = useRealtime<Post | Like | Comment>(
+    userId ? `feed:${userId}` : "feed",
+    subscriptions,
+    (payload) => {
+      if (payload.table === "posts") {
+        if (feedModeRef.current === "all") {
+          setHasNewPosts(true);
+        }
+        return;
+      }
+
+      const record = payload.new as Like | Comment | null;
+      if (!record?.post_id || !postIdsRef.current.has(record.post_id)) return;
+
+      // 짧은 시간에 몰린 이벤트는 모아서 한 번에 조회
+      pendingStatsRef.current.add(record.post_id);
+      if (!statsTimerRef.current) {
+        statsTimerRef.current = setTimeout(() => refreshPostStats(), 500);
+      }
+    },
+    !!currentUserId && subscriptions.length > 0,
+  );
+
+  // 새 게시물 구독 대상 조회 (홈 피드): 승인된 팔로우 - 뮤트한 사용자
+  useEffect(() => {
+    if (userId || !currentUserId) return;
+
+    let cancelled = false;
+    const loadFollowedUserIds = async () => {
+      const { data: viewer, error: viewerError } = await supabase
+        .from("users")
+        .select("id")
+        .eq("clerk_id", currentUserId)
+        .maybeSingle();
+
+      if (viewerError || !viewer) {
+        console.error("Error loading viewer for realtime:", viewerError);
+        return;
+      }
+
+      const [followsResult, mutesResult] = await Promise.all([
+        supabase
+          .from("follows")
+          .select("following_id")
+          .eq("follower_id", viewer.id)
+          .eq("status", "accepted")
+          .order("created_at", { ascending: false })
+          .limit(REALTIME_FILTER_LIMIT * 2),
+        supabase.from("mutes").select("muted_id").eq("muter_id", viewer.id),
+      ]);
+
+      if (followsResult.error || mutesResult.error) {
+        console.error(
+          "Error loading followed users for realtime:",
+          followsResult.error ?? mutesResult.error,
+        );
+        return;
+      }
+
+      const mutedIds = new Set(
+        (mutesResult.data || []).map((mute) => mute.muted_id),
+      );
+      if (!cancelled) {
+        setFollowedUserIds(
+          (followsResult.data || [])
+            .map((follow) => follow.following_id)
+            .filter((id) => !mutedIds.has(id))
+            .slice(0, REALTIME_FILTER_LIMIT),
+        );
+      }
+    };
+
+    loadFollowedUserIds();
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, userId, currentUserId]);
+
+  // 좋아요 수, 댓글 수 다시 조회 (post_stats 뷰 기준)
+  // 내 좋아요/댓글 이벤트도 증감 대신 실제 값으로 덮어써서 중복 반영되지 않음
+  const refreshPostStats = useCallback(async () => {
+    statsTimerRef.current = null;
+    const postIds = Array.from(pendingStatsRef.current);
+    pendingStatsRef.current.clear();
+    if (postIds.length === 0) return;
+
+    const { data, error: statsError } = await supabase
+      .from("post_stats")
+      .select("post_id, likes_count, comments_count")
+      .in("post_id", postIds);
+
+    if (statsError || !data) {
+      console.error("Error refreshing post stats:", statsError);
+      return;
+    }
+
+    data.forEach((stats) =>
+      updatePost(stats.post_id, {
+        likes_count: stats.likes_count,
+        comments_count: stats.comments_count,
+      }),
+    );
+  }, [supabase]);
+
+  useEffect(() => {
+    return () => {
+      if (statsTimerRef.current) {
+        clearTimeout(statsTimerRef.current);
+      }
+    };
+  }, []);
+
+  // "새 게시물" 버튼 클릭 → 맨 위로 스크롤 후 최신 목록 다시 조회
+  const handleShowNewPosts = useCallback(() => {
+    setHasNewPosts(false);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    fetchPosts(null, false, "all");
+  }, [fetchPosts]);
+
+  // 피드 모드 토글 (홈 피드 + 로그인 상태에서만 표시)
+  const feedToggle =
+    !userId && currentUserId ? (
+      <div className="flex border-b border-border mb-6" role="tablist">
+        {(
+          [
+            { mode: "all", label: "추천" },
+            { mode: "following", label: "팔로잉" },
+          ] as const
+        ).map(({ mode, label }) => (
+          <button
+            key={mode}
+            type="button"
+            role="tab"
+            aria-selected={feedMode === mode}
+            onClick={() => handleFeedModeChange(mode)}
+            className={cn(
+              "flex-1 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors",
+              feedMode === mode
+                ? "border-black text-black"
+                : "border-transparent text-gray-500 hover:text-black",
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    ) : null;
+
   // 로딩 상태
   if (isLoading) {
-    return <PostCardSkeleton />;
+    return (
+      <>
+        {feedToggle}
+        <PostCardSkeleton />
+      </>
+    );
   }
 
   // 에러 상태
   if (error) {
     return (
-      <div className="flex flex-col items-center justify-center py-12 px-4">
-        <div className="text-center">
-          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
-            <svg
-              className="w-8 h-8 text-red-500"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+      <>
+        {feedToggle}
+        <div className="flex flex-col items-center justify-center py-12 px-4">
+          <div className="text-center">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
+              <svg
+                className="w-8 h-8 text-red-500"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"
+                />
+              </svg>
+            </div>
+            <p className="text-gray-900 font-medium mb-2">
+              게시물을 불러올 수 없습니다
+            </p>
+            <p className="text-gray-500 mb-4 text-sm">
+              잠시 후 다시 시도해주세요
+            </p>
+            <p className="text-sm text-gray-400 mb-6 max-w-sm">{error}</p>
+            <button
+              onClick={handleRetry}
+              className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"
-              />
-            </svg>
+              다시 시도
+            </button>
           </div>
-          <p className="text-gray-900 font-medium mb-2">
-            게시물을 불러올 수 없습니다
-          </p>
-          <p className="text-gray-500 mb-4 text-sm">
-            잠시 후 다시 시도해주세요
-          </p>
-          <p className="text-sm text-gray-400 mb-6 max-w-sm">{error}</p>
-          <button
-            onClick={handleRetry}
-            className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-          >
-            다시 시도
-          </button>
         </div>
-      </div>
+      </>
     );
   }
 
   // 빈 상태
-  if (posts.length === 0 && !hasMore) {
+  if (visiblePosts.length === 0 && !hasMore) {
     return (
-      <div className="flex flex-col items-center justify-center py-12 px-4">
-        <div className="text-center">
-          <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4">
-            <svg
-              className="w-12 h-12 text-gray-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={1}
-                d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-              />
-            </svg>
+      <>
+        {feedToggle}
+        <div className="flex flex-col items-center justify-center py-12 px-4">
+          <div className="text-center">
+            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4">
+              <svg
+                className="w-12 h-12 text-gray-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1}
+                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                />
+              </svg>
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              게시물이 없습니다
+            </h3>
+            <p className="text-gray-500">
+              {userId
+                ? "이 사용자의 게시물이 아직 없습니다"
+                : feedMode === "following"
+                  ? "팔로우한 사용자의 게시물이 아직 없습니다"
+                  : "첫 번째 게시물을 작성해보세요"}
+            </p>
           </div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">
-            게시물이 없습니다
-          </h3>
-          <p className="text-gray-500">
-            {userId
-              ? "이 사용자의 게시물이 아직 없습니다"
-              : "첫 번째 게시물을 작성해보세요"}
-          </p>
         </div>
-      </div>
+      </>
     );
   }
 
   return (
-    <div className="space-y-6">
-      {/* 게시물 목록 */}
-      {posts.map((post, index) => (
-        <PostCard
-          key={post.post_id}
-          post={post}
+    <>
+      {feedToggle}
+      {/* 새 게시물 알림 버튼 */}
+      {hasNewPosts && feedMode === "all" && (
+        <div className="sticky top-4 z-10 flex justify-center h-0">
+          <button
+            type="button"
+            onClick={handleShowNewPosts}
+            className="flex items-center gap-1 px-4 py-2 bg-blue-500 text-white text-sm font-semibold rounded-full shadow-lg hover:bg-blue-600 transition-colors"
+          >
+            <ArrowUp className="w-4 h-4" />새 게시물
+          </button>
+        </div>
+      )}
+      <div className="space-y-6">
+        {/* 게시물 목록 */}
+        {visiblePosts.map((post, index) => (
+          <PostCard
+            key={post.post_id}
+            post={post}
+            currentUserId={currentUserId}
+            onShowDetail={handleShowDetail}
+            onDelete={handleDelete}
+            onEdit={handleEdit}
+            index={index}
+          />
+        ))}
+
+        {/* 무한 스크롤 감지 요소 */}
+        {hasMore && (
+          <div ref={sentinelRef} className="flex justify-center py-8">
+            {isLoadingMore ? (
+              <div className="flex items-center space-x-2 text-gray-500">
+                <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
+                <span className="text-sm">게시물을 불러오는 중...</span>
+              </div>
+            ) : (
+              <div className="w-full max-w-xs">
+                <PostCardSkeleton />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 더 이상 게시물이 없을 때 */}
+        {!hasMore && visiblePosts.length > 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500 text-sm">
+              더 이상 표시할 게시물이 없습니다
+            </p>
+          </div>
+        )}
+
+        {/* 게시물 상세 모달 */}
+        <PostModal
+          postId={selectedPostId || ""}
+          isOpen={selectedPostId !== null}
+          onClose={handleCloseModal}
+          onPrevious={handlePreviousPost}
+          onNext={handleNextPost}
+          hasPrevious={selectedPostIndex > 0}
+          hasNext={selectedPostIndex < visiblePosts.length - 1}
           currentUserId={currentUserId}
-          onLike={handleLike}
-          onUnlike={handleUnlike}
-          onComment={handleComment}
-          onCommentDelete={handleCommentDelete}
-          onShowDetail={handleShowDetail}
           onDelete={handleDelete}
-          index={index}
+          initialIsEditing={isEditingSelected}
         />
-      ))}
-
-      {/* 무한 스크롤 감지 요소 */}
-      {hasMore && (
-        <div ref={sentinelRef} className="flex justify-center py-8">
-          {isLoadingMore ? (
-            <div className="flex items-center space-x-2 text-gray-500">
-              <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
-              <span className="text-sm">게시물을 불러오는 중...</span>
-            </div>
-          ) : (
-            <div className="w-full max-w-xs">
-              <PostCardSkeleton />
-            </div>
-          )}
-        </div>
-      )}
-
-      {/* 더 이상 게시물이 없을 때 */}
-      {!hasMore && posts.length > 0 && (
-        <div className="text-center py-8">
-          <p className="text-gray-500 text-sm">
-            더 이상 표시할 게시물이 없습니다
-          </p>
-        </div>
-      )}
-
-      {/* 게시물 상세 모달 */}
-      <PostModal
-        postId={selectedPostId || ""}
-        isOpen={selectedPostId !== null}
-        onClose={handleCloseModal}
-        onPrevious={handlePreviousPost}
-        onNext={handleNextPost}
-        hasPrevious={selectedPostIndex > 0}
-        hasNext={selectedPostIndex < posts.length - 1}
-        onCommentChange={handleCommentChange}
-        onCommentDelete={handleCommentDeleteSync}
-        currentUserId={currentUserId}
-        onDelete={handleDelete}
-      />
-    </div>
+      </div>
+    </>
   );
 }
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useRef, useEffect, useMemo, memo } from "react";
+import Image from "next/image";
+import { decode } from "blurhash";
+import { PostImageSource } from "@/lib/types";
+import { createVariantLoader } from "@/lib/utils/image";
+
+/**
+ * 게시물 이미지 컴포넌트
+ *
+ * 업로드 시 생성된 너비별 WebP 변환본으로 srcset을 구성하고,
+ * 로딩이 끝날 때까지 blurhash 플레이스홀더를 표시
+ * - 부모 요소를 가득 채움 (부모에 relative + 크기 지정 필요)
+ * - 변환본이 없는 이관 전 이미지는 image_url 하나로 표시 (next/image 기본 최적화)
+ */
+interface PostImageProps {
+  image: PostImageSource;
+  alt: string;
+  sizes: string;
+  className?: string;
+  priority?: boolean;
+  onError?: () => void;
+}
+
+/** blurhash 디코딩 크기 (CSS로 부모 크기에 맞게 늘림) */
+const PLACEHOLDER_WIDTH = 32;
+
+function PostImageComponent({
+  image,
+  alt,
+  sizes,
+  className,
+  priority = false,
+  onError,
+}: PostImageProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const loader = useMemo(
+    () =>
+      image.variants.length > 0
+        ? createVariantLoader(image.variants)
+        : undefined,
+    [image.variants],
+  );
+
+  return (
+    <>
+      {image.blurhash && !isLoaded && (
+        <BlurhashPlaceholder
+          hash={image.blurhash}
+          width={image.width}
+          height={image.height}
+        />
+      )}
+      <Image
+        src={image.url}
+        loader={loader}
+        alt={alt}
+        fill
+        className={className}
+        sizes={sizes}
+        priority={priority}
+        loading={priority ? undefined : "lazy"}
+        placeholder="empty"
+        onLoad={() => setIsLoaded(true)}
+        onError={onError}
+      />
+    </>
+  );
+}
+
+export const PostImage = memo(PostImageComponent);
+
+/**
+ * blurhash를 작은 캔버스에 그려 부모 크기로 늘려 표시
+ */
+function BlurhashPlaceholder({
+  hash,
+  width,
+  height,
+}: {
+  hash: string;
+  width: number | null;
+  height: number | null;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // 원본 비율을 유지한 디코딩 크기
+  const canvasWidth = PLACEHOLDER_WIDTH;
+  const canvasHeight =
+    width && height
+      ? Math.max(1, Math.round((PLACEHOLDER_WIDTH * height) / width))
+      : PLACEHOLDER_WIDTH;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    try {
+      const pixels = decode(hash, canvasWidth, canvasHeight);
+      const imageData = context.createImageData(canvasWidth, canvasHeight);
+      imageData.data.set(pixels);
+      context.putImageData(imageData, 0, 0);
+    } catch (error) {
+      // 잘못된 blurhash는 플레이스홀더 없이 표시
+      console.warn("Invalid blurhash:", error);
+    }
+  }, [hash, canvasWidth, canvasHeight]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={canvasWidth}
+      height={canvasHeight}
+      className="absolute inset-0 w-full h-full"
+      aria-hidden="true"
+    />
+  );
+}
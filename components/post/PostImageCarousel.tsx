@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useRef, useCallback, memo } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { PostImageSource } from "@/lib/types";
+import { PostImage } from "./PostImage";
+import { cn } from "@/lib/utils";
+
+/**
+ * 게시물 이미지 캐러셀 컴포넌트
+ *
+ * 다중 이미지 게시물 표시 (최대 10장)
+ * - 부모 요소를 가득 채움 (부모에 relative + 크기 지정 필요)
+ * - 좌우 화살표 버튼 (첫/마지막 이미지에서는 숨김)
+ * - 모바일 스와이프 지원 (50px 이상 이동 시 전환)
+ * - 하단 인디케이터 점 + 우측 상단 "n/전체" 표시
+ * - 이미지가 1장이면 단일 이미지로 표시
+ * - 너비별 변환본 srcset + blurhash 플레이스홀더 (PostImage)
+ */
+interface PostImageCarouselProps {
+  images: PostImageSource[]; // getPostImages(post)
+  alt: string;
+  sizes: string;
+  objectFit?: "cover" | "contain"; // 기본값: 'cover'
+  priority?: boolean; // 첫 번째 이미지 우선 로딩 여부
+  className?: string;
+}
+
+const SWIPE_THRESHOLD = 50;
+
+function PostImageCarouselComponent({
+  images,
+  alt,
+  sizes,
+  objectFit = "cover",
+  priority = false,
+  className,
+}: PostImageCarouselProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [imageErrors, setImageErrors] = useState<Set<number>>(new Set());
+  const touchStartXRef = useRef<number | null>(null);
+
+  const total = images.length;
+  const hasMultiple = total > 1;
+
+  // 이전 이미지로 이동
+  const goToPrevious = useCallback(() => {
+    setCurrentIndex((prev) => Math.max(0, prev - 1));
+  }, []);
+
+  // 다음 이미지로 이동
+  const goToNext = useCallback(() => {
+    setCurrentIndex((prev) => Math.min(total - 1, prev + 1));
+  }, [total]);
+
+  // 스와이프 시작 위치 기록
+  const handleTouchStart = useCallback((e: React.TouchEvent) => {
+    touchStartXRef.current = e.touches[0].clientX;
+  }, []);
+
+  // 스와이프 방향에 따라 이미지 전환
+  const handleTouchEnd = useCallback(
+    (e: React.TouchEvent) => {
+      if (touchStartXRef.current === null) return;
+
+      const deltaX = e.changedTouches[0].clientX - touchStartXRef.current;
+      touchStartXRef.current = null;
+
+      if (deltaX > SWIPE_THRESHOLD) {
+        goToPrevious();
+      } else if (deltaX < -SWIPE_THRESHOLD) {
+        goToNext();
+      }
+    },
+    [goToPrevious, goToNext],
+  );
+
+  return (
+    <div
+      className={cn("absolute inset-0 overflow-hidden", className)}
+      onTouchStart={hasMultiple ? handleTouchStart : undefined}
+      onTouchEnd={hasMultiple ? handleTouchEnd : undefined}
+      aria-roledescription={hasMultiple ? "캐러셀" : undefined}
+    >
+      {/* 이미지 트랙 */}
+      <div
+        className="flex h-full transition-transform duration-300 ease-out"
+        style={{ transform: `translateX(-${currentIndex * 100}%)` }}
+      >
+        {images.map((image, index) => (
+          <div
+            key={`${image.url}-${index}`}
+            className="relative w-full h-full flex-shrink-0"
+            aria-hidden={index !== currentIndex}
+          >
+            {!imageErrors.has(index) ? (
+              <PostImage
+                image={image}
+                alt={hasMultiple ? `${alt} (${index + 1}/${total})` : alt}
+                className={
+                  objectFit === "cover" ? "object-cover" : "object-contain"
+                }
+                sizes={sizes}
+                priority={priority && index === 0}
+                onError={() =>
+                  setImageErrors((prev) => new Set(prev).add(index))
+                }
+              />
+            ) : (
+              <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+                <span className="text-gray-400 text-sm">
+                  이미지를 불러올 수 없습니다
+                </span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {hasMultiple && (
+        <>
+          {/* 현재 위치 표시 */}
+          <div className="absolute top-3 right-3 px-2 py-0.5 rounded-full bg-black bg-opacity-60 text-white text-xs font-medium pointer-events-none">
+            {currentIndex + 1}/{total}
+          </div>
+
+          {/* 좌우 화살표 */}
+          {currentIndex > 0 && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                goToPrevious();
+              }}
+              aria-label="이전 이미지"
+              className="absolute left-2 top-1/2 -translate-y-1/2 w-7 h-7 bg-white bg-opacity-80 rounded-full flex items-center justify-center shadow hover:bg-opacity-100 transition-opacity focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <ChevronLeft className="w-4 h-4 text-black" />
+            </button>
+          )}
+          {currentIndex < total - 1 && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                goToNext();
+              }}
+              aria-label="다음 이미지"
+              className="absolute right-2 top-1/2 -translate-y-1/2 w-7 h-7 bg-white bg-opacity-80 rounded-full flex items-center justify-center shadow hover:bg-opacity-100 transition-opacity focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <ChevronRight className="w-4 h-4 text-black" />
+            </button>
+          )}
+
+          {/* 인디케이터 점 */}
+          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-1 pointer-events-none">
+            {images.map((_, index) => (
+              <span
+                key={index}
+                className={cn(
+                  "w-1.5 h-1.5 rounded-full transition-colors",
+                  index === currentIndex ? "bg-blue-500" : "bg-white/60",
+                )}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export const PostImageCarousel = memo(PostImageCarouselComponent);
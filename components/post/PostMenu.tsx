@@ -1,7 +1,15 @@
 "use client";
 
 import { useState } from "react";
-import { MoreHorizontal, Trash2 } from "lucide-react";
+import {
+  Ban,
+  Flag,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  UserX,
+  VolumeX,
+} from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,31 +26,107 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/toast";
+import { useApiClient } from "@/hooks/use-api-client";
+import { ReportDialog } from "@/components/report/ReportDialog";
+import { removePost, removePostsByUser } from "@/lib/post-cache";
+import { ReportTargetType } from "@/lib/types";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
 
 /**
  * 게시물 메뉴 컴포넌트
  *
  * Instagram-like 게시물 메뉴
- * - 본인 게시물인 경우에만 삭제 옵션 표시
- * - 삭제 확인 다이얼로그
+ * - 본인 게시물: 수정/삭제 옵션 표시
+ * - 수정은 onEdit이 전달된 경우에만 표시 (캡션 인라인 편집은 부모가 담당)
+ * - 타인 게시물: 게시물/계정 신고, 작성자 뮤트/차단 옵션 표시 (authorId가 전달된 경우, 로그인 사용자만)
+ * - 삭제/차단 확인 다이얼로그
  * - API 호출 및 상태 관리
  */
 
 interface PostMenuProps {
   postId: string;
   isOwner: boolean;
+  authorId?: string; // 게시물 작성자의 Supabase UUID (뮤트/차단용)
+  authorUsername?: string;
   onDelete?: (postId: string) => void;
+  onEdit?: (postId: string) => void;
+  onAuthorRestricted?: (userId: string) => void; // 작성자를 뮤트/차단한 경우
 }
 
-export function PostMenu({ postId, isOwner, onDelete }: PostMenuProps) {
+export function PostMenu({
+  postId,
+  isOwner,
+  authorId,
+  authorUsername,
+  onDelete,
+  onEdit,
+  onAuthorRestricted,
+}: PostMenuProps) {
+  const { showToast } = useToast();
+  const api = useApiClient();
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isBlockDialogOpen, setIsBlockDialogOpen] = useState(false);
+  const [isRestricting, setIsRestricting] = useState(false);
+  const [reportTarget, setReportTarget] = useState<{
+    type: ReportTargetType;
+    id: string;
+  } | null>(null);
 
-  // 본인이 아닌 경우 메뉴를 표시하지 않음
-  if (!isOwner) {
+  // 본인 게시물이 아니고 작성자 정보도 없는 경우 메뉴를 표시하지 않음
+  if (!isOwner && !authorId) {
     return null;
   }
 
+  // 작성자 뮤트/차단 (/api/mutes, /api/blocks POST)
+  const handleRestrict = async (type: "mute" | "block") => {
+    if (!authorId || isRestricting) return;
+
+    setIsRestricting(true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch(type === "mute" ? "/api/mutes" : "/api/blocks", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ user_id: authorId }),
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "PostMenu.handleRestrict");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "PostMenu.handleRestrict");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      setIsBlockDialogOpen(false);
+      showToast(
+        type === "mute"
+          ? `${authorUsername ?? "사용자"}님을 뮤트했습니다.`
+          : `${authorUsername ?? "사용자"}님을 차단했습니다.`,
+        "success",
+      );
+      removePostsByUser(authorId);
+      onAuthorRestricted?.(authorId);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "PostMenu.handleRestrict");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsRestricting(false);
+    }
+  };
+
   const handleDeleteClick = () => {
     setIsDeleteDialogOpen(true);
   };
@@ -53,22 +137,21 @@ export function PostMenu({ postId, isOwner, onDelete }: PostMenuProps) {
     setIsDeleting(true);
 
     try {
-      const response = await fetch(`/api/posts/${postId}`, {
-        method: 'DELETE',
+      const { error } = await api.posts.remove(postId, {
+        context: "PostMenu.handleDeleteConfirm",
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || '게시물 삭제에 실패했습니다.');
+      if (error) {
+        if (error.type !== "ABORTED") {
+          showToast(error.message, "error");
+        }
+        return;
       }
 
-      // 삭제 성공
+      // 삭제 성공 (캐시에서 제외해 모든 목록에서 사라지게 함)
       setIsDeleteDialogOpen(false);
+      removePost(postId);
       onDelete?.(postId);
-
-    } catch (error) {
-      console.error('Post deletion error:', error);
-      // 에러는 부모 컴포넌트에서 Toast로 표시됨
     } finally {
       setIsDeleting(false);
     }
@@ -90,17 +173,105 @@ export function PostMenu({ postId, isOwner, onDelete }: PostMenuProps) {
           </button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end" className="w-48">
-          <DropdownMenuItem
-            onClick={handleDeleteClick}
-            className="text-red-600 hover:text-red-700 hover:bg-red-50 focus:text-red-700 focus:bg-red-50"
-            aria-label="게시물 삭제"
-          >
-            <Trash2 className="w-4 h-4 mr-2" aria-hidden="true" />
-            삭제
-          </DropdownMenuItem>
+          {isOwner ? (
+            <>
+              {onEdit && (
+                <DropdownMenuItem
+                  onClick={() => onEdit(postId)}
+                  aria-label="게시물 수정"
+                >
+                  <Pencil className="w-4 h-4 mr-2" aria-hidden="true" />
+                  수정
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onClick={handleDeleteClick}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50 focus:text-red-700 focus:bg-red-50"
+                aria-label="게시물 삭제"
+              >
+                <Trash2 className="w-4 h-4 mr-2" aria-hidden="true" />
+                삭제
+              </DropdownMenuItem>
+            </>
+          ) : (
+            <>
+              <DropdownMenuItem
+                onClick={() => setReportTarget({ type: "post", id: postId })}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50 focus:text-red-700 focus:bg-red-50"
+                aria-label="게시물 신고"
+              >
+                <Flag className="w-4 h-4 mr-2" aria-hidden="true" />
+                신고
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setReportTarget({ type: "user", id: authorId })}
+                aria-label="계정 신고"
+              >
+                <UserX className="w-4 h-4 mr-2" aria-hidden="true" />
+                계정 신고
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => handleRestrict("mute")}
+                disabled={isRestricting}
+                aria-label="작성자 뮤트"
+              >
+                <VolumeX className="w-4 h-4 mr-2" aria-hidden="true" />
+                뮤트
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setIsBlockDialogOpen(true)}
+                disabled={isRestricting}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50 focus:text-red-700 focus:bg-red-50"
+                aria-label="작성자 차단"
+              >
+                <Ban className="w-4 h-4 mr-2" aria-hidden="true" />
+                차단
+              </DropdownMenuItem>
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
 
+      {/* 신고 다이얼로그 */}
+      {reportTarget && (
+        <ReportDialog
+          targetType={reportTarget.type}
+          targetId={reportTarget.id}
+          open={reportTarget !== null}
+          onOpenChange={(open) => !open && setReportTarget(null)}
+        />
+      )}
+
+      {/* 차단 확인 다이얼로그 */}
+      <AlertDialog open={isBlockDialogOpen} onOpenChange={setIsBlockDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {authorUsername ? `${authorUsername}님을 차단하시겠습니까?` : "사용자 차단"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              차단한 사용자는 회원님의 게시물을 보거나 팔로우, 댓글을 남길 수
+              없으며 서로의 팔로우가 해제됩니다. 상대에게 차단 사실은 알려지지
+              않습니다.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestricting}>취소</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                // 요청이 끝난 뒤 다이얼로그를 닫기 위해 기본 닫힘 동작 방지
+                event.preventDefault();
+                handleRestrict("block");
+              }}
+              disabled={isRestricting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {isRestricting ? "차단 중..." : "차단"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* 삭제 확인 다이얼로그 */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
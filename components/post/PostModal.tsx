@@ -1,9 +1,8 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useUser } from "@clerk/nextjs";
 import Link from "next/link";
-import Image from "next/image";
 import {
   X,
   ChevronLeft,
@@ -11,7 +10,6 @@ import {
   Heart,
   MessageCircle,
   Send,
-  Bookmark,
   MoreHorizontal,
 } from "lucide-react";
 import {
@@ -21,10 +19,33 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { LikeButton } from "./LikeButton";
+import { SaveButton } from "./SaveButton";
 import { CommentList } from "@/components/comment/CommentList";
 import { CommentForm } from "@/components/comment/CommentForm";
 import { PostMenu } from "./PostMenu";
-import { PostWithUser, CommentWithUser } from "@/lib/types";
+import { PostImageCarousel } from "./PostImageCarousel";
+import { CaptionText } from "./CaptionText";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/toast";
+import { useApiClient } from "@/hooks/use-api-client";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useCachedPost, usePostComments } from "@/hooks/use-post-cache";
+import {
+  createComment,
+  deleteComment,
+  setPostComments,
+  updatePost,
+  updatePostCaption,
+  upsertPosts,
+} from "@/lib/post-cache";
+import { CommentWithUser, Like, Comment } from "@/lib/types";
+import { getProfilePath } from "@/lib/utils/profile";
+import {
+  MAX_CAPTION_LENGTH,
+  getPostImages,
+  isPostEdited,
+} from "@/lib/utils/post";
 
 /**
  * 게시물 상세 모달 컴포넌트
@@ -34,7 +55,11 @@ import { PostWithUser, CommentWithUser } from "@/lib/types";
  * - Mobile: 전체 페이지로 전환
  * - 닫기 버튼 (✕)
  * - 이전/다음 네비게이션 (Desktop)
+ * - 게시물 이미지 캐러셀 (다중 이미지)
  * - 게시물 정보 표시 + 댓글 기능
+ * - 캡션 인라인 수정 (본인 게시물만)
+ * - 다른 사용자의 좋아요/댓글 실시간 반영 (Supabase Realtime)
+ * - 게시물/댓글은 캐시(lib/post-cache.ts)에서 읽고 변경 (열어 둔 다른 화면에도 바로 반영)
  */
 interface PostModalProps {
   postId: string;
@@ -44,18 +69,10 @@ interface PostModalProps {
   onNext?: () => void;
   hasPrevious?: boolean;
   hasNext?: boolean;
-  onCommentChange?: (
-    postId: string,
-    commentsCount: number,
-    newComment?: any,
-  ) => void;
-  onCommentDelete?: (
-    postId: string,
-    commentId: string,
-    commentsCount: number,
-  ) => void;
   currentUserId?: string;
   onDelete?: (postId: string) => void;
+  onAuthorRestricted?: (userId: string) => void; // 작성자 뮤트/차단 시
+  initialIsEditing?: boolean; // 모달을 캡션 수정 모드로 열기
 }
 
 export function PostModal({
@@ -66,18 +83,28 @@ export function PostModal({
   onNext,
   hasPrevious = false,
   hasNext = false,
-  onCommentChange,
-  onCommentDelete,
   currentUserId,
   onDelete,
+  onAuthorRestricted,
+  initialIsEditing = false,
 }: PostModalProps) {
   const { user: currentUser } = useUser();
-  const [post, setPost] = useState<PostWithUser | null>(null);
-  const [comments, setComments] = useState<CommentWithUser[]>([]);
+  const { showToast } = useToast();
+  const api = useApiClient();
+  // 게시물/댓글은 캐시에서 읽음 (피드 등 다른 화면과 좋아요/댓글/캡션 공유)
+  const post = useCachedPost(isOpen ? postId : null);
+  const comments = usePostComments(isOpen ? postId : null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showFullCaption, setShowFullCaption] = useState(false);
-  const [imageError, setImageError] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editCaption, setEditCaption] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [replyTo, setReplyTo] = useState<{
+    commentId: string;
+    name: string;
+    username: string;
+  } | null>(null);
 
   // 게시물 데이터 로딩
   const loadPostDetail = useCallback(async () => {
@@ -87,24 +114,23 @@ export function PostModal({
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/posts/${postId}`);
-      if (!response.ok) {
-        throw new Error("게시물을 불러올 수 없습니다.");
+      const { data, error: apiError } = await api.posts.get(postId, {
+        context: "PostModal.loadPostDetail",
+      });
+
+      if (apiError) {
+        if (apiError.type !== "ABORTED") {
+          setError(apiError.message);
+        }
+        return;
       }
 
-      const data = await response.json();
-      setPost(data.post);
-      setComments(data.comments);
-      setImageError(false); // 새 게시물 로드 시 이미지 에러 초기화
-    } catch (err) {
-      console.error("Post detail load error:", err);
-      setError(
-        err instanceof Error ? err.message : "게시물을 불러올 수 없습니다.",
-      );
+      upsertPosts([data.post]);
+      setPostComments(postId, data.comments);
     } finally {
       setIsLoading(false);
     }
-  }, [postId]);
+  }, [api, postId]);
 
   // postId 변경 시 데이터 리로드
   useEffect(() => {
@@ -113,124 +139,167 @@ export function PostModal({
     }
   }, [isOpen, postId, loadPostDetail]);
 
+  // 실시간 갱신 (다른 사용자의 좋아요/댓글, 이 게시물의 INSERT만 구독)
+  // 댓글 목록은 차단/뮤트/숨김 필터가 적용된 상세 API로 다시 불러옴
+  // (취소/삭제는 필터링할 수 없어 구독하지 않고, 다음 갱신 때 실제 값으로 반영)
+  const postIdRef = useRef(postId);
+  const liveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    postIdRef.current = postId;
+  }, [postId]);
+
+  const refreshLiveData = useCallback(async () => {
+    liveTimerRef.current = null;
+    const targetPostId = postIdRef.current;
+    if (!targetPostId) return;
+
+    const { data } = await api.posts.get(targetPostId, {
+      context: "PostModal.refreshLiveData",
+    });
+
+    // 실패했거나 응답 도착 전에 다른 게시물로 이동한 경우 무시
+    if (!data || targetPostId !== postIdRef.current) return;
+
+    updatePost(targetPostId, {
+      likes_count: data.post.likes_count,
+      comments_count: data.post.comments_count,
+    });
+    setPostComments(targetPostId, data.comments);
+  }, [api]);
+
+  useRealtime<Like | Comment>(
+    `post:${postId}`,
+    [
+      { table: "likes", event: "INSERT", filter: `post_id=eq.${postId}` },
+      { table: "comments", event: "INSERT", filter: `post_id=eq.${postId}` },
+    ],
+    (payload) => {
+      if (payload.new?.post_id !== postIdRef.current) return;
+
+      // 짧은 시간에 몰린 이벤트는 한 번만 다시 조회
+      if (!liveTimerRef.current) {
+        liveTimerRef.current = setTimeout(() => refreshLiveData(), 500);
+      }
+    },
+    isOpen && !!postId && !!currentUser,
+  );
+
+  useEffect(() => {
+    return () => {
+      if (liveTimerRef.current) {
+        clearTimeout(liveTimerRef.current);
+      }
+    };
+  }, []);
+
   // 모달 닫힐 때 상태 초기화
   useEffect(() => {
     if (!isOpen) {
-      setPost(null);
-      setComments([]);
+      setReplyTo(null);
       setError(null);
       setShowFullCaption(false);
+      setIsEditing(false);
+      setEditCaption("");
     }
   }, [isOpen]);
 
-  // 댓글 작성 핸들러
-  const handleComment = useCallback(
-    async (content: string) => {
-      if (!post) return;
+  // 수정 모드로 열린 경우 게시물 로드 후 편집 시작
+  // 게시물이 바뀔 때만 초기화 (캡션 수정으로 인한 post 변경은 무시)
+  const editInitKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!post || post.post_id !== postId) {
+      editInitKeyRef.current = null;
+      return;
+    }
 
-      try {
-        const response = await fetch("/api/comments", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ post_id: post.post_id, content }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "댓글 작성에 실패했습니다.");
-        }
+    const key = `${post.post_id}:${initialIsEditing}`;
+    if (editInitKeyRef.current === key) return;
+    editInitKeyRef.current = key;
 
-        const newComment = await response.json();
+    setIsEditing(initialIsEditing);
+    setEditCaption(post.caption || "");
+  }, [post, postId, initialIsEditing]);
 
-        // 댓글 목록에 새 댓글 추가
-        setComments((prev) => [newComment, ...prev]);
+  // 작성자 뮤트/차단 시 모달 닫기
+  const handleAuthorRestricted = useCallback(
+    (userId: string) => {
+      onAuthorRestricted?.(userId);
+      onClose();
+    },
+    [onAuthorRestricted, onClose],
+  );
 
-        // 게시물 댓글 수 증가
-        setPost((prev) => {
-          if (!prev) return null;
+  // 캡션 수정 시작
+  const handleEditStart = useCallback(() => {
+    setEditCaption(post?.caption || "");
+    setIsEditing(true);
+  }, [post]);
 
-          const newCommentsCount = prev.comments_count + 1;
+  // 캡션 수정 취소
+  const handleEditCancel = useCallback(() => {
+    setEditCaption(post?.caption || "");
+    setIsEditing(false);
+  }, [post]);
 
-          // PostFeed 상태 동기화
-          if (onCommentChange) {
-            onCommentChange(prev.post_id, newCommentsCount, newComment);
-          }
+  // 캡션 수정 저장
+  const handleEditSave = useCallback(async () => {
+    if (!post || isSaving) return;
 
-          return {
-            ...prev,
-            comments_count: newCommentsCount,
-            recentComments: [newComment, ...prev.recentComments].slice(0, 2),
-          };
-        });
-      } catch (error) {
-        console.error("댓글 작성 오류:", error);
-        throw error; // CommentForm에서 에러 처리
-      }
+    setIsSaving(true);
+
+    try {
+      await updatePostCaption(post.post_id, editCaption);
+      setIsEditing(false);
+      setShowFullCaption(false);
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "캡션 수정에 실패했습니다.",
+        "error",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }, [post, isSaving, editCaption, showToast]);
+
+  // 답글 달기 핸들러 (CommentForm에 @멘션 채우기)
+  const handleReply = useCallback((comment: CommentWithUser) => {
+    setReplyTo({
+      commentId: comment.id,
+      name: comment.name,
+      username: comment.username,
+    });
+  }, []);
+
+  // 답글 취소 핸들러
+  const handleCancelReply = useCallback(() => {
+    setReplyTo(null);
+  }, []);
+
+  // 댓글 작성 핸들러 (답글 모드면 parent_id 포함, 실패 시 CommentForm에서 Toast 표시)
+  const handleComment = useCallback(
+    async (content: string) => {
+      if (!post) return;
+
+      await createComment(post.post_id, content, replyTo?.commentId ?? null);
+      setReplyTo(null);
     },
-    [post],
+    [post, replyTo],
   );
 
-  // 댓글 삭제 핸들러
+  // 댓글 삭제 핸들러 (답글도 CASCADE로 함께 삭제됨)
   const handleCommentDelete = useCallback(
     async (commentId: string) => {
-      if (!post) return;
-
       try {
-        const response = await fetch("/api/comments", {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ comment_id: commentId }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "댓글 삭제에 실패했습니다.");
-        }
-
-        // 댓글 목록에서 제거
-        setComments((prev) => prev.filter((c) => c.id !== commentId));
-
-        // 게시물 댓글 수 감소
-        setPost((prev) => {
-          if (!prev) return null;
-
-          const newCommentsCount = Math.max(0, prev.comments_count - 1);
-
-          // PostFeed 상태 동기화
-          if (onCommentDelete) {
-            onCommentDelete(prev.post_id, commentId, newCommentsCount);
-          }
-
-          return {
-            ...prev,
-            comments_count: newCommentsCount,
-            recentComments: prev.recentComments.filter(
-              (c) => c.id !== commentId,
-            ),
-          };
-        });
+        await deleteComment(commentId);
       } catch (error) {
-        console.error("댓글 삭제 오류:", error);
-        throw error;
+        showToast(
+          error instanceof Error ? error.message : "댓글 삭제에 실패했습니다.",
+          "error",
+        );
       }
     },
-    [post],
-  );
-
-  // 좋아요 변경 핸들러
-  const handleLikeChange = useCallback(
-    (newLikesCount: number, newIsLiked: boolean) => {
-      setPost((prev) =>
-        prev
-          ? {
-              ...prev,
-              likes_count: newLikesCount,
-              isLiked: newIsLiked,
-            }
-          : null,
-      );
-    },
-    [],
+    [showToast],
   );
 
   // 상대 시간 표시 함수
@@ -250,8 +319,8 @@ export function PostModal({
     return postTime.toLocaleDateString("ko-KR");
   };
 
-  // 로딩 상태
-  if (isLoading) {
+  // 로딩 상태 (캐시에 게시물이 있으면 바로 표시하고 댓글만 불러옴)
+  if (isLoading && !post) {
     return (
       <Dialog open={isOpen} onOpenChange={onClose}>
         <DialogContent className="max-w-4xl h-[80vh] p-0">
@@ -345,25 +414,15 @@ export function PostModal({
 
         <div className="flex flex-col h-full max-h-[90vh]">
           {/* 이미지 영역 (항상 상단 전체) */}
-          <div className="flex bg-black items-center justify-center min-h-[300px] max-h-[50vh]">
-            {!imageError ? (
-              <Image
-                src={post.image_url}
-                alt={`게시물 이미지 - ${post.name}`}
-                width={500}
-                height={500}
-                className="max-w-full max-h-full object-contain"
-                priority={true}
-                sizes="(max-width: 768px) 100vw, 50vw"
-                onError={() => setImageError(true)}
-              />
-            ) : (
-              <div className="w-full h-full bg-gray-800 flex items-center justify-center">
-                <span className="text-gray-400 text-sm">
-                  이미지를 불러올 수 없습니다
-                </span>
-              </div>
-            )}
+          <div className="relative bg-black h-[50vh] min-h-[300px]">
+            <PostImageCarousel
+              key={post.post_id}
+              images={getPostImages(post)}
+              alt={`게시물 이미지 - ${post.name}`}
+              sizes="(max-width: 768px) 100vw, 50vw"
+              objectFit="contain"
+              priority={true}
+            />
           </div>
 
           {/* 댓글 영역 (항상 하단 전체, 스크롤 가능) */}
@@ -371,7 +430,7 @@ export function PostModal({
             {/* 게시물 헤더 */}
             <div className="flex items-center justify-between p-4 border-b border-gray-200">
               <Link
-                href={`/profile/${post.clerk_id}`}
+                href={getProfilePath(post.username)}
                 className="flex items-center space-x-3 hover:opacity-80 transition-opacity"
               >
                 <div className="w-8 h-8 rounded-full bg-gray-300 overflow-hidden">
@@ -390,36 +449,30 @@ export function PostModal({
               <PostMenu
                 postId={post.post_id}
                 isOwner={currentUserId === post.clerk_id}
+                authorId={currentUserId ? post.user_id : undefined}
+                authorUsername={post.username}
                 onDelete={onDelete}
+                onEdit={handleEditStart}
+                onAuthorRestricted={handleAuthorRestricted}
               />
             </div>
 
             {/* 모바일용 이미지 (상단에 표시) */}
-            <div className="md:hidden bg-black flex items-center justify-center min-h-[300px]">
-              {!imageError ? (
-                <Image
-                  src={post.image_url}
-                  alt={`${post.name}의 게시물 이미지${
-                    post.caption
-                      ? `: ${post.caption.substring(0, 50)}${
-                          post.caption.length > 50 ? "..." : ""
-                        }`
-                      : ""
-                  }`}
-                  width={400}
-                  height={400}
-                  className="max-w-full max-h-full object-contain"
-                  priority={true}
-                  sizes="100vw"
-                  onError={() => setImageError(true)}
-                />
-              ) : (
-                <div className="w-full h-full bg-gray-800 flex items-center justify-center">
-                  <span className="text-gray-400 text-sm">
-                    이미지를 불러올 수 없습니다
-                  </span>
-                </div>
-              )}
+            <div className="md:hidden relative bg-black h-[300px]">
+              <PostImageCarousel
+                key={post.post_id}
+                images={getPostImages(post)}
+                alt={`${post.name}의 게시물 이미지${
+                  post.caption
+                    ? `: ${post.caption.substring(0, 50)}${
+                        post.caption.length > 50 ? "..." : ""
+                      }`
+                    : ""
+                }`}
+                sizes="100vw"
+                objectFit="contain"
+                priority={true}
+              />
             </div>
 
             {/* 댓글 목록 영역 - 스크롤 가능 */}
@@ -432,7 +485,6 @@ export function PostModal({
                     postId={post.post_id}
                     isLiked={post.isLiked}
                     likesCount={post.likes_count}
-                    onLikeChange={handleLikeChange}
                   />
                   <button className="hover:opacity-60 transition-opacity">
                     <MessageCircle className="w-6 h-6 text-black" />
@@ -441,9 +493,10 @@ export function PostModal({
                     <Send className="w-6 h-6 text-black" />
                   </button>
                   <div className="flex-1"></div>
-                  <button className="hover:opacity-60 transition-opacity">
-                    <Bookmark className="w-6 h-6 text-black" />
-                  </button>
+                  <SaveButton
+                    postId={post.post_id}
+                    isSaved={post.isSaved ?? false}
+                  />
                 </div>
 
                 {/* 좋아요 수 */}
@@ -453,16 +506,59 @@ export function PostModal({
                   </p>
                 )}
 
-                {/* 캡션 */}
-                {post.caption && (
+                {/* 캡션 수정 폼 */}
+                {isEditing ? (
+                  <div className="mb-2 space-y-2">
+                    <Textarea
+                      value={editCaption}
+                      onChange={(e) => setEditCaption(e.target.value)}
+                      maxLength={MAX_CAPTION_LENGTH}
+                      rows={3}
+                      className="resize-none text-sm"
+                      aria-label="캡션 수정"
+                      aria-describedby="edit-caption-counter"
+                      disabled={isSaving}
+                      autoFocus
+                    />
+                    <div className="flex items-center justify-between">
+                      <p
+                        id="edit-caption-counter"
+                        className="text-xs text-gray-500"
+                        aria-live="polite"
+                      >
+                        {editCaption.length}/{MAX_CAPTION_LENGTH.toLocaleString()}
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleEditCancel}
+                          disabled={isSaving}
+                        >
+                          취소
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={handleEditSave}
+                          disabled={isSaving}
+                          className="bg-blue-500 hover:bg-blue-600"
+                        >
+                          {isSaving ? "저장 중..." : "완료"}
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                ) : post.caption && (
                   <div className="mb-2">
                     <p className="text-sm text-black leading-relaxed">
                       <span className="font-semibold mr-2">{post.name}</span>
-                      <span className="whitespace-pre-wrap">
-                        {showFullCaption || post.caption.length <= 100
-                          ? post.caption
-                          : `${post.caption.slice(0, 100)}...`}
-                      </span>
+                      <CaptionText
+                        text={
+                          showFullCaption || post.caption.length <= 100
+                            ? post.caption
+                            : `${post.caption.slice(0, 100)}...`
+                        }
+                      />
                     </p>
                     {post.caption.length > 100 && (
                       <button
@@ -478,6 +574,9 @@ export function PostModal({
                 {/* 시간 표시 */}
                 <p className="text-xs text-gray-500 uppercase mb-4">
                   {formatRelativeTime(post.created_at)}
+                  {isPostEdited(post) && (
+                    <span className="normal-case"> · 수정됨</span>
+                  )}
                 </p>
               </div>
 
@@ -486,6 +585,7 @@ export function PostModal({
                 comments={comments}
                 currentUserId={currentUser?.id}
                 onDelete={handleCommentDelete}
+                onReply={handleReply}
                 showDeleteButton={true}
               />
             </div>
@@ -496,6 +596,8 @@ export function PostModal({
                 postId={post.post_id}
                 onSubmit={handleComment}
                 placeholder="댓글 달기..."
+                replyTo={replyTo}
+                onCancelReply={handleCancelReply}
               />
             </div>
           </div>
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { Bookmark } from "lucide-react";
+import { setPostSaved } from "@/lib/post-cache";
+import { useToast } from "@/components/ui/toast";
+
+/**
+ * 게시물 저장(북마크) 버튼 컴포넌트
+ *
+ * - 빈 북마크 ↔ 채워진 북마크 상태 관리
+ * - 게시물 캐시(lib/post-cache.ts)를 통해 API 호출 (/api/saves POST/DELETE)
+ * - Optimistic UI 업데이트 + 에러 시 롤백
+ * - 로딩 상태 (중복 클릭 방지)
+ * - 저장한 게시물은 프로필의 "저장됨" 탭에서 확인
+ */
+
+interface SaveButtonProps {
+  postId: string;
+  isSaved: boolean;
+}
+
+export function SaveButton({ postId, isSaved }: SaveButtonProps) {
+  const { showToast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // 저장 토글 핸들러 (캐시에서 낙관적 업데이트 + 실패 시 롤백)
+  const handleSaveToggle = async () => {
+    if (isLoading) return; // 로딩 중 중복 클릭 방지
+
+    setIsLoading(true);
+
+    try {
+      await setPostSaved(postId, !isSaved);
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "저장에 실패했습니다.",
+        "error",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleSaveToggle}
+      disabled={isLoading}
+      aria-label={isSaved ? "저장 취소" : "저장"}
+      aria-pressed={isSaved}
+      className="hover:opacity-60 transition-opacity disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded"
+    >
+      <Bookmark
+        className={`w-6 h-6 text-black ${isSaved ? "fill-black" : ""}`}
+      />
+    </button>
+  );
+}
@@ -1,16 +1,18 @@
 "use client";
 
 import { useState } from "react";
-import { FollowButtonProps } from "@/lib/types";
+import { FollowButtonProps, FollowStatus } from "@/lib/types";
 import { useToast } from "@/components/ui/toast";
-import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { ErrorInfo } from "@/lib/utils/error-handler";
+import { useApiClient } from "@/hooks/use-api-client";
 
 /**
  * 팔로우 버튼 컴포넌트
  *
  * Instagram-like 팔로우 버튼 UI
- * - 팔로우/팔로잉 상태에 따른 버튼 표시
- * - Hover 시 언팔로우 표시
+ * - 팔로우/팔로잉/요청됨 상태에 따른 버튼 표시
+ * - Hover 시 언팔로우(팔로잉) 또는 요청 취소(요청됨) 표시
+ * - 비공개 계정은 팔로우 시 "요청됨" 상태 (상대가 승인하면 팔로잉)
  * - 클릭 시 즉시 API 호출 및 UI 업데이트
  * - 낙관적 업데이트 적용
  */
@@ -19,12 +21,17 @@ export function FollowButton({
   targetUserId,
   currentUserId,
   isFollowing,
+  isRequested = false,
+  isPrivate = false,
   onFollow,
   onUnfollow,
 }: FollowButtonProps) {
   const { showToast } = useToast();
+  const api = useApiClient();
   const [isLoading, setIsLoading] = useState(false);
-  const [optimisticFollowing, setOptimisticFollowing] = useState(isFollowing);
+  const [optimisticStatus, setOptimisticStatus] = useState<FollowStatus | null>(
+    isFollowing ? "accepted" : isRequested ? "pending" : null,
+  );
   const [isHovered, setIsHovered] = useState(false);
 
   // 자기 자신인 경우 버튼 표시하지 않음
@@ -35,93 +42,66 @@ export function FollowButton({
   const handleFollowToggle = async () => {
     if (isLoading) return;
 
-    const wasFollowing = optimisticFollowing;
-    const willBeFollowing = !wasFollowing;
+    const prevStatus = optimisticStatus;
+    const willFollow = prevStatus === null;
 
     // 낙관적 업데이트: UI를 즉시 변경
-    setOptimisticFollowing(willBeFollowing);
+    setOptimisticStatus(willFollow ? (isPrivate ? "pending" : "accepted") : null);
     setIsLoading(true);
 
+    // 에러 발생 시 낙관적 업데이트 롤백
+    const rollback = (error: ErrorInfo) => {
+      setOptimisticStatus(prevStatus);
+      if (error.type !== "ABORTED") {
+        showToast(error.message, "error");
+      }
+    };
+    const options = { context: "FollowButton.handleFollowToggle" };
+
     try {
-      if (willBeFollowing) {
-        // 팔로우 추가
-        let response: Response | null = null;
-        try {
-          response = await fetch("/api/follows", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({ following_id: targetUserId }),
-          });
-        } catch (fetchErr) {
-          const errorInfo = await handleFetchError(null, fetchErr);
-          logError(errorInfo, "FollowButton.handleFollowToggle");
-          throw new Error(errorInfo.message);
+      if (willFollow) {
+        const { data, error } = await api.follows.follow(targetUserId, options);
+        if (error) {
+          rollback(error);
+          return;
         }
 
-        if (!response.ok) {
-          const errorInfo = await handleFetchError(response, null);
-          logError(errorInfo, "FollowButton.handleFollowToggle");
-          throw new Error(errorInfo.message);
-        }
+        // 서버 기준 상태로 보정 (비공개 전환 등으로 예상과 다를 수 있음)
+        const status: FollowStatus = data.follow?.status ?? "accepted";
+        setOptimisticStatus(status);
 
-        // 성공 콜백 호출
-        onFollow?.(targetUserId);
-      } else {
-        // 팔로우 제거
-        let response: Response | null = null;
-        try {
-          response = await fetch("/api/follows", {
-            method: "DELETE",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({ following_id: targetUserId }),
-          });
-        } catch (fetchErr) {
-          const errorInfo = await handleFetchError(null, fetchErr);
-          logError(errorInfo, "FollowButton.handleFollowToggle");
-          throw new Error(errorInfo.message);
+        // 승인된 팔로우만 성공 콜백 호출 (팔로워 수 변경)
+        if (status === "accepted") {
+          onFollow?.(targetUserId);
         }
+        return;
+      }
 
-        if (!response.ok) {
-          const errorInfo = await handleFetchError(response, null);
-          logError(errorInfo, "FollowButton.handleFollowToggle");
-          throw new Error(errorInfo.message);
-        }
+      // 언팔로우 (요청 취소 포함)
+      const { error } = await api.follows.unfollow(targetUserId, options);
+      if (error) {
+        rollback(error);
+        return;
+      }
 
-        // 성공 콜백 호출
+      if (prevStatus === "accepted") {
         onUnfollow?.(targetUserId);
       }
-    } catch (error) {
-      // 에러 발생 시 낙관적 업데이트 롤백
-      setOptimisticFollowing(wasFollowing);
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "알 수 없는 오류가 발생했습니다.";
-      logError(
-        {
-          type: "UNKNOWN_ERROR",
-          message: errorMessage,
-          originalError: error,
-        },
-        "FollowButton.handleFollowToggle",
-      );
-      showToast(errorMessage, "error");
     } finally {
       setIsLoading(false);
     }
   };
 
-  const displayFollowing = optimisticFollowing;
-
-  const buttonLabel = displayFollowing
-    ? isHovered
-      ? "언팔로우"
-      : "팔로잉"
-    : "팔로우";
+  const buttonLabel =
+    optimisticStatus === "accepted"
+      ? isHovered
+        ? "언팔로우"
+        : "팔로잉"
+      : optimisticStatus === "pending"
+        ? isHovered
+          ? "요청 취소"
+          : "요청됨"
+        : "팔로우";
 
   return (
     <button
@@ -131,7 +111,7 @@ export function FollowButton({
       disabled={isLoading}
       aria-label={buttonLabel}
       className={`px-6 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
-        displayFollowing
+        optimisticStatus
           ? isHovered
             ? "bg-red-50 text-red-600 border border-red-300 hover:bg-red-100"
             : "bg-gray-100 text-gray-700 hover:bg-gray-200"
@@ -146,16 +126,8 @@ export function FollowButton({
           <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
           <span>처리 중...</span>
         </div>
-      ) : displayFollowing ? (
-        // 팔로우 중 상태
-        isHovered ? (
-          "언팔로우"
-        ) : (
-          "팔로잉"
-        )
       ) : (
-        // 미팔로우 상태
-        "팔로우"
+        buttonLabel
       )}
     </button>
   );
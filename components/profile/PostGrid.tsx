@@ -1,78 +1,117 @@
 "use client";
 
-import { useState, useEffect, useCallback, memo } from "react";
-import Image from "next/image";
-import { PostThumbnail } from "@/lib/types";
+import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import { Copy } from "lucide-react";
+import { PostThumbnail, PostWithUser } from "@/lib/types";
+import { getPostImages } from "@/lib/utils/post";
+import { useApiClient } from "@/hooks/use-api-client";
+import { useCachedPosts } from "@/hooks/use-post-cache";
+import { upsertPosts } from "@/lib/post-cache";
+import { PostImage } from "@/components/post/PostImage";
 
 /**
  * 프로필 페이지 게시물 그리드 컴포넌트
  *
  * Instagram-like 3열 그리드 레이아웃
- * - 1:1 정사각형 썸네일
+ * - 사용자별(userId) 또는 해시태그별(tag) 게시물 표시 (태그 페이지에서도 사용)
+ * - saved가 true면 내가 저장한 게시물 표시 (collectionId로 컬렉션별 필터)
+ * - 1:1 정사각형 썸네일 (다중 이미지 게시물은 첫 번째 이미지 + 아이콘 표시, blurhash 플레이스홀더)
  * - Hover 시 좋아요/댓글 수 오버레이
  * - 클릭 시 게시물 상세 모달 열기
+ * - "더 보기" 버튼으로 다음 페이지 로드 (nextCursor 기반)
+ * - 게시물은 캐시(lib/post-cache.ts)에서 읽어 모달에서 바뀐 좋아요/댓글 수, 삭제 반영
  */
 
 interface PostGridProps {
-  userId: string; // Supabase user_id (UUID)
+  userId?: string; // Supabase user_id (UUID)
+  tag?: string; // 해시태그 ('#' 제외)
+  saved?: boolean; // 내가 저장한 게시물 (/api/saves/user)
+  collectionId?: string; // 저장한 게시물 중 특정 컬렉션만 (saved와 함께 사용)
   onPostClick?: (postId: string) => void; // 게시물 클릭 핸들러
 }
 
-function PostGridComponent({ userId, onPostClick }: PostGridProps) {
-  const [posts, setPosts] = useState<PostThumbnail[]>([]);
+function PostGridComponent({
+  userId,
+  tag,
+  saved,
+  collectionId,
+  onPostClick,
+}: PostGridProps) {
+  const api = useApiClient();
+  const [gridPosts, setGridPosts] = useState<PostWithUser[]>([]);
+  const cachedPosts = useCachedPosts(gridPosts);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [hasMore, setHasMore] = useState(false); // 더보기 기능은 추후 구현
+  const [hasMore, setHasMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
 
-  // 게시물 목록 로드
-  const loadPosts = useCallback(async () => {
+  // 게시물 목록 로드 (cursor가 있으면 다음 페이지를 이어서 로드)
+  const loadPosts = useCallback(async (cursor: string | null = null) => {
+    const append = cursor !== null;
+
     try {
-      setIsLoading(true);
+      if (append) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
       setError(null);
 
-      const params = new URLSearchParams({
-        limit: "12", // 초기 12개 표시
-        offset: "0",
-        userId: userId, // 특정 사용자의 게시물만
-      });
+      // 페이지당 12개 (3열 x 4행)
+      const { data, error: apiError } = saved
+        ? await api.posts.listSaved(
+            { limit: 12, cursor, collectionId },
+            { context: "PostGrid.loadPosts" },
+          )
+        : await api.posts.list(
+            { limit: 12, cursor, userId, tag },
+            { context: "PostGrid.loadPosts" },
+          );
 
-      const response = await fetch(`/api/posts?${params}`);
-      if (!response.ok) {
-        throw new Error("게시물을 불러올 수 없습니다.");
+      if (apiError) {
+        if (apiError.type !== "ABORTED") {
+          setError(apiError.message);
+        }
+        return;
       }
 
-      const data = await response.json();
-
-      // API 응답 형식: { data: PostWithUser[], pagination: {...} }
-      const postsData = data.data || [];
+      const postsData: PostWithUser[] = data.data || [];
+      upsertPosts(postsData);
 
-      // PostWithUser를 PostThumbnail로 변환
-      const thumbnails: PostThumbnail[] = postsData.map((post: any) => ({
-        post_id: post.post_id,
-        image_url: post.image_url,
-        likes_count: post.likes_count || 0,
-        comments_count: post.comments_count || 0,
-      }));
-
-      setPosts(thumbnails);
+      setGridPosts((prev) => (append ? [...prev, ...postsData] : postsData));
       setHasMore(data.pagination?.hasMore || false);
-    } catch (err) {
-      console.error("PostGrid load error:", err);
-      setError(
-        err instanceof Error ? err.message : "게시물을 불러올 수 없습니다.",
-      );
+      setNextCursor(data.pagination?.nextCursor || null);
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, [userId]);
+  }, [api, userId, tag, saved, collectionId]);
 
-  // userId 변경 시 게시물 다시 로드
+  // userId/tag/saved/collectionId 변경 시 게시물 다시 로드
   useEffect(() => {
-    if (userId) {
+    if (userId || tag || saved) {
       loadPosts();
     }
-  }, [userId, loadPosts]);
+  }, [userId, tag, saved, loadPosts]);
+
+  // PostWithUser를 PostThumbnail로 변환 (캐시 반영 후)
+  const posts: PostThumbnail[] = useMemo(
+    () =>
+      cachedPosts.map((post) => {
+        const image = getPostImages(post)[0];
+        return {
+          post_id: post.post_id,
+          image_url: image.url,
+          image,
+          media_count: post.media?.length || 1,
+          likes_count: post.likes_count || 0,
+          comments_count: post.comments_count || 0,
+        };
+      }),
+    [cachedPosts],
+  );
 
   // 게시물 클릭 핸들러
   const handlePostClick = (postId: string) => {
@@ -95,8 +134,8 @@ function PostGridComponent({ userId, onPostClick }: PostGridProps) {
     );
   }
 
-  // 에러 상태
-  if (error) {
+  // 에러 상태 (다음 페이지 로드 실패 시에는 기존 목록 유지)
+  if (error && posts.length === 0) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="text-center">
@@ -118,7 +157,7 @@ function PostGridComponent({ userId, onPostClick }: PostGridProps) {
           <p className="text-gray-600 mb-2">게시물을 불러올 수 없습니다</p>
           <p className="text-sm text-gray-500">{error}</p>
           <button
-            onClick={loadPosts}
+            onClick={() => loadPosts()}
             className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
           >
             다시 시도
@@ -148,67 +187,102 @@ function PostGridComponent({ userId, onPostClick }: PostGridProps) {
               />
             </svg>
           </div>
-          <p className="text-gray-600 mb-2">게시물이 없습니다</p>
-          <p className="text-sm text-gray-500">첫 번째 게시물을 공유해보세요</p>
+          {saved ? (
+            <>
+              <p className="text-gray-600 mb-2">저장한 게시물이 없습니다</p>
+              <p className="text-sm text-gray-500">
+                다시 보고 싶은 게시물을 저장해보세요
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-600 mb-2">게시물이 없습니다</p>
+              <p className="text-sm text-gray-500">
+                첫 번째 게시물을 공유해보세요
+              </p>
+            </>
+          )}
         </div>
       </div>
     );
   }
 
   return (
-    <div className="grid grid-cols-3 gap-1 md:gap-2">
-      {posts.map((post) => (
-        <div
-          key={post.post_id}
-          role="button"
-          tabIndex={0}
-          aria-label={`게시물 보기 - 좋아요 ${post.likes_count}개, 댓글 ${post.comments_count}개`}
-          className="aspect-square relative group cursor-pointer overflow-hidden focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-          onClick={() => handlePostClick(post.post_id)}
-          onKeyDown={(e) => {
-            if (e.key === "Enter" || e.key === " ") {
-              e.preventDefault();
-              handlePostClick(post.post_id);
-            }
-          }}
-        >
-          {/* 게시물 이미지 */}
-          {!imageErrors.has(post.post_id) ? (
-            <Image
-              src={post.image_url}
-              alt={`게시물 썸네일`}
-              fill
-              className="object-cover transition-transform duration-200 group-hover:scale-105"
-              sizes="(max-width: 768px) 33vw, 33vw"
-              loading="lazy"
-              placeholder="empty"
-              onError={() =>
-                setImageErrors((prev) => new Set(prev).add(post.post_id))
+    <div>
+      <div className="grid grid-cols-3 gap-1 md:gap-2">
+        {posts.map((post) => (
+          <div
+            key={post.post_id}
+            role="button"
+            tabIndex={0}
+            aria-label={`게시물 보기 - 좋아요 ${post.likes_count}개, 댓글 ${post.comments_count}개`}
+            className="aspect-square relative group cursor-pointer overflow-hidden focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            onClick={() => handlePostClick(post.post_id)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                handlePostClick(post.post_id);
               }
-            />
-          ) : (
-            <div className="w-full h-full bg-gray-200 flex items-center justify-center">
-              <span className="text-gray-400 text-xs">이미지 없음</span>
-            </div>
-          )}
+            }}
+          >
+            {/* 게시물 이미지 */}
+            {!imageErrors.has(post.post_id) ? (
+              <PostImage
+                image={post.image}
+                alt={`게시물 썸네일`}
+                className="object-cover transition-transform duration-200 group-hover:scale-105"
+                sizes="(max-width: 768px) 33vw, 33vw"
+                onError={() =>
+                  setImageErrors((prev) => new Set(prev).add(post.post_id))
+                }
+              />
+            ) : (
+              <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+                <span className="text-gray-400 text-xs">이미지 없음</span>
+              </div>
+            )}
 
-          {/* Hover 오버레이 */}
-          <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 flex items-center justify-center gap-4 text-white opacity-0 group-hover:opacity-100 transition-all duration-200">
-            <div className="flex items-center gap-1">
-              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
-              </svg>
-              <span className="font-semibold">{post.likes_count}</span>
-            </div>
-            <div className="flex items-center gap-1">
-              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
-              </svg>
-              <span className="font-semibold">{post.comments_count}</span>
+            {/* 다중 이미지 아이콘 */}
+            {post.media_count > 1 && (
+              <div className="absolute top-2 right-2 pointer-events-none">
+                <Copy
+                  className="w-5 h-5 text-white drop-shadow"
+                  aria-label={`이미지 ${post.media_count}장`}
+                />
+              </div>
+            )}
+
+            {/* Hover 오버레이 */}
+            <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 flex items-center justify-center gap-4 text-white opacity-0 group-hover:opacity-100 transition-all duration-200">
+              <div className="flex items-center gap-1">
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
+                </svg>
+                <span className="font-semibold">{post.likes_count}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+                </svg>
+                <span className="font-semibold">{post.comments_count}</span>
+              </div>
             </div>
           </div>
+        ))}
+      </div>
+
+      {/* 더 보기 */}
+      {hasMore && (
+        <div className="flex justify-center py-6">
+          <button
+            onClick={() => loadPosts(nextCursor)}
+            disabled={isLoadingMore}
+            className="text-sm font-semibold text-blue-500 hover:text-blue-600 disabled:opacity-50"
+          >
+            {isLoadingMore ? "불러오는 중..." : "더 보기"}
+          </button>
         </div>
-      ))}
+      )}
     </div>
   );
 }
@@ -0,0 +1,348 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Image from "next/image";
+import { useForm, Resolver } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/toast";
+import { ProfileFormData, UserStats } from "@/lib/types";
+import {
+  MAX_AVATAR_SIZE,
+  MAX_BIO_LENGTH,
+  profileFormSchema,
+} from "@/lib/utils/profile";
+import { useApiClient } from "@/hooks/use-api-client";
+
+/**
+ * 프로필 편집 다이얼로그
+ *
+ * 기능:
+ * - 이름, 사용자 이름(핸들), 소개, 웹사이트 수정
+ * - 비공개 계정 설정 (승인한 팔로워만 게시물 조회 가능)
+ * - 프로필 사진 변경/삭제 (2MB 이하 이미지)
+ * - react-hook-form + zod 클라이언트 검증 (서버와 동일한 스키마)
+ * - 저장 성공 시 수정된 사용자 정보를 부모에 전달
+ */
+interface ProfileEditDialogProps {
+  user: UserStats;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onProfileUpdate?: (user: UserStats) => void;
+}
+
+export function ProfileEditDialog({
+  user,
+  open,
+  onOpenChange,
+  onProfileUpdate,
+}: ProfileEditDialogProps) {
+  const { showToast } = useToast();
+  const api = useApiClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(
+    user.avatar_url,
+  );
+  const [removeAvatar, setRemoveAvatar] = useState(false);
+
+  const form = useForm<ProfileFormData>({
+    // strict 모드가 꺼져 있어 zod 추론 타입의 필드가 optional이 되므로 폼 타입으로 지정
+    resolver: zodResolver(profileFormSchema) as Resolver<ProfileFormData>,
+    defaultValues: {
+      name: user.name,
+      username: user.username,
+      bio: user.bio ?? "",
+      website: user.website ?? "",
+      isPrivate: user.is_private,
+    },
+  });
+
+  const bioLength = form.watch("bio").length;
+  const isSubmitting = form.formState.isSubmitting;
+
+  // 다이얼로그를 열 때마다 현재 프로필로 초기화
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset({
+      name: user.name,
+      username: user.username,
+      bio: user.bio ?? "",
+      website: user.website ?? "",
+      isPrivate: user.is_private,
+    });
+    setAvatarFile(null);
+    setAvatarPreview(user.avatar_url);
+    setRemoveAvatar(false);
+  }, [open, user, form]);
+
+  // 미리보기 URL 정리
+  useEffect(() => {
+    return () => {
+      if (avatarPreview?.startsWith("blob:")) {
+        URL.revokeObjectURL(avatarPreview);
+      }
+    };
+  }, [avatarPreview]);
+
+  // 프로필 사진 선택 핸들러
+  const handleAvatarSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      showToast("이미지 파일만 선택할 수 있습니다.", "error");
+      return;
+    }
+
+    if (file.size > MAX_AVATAR_SIZE) {
+      showToast("프로필 이미지는 2MB 이하여야 합니다.", "error");
+      return;
+    }
+
+    setAvatarFile(file);
+    setAvatarPreview(URL.createObjectURL(file));
+    setRemoveAvatar(false);
+  };
+
+  // 프로필 사진 삭제 핸들러
+  const handleAvatarRemove = () => {
+    setAvatarFile(null);
+    setAvatarPreview(null);
+    setRemoveAvatar(true);
+  };
+
+  // 프로필 저장
+  const handleSubmit = async (values: ProfileFormData) => {
+    const formData = new FormData();
+    formData.append("name", values.name);
+    formData.append("username", values.username);
+    formData.append("bio", values.bio);
+    formData.append("website", values.website);
+    formData.append("isPrivate", String(values.isPrivate));
+    if (avatarFile) {
+      formData.append("avatar", avatarFile);
+    } else if (removeAvatar) {
+      formData.append("removeAvatar", "true");
+    }
+
+    const { data, error } = await api.users.updateProfile(
+      user.clerk_id,
+      formData,
+      { context: "ProfileEditDialog.handleSubmit" },
+    );
+
+    if (error) {
+      if (error.type === "ABORTED") return;
+
+      // 사용자 이름 중복은 해당 필드에 표시
+      if (error.statusCode === 409) {
+        form.setError("username", { message: error.message });
+        return;
+      }
+
+      showToast(error.message, "error");
+      return;
+    }
+
+    onProfileUpdate?.(data.user);
+    showToast("프로필이 수정되었습니다.", "success");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>프로필 편집</DialogTitle>
+        </DialogHeader>
+
+        {/* 프로필 사진 */}
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 rounded-full bg-gray-300 overflow-hidden relative flex-shrink-0">
+            {avatarPreview && (
+              <Image
+                src={avatarPreview}
+                alt="프로필 이미지 미리보기"
+                fill
+                className="object-cover"
+                sizes="64px"
+                unoptimized={avatarPreview.startsWith("blob:")}
+              />
+            )}
+          </div>
+          <div className="flex flex-col items-start gap-1">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSubmitting}
+              className="text-sm font-semibold text-blue-500 hover:text-blue-600 disabled:opacity-50"
+            >
+              사진 변경
+            </button>
+            {avatarPreview && (
+              <button
+                type="button"
+                onClick={handleAvatarRemove}
+                disabled={isSubmitting}
+                className="text-sm text-red-500 hover:text-red-600 disabled:opacity-50"
+              >
+                현재 사진 삭제
+              </button>
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleAvatarSelect}
+            className="hidden"
+          />
+        </div>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>이름</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>사용자 이름</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      autoCapitalize="none"
+                      autoComplete="off"
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    영문 소문자, 숫자, 밑줄(_), 마침표(.)만 사용할 수 있습니다.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="bio"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>소개</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={3}
+                      maxLength={MAX_BIO_LENGTH}
+                      className="resize-none"
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormDescription className="text-right">
+                    {bioLength} / {MAX_BIO_LENGTH}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="website"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>웹사이트</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      inputMode="url"
+                      placeholder="example.com"
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isPrivate"
+              render={({ field }) => (
+                <FormItem className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <FormLabel>비공개 계정</FormLabel>
+                    <FormDescription>
+                      승인한 팔로워만 회원님의 게시물을 볼 수 있습니다.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      checked={field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      onBlur={field.onBlur}
+                      ref={field.ref}
+                      disabled={isSubmitting}
+                      className="mt-1 w-4 h-4 accent-blue-500"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  저장 중...
+                </>
+              ) : (
+                "제출"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
 import { useUser } from "@clerk/nextjs";
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
 import Image from "next/image";
 import { UserStats } from "@/lib/types";
 import { FollowButton } from "./FollowButton";
+import { ProfileEditDialog } from "./ProfileEditDialog";
+import { MessageButton } from "@/components/message/MessageButton";
 import { useToast } from "@/components/ui/toast";
 
 /**
@@ -12,8 +14,8 @@ import { useToast } from "@/components/ui/toast";
  *
  * Instagram-like 프로필 헤더 UI
  * - 프로필 이미지 (Desktop 150px, Mobile 90px)
- * - 사용자명, 통계 정보 표시
- * - 본인/타인 프로필에 따른 버튼 표시
+ * - 사용자 이름(핸들), 통계 정보, 이름/소개/웹사이트 표시
+ * - 본인/타인 프로필에 따른 버튼 표시 (본인: 프로필 편집 다이얼로그, 타인: 팔로우 + 메시지 보내기)
  * - 반응형 레이아웃 (가로/세로)
  */
 
@@ -21,21 +23,36 @@ interface ProfileHeaderProps {
   user: UserStats;
   isOwnProfile: boolean;
   isFollowing: boolean;
+  isRequested?: boolean;
   currentUserSupabaseId?: string;
   onFollow?: (userId: string) => void;
   onUnfollow?: (userId: string) => void;
+  onProfileUpdate?: (user: UserStats) => void;
 }
 
 export function ProfileHeader({
   user,
   isOwnProfile,
   isFollowing,
+  isRequested,
   currentUserSupabaseId,
   onFollow,
   onUnfollow,
+  onProfileUpdate,
 }: ProfileHeaderProps) {
   const { user: currentUser } = useUser();
   const { showToast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  // 프로필 이미지 (업로드한 이미지 우선, 본인 프로필은 Clerk 이미지로 대체)
+  const avatarUrl =
+    user.avatar_url || (isOwnProfile ? currentUser?.imageUrl : undefined);
+
+  // 웹사이트 표시용 텍스트 (프로토콜 제외)
+  const websiteLabel = useMemo(
+    () => user.website?.replace(/^https?:\/\//, "").replace(/\/$/, ""),
+    [user.website],
+  );
 
   // 통계 포맷팅 함수 (useCallback으로 메모이제이션)
   const formatCount = useCallback((count: number) => {
@@ -57,10 +74,10 @@ export function ProfileHeader({
     [user.posts_count, user.followers_count, user.following_count, formatCount],
   );
 
-  // 프로필 편집 버튼 클릭 (1차 MVP 제외)
+  // 프로필 편집 버튼 클릭
   const handleEditProfile = useCallback(() => {
-    showToast("프로필 편집 기능은 2차 개발에서 제공됩니다.", "info");
-  }, [showToast]);
+    setIsEditOpen(true);
+  }, []);
 
   // 통계 클릭 핸들러 (팔로워/팔로잉 목록은 1차 MVP 제외)
   const handleStatClick = useCallback(
@@ -87,9 +104,9 @@ export function ProfileHeader({
           {/* 프로필 이미지 */}
           <div className="flex-shrink-0">
             <div className="w-24 h-24 md:w-40 md:h-40 rounded-full bg-gray-200 overflow-hidden relative">
-              {currentUser?.imageUrl && isOwnProfile ? (
+              {avatarUrl ? (
                 <Image
-                  src={currentUser.imageUrl}
+                  src={avatarUrl}
                   alt={`${user.name} 프로필 이미지`}
                   fill
                   className="object-cover"
@@ -116,7 +133,7 @@ export function ProfileHeader({
             {/* 사용자명과 버튼 */}
             <div className="flex items-center gap-4 mb-4">
               <h1 className="text-xl md:text-2xl font-light text-gray-900 truncate">
-                {user.name}
+                {user.username}
               </h1>
 
               {/* 버튼 영역 */}
@@ -127,19 +144,25 @@ export function ProfileHeader({
                     onClick={handleEditProfile}
                     aria-label="프로필 편집"
                     className="px-4 py-1.5 bg-gray-100 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-                    disabled
                   >
                     프로필 편집
                   </button>
                 ) : (
-                  // 타인 프로필: 팔로우 버튼
-                  <FollowButton
-                    targetUserId={user.user_id}
-                    currentUserId={currentUserSupabaseId}
-                    isFollowing={isFollowing}
-                    onFollow={onFollow}
-                    onUnfollow={onUnfollow}
-                  />
+                  // 타인 프로필: 팔로우 버튼 + 메시지 보내기 (로그인 시)
+                  <>
+                    <FollowButton
+                      targetUserId={user.user_id}
+                      currentUserId={currentUserSupabaseId}
+                      isFollowing={isFollowing}
+                      isRequested={isRequested}
+                      isPrivate={user.is_private}
+                      onFollow={onFollow}
+                      onUnfollow={onUnfollow}
+                    />
+                    {currentUserSupabaseId && (
+                      <MessageButton targetUserId={user.user_id} />
+                    )}
+                  </>
                 )}
               </div>
             </div>
@@ -214,13 +237,38 @@ export function ProfileHeader({
               </button>
             </div>
 
-            {/* 이름 (추후 bio로 확장 가능) */}
-            <div className="hidden md:block">
+            {/* 이름, 소개, 웹사이트 */}
+            <div className="text-sm">
               <p className="font-semibold text-gray-900">{user.name}</p>
+              {user.bio && (
+                <p className="text-gray-900 whitespace-pre-wrap break-words">
+                  {user.bio}
+                </p>
+              )}
+              {user.website && (
+                <a
+                  href={user.website}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="font-semibold text-blue-900 hover:underline break-all"
+                >
+                  {websiteLabel}
+                </a>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      {/* 프로필 편집 다이얼로그 */}
+      {isOwnProfile && (
+        <ProfileEditDialog
+          user={user}
+          open={isEditOpen}
+          onOpenChange={setIsEditOpen}
+          onProfileUpdate={onProfileUpdate}
+        />
+      )}
     </header>
   );
 }
@@ -1,22 +1,34 @@
 "use client";
 
 import { useState } from "react";
+import { Ban, Bookmark, Grid3X3, Lock } from "lucide-react";
 import { ProfileHeader } from "./ProfileHeader";
 import { PostGrid } from "./PostGrid";
+import { SavedPosts } from "./SavedPosts";
 import { PostModal } from "@/components/post/PostModal";
 import { UserStats } from "@/lib/types";
 import { useUser } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { getProfilePath } from "@/lib/utils/profile";
+import { cn } from "@/lib/supabase/utils";
+import { useToast } from "@/components/ui/toast";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
 
 /**
  * 프로필 페이지 클라이언트 컴포넌트
  *
  * 모달 상태 관리 및 게시물 상세 모달 통합
+ * - 본인 프로필에서는 게시물/저장됨 탭 표시
+ * - 비공개 계정은 팔로워가 아니면 게시물 대신 안내 표시
+ * - 차단한 사용자는 게시물 대신 차단 해제 버튼 표시
  */
 
 interface ProfilePageClientProps {
   userId: string;
   user: UserStats;
   isFollowing: boolean;
+  isRequested?: boolean;
+  isBlocked?: boolean;
   isOwnProfile: boolean;
   currentUserSupabaseId?: string;
 }
@@ -25,13 +37,23 @@ export function ProfilePageClient({
   userId,
   user,
   isFollowing: initialIsFollowing,
+  isRequested,
+  isBlocked: initialIsBlocked = false,
   isOwnProfile,
   currentUserSupabaseId,
 }: ProfilePageClientProps) {
   const { user: clerkUser } = useUser();
+  const router = useRouter();
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [isFollowing, setIsFollowing] = useState(initialIsFollowing);
   const [userStats, setUserStats] = useState(user);
+  const [activeTab, setActiveTab] = useState<"posts" | "saved">("posts");
+  const [isBlocked, setIsBlocked] = useState(initialIsBlocked);
+  const [isUnblocking, setIsUnblocking] = useState(false);
+  const { showToast } = useToast();
+
+  // 비공개 계정은 본인과 승인된 팔로워만 게시물 조회 가능
+  const isPostsHidden = userStats.is_private && !isOwnProfile && !isFollowing;
 
   // 게시물 클릭 핸들러
   const handlePostClick = (postId: string) => {
@@ -63,6 +85,58 @@ export function ProfilePageClient({
     }));
   };
 
+  // 차단 해제 핸들러
+  const handleUnblock = async () => {
+    if (isUnblocking) return;
+
+    setIsUnblocking(true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch("/api/blocks", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ user_id: userStats.user_id }),
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "ProfilePageClient.handleUnblock");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "ProfilePageClient.handleUnblock");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      setIsBlocked(false);
+      showToast(`${userStats.username}님의 차단을 해제했습니다.`, "success");
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "ProfilePageClient.handleUnblock");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsUnblocking(false);
+    }
+  };
+
+  // 프로필 수정 핸들러 (수정된 정보로 헤더 갱신)
+  const handleProfileUpdate = (updatedUser: UserStats) => {
+    setUserStats(prev => ({
+      ...prev,
+      ...updatedUser
+    }));
+
+    // 사용자 이름이 바뀌면 새 프로필 URL로 교체
+    if (updatedUser.username !== userStats.username) {
+      router.replace(getProfilePath(updatedUser.username));
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* 프로필 헤더 */}
@@ -70,17 +144,87 @@ export function ProfilePageClient({
         user={userStats}
         isOwnProfile={isOwnProfile}
         isFollowing={isFollowing}
+        isRequested={isRequested}
         currentUserSupabaseId={currentUserSupabaseId}
         onFollow={handleFollow}
         onUnfollow={handleUnfollow}
+        onProfileUpdate={handleProfileUpdate}
       />
 
-      {/* 게시물 그리드 */}
       <div className="max-w-[975px] mx-auto px-4 py-8">
-        <PostGrid
-          userId={user.user_id} // Supabase user_id (UUID)
-          onPostClick={handlePostClick}
-        />
+        {/* 탭 (저장됨은 본인만 볼 수 있음) */}
+        {isOwnProfile && (
+          <div className="flex border-b border-border mb-6" role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={activeTab === "posts"}
+              onClick={() => setActiveTab("posts")}
+              className={cn(
+                "flex-1 flex items-center justify-center gap-2 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors",
+                activeTab === "posts"
+                  ? "border-black text-black"
+                  : "border-transparent text-gray-500 hover:text-black",
+              )}
+            >
+              <Grid3X3 className="w-4 h-4" />
+              게시물
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={activeTab === "saved"}
+              onClick={() => setActiveTab("saved")}
+              className={cn(
+                "flex-1 flex items-center justify-center gap-2 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors",
+                activeTab === "saved"
+                  ? "border-black text-black"
+                  : "border-transparent text-gray-500 hover:text-black",
+              )}
+            >
+              <Bookmark className="w-4 h-4" />
+              저장됨
+            </button>
+          </div>
+        )}
+
+        {/* 게시물 그리드 */}
+        {activeTab === "saved" && isOwnProfile ? (
+          <SavedPosts onPostClick={handlePostClick} />
+        ) : isBlocked ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="w-16 h-16 rounded-full border-2 border-black flex items-center justify-center mb-4">
+              <Ban className="w-8 h-8" />
+            </div>
+            <h2 className="text-lg font-semibold mb-1">차단한 계정입니다</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              차단을 해제하면 게시물을 볼 수 있습니다.
+            </p>
+            <button
+              type="button"
+              onClick={handleUnblock}
+              disabled={isUnblocking}
+              className="px-4 py-1.5 bg-blue-500 text-white text-sm font-semibold rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {isUnblocking ? "처리 중..." : "차단 해제"}
+            </button>
+          </div>
+        ) : isPostsHidden ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="w-16 h-16 rounded-full border-2 border-black flex items-center justify-center mb-4">
+              <Lock className="w-8 h-8" />
+            </div>
+            <h2 className="text-lg font-semibold mb-1">비공개 계정입니다</h2>
+            <p className="text-sm text-gray-500">
+              사진과 동영상을 보려면 팔로우하세요.
+            </p>
+          </div>
+        ) : (
+          <PostGrid
+            userId={user.user_id} // Supabase user_id (UUID)
+            onPostClick={handlePostClick}
+          />
+        )}
 
         {/* 게시물 피드 (프로필 페이지에서는 숨김 처리) */}
         {/* TODO: 프로필 페이지에서 게시물 피드를 별도로 표시할지 결정 */}
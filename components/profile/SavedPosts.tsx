@@ -0,0 +1,328 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import {
+  Bookmark,
+  FolderPlus,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/toast";
+import { CollectionNameDialog } from "@/components/collection/CollectionNameDialog";
+import { CollectionPostsDialog } from "@/components/collection/CollectionPostsDialog";
+import { CollectionWithPreview } from "@/lib/types";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { PostGrid } from "./PostGrid";
+
+/**
+ * 프로필 "저장됨" 탭 컴포넌트 (본인 프로필에서만 표시)
+ *
+ * - 컬렉션 목록 (모든 게시물 + 이름 있는 컬렉션, 게시물 수와 커버 이미지)
+ * - 선택한 컬렉션의 게시물 그리드 (PostGrid saved 모드)
+ * - 새 컬렉션 만들기, 이름 변경, 삭제 (저장한 게시물은 유지)
+ * - 저장한 게시물 중에서 컬렉션에 게시물 추가/제거
+ */
+interface SavedPostsProps {
+  onPostClick?: (postId: string) => void;
+}
+
+function CollectionChip({
+  label,
+  count,
+  coverImageUrl,
+  isActive,
+  onClick,
+}: {
+  label: string;
+  count?: number;
+  coverImageUrl?: string | null;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={isActive}
+      className={`flex items-center gap-2 flex-shrink-0 pl-1 pr-3 py-1 rounded-full border text-sm font-semibold transition-colors ${
+        isActive
+          ? "border-black bg-black text-white"
+          : "border-border bg-white text-black hover:bg-gray-50"
+      }`}
+    >
+      <span className="w-7 h-7 rounded-full bg-gray-200 overflow-hidden relative flex items-center justify-center">
+        {coverImageUrl ? (
+          <Image
+            src={coverImageUrl}
+            alt=""
+            fill
+            className="object-cover"
+            sizes="28px"
+          />
+        ) : (
+          <Bookmark className="w-3.5 h-3.5 text-gray-500" />
+        )}
+      </span>
+      <span className="max-w-[120px] truncate">{label}</span>
+      {count !== undefined && (
+        <span className={isActive ? "text-gray-300" : "text-gray-500"}>
+          {count}
+        </span>
+      )}
+    </button>
+  );
+}
+
+export function SavedPosts({ onPostClick }: SavedPostsProps) {
+  const { showToast } = useToast();
+  const [collections, setCollections] = useState<CollectionWithPreview[]>([]);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<
+    string | null
+  >(null);
+  const [gridVersion, setGridVersion] = useState(0); // 변경 시 그리드 다시 로드
+  const [isNameDialogOpen, setIsNameDialogOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isPostsDialogOpen, setIsPostsDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const selectedCollection =
+    collections.find((collection) => collection.id === selectedCollectionId) ??
+    null;
+
+  // 컬렉션 목록 로드
+  const loadCollections = useCallback(async () => {
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch("/api/collections");
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "SavedPosts.loadCollections");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "SavedPosts.loadCollections");
+        return;
+      }
+
+      const data = await response.json();
+      setCollections(data.data || []);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "SavedPosts.loadCollections");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  // 컬렉션 생성/이름 변경 완료
+  const handleCollectionSaved = () => {
+    loadCollections();
+    showToast(
+      isRenaming ? "컬렉션 이름이 변경되었습니다." : "컬렉션을 만들었습니다.",
+      "success",
+    );
+  };
+
+  // 컬렉션 게시물 변경 완료
+  const handleCollectionPostsChanged = () => {
+    loadCollections();
+    setGridVersion((prev) => prev + 1);
+  };
+
+  // 컬렉션 삭제
+  const handleDeleteConfirm = async () => {
+    if (!selectedCollection || isDeleting) return;
+
+    setIsDeleting(true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch(`/api/collections/${selectedCollection.id}`, {
+          method: "DELETE",
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "SavedPosts.handleDeleteConfirm");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "SavedPosts.handleDeleteConfirm");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      setCollections((prev) =>
+        prev.filter((collection) => collection.id !== selectedCollection.id),
+      );
+      setSelectedCollectionId(null);
+      setIsDeleteDialogOpen(false);
+      showToast("컬렉션을 삭제했습니다.", "success");
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "SavedPosts.handleDeleteConfirm");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* 컬렉션 목록 */}
+      <div className="flex items-center gap-2 overflow-x-auto pb-4 mb-2">
+        <CollectionChip
+          label="모든 게시물"
+          isActive={selectedCollectionId === null}
+          onClick={() => setSelectedCollectionId(null)}
+        />
+        {collections.map((collection) => (
+          <CollectionChip
+            key={collection.id}
+            label={collection.name}
+            count={collection.posts_count}
+            coverImageUrl={collection.cover_image_url}
+            isActive={selectedCollectionId === collection.id}
+            onClick={() => setSelectedCollectionId(collection.id)}
+          />
+        ))}
+        <button
+          onClick={() => {
+            setIsRenaming(false);
+            setIsNameDialogOpen(true);
+          }}
+          aria-label="새 컬렉션"
+          className="flex items-center gap-1 flex-shrink-0 px-3 py-2 text-sm font-semibold text-blue-500 hover:text-blue-600"
+        >
+          <Plus className="w-4 h-4" />
+          새 컬렉션
+        </button>
+      </div>
+
+      {/* 선택한 컬렉션 헤더 */}
+      {selectedCollection && (
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-black truncate">
+            {selectedCollection.name}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsPostsDialogOpen(true)}
+              className="flex items-center gap-1 text-sm font-semibold text-blue-500 hover:text-blue-600"
+            >
+              <FolderPlus className="w-4 h-4" />
+              게시물 추가
+            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  aria-label="컬렉션 메뉴"
+                  className="text-gray-600 hover:text-gray-800 p-1 rounded-full hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                >
+                  <MoreHorizontal className="w-5 h-5" aria-hidden="true" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuItem
+                  onClick={() => {
+                    setIsRenaming(true);
+                    setIsNameDialogOpen(true);
+                  }}
+                >
+                  <Pencil className="w-4 h-4 mr-2" aria-hidden="true" />
+                  이름 변경
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setIsDeleteDialogOpen(true)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 focus:text-red-700 focus:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" aria-hidden="true" />
+                  컬렉션 삭제
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+      )}
+
+      {/* 저장한 게시물 그리드 */}
+      <PostGrid
+        key={`${selectedCollectionId ?? "all"}-${gridVersion}`}
+        saved
+        collectionId={selectedCollectionId ?? undefined}
+        onPostClick={onPostClick}
+      />
+
+      {/* 컬렉션 생성/이름 변경 다이얼로그 */}
+      <CollectionNameDialog
+        collection={isRenaming ? selectedCollection : null}
+        open={isNameDialogOpen}
+        onOpenChange={setIsNameDialogOpen}
+        onSaved={handleCollectionSaved}
+      />
+
+      {/* 컬렉션 게시물 선택 다이얼로그 */}
+      {selectedCollection && (
+        <CollectionPostsDialog
+          collection={selectedCollection}
+          open={isPostsDialogOpen}
+          onOpenChange={setIsPostsDialogOpen}
+          onChanged={handleCollectionPostsChanged}
+        />
+      )}
+
+      {/* 컬렉션 삭제 확인 다이얼로그 */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>컬렉션 삭제</AlertDialogTitle>
+            <AlertDialogDescription>
+              이 컬렉션을 삭제하시겠습니까? 컬렉션에 있던 게시물은 저장됨에
+              그대로 남아 있습니다.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>취소</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDeleteConfirm();
+              }}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {isDeleting ? "삭제 중..." : "삭제"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/toast";
+import { ReportReason, ReportTargetType } from "@/lib/types";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASONS,
+  getReportTargetLabel,
+} from "@/lib/utils/report";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { cn } from "@/lib/supabase/utils";
+
+/**
+ * 신고 다이얼로그
+ *
+ * 게시물/댓글/계정 신고 (POST /api/reports)
+ * - 신고 사유 선택 (필수) + 상세 설명 (선택)
+ * - 이미 신고한 대상(409)은 안내 토스트 표시
+ * - 접수되면 다이얼로그를 닫고 완료 토스트 표시
+ */
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReportDialog({
+  targetType,
+  targetId,
+  open,
+  onOpenChange,
+}: ReportDialogProps) {
+  const { showToast } = useToast();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const targetLabel = getReportTargetLabel(targetType);
+
+  // 다이얼로그를 열 때마다 입력 초기화
+  useEffect(() => {
+    if (!open) return;
+
+    setReason(null);
+    setDetails("");
+  }, [open]);
+
+  // 신고 접수
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isSubmitting || !reason) return;
+
+    setIsSubmitting(true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch("/api/reports", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            target_type: targetType,
+            target_id: targetId,
+            reason,
+            details: details.trim() || undefined,
+          }),
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "ReportDialog.handleSubmit");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "ReportDialog.handleSubmit");
+        showToast(errorInfo.message, response.status === 409 ? "info" : "error");
+        return;
+      }
+
+      showToast("신고가 접수되었습니다. 검토 후 조치하겠습니다.", "success");
+      onOpenChange(false);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "ReportDialog.handleSubmit");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{targetLabel} 신고</DialogTitle>
+          <DialogDescription>
+            이 {targetLabel}을(를) 신고하는 이유를 선택해주세요. 신고자 정보는
+            상대에게 공개되지 않습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div role="radiogroup" aria-label="신고 사유" className="space-y-1">
+            {REPORT_REASONS.map((item) => (
+              <button
+                key={item.value}
+                type="button"
+                role="radio"
+                aria-checked={reason === item.value}
+                onClick={() => setReason(item.value)}
+                disabled={isSubmitting}
+                className={cn(
+                  "w-full text-left px-3 py-2 text-sm rounded-md border transition-colors",
+                  reason === item.value
+                    ? "border-blue-500 bg-blue-50 text-blue-700 font-semibold"
+                    : "border-transparent hover:bg-gray-100",
+                )}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="상세 설명 (선택)"
+              rows={3}
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              className="resize-none"
+              disabled={isSubmitting}
+              aria-label="상세 설명"
+            />
+            <p className="text-xs text-gray-500 text-right mt-1">
+              {details.length} / {MAX_REPORT_DETAILS_LENGTH}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              variant="destructive"
+              className="w-full"
+              disabled={isSubmitting || !reason}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  신고 중...
+                </>
+              ) : (
+                "신고하기"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
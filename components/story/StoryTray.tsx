@@ -0,0 +1,284 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import Image from "next/image";
+import { useUser } from "@clerk/nextjs";
+import { Loader2, Plus } from "lucide-react";
+import { useToast } from "@/components/ui/toast";
+import { StoryTrayItem } from "@/lib/types";
+import { MAX_POST_IMAGE_SIZE } from "@/lib/utils/post";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { cn } from "@/lib/utils";
+import { StoryViewer } from "./StoryViewer";
+
+/**
+ * 홈 피드 스토리 트레이
+ *
+ * PostFeed 위에 가로 스크롤로 표시 (로그인 사용자 전용)
+ * - 첫 항목은 "내 스토리" (+ 버튼으로 새 스토리 업로드)
+ * - 안 본 스토리가 있는 사용자는 그라데이션 테두리, 모두 본 사용자는 회색 테두리
+ * - 사용자를 누르면 전체 화면 StoryViewer 표시
+ */
+export function StoryTray() {
+  const { user, isLoaded } = useUser();
+  const { showToast } = useToast();
+  const [tray, setTray] = useState<StoryTrayItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 스토리 트레이 조회
+  const fetchTray = useCallback(async () => {
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch("/api/stories");
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "StoryTray.fetchTray");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "StoryTray.fetchTray");
+        return;
+      }
+
+      const data = await response.json();
+      setTray(data.data || []);
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "StoryTray.fetchTray");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded && user) {
+      fetchTray();
+    }
+  }, [isLoaded, user, fetchTray]);
+
+  // 스토리 업로드
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      showToast("이미지 파일만 선택할 수 있습니다.", "error");
+      return;
+    }
+
+    if (file.size > MAX_POST_IMAGE_SIZE) {
+      showToast("파일 크기는 5MB 이하여야 합니다.", "error");
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      let response: Response | null = null;
+      try {
+        response = await fetch("/api/stories", {
+          method: "POST",
+          body: formData,
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "StoryTray.handleFileSelect");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "StoryTray.handleFileSelect");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      showToast("스토리를 공유했습니다.", "success");
+      await fetchTray();
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "StoryTray.handleFileSelect");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // 스토리를 보면 트레이의 안 본 표시 갱신 (뷰어를 닫아도 순서는 유지)
+  const handleStorySeen = useCallback((userId: string, storyId: string) => {
+    setTray((prev) =>
+      prev.map((item) => {
+        if (item.user_id !== userId) return item;
+
+        const stories = item.stories.map((story) =>
+          story.id === storyId ? { ...story, isSeen: true } : story,
+        );
+        return {
+          ...item,
+          stories,
+          hasUnseen: stories.some((story) => !story.isSeen),
+        };
+      }),
+    );
+  }, []);
+
+  // 본인 스토리 삭제 후 트레이 다시 조회
+  const handleStoryDeleted = useCallback(() => {
+    fetchTray();
+  }, [fetchTray]);
+
+  const handleViewerClose = useCallback(() => {
+    setViewerIndex(null);
+  }, []);
+
+  if (!isLoaded || !user) {
+    return null;
+  }
+
+  const ownItem = tray.find((item) => item.isOwn);
+  const otherItems = tray.filter((item) => !item.isOwn);
+
+  return (
+    <section
+      aria-label="스토리"
+      className="mb-4 bg-white border border-border rounded-lg"
+    >
+      <ul className="flex gap-4 px-4 py-3 overflow-x-auto">
+        {/* 내 스토리 */}
+        <li className="flex-shrink-0">
+          <div className="relative w-16 flex flex-col items-center gap-1">
+            <button
+              type="button"
+              onClick={() =>
+                ownItem
+                  ? setViewerIndex(tray.indexOf(ownItem))
+                  : fileInputRef.current?.click()
+              }
+              disabled={isUploading}
+              aria-label={ownItem ? "내 스토리 보기" : "스토리 추가"}
+              className={cn(
+                "rounded-full p-[2px]",
+                ownItem ? "bg-gray-300" : "bg-transparent",
+              )}
+            >
+              <span className="relative block w-14 h-14 rounded-full border-2 border-white bg-gray-400 overflow-hidden">
+                {(ownItem?.avatar_url || user.imageUrl) && (
+                  <Image
+                    src={ownItem?.avatar_url || user.imageUrl}
+                    alt="내 스토리"
+                    fill
+                    className="object-cover"
+                    sizes="56px"
+                  />
+                )}
+                {isUploading && (
+                  <span className="absolute inset-0 flex items-center justify-center bg-black/40">
+                    <Loader2 className="w-5 h-5 text-white animate-spin" />
+                  </span>
+                )}
+              </span>
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              aria-label="스토리 추가"
+              className="absolute top-10 right-0 w-5 h-5 rounded-full bg-blue-500 border-2 border-white flex items-center justify-center disabled:opacity-50"
+            >
+              <Plus className="w-3 h-3 text-white" strokeWidth={3} />
+            </button>
+            <span className="w-full text-xs text-center text-gray-500 truncate">
+              내 스토리
+            </span>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+        </li>
+
+        {/* 팔로우한 사용자의 스토리 */}
+        {isLoading
+          ? Array.from({ length: 4 }).map((_, index) => (
+              <li
+                key={index}
+                className="flex-shrink-0 w-16 flex flex-col items-center gap-1"
+              >
+                <div className="w-[60px] h-[60px] rounded-full bg-gray-200 animate-pulse" />
+                <div className="h-2 w-12 rounded bg-gray-200 animate-pulse" />
+              </li>
+            ))
+          : otherItems.map((item) => (
+              <li key={item.user_id} className="flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => setViewerIndex(tray.indexOf(item))}
+                  aria-label={`${item.username}님의 스토리 보기`}
+                  className="w-16 flex flex-col items-center gap-1"
+                >
+                  <span
+                    className={cn(
+                      "rounded-full p-[2px]",
+                      item.hasUnseen
+                        ? "bg-gradient-to-tr from-yellow-400 via-red-500 to-purple-600"
+                        : "bg-gray-300",
+                    )}
+                  >
+                    <span className="relative w-14 h-14 rounded-full border-2 border-white bg-gray-400 overflow-hidden flex items-center justify-center">
+                      {item.avatar_url ? (
+                        <Image
+                          src={item.avatar_url}
+                          alt={item.username}
+                          fill
+                          className="object-cover"
+                          sizes="56px"
+                        />
+                      ) : (
+                        <span className="text-lg text-white font-semibold">
+                          {item.name.charAt(0).toUpperCase()}
+                        </span>
+                      )}
+                    </span>
+                  </span>
+                  <span
+                    className={cn(
+                      "w-full text-xs text-center truncate",
+                      item.hasUnseen ? "text-black" : "text-gray-500",
+                    )}
+                  >
+                    {item.username}
+                  </span>
+                </button>
+              </li>
+            ))}
+      </ul>
+
+      {/* 전체 화면 스토리 뷰어 */}
+      {viewerIndex !== null && (
+        <StoryViewer
+          tray={tray}
+          initialUserIndex={viewerIndex}
+          onClose={handleViewerClose}
+          onStorySeen={handleStorySeen}
+          onStoryDeleted={handleStoryDeleted}
+        />
+      )}
+    </section>
+  );
+}
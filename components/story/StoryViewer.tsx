@@ -0,0 +1,369 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Eye, Trash2, X } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/toast";
+import { PostImage } from "@/components/post/PostImage";
+import { StoryTrayItem } from "@/lib/types";
+import { getProfilePath } from "@/lib/utils/profile";
+import { STORY_DURATION_MS, getStoryTimeLabel } from "@/lib/utils/story";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+import { StoryViewersPanel } from "./StoryViewersPanel";
+
+/**
+ * 스토리 전체 화면 뷰어
+ *
+ * StoryTray에서 사용자를 누르면 표시
+ * - 상단 진행 막대 (스토리 1장당 5초, 지나면 자동으로 다음 스토리)
+ * - 화면 왼쪽 1/3 탭: 이전 스토리, 나머지 탭: 다음 스토리 (키보드 ←/→, Esc도 지원)
+ * - 사용자의 마지막 스토리 다음은 트레이의 다음 사용자, 마지막 사용자면 닫기
+ * - 처음 보는 스토리는 조회 기록 (POST /api/stories/[storyId]/views)
+ * - 본인 스토리: 조회자 목록, 삭제
+ * - 누르고 있거나 조회자 목록/삭제 확인이 열려 있으면 일시 정지
+ */
+interface StoryViewerProps {
+  tray: StoryTrayItem[];
+  initialUserIndex: number;
+  onClose: () => void;
+  onStorySeen: (userId: string, storyId: string) => void;
+  onStoryDeleted: (userId: string, storyId: string) => void;
+}
+
+/** 안 본 스토리부터 재생 (모두 봤으면 처음부터) */
+const getStartIndex = (item: StoryTrayItem | undefined) => {
+  const index = item?.stories.findIndex((story) => !story.isSeen) ?? -1;
+  return index === -1 ? 0 : index;
+};
+
+export function StoryViewer({
+  tray,
+  initialUserIndex,
+  onClose,
+  onStorySeen,
+  onStoryDeleted,
+}: StoryViewerProps) {
+  const { showToast } = useToast();
+  const [userIndex, setUserIndex] = useState(initialUserIndex);
+  const [storyIndex, setStoryIndex] = useState(() =>
+    getStartIndex(tray[initialUserIndex]),
+  );
+  const [progress, setProgress] = useState(0);
+  const [isHolding, setIsHolding] = useState(false);
+  const [isViewersOpen, setIsViewersOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const elapsedRef = useRef(0);
+
+  const item = tray[userIndex];
+  const story = item?.stories[storyIndex];
+  const isPaused = isHolding || isViewersOpen || isDeleteDialogOpen;
+
+  // 다음 스토리 (사용자의 마지막 스토리면 다음 사용자, 없으면 닫기)
+  const goNext = useCallback(() => {
+    if (!item) return;
+
+    if (storyIndex < item.stories.length - 1) {
+      setStoryIndex(storyIndex + 1);
+    } else if (userIndex < tray.length - 1) {
+      setUserIndex(userIndex + 1);
+      setStoryIndex(getStartIndex(tray[userIndex + 1]));
+    } else {
+      onClose();
+    }
+  }, [item, storyIndex, userIndex, tray, onClose]);
+
+  // 이전 스토리 (사용자의 첫 스토리면 이전 사용자)
+  const goPrevious = useCallback(() => {
+    if (storyIndex > 0) {
+      setStoryIndex(storyIndex - 1);
+    } else if (userIndex > 0) {
+      setUserIndex(userIndex - 1);
+      setStoryIndex(0);
+    } else {
+      // 첫 스토리면 처음부터 다시 재생
+      elapsedRef.current = 0;
+      setProgress(0);
+    }
+  }, [storyIndex, userIndex]);
+
+  // 최신 스토리/핸들러 유지 (조회 기록은 스토리 ID가 바뀔 때만 실행)
+  const currentRef = useRef({ item, story, onStorySeen });
+  useEffect(() => {
+    currentRef.current = { item, story, onStorySeen };
+  });
+
+  // 스토리가 바뀌면 진행률 초기화 + 처음 보는 스토리 조회 기록
+  const storyId = story?.id;
+  useEffect(() => {
+    elapsedRef.current = 0;
+    setProgress(0);
+
+    const { item, story, onStorySeen } = currentRef.current;
+    if (!item || !story || item.isOwn || story.isSeen) return;
+
+    onStorySeen(item.user_id, story.id);
+    fetch(`/api/stories/${story.id}/views`, { method: "POST" }).catch(
+      async (err) => {
+        // 조회 기록 실패는 재생에 영향 없음
+        const errorInfo = await handleFetchError(null, err);
+        logError(errorInfo, "StoryViewer.recordView");
+      },
+    );
+  }, [storyId]);
+
+  // 재생 타이머 (일시 정지 중에는 멈춤)
+  useEffect(() => {
+    if (isPaused || !story) return;
+
+    let frameId: number;
+    let lastTime = performance.now();
+
+    const tick = (now: number) => {
+      elapsedRef.current += now - lastTime;
+      lastTime = now;
+
+      if (elapsedRef.current >= STORY_DURATION_MS) {
+        goNext();
+        return;
+      }
+
+      setProgress(elapsedRef.current / STORY_DURATION_MS);
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPaused, story, goNext]);
+
+  // 키보드 조작
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isViewersOpen || isDeleteDialogOpen) return;
+
+      if (e.key === "ArrowRight") goNext();
+      else if (e.key === "ArrowLeft") goPrevious();
+      else if (e.key === "Escape") onClose();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [goNext, goPrevious, onClose, isViewersOpen, isDeleteDialogOpen]);
+
+  // 탭 위치에 따라 이전/다음 이동
+  const handleTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    if (e.clientX - left < width / 3) {
+      goPrevious();
+    } else {
+      goNext();
+    }
+  };
+
+  // 본인 스토리 삭제
+  const handleDelete = async () => {
+    if (!item || !story || isDeleting) return;
+
+    setIsDeleting(true);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await fetch(`/api/stories/${story.id}`, {
+          method: "DELETE",
+        });
+      } catch (fetchErr) {
+        const errorInfo = await handleFetchError(null, fetchErr);
+        logError(errorInfo, "StoryViewer.handleDelete");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const errorInfo = await handleFetchError(response, null);
+        logError(errorInfo, "StoryViewer.handleDelete");
+        showToast(errorInfo.message, "error");
+        return;
+      }
+
+      showToast("스토리를 삭제했습니다.", "success");
+      setIsDeleteDialogOpen(false);
+      onStoryDeleted(item.user_id, story.id);
+      onClose();
+    } catch (err) {
+      const errorInfo = await handleFetchError(null, err);
+      logError(errorInfo, "StoryViewer.handleDelete");
+      showToast(errorInfo.message, "error");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!item || !story) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black flex items-center justify-center"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${item.username}님의 스토리`}
+    >
+      <div className="relative w-full h-full md:max-w-[420px] md:h-[90vh] md:rounded-lg overflow-hidden bg-gray-900">
+        {/* 스토리 이미지 (탭으로 이전/다음, 누르고 있으면 일시 정지) */}
+        <div
+          className="absolute inset-0 select-none"
+          onClick={handleTap}
+          onPointerDown={() => setIsHolding(true)}
+          onPointerUp={() => setIsHolding(false)}
+          onPointerLeave={() => setIsHolding(false)}
+        >
+          <PostImage
+            key={story.id}
+            image={{
+              url: story.image_url,
+              width: story.width,
+              height: story.height,
+              blurhash: story.blurhash,
+              variants: [],
+            }}
+            alt={`${item.username}님의 스토리`}
+            className="object-contain"
+            sizes="(max-width: 768px) 100vw, 420px"
+            priority
+          />
+        </div>
+
+        {/* 진행 막대 */}
+        <div className="absolute top-2 inset-x-2 flex gap-1 z-10 pointer-events-none">
+          {item.stories.map((itemStory, index) => (
+            <div
+              key={itemStory.id}
+              className="flex-1 h-0.5 rounded-full bg-white/30 overflow-hidden"
+            >
+              <div
+                className="h-full bg-white"
+                style={{
+                  width: `${
+                    index < storyIndex
+                      ? 100
+                      : index === storyIndex
+                        ? progress * 100
+                        : 0
+                  }%`,
+                }}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* 헤더: 작성자 + 작성 시간 + 닫기 */}
+        <div className="absolute top-5 inset-x-0 px-3 flex items-center gap-2 z-10">
+          <Link
+            href={getProfilePath(item.username)}
+            className="flex items-center gap-2 min-w-0"
+          >
+            <span className="relative w-8 h-8 flex-shrink-0 rounded-full bg-gray-400 overflow-hidden flex items-center justify-center">
+              {item.avatar_url ? (
+                <Image
+                  src={item.avatar_url}
+                  alt={item.username}
+                  fill
+                  className="object-cover"
+                  sizes="32px"
+                />
+              ) : (
+                <span className="text-xs text-white font-semibold">
+                  {item.name.charAt(0).toUpperCase()}
+                </span>
+              )}
+            </span>
+            <span className="text-sm font-semibold text-white truncate drop-shadow">
+              {item.username}
+            </span>
+          </Link>
+          <span className="text-xs text-white/70 drop-shadow">
+            {getStoryTimeLabel(story.created_at)}
+          </span>
+
+          <div className="ml-auto flex items-center gap-1">
+            {item.isOwn && (
+              <button
+                type="button"
+                onClick={() => setIsDeleteDialogOpen(true)}
+                aria-label="스토리 삭제"
+                className="p-1.5 text-white hover:text-white/70"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              aria-label="스토리 닫기"
+              className="p-1.5 text-white hover:text-white/70"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* 본인 스토리: 조회자 목록 */}
+        {item.isOwn && !isViewersOpen && (
+          <button
+            type="button"
+            onClick={() => setIsViewersOpen(true)}
+            className="absolute bottom-4 left-4 z-10 flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-black/50 text-white text-sm font-semibold hover:bg-black/70"
+          >
+            <Eye className="w-4 h-4" />
+            조회자
+          </button>
+        )}
+        {isViewersOpen && (
+          <StoryViewersPanel
+            storyId={story.id}
+            onClose={() => setIsViewersOpen(false)}
+          />
+        )}
+      </div>
+
+      {/* 삭제 확인 다이얼로그 */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>스토리 삭제</AlertDialogTitle>
+            <AlertDialogDescription>
+              이 스토리를 삭제하시겠습니까? 삭제된 스토리는 복구할 수 없습니다.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>취소</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                // 요청이 끝난 뒤 다이얼로그를 닫기 위해 기본 닫힘 동작 방지
+                event.preventDefault();
+                handleDelete();
+              }}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {isDeleting ? "삭제 중..." : "삭제"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
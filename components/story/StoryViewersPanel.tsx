@@ -0,0 +1,155 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Eye, X } from "lucide-react";
+import { StoryViewer } from "@/lib/types";
+import { getProfilePath } from "@/lib/utils/profile";
+import { getStoryTimeLabel } from "@/lib/utils/story";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+
+/**
+ * 스토리 조회자 목록 패널
+ *
+ * StoryViewer에서 본인 스토리의 "조회자"를 누르면 하단에 표시
+ * - GET /api/stories/[storyId]/views (작성자 전용, 최근 순)
+ * - 조회자 프로필로 이동 가능
+ */
+interface StoryViewersPanelProps {
+  storyId: string;
+  onClose: () => void;
+}
+
+export function StoryViewersPanel({ storyId, onClose }: StoryViewersPanelProps) {
+  const [viewers, setViewers] = useState<StoryViewer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 조회자 목록 조회
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchViewers = async () => {
+      setIsLoading(true);
+
+      try {
+        let response: Response | null = null;
+        try {
+          response = await fetch(`/api/stories/${storyId}/views`);
+        } catch (fetchErr) {
+          const errorInfo = await handleFetchError(null, fetchErr);
+          logError(errorInfo, "StoryViewersPanel.fetchViewers");
+          if (!cancelled) setError(errorInfo.message);
+          return;
+        }
+
+        if (!response.ok) {
+          const errorInfo = await handleFetchError(response, null);
+          logError(errorInfo, "StoryViewersPanel.fetchViewers");
+          if (!cancelled) setError(errorInfo.message);
+          return;
+        }
+
+        const data = await response.json();
+        if (!cancelled) {
+          setViewers(data.data || []);
+          setError(null);
+        }
+      } catch (err) {
+        const errorInfo = await handleFetchError(null, err);
+        logError(errorInfo, "StoryViewersPanel.fetchViewers");
+        if (!cancelled) setError(errorInfo.message);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchViewers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId]);
+
+  return (
+    <div
+      className="absolute inset-x-0 bottom-0 max-h-[60%] flex flex-col bg-white rounded-t-2xl z-20"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* 헤더 */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <p className="flex items-center gap-2 text-sm font-semibold">
+          <Eye className="w-4 h-4" />
+          조회 {isLoading ? "" : `${viewers.length}명`}
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="조회자 목록 닫기"
+          className="p-1 text-gray-500 hover:text-black"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* 목록 */}
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="p-4 space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-full bg-gray-200 animate-pulse" />
+                <div className="h-3 w-24 rounded bg-gray-200 animate-pulse" />
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <p className="p-6 text-center text-sm text-red-600">{error}</p>
+        ) : viewers.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">
+            아직 이 스토리를 본 사람이 없습니다
+          </p>
+        ) : (
+          <ul>
+            {viewers.map((viewer) => (
+              <li key={viewer.user_id}>
+                <Link
+                  href={getProfilePath(viewer.username)}
+                  className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                >
+                  <span className="relative w-10 h-10 flex-shrink-0 rounded-full bg-gray-400 overflow-hidden flex items-center justify-center">
+                    {viewer.avatar_url ? (
+                      <Image
+                        src={viewer.avatar_url}
+                        alt={viewer.username}
+                        fill
+                        className="object-cover"
+                        sizes="40px"
+                      />
+                    ) : (
+                      <span className="text-sm text-white font-semibold">
+                        {viewer.name.charAt(0).toUpperCase()}
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-semibold truncate">
+                      {viewer.username}
+                    </span>
+                    <span className="block text-xs text-gray-500 truncate">
+                      {viewer.name}
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {getStoryTimeLabel(viewer.viewed_at)}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
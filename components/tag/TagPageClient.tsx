@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Hash } from "lucide-react";
+import { PostGrid } from "@/components/profile/PostGrid";
+import { PostModal } from "@/components/post/PostModal";
+
+/**
+ * 해시태그 페이지 클라이언트 컴포넌트
+ *
+ * 태그 헤더 + 게시물 그리드 + 게시물 상세 모달
+ */
+
+interface TagPageClientProps {
+  tag: string;
+  postsCount: number;
+}
+
+export function TagPageClient({ tag, postsCount }: TagPageClientProps) {
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 태그 헤더 */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="max-w-[975px] mx-auto px-4 py-8 flex items-center gap-8 md:gap-16">
+          <div className="w-24 h-24 md:w-40 md:h-40 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+            <Hash className="w-10 h-10 md:w-16 md:h-16 text-gray-500" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-xl md:text-2xl font-light text-gray-900 truncate mb-2">
+              #{tag}
+            </h1>
+            <p className="text-gray-600">
+              게시물{" "}
+              <span className="font-semibold text-gray-900">
+                {postsCount.toLocaleString()}
+              </span>
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* 게시물 그리드 */}
+      <div className="max-w-[975px] mx-auto px-4 py-8">
+        <PostGrid tag={tag} onPostClick={setSelectedPostId} />
+      </div>
+
+      {/* 게시물 상세 모달 */}
+      {selectedPostId && (
+        <PostModal
+          postId={selectedPostId}
+          isOpen={selectedPostId !== null}
+          onClose={() => setSelectedPostId(null)}
+          onPrevious={undefined}
+          onNext={undefined}
+          hasPrevious={false}
+          hasNext={false}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { createApiClient } from "@/lib/api-client";
+
+/**
+ * 컴포넌트 언마운트 시 진행 중인 요청을 취소하는 API 클라이언트 훅
+ *
+ * 반환된 클라이언트의 모든 요청은 컴포넌트 단위 AbortSignal을 사용하며,
+ * 언마운트되면 error.type이 "ABORTED"인 결과로 끝나므로 상태 업데이트 없이 무시하면 됩니다.
+ * 특정 요청만 먼저 취소하려면 호출 시 options.signal을 직접 전달합니다.
+ *
+ * @example
+ * const api = useApiClient();
+ * const { data, error } = await api.posts.get(postId);
+ * if (error?.type === "ABORTED") return;
+ */
+export function useApiClient() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // StrictMode에서 재마운트될 때도 새 컨트롤러로 다시 시작
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    return () => {
+      controller.abort();
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    };
+  }, []);
+
+  return useMemo(
+    () => createApiClient(() => controllerRef.current?.signal),
+    [],
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useEffect, useCallback, RefObject } from "react";
+import { getActiveMention } from "@/lib/utils/mention";
+import { api } from "@/lib/api-client";
+
+/**
+ * @멘션 자동완성 훅
+ *
+ * 입력창에서 "@이름"을 입력하면 /api/users/search로 사용자를 검색하고,
+ * 선택한 사용자 이름으로 입력 중인 멘션을 교체합니다.
+ * (CreatePostModal 캡션, CommentForm 댓글 입력에서 사용)
+ *
+ * @example
+ * ```tsx
+ * const mention = useMentionAutocomplete({
+ *   value: content,
+ *   onChange: setContent,
+ *   inputRef: textareaRef,
+ * });
+ *
+ * <textarea
+ *   ref={textareaRef}
+ *   onChange={(e) => {
+ *     setContent(e.target.value);
+ *     mention.updateMention(e.target);
+ *   }}
+ *   onKeyDown={(e) => {
+ *     if (mention.handleKeyDown(e)) return;
+ *   }}
+ * />
+ * <MentionSuggestions {...mention} />
+ * ```
+ */
+
+/** 자동완성 후보 사용자 */
+export interface MentionSuggestion {
+  id: string;
+  username: string;
+  name: string;
+  avatar_url: string | null;
+}
+
+interface UseMentionAutocompleteOptions {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef: RefObject<HTMLInputElement | HTMLTextAreaElement | null>;
+}
+
+const MAX_SUGGESTIONS = 6;
+const SEARCH_DEBOUNCE_MS = 200;
+
+export function useMentionAutocomplete({
+  value,
+  onChange,
+  inputRef,
+}: UseMentionAutocompleteOptions) {
+  const [mention, setMention] = useState<{
+    start: number;
+    query: string;
+  } | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const query = mention?.query ?? "";
+
+  // 커서 위치 기준으로 입력 중인 멘션 갱신 (onChange, onClick 등에서 호출)
+  const updateMention = useCallback(
+    (element: HTMLInputElement | HTMLTextAreaElement) => {
+      const caret = element.selectionStart ?? element.value.length;
+      setMention(getActiveMention(element.value, caret));
+    },
+    [],
+  );
+
+  // 자동완성 닫기
+  const close = useCallback(() => {
+    setMention(null);
+    setSuggestions([]);
+  }, []);
+
+  // 검색어 변경 시 디바운스 검색
+  useEffect(() => {
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const { data, error } = await api.users.search(query, {
+        signal: controller.signal,
+        context: "useMentionAutocomplete.search",
+      });
+
+      // 입력이 바뀌어 취소된 요청은 무시
+      if (error?.type === "ABORTED") return;
+
+      if (error) {
+        setSuggestions([]);
+        return;
+      }
+
+      setSuggestions((data.data || []).slice(0, MAX_SUGGESTIONS));
+      setActiveIndex(0);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // 후보 선택: 입력 중인 "@검색어"를 "@username "으로 교체
+  const selectSuggestion = useCallback(
+    (username: string) => {
+      if (!mention) return;
+
+      const end = mention.start + 1 + mention.query.length;
+      const inserted = `@${username} `;
+      onChange(value.slice(0, mention.start) + inserted + value.slice(end));
+      close();
+
+      // 교체한 멘션 뒤로 커서 이동
+      const position = mention.start + inserted.length;
+      requestAnimationFrame(() => {
+        const element = inputRef.current;
+        if (element) {
+          element.focus();
+          element.setSelectionRange(position, position);
+        }
+      });
+    },
+    [mention, value, onChange, close, inputRef],
+  );
+
+  // 키보드 탐색 (처리한 경우 true 반환 → 입력창의 기본 동작 생략)
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (suggestions.length === 0) {
+        return false;
+      }
+
+      switch (e.key) {
+        case "ArrowDown":
+          e.preventDefault();
+          setActiveIndex((prev) => (prev + 1) % suggestions.length);
+          return true;
+        case "ArrowUp":
+          e.preventDefault();
+          setActiveIndex(
+            (prev) => (prev - 1 + suggestions.length) % suggestions.length,
+          );
+          return true;
+        case "Enter":
+        case "Tab":
+          e.preventDefault();
+          selectSuggestion(suggestions[activeIndex].username);
+          return true;
+        case "Escape":
+          e.preventDefault();
+          close();
+          return true;
+        default:
+          return false;
+      }
+    },
+    [suggestions, activeIndex, selectSuggestion, close],
+  );
+
+  return {
+    suggestions,
+    activeIndex,
+    updateMention,
+    selectSuggestion,
+    handleKeyDown,
+    close,
+  };
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import { useAuth } from "@clerk/nextjs";
+import {
+  getPostCacheState,
+  getServerPostCacheState,
+  resetPostCache,
+  subscribePostCache,
+  upsertPosts,
+} from "@/lib/post-cache";
+import { CommentWithUser, PostWithUser } from "@/lib/types";
+
+/**
+ * 게시물/댓글 캐시 구독 훅 (lib/post-cache.ts)
+ *
+ * 화면은 서버에서 받은 목록(순서, 페이지네이션)을 그대로 관리하고,
+ * 이 훅으로 캐시에 있는 최신 게시물 내용을 덮어써서 렌더링합니다.
+ * 다른 화면에서 좋아요/댓글/캡션을 바꾸면 같은 게시물을 보여주는 모든 화면에 반영됩니다.
+ *
+ * @example
+ * ```tsx
+ * const [posts, setPosts] = useState<PostWithUser[]>([]);
+ * const cachedPosts = useCachedPosts(posts);
+ *
+ * // 조회 후
+ * upsertPosts(data.data);
+ * setPosts(data.data);
+ * ```
+ */
+
+function usePostCacheState() {
+  return useSyncExternalStore(
+    subscribePostCache,
+    getPostCacheState,
+    getServerPostCacheState,
+  );
+}
+
+/**
+ * 목록의 게시물을 캐시 내용으로 바꿔서 반환 (삭제/뮤트/차단된 게시물 제외)
+ *
+ * 캐시에 아직 없는 게시물(서버 렌더링 초기 데이터 등)은 전달받은 값을 그대로 사용하고,
+ * 마운트 시 캐시에 저장합니다.
+ */
+export function useCachedPosts(posts: PostWithUser[]): PostWithUser[] {
+  const { posts: cachedPosts, removedPostIds } = usePostCacheState();
+
+  // 초기 데이터(서버 렌더링 등)를 캐시에 저장
+  useEffect(() => {
+    const uncachedPosts = posts.filter(
+      (post) => !getPostCacheState().posts[post.post_id],
+    );
+    upsertPosts(uncachedPosts);
+  }, [posts]);
+
+  return useMemo(
+    () =>
+      posts
+        .filter((post) => !removedPostIds[post.post_id])
+        .map((post) => cachedPosts[post.post_id] ?? post),
+    [posts, cachedPosts, removedPostIds],
+  );
+}
+
+/**
+ * 게시물 하나를 캐시에서 조회 (없거나 삭제된 경우 null)
+ */
+export function useCachedPost(postId: string | null): PostWithUser | null {
+  const { posts, removedPostIds } = usePostCacheState();
+
+  if (!postId || removedPostIds[postId]) return null;
+  return posts[postId] ?? null;
+}
+
+/**
+ * 게시물의 전체 댓글 목록 조회 (상세 모달에서 setPostComments로 불러온 경우)
+ */
+export function usePostComments(postId: string | null): CommentWithUser[] {
+  const { comments, postComments } = usePostCacheState();
+  const commentIds = postId ? postComments[postId] : undefined;
+
+  return useMemo(
+    () =>
+      (commentIds ?? [])
+        .map((id) => comments[id])
+        .filter((comment): comment is CommentWithUser => !!comment),
+    [commentIds, comments],
+  );
+}
+
+/**
+ * 로그인한 사용자가 바뀌면(로그아웃, 계정 전환) 캐시 비우기
+ *
+ * 캐시는 모듈 전역이므로 이전 계정의 좋아요/저장 상태가 남지 않도록 RootLayout에서 한 번 사용합니다.
+ */
+export function useResetPostCacheOnUserChange() {
+  const { isLoaded, userId } = useAuth();
+  const userIdRef = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const currentUserId = userId ?? null;
+    if (
+      userIdRef.current !== undefined &&
+      userIdRef.current !== currentUserId
+    ) {
+      resetPostCache();
+    }
+    userIdRef.current = currentUserId;
+  }, [isLoaded, userId]);
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { RealtimeEvent, RealtimePayload } from "@/lib/types";
+
+/**
+ * Supabase Realtime 구독 훅 (postgres_changes)
+ *
+ * Clerk 세션 토큰을 사용하는 클라이언트(useClerkSupabaseClient)로 채널 하나를 열고,
+ * 여러 테이블의 변경 이벤트를 RealtimePayload 형식으로 전달합니다.
+ * - 컴포넌트마다 클라이언트(웹소켓)가 생기므로 목록 항목이 아닌 상위 컴포넌트에서 한 번만 사용
+ * - filter는 INSERT/UPDATE에만 적용됨 (DELETE는 Supabase에서 필터링 불가, payload.old로 직접 확인)
+ * - DELETE의 payload.old에 기본 키 외 컬럼이 필요하면 테이블에 REPLICA IDENTITY FULL 필요
+ *
+ * @returns 구독에 사용하는 Supabase 클라이언트 (같은 세션으로 추가 조회할 때 사용)
+ *
+ * @example
+ * ```tsx
+ * useRealtime<Like>(
+ *   `post:${postId}`,
+ *   [{ table: "likes", event: "INSERT", filter: `post_id=eq.${postId}` }],
+ *   () => refreshCounts(),
+ * );
+ * ```
+ */
+
+/**
+ * 구독할 테이블 변경 이벤트
+ */
+export interface RealtimeSubscription {
+  table: string;
+  event?: RealtimeEvent | "*"; // 기본값: "*"
+  filter?: string; // 예: "conversation_id=eq.<uuid>"
+}
+
+/** 빈 레코드({})는 null로 변환 (INSERT의 old, DELETE의 new) */
+function toRecord<T>(record: object): T | null {
+  return Object.keys(record).length > 0 ? (record as T) : null;
+}
+
+export function useRealtime<T = Record<string, unknown>>(
+  channelName: string,
+  subscriptions: RealtimeSubscription[],
+  onChange: (payload: RealtimePayload<T>) => void,
+  enabled = true,
+): SupabaseClient {
+  const supabase = useClerkSupabaseClient();
+
+  // 최신 핸들러 유지 (핸들러가 바뀌어도 다시 구독하지 않음)
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  // 구독 목록은 내용이 바뀔 때만 다시 구독
+  const subscriptionsKey = JSON.stringify(subscriptions);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const specs: RealtimeSubscription[] = JSON.parse(subscriptionsKey);
+    const channel = supabase.channel(channelName);
+
+    specs.forEach(({ table, event = "*", filter }) => {
+      channel.on(
+        "postgres_changes",
+        // 이벤트 종류별 오버로드를 하나로 처리하기 위해 "*"로 단언
+        { event: event as "*", schema: "public", table, filter },
+        (payload) => {
+          onChangeRef.current({
+            eventType: payload.eventType,
+            new: toRecord<T>(payload.new),
+            old: toRecord<T>(payload.old),
+            table: payload.table,
+          });
+        },
+      );
+    });
+
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, channelName, subscriptionsKey, enabled]);
+
+  return supabase;
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import * as tus from "tus-js-client";
+import { handleFetchError, logError } from "@/lib/utils/error-handler";
+
+/**
+ * 게시물 이미지 재개 가능(TUS) 업로드 훅
+ *
+ * 1. POST /api/posts/uploads로 이미지별 서명된 업로드 토큰 발급
+ * 2. Supabase Storage 재개 가능 업로드 엔드포인트로 직접 업로드 (실제 전송 바이트 기준 진행률)
+ * 3. 업로드 ID를 돌려주면 POST /api/posts { uploadId, caption }로 게시물 생성
+ *
+ * 네트워크 오류 등으로 실패한 뒤 같은 파일 목록으로 다시 호출하면
+ * 완료된 파일은 건너뛰고 나머지는 중단된 위치부터 이어서 업로드합니다.
+ *
+ * @example
+ * ```tsx
+ * const { uploadFiles, reset } = useResumableUpload();
+ *
+ * const uploadId = await uploadFiles(files, (ratio) => setProgress(ratio * 100));
+ * await api.posts.create({ uploadId, caption });
+ * reset();
+ * ```
+ */
+
+/** Supabase Storage 재개 가능 업로드 청크 크기 (Supabase 요구사항: 6MB) */
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+/** 자동 재시도 간격 (ms) */
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000];
+
+interface UploadItem {
+  upload: tus.Upload;
+  bytesUploaded: number;
+  isComplete: boolean;
+}
+
+interface UploadSession {
+  files: File[];
+  uploadId: string;
+  items: UploadItem[];
+}
+
+export function useResumableUpload() {
+  const sessionRef = useRef<UploadSession | null>(null);
+
+  // 진행 중인 업로드 중단 및 세션 초기화
+  const reset = useCallback(() => {
+    sessionRef.current?.items.forEach((item) => {
+      if (!item.isComplete) {
+        item.upload.abort();
+      }
+    });
+    sessionRef.current = null;
+  }, []);
+
+  // 언마운트 시 진행 중인 업로드 중단
+  useEffect(() => reset, [reset]);
+
+  const uploadFiles = useCallback(
+    async (
+      files: File[],
+      onProgress?: (ratio: number) => void,
+    ): Promise<string> => {
+      // 1. 같은 파일 목록의 이전 세션이 있으면 이어서 업로드, 없으면 새로 발급
+      const current = sessionRef.current;
+      const isSameFiles =
+        current !== null &&
+        current.files.length === files.length &&
+        current.files.every((file, index) => file === files[index]);
+
+      let session: UploadSession;
+      if (current && isSameFiles) {
+        session = current;
+      } else {
+        reset();
+        session = await createSession(files);
+        sessionRef.current = session;
+      }
+
+      // 2. 파일 전체 기준 진행률 계산
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      const reportProgress = () => {
+        const uploadedBytes = session.items.reduce(
+          (sum, item) => sum + item.bytesUploaded,
+          0,
+        );
+        onProgress?.(totalBytes > 0 ? uploadedBytes / totalBytes : 1);
+      };
+
+      // 3. 완료되지 않은 파일만 순서대로 업로드
+      reportProgress();
+      for (const item of session.items) {
+        if (item.isComplete) continue;
+
+        await startUpload(item, reportProgress);
+      }
+
+      return session.uploadId;
+    },
+    [reset],
+  );
+
+  return { uploadFiles, reset };
+}
+
+/**
+ * 업로드 토큰 발급 후 파일별 TUS 업로드 준비
+ */
+async function createSession(files: File[]): Promise<UploadSession> {
+  let response: Response | null = null;
+  try {
+    response = await fetch("/api/posts/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        files: files.map((file) => ({
+          name: file.name,
+          type: file.type,
+          size: file.size,
+        })),
+      }),
+    });
+  } catch (fetchErr) {
+    const errorInfo = await handleFetchError(null, fetchErr);
+    logError(errorInfo, "useResumableUpload.createSession");
+    throw new Error(errorInfo.message);
+  }
+
+  if (!response.ok) {
+    const errorInfo = await handleFetchError(response, null);
+    logError(errorInfo, "useResumableUpload.createSession");
+    throw new Error(errorInfo.message);
+  }
+
+  const data: {
+    uploadId: string;
+    uploads: { path: string; token: string }[];
+  } = await response.json();
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!.trim().replace(
+    /^["']|["']$/g,
+    "",
+  );
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!.trim().replace(
+    /^["']|["']$/g,
+    "",
+  );
+
+  const items = files.map((file, index) => {
+    const target = data.uploads[index];
+
+    return {
+      upload: new tus.Upload(file, {
+        // 서명된 업로드 URL용 재개 가능 업로드 엔드포인트 (x-signature 헤더로 인증)
+        endpoint: `${supabaseUrl}/storage/v1/upload/resumable/sign`,
+        headers: {
+          apikey: anonKey,
+          "x-signature": target.token,
+        },
+        metadata: {
+          bucketName: "uploads",
+          objectName: target.path,
+          contentType: file.type,
+          cacheControl: "3600",
+        },
+        chunkSize: CHUNK_SIZE,
+        retryDelays: RETRY_DELAYS,
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+      }),
+      bytesUploaded: 0,
+      isComplete: false,
+    };
+  });
+
+  return { files, uploadId: data.uploadId, items };
+}
+
+/**
+ * TUS 업로드 시작 (이전에 중단된 경우 서버의 오프셋부터 이어서 전송)
+ */
+function startUpload(
+  item: UploadItem,
+  onProgress: () => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    item.upload.options.onProgress = (bytesUploaded) => {
+      item.bytesUploaded = bytesUploaded;
+      onProgress();
+    };
+    item.upload.options.onSuccess = () => {
+      item.isComplete = true;
+      item.bytesUploaded = (item.upload.file as File).size;
+      onProgress();
+      resolve();
+    };
+    item.upload.options.onError = (error) => {
+      logError(
+        {
+          type: "NETWORK_ERROR",
+          message: "이미지 업로드에 실패했습니다.",
+          originalError: error,
+        },
+        "useResumableUpload.startUpload",
+      );
+      reject(
+        new Error(
+          "이미지 업로드에 실패했습니다. 다시 시도하면 이어서 업로드합니다.",
+        ),
+      );
+    };
+    item.upload.start();
+  });
+}
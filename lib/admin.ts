@@ -0,0 +1,28 @@
+import { currentUser } from "@clerk/nextjs/server";
+
+/**
+ * 관리자 권한 확인 헬퍼 (서버 전용)
+ *
+ * 관리자 여부는 Clerk 대시보드에서 사용자의 public metadata에
+ * `{ "role": "admin" }`을 지정하여 부여합니다.
+ *
+ * @example
+ * ```ts
+ * if (!(await isCurrentUserAdmin())) {
+ *   return createForbiddenResponse("관리자만 접근할 수 있습니다.");
+ * }
+ * ```
+ */
+
+/**
+ * 관리자 역할 이름 (Clerk public metadata의 role 값)
+ */
+export const ADMIN_ROLE = "admin";
+
+/**
+ * 현재 로그인한 사용자가 관리자인지 확인 (비로그인이면 false)
+ */
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  const user = await currentUser();
+  return user?.publicMetadata?.role === ADMIN_ROLE;
+}
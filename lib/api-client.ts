@@ -0,0 +1,425 @@
+import {
+  CommentWithUser,
+  Follow,
+  FollowRequest,
+  Post,
+  PostDetailResponse,
+  PostMedia,
+  PostsResponse,
+  ProfileResponse,
+  Timestamp,
+  UserSearchResult,
+  UserStats,
+  UUID,
+} from "@/lib/types";
+import {
+  ErrorInfo,
+  getUserFriendlyMessage,
+  handleFetchError,
+  isAbortError,
+  isNetworkError,
+  logError,
+} from "@/lib/utils/error-handler";
+
+/**
+ * 타입이 지정된 API 클라이언트
+ *
+ * 컴포넌트에서 직접 fetch('/api/...')를 호출하는 대신 사용합니다.
+ * - 응답은 lib/types.ts 타입으로 반환, 실패 시 throw 대신 ErrorInfo를 담은 결과 반환
+ * - 네트워크 에러(isNetworkError)는 지수 백오프로 재시도 (HTTP 에러 응답은 재시도하지 않음)
+ * - 여러 번 보내면 중복 생성되는 요청(게시물/댓글 작성)은 재시도하지 않음
+ * - AbortSignal로 취소된 요청은 type "ABORTED"로 반환하고 로그를 남기지 않음
+ * - 컴포넌트에서는 언마운트 시 요청을 취소하는 hooks/use-api-client.ts의 useApiClient 사용
+ */
+
+/** API 호출 결과 (성공 시 data, 실패 시 error) */
+export type ApiResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: ErrorInfo };
+
+/** 개별 요청 옵션 */
+export interface RequestOptions {
+  signal?: AbortSignal; // 지정하지 않으면 클라이언트 기본 signal 사용
+  context?: string; // 로그에 남길 호출 위치 (예: "PostFeed.fetchPosts")
+}
+
+interface RequestConfig extends RequestOptions {
+  method?: "GET" | "POST" | "PATCH" | "DELETE";
+  query?: Record<string, string | number | boolean | null | undefined>;
+  body?: unknown; // FormData는 그대로, 나머지는 JSON으로 전송
+  retries?: number; // 네트워크 에러 시 재시도 횟수
+}
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300; // 300ms, 600ms, 1200ms ...
+
+/** 게시물 작성 API 응답 */
+export interface CreatePostResponse {
+  success: boolean;
+  post: Post & { media: PostMedia[] };
+}
+
+/** 캡션 수정 API 응답 */
+export interface UpdateCaptionResponse {
+  success: boolean;
+  post: {
+    post_id: UUID;
+    caption: string | null;
+    created_at: Timestamp;
+    updated_at: Timestamp;
+  };
+}
+
+/** 댓글 좋아요 API 응답 */
+export interface CommentLikeResponse {
+  success: boolean;
+  likes_count: number;
+}
+
+/** 성공 여부만 반환하는 API 응답 */
+export interface SuccessResponse {
+  success: boolean;
+}
+
+function abortedError(error: unknown): ErrorInfo {
+  return {
+    type: "ABORTED",
+    message: getUserFriendlyMessage("ABORTED"),
+    originalError: error,
+  };
+}
+
+/**
+ * 재시도 대기 (대기 중 취소되면 AbortError)
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function buildUrl(path: string, query?: RequestConfig["query"]): string {
+  if (!query) return path;
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== null && value !== undefined && value !== "") {
+      params.append(key, String(value));
+    }
+  }
+
+  const queryString = params.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * API 요청 (네트워크 에러 시 재시도, 실패 시 ErrorInfo 반환)
+ */
+async function request<T>(
+  path: string,
+  {
+    method = "GET",
+    query,
+    body,
+    signal,
+    context,
+    retries = DEFAULT_RETRIES,
+  }: RequestConfig,
+): Promise<ApiResult<T>> {
+  const init: RequestInit = { method, signal };
+  if (body instanceof FormData) {
+    init.body = body;
+  } else if (body !== undefined) {
+    init.headers = { "Content-Type": "application/json" };
+    init.body = JSON.stringify(body);
+  }
+
+  const url = buildUrl(path, query);
+  let errorInfo: ErrorInfo;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (fetchErr) {
+      if (isAbortError(fetchErr)) {
+        return { data: null, error: abortedError(fetchErr) };
+      }
+
+      // 네트워크 에러는 백오프 후 재시도
+      if (isNetworkError(fetchErr) && attempt < retries) {
+        try {
+          await wait(RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+        } catch (abortErr) {
+          return { data: null, error: abortedError(abortErr) };
+        }
+        continue;
+      }
+
+      errorInfo = await handleFetchError(null, fetchErr);
+      break;
+    }
+
+    if (!response.ok) {
+      errorInfo = await handleFetchError(response, null);
+      break;
+    }
+
+    try {
+      return { data: (await response.json()) as T, error: null };
+    } catch (err) {
+      if (isAbortError(err)) {
+        return { data: null, error: abortedError(err) };
+      }
+      errorInfo = {
+        type: "UNKNOWN_ERROR",
+        message: getUserFriendlyMessage("UNKNOWN_ERROR"),
+        originalError: err,
+      };
+      break;
+    }
+  }
+
+  logError(errorInfo, context ?? `api ${method} ${path}`);
+  return { data: null, error: errorInfo };
+}
+
+/**
+ * API 클라이언트 생성
+ *
+ * @param getSignal 요청마다 기본으로 사용할 AbortSignal (useApiClient에서 언마운트 취소용으로 전달)
+ */
+export function createApiClient(getSignal?: () => AbortSignal | undefined) {
+  const call = <T>(path: string, config: RequestConfig = {}) =>
+    request<T>(path, { ...config, signal: config.signal ?? getSignal?.() });
+
+  return {
+    posts: {
+      /** 피드/사용자/해시태그 게시물 목록 (커서 기반) */
+      list: (
+        params: {
+          limit?: number;
+          cursor?: string | null;
+          userId?: string;
+          tag?: string;
+          feed?: "following";
+          includeTotal?: boolean;
+        } = {},
+        options?: RequestOptions,
+      ) => call<PostsResponse>("/api/posts", { ...options, query: params }),
+
+      /** 내가 저장한 게시물 목록 (collectionId로 컬렉션별 필터) */
+      listSaved: (
+        params: {
+          limit?: number;
+          cursor?: string | null;
+          collectionId?: string;
+        } = {},
+        options?: RequestOptions,
+      ) =>
+        call<PostsResponse>("/api/saves/user", { ...options, query: params }),
+
+      /** 게시물 상세 + 전체 댓글 */
+      get: (postId: string, options?: RequestOptions) =>
+        call<PostDetailResponse>(`/api/posts/${postId}`, options),
+
+      /** 게시물 작성 (업로드 완료된 uploadId 기준, 중복 생성 방지를 위해 재시도 없음) */
+      create: (
+        data: { uploadId: string; caption: string },
+        options?: RequestOptions,
+      ) =>
+        call<CreatePostResponse>("/api/posts", {
+          ...options,
+          method: "POST",
+          body: data,
+          retries: 0,
+        }),
+
+      /** 캡션 수정 */
+      updateCaption: (
+        postId: string,
+        caption: string,
+        options?: RequestOptions,
+      ) =>
+        call<UpdateCaptionResponse>(`/api/posts/${postId}`, {
+          ...options,
+          method: "PATCH",
+          body: { caption },
+        }),
+
+      /** 게시물 삭제 */
+      remove: (postId: string, options?: RequestOptions) =>
+        call<SuccessResponse>(`/api/posts/${postId}`, {
+          ...options,
+          method: "DELETE",
+        }),
+
+      /** 게시물 저장 (이미 저장됐으면 409이므로 재시도 없음) */
+      save: (postId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/saves", {
+          ...options,
+          method: "POST",
+          body: { post_id: postId },
+          retries: 0,
+        }),
+
+      /** 게시물 저장 취소 */
+      unsave: (postId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/saves", {
+          ...options,
+          method: "DELETE",
+          body: { post_id: postId },
+        }),
+    },
+
+    comments: {
+      /** 댓글/답글 작성 (중복 생성 방지를 위해 재시도 없음) */
+      create: (
+        data: { post_id: string; content: string; parent_id?: string | null },
+        options?: RequestOptions,
+      ) =>
+        call<CommentWithUser>("/api/comments", {
+          ...options,
+          method: "POST",
+          body: data,
+          retries: 0,
+        }),
+
+      /** 댓글 삭제 */
+      remove: (commentId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/comments", {
+          ...options,
+          method: "DELETE",
+          body: { comment_id: commentId },
+        }),
+
+      /** 댓글 좋아요 (응답의 likes_count로 최신 값 반영, 이미 좋아요했으면 409이므로 재시도 없음) */
+      like: (commentId: string, options?: RequestOptions) =>
+        call<CommentLikeResponse>("/api/comments/likes", {
+          ...options,
+          method: "POST",
+          body: { comment_id: commentId },
+          retries: 0,
+        }),
+
+      /** 댓글 좋아요 취소 */
+      unlike: (commentId: string, options?: RequestOptions) =>
+        call<CommentLikeResponse>("/api/comments/likes", {
+          ...options,
+          method: "DELETE",
+          body: { comment_id: commentId },
+        }),
+    },
+
+    likes: {
+      /** 게시물 좋아요 (이미 좋아요했으면 409이므로 재시도 없음) */
+      like: (postId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/likes", {
+          ...options,
+          method: "POST",
+          body: { post_id: postId },
+          retries: 0,
+        }),
+
+      /** 게시물 좋아요 취소 */
+      unlike: (postId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/likes", {
+          ...options,
+          method: "DELETE",
+          body: { post_id: postId },
+        }),
+
+      /** 내가 좋아요한 게시물 목록 (커서 기반) */
+      listMine: (
+        params: { limit?: number; cursor?: string | null } = {},
+        options?: RequestOptions,
+      ) =>
+        call<PostsResponse>("/api/likes/user", { ...options, query: params }),
+    },
+
+    follows: {
+      /** 팔로우 (비공개 계정이면 status "pending" 요청, 이미 팔로우 중이면 409이므로 재시도 없음) */
+      follow: (followingId: string, options?: RequestOptions) =>
+        call<{ success: boolean; follow: Follow }>("/api/follows", {
+          ...options,
+          method: "POST",
+          body: { following_id: followingId },
+          retries: 0,
+        }),
+
+      /** 언팔로우 (보낸 요청 취소 포함) */
+      unfollow: (followingId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/follows", {
+          ...options,
+          method: "DELETE",
+          body: { following_id: followingId },
+        }),
+
+      /** 받은 팔로우 요청 목록 */
+      listRequests: (options?: RequestOptions) =>
+        call<{ success: boolean; data: FollowRequest[] }>(
+          "/api/follows/requests",
+          options,
+        ),
+
+      /** 팔로우 요청 승인 */
+      approve: (followerId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/follows/requests", {
+          ...options,
+          method: "POST",
+          body: { follower_id: followerId },
+        }),
+
+      /** 팔로우 요청 거절 */
+      reject: (followerId: string, options?: RequestOptions) =>
+        call<SuccessResponse>("/api/follows/requests", {
+          ...options,
+          method: "DELETE",
+          body: { follower_id: followerId },
+        }),
+    },
+
+    users: {
+      /** 프로필 조회 (Clerk user ID 기준) */
+      get: (clerkId: string, options?: RequestOptions) =>
+        call<ProfileResponse>(`/api/users/${clerkId}`, options),
+
+      /** 프로필 수정 (FormData, username 중복 시 statusCode 409) */
+      updateProfile: (
+        clerkId: string,
+        formData: FormData,
+        options?: RequestOptions,
+      ) =>
+        call<{ success: boolean; user: UserStats }>(`/api/users/${clerkId}`, {
+          ...options,
+          method: "PATCH",
+          body: formData,
+        }),
+
+      /** 사용자 검색 (username/이름, 멘션 자동완성용) */
+      search: (query: string, options?: RequestOptions) =>
+        call<{ success: boolean; data: UserSearchResult[] }>(
+          "/api/users/search",
+          { ...options, query: { q: query } },
+        ),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+/** 취소 signal 없이 사용하는 기본 클라이언트 (캐시 변경 함수 등 컴포넌트 밖에서 사용) */
+export const api = createApiClient();
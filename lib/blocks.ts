@@ -0,0 +1,112 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { UUID } from "@/lib/types";
+
+/**
+ * 차단/뮤트 확인 헬퍼 (API Routes 전용)
+ *
+ * - 차단은 양방향: 내가 차단했거나 나를 차단한 사용자 모두 서로에게 숨김
+ * - 뮤트는 단방향: 내가 뮤트한 사용자만 내 피드/댓글/검색에서 숨김
+ * 비공개 계정 헬퍼와 마찬가지로 조회 실패 시 에러를 throw합니다.
+ *
+ * @example
+ * ```ts
+ * if (await isBlockedBetween(supabase, viewerId, authorId)) {
+ *   return createForbiddenResponse("차단된 사용자입니다.");
+ * }
+ *
+ * const excludedUserIds = await getExcludedUserIds(supabase, viewerId);
+ * ```
+ */
+
+/**
+ * 두 사용자 사이에 차단 관계가 있는지 확인 (방향 무관)
+ */
+export async function isBlockedBetween(
+  supabase: SupabaseClient,
+  userId: UUID,
+  otherUserId: UUID,
+): Promise<boolean> {
+  if (userId === otherUserId) {
+    return false;
+  }
+
+  const { count, error } = await supabase
+    .from("blocks")
+    .select("id", { count: "exact", head: true })
+    .or(
+      `and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`,
+    );
+
+  if (error) {
+    throw error;
+  }
+
+  return (count || 0) > 0;
+}
+
+/**
+ * 내가 차단했거나 나를 차단한 사용자 ID 목록
+ */
+export async function getBlockedUserIds(
+  supabase: SupabaseClient,
+  viewerId: UUID | null,
+): Promise<UUID[]> {
+  if (!viewerId) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("blocks")
+    .select("blocker_id, blocked_id")
+    .or(`blocker_id.eq.${viewerId},blocked_id.eq.${viewerId}`);
+
+  if (error) {
+    throw error;
+  }
+
+  return Array.from(
+    new Set(
+      (data || []).map((block) =>
+        block.blocker_id === viewerId ? block.blocked_id : block.blocker_id,
+      ),
+    ),
+  );
+}
+
+/**
+ * 내가 뮤트한 사용자 ID 목록
+ */
+export async function getMutedUserIds(
+  supabase: SupabaseClient,
+  viewerId: UUID | null,
+): Promise<UUID[]> {
+  if (!viewerId) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("mutes")
+    .select("muted_id")
+    .eq("muter_id", viewerId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map((mute) => mute.muted_id);
+}
+
+/**
+ * 피드/댓글/검색에서 제외할 사용자 ID 목록 (차단 + 뮤트)
+ */
+export async function getExcludedUserIds(
+  supabase: SupabaseClient,
+  viewerId: UUID | null,
+): Promise<UUID[]> {
+  const [blockedUserIds, mutedUserIds] = await Promise.all([
+    getBlockedUserIds(supabase, viewerId),
+    getMutedUserIds(supabase, viewerId),
+  ]);
+
+  return Array.from(new Set([...blockedUserIds, ...mutedUserIds]));
+}
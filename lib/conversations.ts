@@ -0,0 +1,73 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ConversationUser, Timestamp, UUID } from "@/lib/types";
+
+/**
+ * 다이렉트 메시지 대화방 헬퍼 (API Routes 전용)
+ *
+ * 대화방 테이블은 RLS로 참여자에게만 조회되므로,
+ * 참여자가 아니면 대화방이 없는 것과 같이 null을 반환합니다.
+ * 차단/비공개 헬퍼와 마찬가지로 조회 실패 시 에러를 throw합니다.
+ *
+ * @example
+ * ```ts
+ * const members = await getConversationMembers(supabase, conversationId, userData.id);
+ * if (!members) {
+ *   return createNotFoundResponse("대화를 찾을 수 없습니다.");
+ * }
+ * ```
+ */
+
+/**
+ * 1:1 대화방 참여자 (현재 사용자 + 상대방)
+ */
+export interface ConversationMembers {
+  self: { last_read_at: Timestamp | null };
+  other: { user: ConversationUser; last_read_at: Timestamp | null };
+}
+
+/**
+ * 대화방 참여자 조회
+ *
+ * @returns 현재 사용자가 참여자가 아니면 null
+ */
+export async function getConversationMembers(
+  supabase: SupabaseClient,
+  conversationId: UUID,
+  userId: UUID,
+): Promise<ConversationMembers | null> {
+  const { data, error } = await supabase
+    .from("conversation_participants")
+    .select(
+      `
+      user_id,
+      last_read_at,
+      users!inner (
+        id,
+        clerk_id,
+        name,
+        username,
+        avatar_url
+      )
+    `,
+    )
+    .eq("conversation_id", conversationId);
+
+  if (error) {
+    throw error;
+  }
+
+  const self = data?.find((participant) => participant.user_id === userId);
+  const other = data?.find((participant) => participant.user_id !== userId);
+
+  if (!self || !other) {
+    return null;
+  }
+
+  // users는 !inner join으로 단일 객체이지만 타입 추론을 위해 배열 여부 확인
+  const otherUser = Array.isArray(other.users) ? other.users[0] : other.users;
+
+  return {
+    self: { last_read_at: self.last_read_at },
+    other: { user: otherUser, last_read_at: other.last_read_at },
+  };
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { UUID } from "@/lib/types";
+import { extractHashtags } from "@/lib/utils/hashtag";
+
+/**
+ * 게시물 해시태그 저장 헬퍼 (API Routes 전용)
+ *
+ * 게시물 생성(POST /api/posts)과 캡션 수정(PATCH /api/posts/[postId])이
+ * 성공한 뒤 호출합니다. 해시태그 저장 실패는 게시물 저장 결과에 영향을
+ * 주지 않도록 에러를 로그로만 남기고 throw하지 않습니다.
+ *
+ * @example
+ * ```ts
+ * await syncPostHashtags(supabase, postData.id, caption);
+ * ```
+ */
+
+/**
+ * 캡션의 해시태그로 게시물의 post_hashtags를 교체
+ */
+export async function syncPostHashtags(
+  supabase: SupabaseClient,
+  postId: UUID,
+  caption: string | null,
+): Promise<void> {
+  const tags = extractHashtags(caption);
+
+  // 1. 기존 연결 삭제 (캡션 수정 시 빠진 태그 정리)
+  const { error: deleteError } = await supabase
+    .from("post_hashtags")
+    .delete()
+    .eq("post_id", postId);
+
+  if (deleteError) {
+    console.error("Post hashtags delete error:", deleteError);
+    return;
+  }
+
+  if (tags.length === 0) {
+    return;
+  }
+
+  // 2. 해시태그 생성 (이미 있으면 무시)
+  const { error: upsertError } = await supabase
+    .from("hashtags")
+    .upsert(
+      tags.map((name) => ({ name })),
+      { onConflict: "name", ignoreDuplicates: true },
+    );
+
+  if (upsertError) {
+    console.error("Hashtags upsert error:", upsertError);
+    return;
+  }
+
+  // 3. 해시태그 ID 조회 후 게시물과 연결
+  const { data: hashtags, error: selectError } = await supabase
+    .from("hashtags")
+    .select("id")
+    .in("name", tags);
+
+  if (selectError || !hashtags) {
+    console.error("Hashtags lookup error:", selectError);
+    return;
+  }
+
+  const { error: insertError } = await supabase.from("post_hashtags").insert(
+    hashtags.map((hashtag) => ({
+      post_id: postId,
+      hashtag_id: hashtag.id,
+    })),
+  );
+
+  if (insertError) {
+    console.error("Post hashtags insert error:", insertError);
+  }
+}
@@ -0,0 +1,117 @@
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { POST_IMAGE_WIDTHS } from "@/lib/utils/image";
+
+/**
+ * 게시물 이미지 변환 헬퍼 (API Routes 전용)
+ *
+ * 업로드된 원본을 그대로 저장하지 않고 다음과 같이 변환합니다.
+ * - 디코딩 후 EXIF Orientation에 맞춰 자동 회전
+ * - EXIF/GPS 등 메타데이터 제거 (sharp는 withMetadata 없이는 메타데이터를 쓰지 않음)
+ * - POST_IMAGE_WIDTHS 너비별로 리사이즈하여 WebP로 재인코딩 (확대하지 않음)
+ * - 로딩 중 표시할 blurhash 계산
+ * 디코딩할 수 없는 파일이면 에러를 throw합니다.
+ *
+ * @example
+ * ```ts
+ * const processed = await processPostImage(file);
+ * for (const variant of processed.variants) {
+ *   await supabase.storage.from("uploads").upload(path, variant.buffer, {
+ *     contentType: POST_IMAGE_CONTENT_TYPE,
+ *   });
+ * }
+ * ```
+ */
+
+/** 변환본 MIME 타입 / 확장자 */
+export const POST_IMAGE_CONTENT_TYPE = "image/webp";
+export const POST_IMAGE_EXTENSION = "webp";
+
+const WEBP_QUALITY = 80;
+
+/** blurhash 계산용 축소 크기와 컴포넌트 수 */
+const BLURHASH_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+export interface ProcessedImageVariant {
+  width: number;
+  height: number;
+  buffer: Buffer;
+}
+
+export interface ProcessedImage {
+  width: number; // 가장 큰 변환본 기준
+  height: number;
+  blurhash: string;
+  variants: ProcessedImageVariant[]; // 너비 오름차순
+}
+
+export interface ProcessImageOptions {
+  largestOnly?: boolean; // 가장 큰 변환본 하나만 생성 (스토리처럼 전체 화면으로만 표시하는 경우)
+}
+
+/**
+ * 업로드 이미지를 반응형 WebP 변환본과 blurhash로 변환
+ */
+export async function processPostImage(
+  file: Blob,
+  { largestOnly = false }: ProcessImageOptions = {},
+): Promise<ProcessedImage> {
+  const input = Buffer.from(await file.arrayBuffer());
+
+  // 1. 회전 적용 후 크기 확인 (애니메이션 이미지는 첫 프레임만 사용)
+  const metadata = await sharp(input).metadata();
+  const { width: sourceWidth, height: sourceHeight } = metadata.autoOrient;
+
+  if (!sourceWidth || !sourceHeight) {
+    throw new Error("Image dimensions could not be read");
+  }
+
+  // 2. 원본보다 작은 너비만 사용하고, 원본이 최대 너비보다 작으면 원본 너비를 최대로 사용
+  const maxWidth = POST_IMAGE_WIDTHS[POST_IMAGE_WIDTHS.length - 1];
+  const targetWidths = POST_IMAGE_WIDTHS.filter((width) => width < sourceWidth);
+  if (sourceWidth <= maxWidth) {
+    targetWidths.push(sourceWidth);
+  } else if (!targetWidths.includes(maxWidth)) {
+    targetWidths.push(maxWidth);
+  }
+
+  // 3. 너비별 WebP 변환본 생성
+  const variants: ProcessedImageVariant[] = [];
+  for (const targetWidth of largestOnly
+    ? targetWidths.slice(-1)
+    : targetWidths) {
+    const { data, info } = await sharp(input)
+      .autoOrient()
+      .resize({ width: targetWidth, withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    variants.push({ width: info.width, height: info.height, buffer: data });
+  }
+
+  // 4. blurhash 계산 (작게 축소한 RGBA 픽셀 기준)
+  const { data: pixels, info: pixelInfo } = await sharp(input)
+    .autoOrient()
+    .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const blurhash = encode(
+    new Uint8ClampedArray(pixels),
+    pixelInfo.width,
+    pixelInfo.height,
+    BLURHASH_COMPONENTS.x,
+    BLURHASH_COMPONENTS.y,
+  );
+
+  const largest = variants[variants.length - 1];
+
+  return {
+    width: largest.width,
+    height: largest.height,
+    blurhash,
+    variants,
+  };
+}
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { UUID } from "@/lib/types";
+import { extractMentions } from "@/lib/utils/mention";
+
+/**
+ * 멘션 저장 헬퍼 (API Routes 전용)
+ *
+ * 게시물 생성/캡션 수정(post), 댓글 작성(comment)이 성공한 뒤 호출합니다.
+ * 텍스트의 @username 중 실제 존재하는 사용자만 mentions 테이블에 저장합니다.
+ * 멘션 저장 실패는 원래 요청의 성공 여부에 영향을 주지 않도록
+ * 에러를 로그로만 남기고 throw하지 않습니다.
+ *
+ * @example
+ * ```ts
+ * await syncMentions(supabase, {
+ *   text: content,
+ *   actorId: userData.id,
+ *   postId: post_id,
+ *   commentId: commentData.id,
+ * });
+ * ```
+ */
+
+interface MentionSource {
+  text: string | null;
+  actorId: UUID;
+  postId: UUID;
+  commentId?: UUID | null; // 없으면 캡션 멘션
+}
+
+/**
+ * 텍스트의 멘션으로 캡션/댓글의 mentions를 교체
+ */
+export async function syncMentions(
+  supabase: SupabaseClient,
+  { text, actorId, postId, commentId = null }: MentionSource,
+): Promise<void> {
+  const usernames = extractMentions(text);
+
+  // 1. 기존 멘션 삭제 (캡션 수정 시 빠진 멘션 정리)
+  let deleteQuery = supabase.from("mentions").delete().eq("post_id", postId);
+  deleteQuery = commentId
+    ? deleteQuery.eq("comment_id", commentId)
+    : deleteQuery.is("comment_id", null);
+
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    console.error("Mentions delete error:", deleteError);
+    return;
+  }
+
+  if (usernames.length === 0) {
+    return;
+  }
+
+  // 2. 멘션된 사용자 조회 (없는 사용자 이름은 무시)
+  const { data: users, error: usersError } = await supabase
+    .from("users")
+    .select("id")
+    .in("username", usernames);
+
+  if (usersError || !users) {
+    console.error("Mentioned users lookup error:", usersError);
+    return;
+  }
+
+  if (users.length === 0) {
+    return;
+  }
+
+  // 3. 멘션 저장
+  const { error: insertError } = await supabase.from("mentions").insert(
+    users.map((user) => ({
+      post_id: postId,
+      comment_id: commentId,
+      mentioned_user_id: user.id,
+      actor_id: actorId,
+    })),
+  );
+
+  if (insertError) {
+    console.error("Mentions insert error:", insertError);
+  }
+}
@@ -0,0 +1,87 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NotificationType, UUID } from "@/lib/types";
+
+/**
+ * 알림 생성/삭제 헬퍼 (API Routes 전용)
+ *
+ * 좋아요, 댓글, 팔로우 API가 성공한 뒤 호출합니다.
+ * 알림 처리 실패는 원래 요청의 성공 여부에 영향을 주지 않도록
+ * 에러를 로그로만 남기고 throw하지 않습니다.
+ *
+ * @example
+ * ```ts
+ * await createNotification(supabase, {
+ *   type: "like",
+ *   recipientId: postData.user_id,
+ *   actorId: userData.id,
+ *   postId: post_id,
+ * });
+ * ```
+ */
+
+interface NotificationTarget {
+  type: NotificationType;
+  recipientId: UUID;
+  actorId: UUID;
+  postId?: UUID | null;
+  commentId?: UUID | null;
+}
+
+/**
+ * 알림 생성 (자기 자신에 대한 활동은 무시)
+ */
+export async function createNotification(
+  supabase: SupabaseClient,
+  { type, recipientId, actorId, postId = null, commentId = null }: NotificationTarget,
+): Promise<void> {
+  if (recipientId === actorId) {
+    return;
+  }
+
+  const { error } = await supabase.from("notifications").insert({
+    type,
+    recipient_id: recipientId,
+    actor_id: actorId,
+    post_id: postId,
+    comment_id: commentId,
+  });
+
+  if (error) {
+    console.error(`Notification (${type}) insert error:`, error);
+  }
+}
+
+/**
+ * 알림 삭제 (좋아요 취소, 팔로우 해제 시)
+ *
+ * 좋아요는 postId, 팔로우는 recipientId로 대상 알림을 특정합니다.
+ */
+export async function deleteNotification(
+  supabase: SupabaseClient,
+  {
+    type,
+    actorId,
+    recipientId,
+    postId,
+  }: Pick<NotificationTarget, "type" | "actorId"> &
+    Partial<Pick<NotificationTarget, "recipientId" | "postId">>,
+): Promise<void> {
+  let query = supabase
+    .from("notifications")
+    .delete()
+    .eq("type", type)
+    .eq("actor_id", actorId);
+
+  if (recipientId) {
+    query = query.eq("recipient_id", recipientId);
+  }
+  if (postId) {
+    query = query.eq("post_id", postId);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    console.error(`Notification (${type}) delete error:`, error);
+  }
+}
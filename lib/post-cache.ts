@@ -0,0 +1,452 @@
+import { CommentWithUser, PostWithUser } from "@/lib/types";
+import { api, ApiResult } from "@/lib/api-client";
+
+/**
+ * 게시물/댓글 클라이언트 캐시 (정규화 저장소)
+ *
+ * 홈 피드, 게시물 상세 모달, 프로필/태그 그리드, 활동 페이지가 같은 게시물을 공유하도록
+ * 게시물은 post_id, 댓글은 댓글 ID 기준으로 한 곳에 저장합니다.
+ * - 목록 순서와 페이지네이션은 각 화면이 관리하고, 게시물 내용은 캐시에서 읽음
+ * - 변경 함수는 먼저 캐시를 바꾸고(낙관적 업데이트) API가 실패하면 그 변경만 되돌림
+ * - API 호출은 lib/api-client.ts 사용, 실패 시 사용자 메시지를 담은 Error를 던지므로 호출한 컴포넌트에서 Toast로 표시
+ * - React 컴포넌트에서는 hooks/use-post-cache.ts의 훅으로 구독
+ */
+
+export interface PostCacheState {
+  posts: Record<string, PostWithUser>;
+  comments: Record<string, CommentWithUser>;
+  postComments: Record<string, string[]>; // 게시물별 전체 댓글 ID (상세 모달에서 불러온 경우만)
+  removedPostIds: Record<string, true>; // 삭제되었거나 작성자를 뮤트/차단한 게시물 (목록에서 제외)
+}
+
+const EMPTY_STATE: PostCacheState = {
+  posts: {},
+  comments: {},
+  postComments: {},
+  removedPostIds: {},
+};
+
+let state: PostCacheState = EMPTY_STATE;
+const listeners = new Set<() => void>();
+
+function setState(updater: (prev: PostCacheState) => PostCacheState) {
+  state = updater(state);
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribePostCache(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getPostCacheState() {
+  return state;
+}
+
+/** 서버 렌더링 시에는 항상 빈 캐시 (요청 간 데이터 공유 방지) */
+export function getServerPostCacheState() {
+  return EMPTY_STATE;
+}
+
+/**
+ * 캐시 비우기 (로그인한 사용자가 바뀌면 이전 계정의 좋아요/저장 상태가 남지 않도록)
+ */
+export function resetPostCache() {
+  setState(() => EMPTY_STATE);
+}
+
+// ============================================
+// 캐시 직접 변경 (서버 응답 반영)
+// ============================================
+
+/**
+ * 서버에서 받은 게시물 저장 (미리보기 댓글도 댓글 캐시에 저장)
+ */
+export function upsertPosts(posts: PostWithUser[]) {
+  if (posts.length === 0) return;
+
+  setState((prev) => {
+    const nextPosts = { ...prev.posts };
+    const nextComments = { ...prev.comments };
+    const nextRemoved = { ...prev.removedPostIds };
+
+    posts.forEach((post) => {
+      const cached = prev.posts[post.post_id];
+
+      // 미리보기 댓글을 보내지 않는 API(저장됨, 좋아요한 게시물)는 기존 미리보기 유지
+      const keepRecentComments =
+        cached &&
+        (post.recentComments ?? []).length === 0 &&
+        post.comments_count > 0;
+
+      nextPosts[post.post_id] = {
+        ...cached,
+        ...post,
+        recentComments: keepRecentComments
+          ? cached.recentComments
+          : post.recentComments ?? [],
+      };
+      (post.recentComments ?? []).forEach((comment) => {
+        nextComments[comment.id] = { ...prev.comments[comment.id], ...comment };
+      });
+      delete nextRemoved[post.post_id];
+    });
+
+    return {
+      ...prev,
+      posts: nextPosts,
+      comments: nextComments,
+      removedPostIds: nextRemoved,
+    };
+  });
+}
+
+/**
+ * 게시물 일부 필드 변경 (캐시에 없는 게시물은 무시)
+ */
+export function updatePost(postId: string, updates: Partial<PostWithUser>) {
+  if (!state.posts[postId]) return;
+
+  setState((prev) => ({
+    ...prev,
+    posts: {
+      ...prev.posts,
+      [postId]: { ...prev.posts[postId], ...updates },
+    },
+  }));
+}
+
+/**
+ * 게시물 전체 댓글 목록 저장 (상세 모달)
+ */
+export function setPostComments(postId: string, comments: CommentWithUser[]) {
+  setState((prev) => {
+    const nextComments = { ...prev.comments };
+    comments.forEach((comment) => {
+      nextComments[comment.id] = comment;
+    });
+
+    return {
+      ...prev,
+      comments: nextComments,
+      postComments: {
+        ...prev.postComments,
+        [postId]: comments.map((comment) => comment.id),
+      },
+    };
+  });
+}
+
+/**
+ * 게시물을 목록에서 제외 (삭제 완료 후)
+ */
+export function removePost(postId: string) {
+  setState((prev) => ({
+    ...prev,
+    removedPostIds: { ...prev.removedPostIds, [postId]: true },
+  }));
+}
+
+/**
+ * 특정 사용자의 게시물을 모두 목록에서 제외 (작성자 뮤트/차단 후)
+ */
+export function removePostsByUser(userId: string) {
+  setState((prev) => {
+    const nextRemoved = { ...prev.removedPostIds };
+    Object.values(prev.posts).forEach((post) => {
+      if (post.user_id === userId) {
+        nextRemoved[post.post_id] = true;
+      }
+    });
+
+    return { ...prev, removedPostIds: nextRemoved };
+  });
+}
+
+/**
+ * 새 댓글 반영 (전체 댓글 목록 맨 앞 + 최상위 댓글은 미리보기에도 추가)
+ */
+function insertComment(comment: CommentWithUser) {
+  setState((prev) => {
+    const post = prev.posts[comment.post_id];
+    const commentIds = prev.postComments[comment.post_id];
+
+    return {
+      ...prev,
+      comments: { ...prev.comments, [comment.id]: comment },
+      postComments: commentIds
+        ? {
+            ...prev.postComments,
+            [comment.post_id]: [
+              comment.id,
+              ...commentIds.filter((id) => id !== comment.id),
+            ],
+          }
+        : prev.postComments,
+      posts:
+        post && !comment.parent_id
+          ? {
+              ...prev.posts,
+              [comment.post_id]: {
+                ...post,
+                recentComments: [comment, ...post.recentComments].slice(0, 2),
+              },
+            }
+          : prev.posts,
+    };
+  });
+}
+
+/**
+ * 댓글 제거 (답글도 CASCADE로 함께 삭제되므로 함께 제거하고 댓글 수 감소)
+ */
+function deleteCommentFromCache(comment: CommentWithUser) {
+  setState((prev) => {
+    const removedIds = new Set(
+      Object.values(prev.comments)
+        .filter((c) => c.id === comment.id || c.parent_id === comment.id)
+        .map((c) => c.id),
+    );
+    removedIds.add(comment.id);
+
+    const nextComments = { ...prev.comments };
+    removedIds.forEach((id) => delete nextComments[id]);
+
+    const post = prev.posts[comment.post_id];
+    const commentIds = prev.postComments[comment.post_id];
+
+    return {
+      ...prev,
+      comments: nextComments,
+      postComments: commentIds
+        ? {
+            ...prev.postComments,
+            [comment.post_id]: commentIds.filter((id) => !removedIds.has(id)),
+          }
+        : prev.postComments,
+      posts: post
+        ? {
+            ...prev.posts,
+            [comment.post_id]: {
+              ...post,
+              comments_count: Math.max(
+                0,
+                post.comments_count - removedIds.size,
+              ),
+              recentComments: post.recentComments.filter(
+                (c) => !removedIds.has(c.id),
+              ),
+            },
+          }
+        : prev.posts,
+    };
+  });
+}
+
+// ============================================
+// 롤백 (낙관적 업데이트 실패 시)
+// ============================================
+// 실패한 요청이 바꾼 값만 되돌림 (그 사이 성공한 다른 변경과 실시간 반영 값은 유지)
+
+/**
+ * 삭제했던 댓글 복원 (답글 포함, 댓글 수와 미리보기도 함께 복원)
+ */
+function restoreDeletedComments(
+  postId: string,
+  removed: CommentWithUser[],
+  previousCommentIds: string[] | undefined,
+  previousRecentComments: CommentWithUser[],
+) {
+  setState((prev) => {
+    const removedIds = new Set(removed.map((comment) => comment.id));
+    const nextComments = { ...prev.comments };
+    removed.forEach((comment) => {
+      nextComments[comment.id] = comment;
+    });
+
+    // 그 사이 추가된 댓글은 맨 앞에 유지하고, 기존 댓글은 삭제 전 순서로 복원
+    const commentIds = prev.postComments[postId];
+    const post = prev.posts[postId];
+
+    return {
+      ...prev,
+      comments: nextComments,
+      postComments:
+        commentIds && previousCommentIds
+          ? {
+              ...prev.postComments,
+              [postId]: [
+                ...commentIds.filter((id) => !previousCommentIds.includes(id)),
+                ...previousCommentIds.filter(
+                  (id) => removedIds.has(id) || commentIds.includes(id),
+                ),
+              ],
+            }
+          : prev.postComments,
+      posts: post
+        ? {
+            ...prev.posts,
+            [postId]: {
+              ...post,
+              comments_count: post.comments_count + removed.length,
+              recentComments: [
+                ...post.recentComments,
+                ...previousRecentComments.filter((comment) =>
+                  removedIds.has(comment.id),
+                ),
+              ]
+                .sort((a, b) => b.created_at.localeCompare(a.created_at))
+                .slice(0, 2),
+            },
+          }
+        : prev.posts,
+    };
+  });
+}
+
+// ============================================
+// API 요청 + 낙관적 업데이트
+// ============================================
+
+/**
+ * API 결과 확인 (실패 시 롤백 후 사용자 메시지를 담은 Error를 던짐)
+ */
+function unwrap<T>(result: ApiResult<T>, rollback?: () => void): T {
+  if (result.error) {
+    rollback?.();
+    throw new Error(result.error.message);
+  }
+
+  return result.data;
+}
+
+/**
+ * 게시물 좋아요/좋아요 취소
+ */
+export async function setPostLiked(postId: string, isLiked: boolean) {
+  const post = state.posts[postId];
+  if (post && post.isLiked === isLiked) return;
+
+  if (post) {
+    updatePost(postId, {
+      isLiked,
+      likes_count: Math.max(0, post.likes_count + (isLiked ? 1 : -1)),
+    });
+  }
+
+  const options = { context: "postCache.setPostLiked" };
+  unwrap(
+    await (isLiked
+      ? api.likes.like(postId, options)
+      : api.likes.unlike(postId, options)),
+    () => {
+      // 그 사이 다시 누른 경우는 나중 요청 결과를 따름
+      const current = state.posts[postId];
+      if (!post || current?.isLiked !== isLiked) return;
+      updatePost(postId, {
+        isLiked: !isLiked,
+        likes_count: Math.max(0, current.likes_count + (isLiked ? -1 : 1)),
+      });
+    },
+  );
+}
+
+/**
+ * 게시물 저장/저장 취소
+ */
+export async function setPostSaved(postId: string, isSaved: boolean) {
+  updatePost(postId, { isSaved });
+
+  const options = { context: "postCache.setPostSaved" };
+  unwrap(
+    await (isSaved
+      ? api.posts.save(postId, options)
+      : api.posts.unsave(postId, options)),
+    () => {
+      if (state.posts[postId]?.isSaved === isSaved) {
+        updatePost(postId, { isSaved: !isSaved });
+      }
+    },
+  );
+}
+
+/**
+ * 댓글 작성 (댓글 수는 먼저 증가, 댓글은 서버 응답 후 추가)
+ */
+export async function createComment(
+  postId: string,
+  content: string,
+  parentId: string | null = null,
+): Promise<CommentWithUser> {
+  const post = state.posts[postId];
+  if (post) {
+    updatePost(postId, { comments_count: post.comments_count + 1 });
+  }
+
+  const comment = unwrap(
+    await api.comments.create(
+      { post_id: postId, content, parent_id: parentId },
+      { context: "postCache.createComment" },
+    ),
+    () => {
+      const current = state.posts[postId];
+      if (post && current) {
+        updatePost(postId, {
+          comments_count: Math.max(0, current.comments_count - 1),
+        });
+      }
+    },
+  );
+
+  insertComment(comment);
+  return comment;
+}
+
+/**
+ * 댓글 삭제
+ */
+export async function deleteComment(commentId: string) {
+  const comment = state.comments[commentId];
+  let rollback: (() => void) | undefined;
+  if (comment) {
+    const removed = Object.values(state.comments).filter(
+      (c) => c.id === comment.id || c.parent_id === comment.id,
+    );
+    const previousCommentIds = state.postComments[comment.post_id];
+    const previousRecentComments =
+      state.posts[comment.post_id]?.recentComments ?? [];
+    rollback = () =>
+      restoreDeletedComments(
+        comment.post_id,
+        removed,
+        previousCommentIds,
+        previousRecentComments,
+      );
+    deleteCommentFromCache(comment);
+  }
+
+  unwrap(
+    await api.comments.remove(commentId, {
+      context: "postCache.deleteComment",
+    }),
+    rollback,
+  );
+}
+
+/**
+ * 캡션 수정 (서버에서 정리된 캡션으로 반영하므로 낙관적 업데이트 없음)
+ */
+export async function updatePostCaption(postId: string, caption: string) {
+  const data = unwrap(
+    await api.posts.updateCaption(postId, caption, {
+      context: "postCache.updatePostCaption",
+    }),
+  );
+
+  updatePost(postId, {
+    caption: data.post.caption ?? undefined,
+    updated_at: data.post.updated_at,
+  });
+}
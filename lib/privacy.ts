@@ -0,0 +1,68 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { FollowStatus, UUID } from "@/lib/types";
+
+/**
+ * 비공개 계정 접근 확인 헬퍼 (API Routes 전용)
+ *
+ * 비공개 계정의 게시물은 본인과 승인된(accepted) 팔로워만 볼 수 있습니다.
+ * 알림 헬퍼와 달리 조회 실패 시 에러를 throw합니다.
+ * (확인하지 못한 상태로 비공개 게시물이 노출되지 않도록)
+ *
+ * @example
+ * ```ts
+ * if (!(await canViewUserPosts(supabase, viewerId, author))) {
+ *   return createForbiddenResponse("비공개 계정의 게시물입니다.");
+ * }
+ *
+ * // 목록 조회: 볼 수 없는 비공개 계정은 DB에서 제외 (users.can_view_posts computed field)
+ * supabase
+ *   .from("post_stats")
+ *   .select("post_id, users!inner(name)")
+ *   .eq("users.can_view_posts", true);
+ * ```
+ */
+
+/**
+ * 팔로우 상태 조회
+ *
+ * @returns 팔로우 관계가 없으면 null
+ */
+export async function getFollowStatus(
+  supabase: SupabaseClient,
+  followerId: UUID,
+  followingId: UUID,
+): Promise<FollowStatus | null> {
+  const { data, error } = await supabase
+    .from("follows")
+    .select("status")
+    .eq("follower_id", followerId)
+    .eq("following_id", followingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.status ?? null;
+}
+
+/**
+ * 사용자의 게시물을 볼 수 있는지 확인
+ *
+ * 공개 계정이거나, 본인이거나, 승인된 팔로워이면 true
+ */
+export async function canViewUserPosts(
+  supabase: SupabaseClient,
+  viewerId: UUID | null,
+  owner: { id: UUID; is_private: boolean },
+): Promise<boolean> {
+  if (!owner.is_private || viewerId === owner.id) {
+    return true;
+  }
+
+  if (!viewerId) {
+    return false;
+  }
+
+  return (await getFollowStatus(supabase, viewerId, owner.id)) === "accepted";
+}
@@ -25,6 +25,13 @@ export interface User {
   id: UUID;
   clerk_id: ClerkUserId;
   name: string;
+  username: string; // 고유 핸들 (소문자, 숫자, 밑줄, 마침표), 프로필 URL에 사용
+  bio: string | null;
+  website: string | null;
+  avatar_url: string | null; // Supabase Storage URL
+  is_private: boolean; // 비공개 계정 (승인된 팔로워만 게시물 조회 가능)
+  is_hidden: boolean; // 관리자가 신고 처리로 숨긴 계정
+  clerk_updated_at: Timestamp | null; // Clerk 웹훅으로 마지막 반영한 수정 시각
   created_at: Timestamp;
 }
 
@@ -44,6 +51,11 @@ export interface UserStats {
   user_id: UUID;
   clerk_id: ClerkUserId;
   name: string;
+  username: string;
+  bio: string | null;
+  website: string | null;
+  avatar_url: string | null;
+  is_private: boolean;
   posts_count: number;
   followers_count: number;
   following_count: number;
@@ -59,16 +71,68 @@ export interface Post {
   user_id: UUID;
   image_url: string;
   caption?: string;
+  is_hidden: boolean; // 관리자가 신고 처리로 숨긴 게시물
   created_at: Timestamp;
   updated_at: Timestamp;
 }
 
+/** 게시물 이미지 (다중 이미지 캐러셀용, post_media 테이블) */
+export interface PostMedia {
+  id: UUID;
+  post_id: UUID;
+  image_url: string; // 가장 큰 변환본 (이관 전 데이터는 원본)
+  position: number; // 0부터 시작하는 표시 순서
+  created_at: Timestamp;
+  width?: number | null; // 이관 전 데이터는 null
+  height?: number | null;
+  blurhash?: string | null;
+  variants?: ImageVariant[]; // 너비 오름차순
+}
+
+/** 리사이즈된 이미지 변환본 (srcset용) */
+export interface ImageVariant {
+  width: number;
+  url: string;
+}
+
+/** 화면에 표시할 게시물 이미지 (반응형 변환본과 플레이스홀더 포함) */
+export interface PostImageSource {
+  url: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  variants: ImageVariant[];
+}
+
 /** 게시물 생성 시 필요한 데이터 */
 export interface CreatePostData {
   image_url: string;
   caption?: string;
 }
 
+/** 게시물 작성 시 자르기 비율 (게시물의 모든 이미지에 동일하게 적용) */
+export type CropAspectRatio = "1:1" | "4:5" | "1.91:1";
+
+/** 게시물 작성 시 이미지 필터 프리셋 */
+export type ImageFilterName =
+  | "none"
+  | "vivid"
+  | "warm"
+  | "cool"
+  | "mono"
+  | "vintage";
+
+/** 게시물 작성 시 이미지별 편집 상태 (업로드 직전 캔버스로 적용) */
+export interface ImageEdit {
+  zoom: number; // 1(자르기 영역 최대) ~ 3
+  offsetX: number; // -1(왼쪽 끝) ~ 1(오른쪽 끝), 0이면 가운데
+  offsetY: number; // -1(위쪽 끝) ~ 1(아래쪽 끝), 0이면 가운데
+  filter: ImageFilterName;
+  brightness: number; // -100 ~ 100, 0이면 원본
+  contrast: number; // -100 ~ 100
+  saturation: number; // -100 ~ 100
+}
+
 /** 게시물 업데이트 데이터 */
 export interface UpdatePostData {
   caption?: string;
@@ -81,6 +145,7 @@ export interface PostStats {
   image_url: string;
   caption?: string;
   created_at: Timestamp;
+  updated_at: Timestamp;
   likes_count: number;
   comments_count: number;
 }
@@ -102,6 +167,14 @@ export interface CreateLikeData {
   post_id: UUID;
 }
 
+/** 댓글 좋아요 기본 정보 */
+export interface CommentLike {
+  id: UUID;
+  comment_id: UUID;
+  user_id: UUID;
+  created_at: Timestamp;
+}
+
 // ============================================
 // Comment 관련 타입들
 // ============================================
@@ -111,7 +184,9 @@ export interface Comment {
   id: UUID;
   post_id: UUID;
   user_id: UUID;
+  parent_id: UUID | null; // 답글인 경우 최상위 댓글 ID
   content: string;
+  is_hidden: boolean; // 관리자가 신고 처리로 숨긴 댓글
   created_at: Timestamp;
   updated_at: Timestamp;
 }
@@ -120,6 +195,7 @@ export interface Comment {
 export interface CreateCommentData {
   post_id: UUID;
   content: string;
+  parent_id?: UUID | null; // 답글 작성 시
 }
 
 /** 댓글 업데이트 데이터 */
@@ -131,19 +207,372 @@ export interface UpdateCommentData {
 // Follow 관련 타입들
 // ============================================
 
+/** 팔로우 상태 (pending: 비공개 계정 승인 대기, accepted: 팔로우 중) */
+export type FollowStatus = "pending" | "accepted";
+
 /** 팔로우 관계 기본 정보 */
 export interface Follow {
   id: UUID;
   follower_id: UUID; // 팔로우하는 사람
   following_id: UUID; // 팔로우받는 사람
+  status: FollowStatus;
   created_at: Timestamp;
 }
 
+/** 받은 팔로우 요청 (요청한 사용자 정보 포함) */
+export interface FollowRequest {
+  id: UUID;
+  follower_id: UUID;
+  created_at: Timestamp;
+  name: string;
+  clerk_id: ClerkUserId;
+  username: string;
+  avatar_url: string | null;
+}
+
 /** 팔로우 생성 데이터 */
 export interface CreateFollowData {
   following_id: UUID;
 }
 
+// ============================================
+// Block / Mute 관련 타입들
+// ============================================
+
+/** 차단 기본 정보 (차단하면 서로의 게시물/댓글이 보이지 않음) */
+export interface Block {
+  id: UUID;
+  blocker_id: UUID; // 차단한 사람
+  blocked_id: UUID; // 차단당한 사람
+  created_at: Timestamp;
+}
+
+/** 뮤트 기본 정보 (상대는 모르며 내 피드/댓글/검색에서만 숨김) */
+export interface Mute {
+  id: UUID;
+  muter_id: UUID; // 뮤트한 사람
+  muted_id: UUID; // 뮤트당한 사람
+  created_at: Timestamp;
+}
+
+/** 차단/뮤트한 사용자 목록 항목 (대상 사용자 정보 포함) */
+export interface RestrictedUser {
+  id: UUID;
+  user_id: UUID; // 차단/뮤트 대상의 Supabase UUID
+  created_at: Timestamp;
+  name: string;
+  clerk_id: ClerkUserId;
+  username: string;
+  avatar_url: string | null;
+}
+
+// ============================================
+// Report 관련 타입들
+// ============================================
+
+/** 신고 대상 종류 */
+export type ReportTargetType = "post" | "comment" | "user";
+
+/** 신고 사유 */
+export type ReportReason =
+  | "spam"
+  | "nudity"
+  | "harassment"
+  | "hate_speech"
+  | "violence"
+  | "false_information"
+  | "other";
+
+/** 신고 처리 상태 (open: 검토 대기, dismissed: 기각, actioned: 콘텐츠 숨김) */
+export type ReportStatus = "open" | "dismissed" | "actioned";
+
+/** 신고 기본 정보 */
+export interface Report {
+  id: UUID;
+  reporter_id: UUID;
+  target_type: ReportTargetType;
+  post_id: UUID | null; // post인 경우
+  comment_id: UUID | null; // comment인 경우
+  user_id: UUID | null; // user(프로필)인 경우
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  created_at: Timestamp;
+  resolved_at: Timestamp | null;
+  resolved_by: ClerkUserId | null; // 처리한 관리자
+}
+
+/** 신고 + 신고자/대상 미리보기 (관리자 검토 큐용) */
+export interface ReportWithTarget extends Report {
+  reporter_username: string;
+  // 대상 미리보기 (게시물 이미지/캡션, 댓글 내용, 프로필 핸들)
+  target_username: string | null; // 대상 콘텐츠 작성자 또는 신고된 사용자
+  target_image_url: string | null; // post인 경우
+  target_text: string | null; // 게시물 캡션 또는 댓글 내용
+  target_is_hidden: boolean;
+}
+
+/** 신고 생성 데이터 */
+export interface CreateReportData {
+  target_type: ReportTargetType;
+  target_id: UUID;
+  reason: ReportReason;
+  details?: string;
+}
+
+// ============================================
+// Story 관련 타입들
+// ============================================
+
+/** 스토리 테이블 타입 (작성 후 24시간 동안만 표시) */
+export interface Story {
+  id: UUID;
+  user_id: UUID;
+  image_url: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  created_at: Timestamp;
+  expires_at: Timestamp;
+}
+
+/** 스토리 조회 기록 */
+export interface StoryView {
+  id: UUID;
+  story_id: UUID;
+  viewer_id: UUID;
+  viewed_at: Timestamp;
+}
+
+/** 스토리 + 현재 사용자의 조회 여부 */
+export interface StoryWithSeen extends Story {
+  isSeen: boolean;
+}
+
+/** 스토리 트레이 항목 (사용자별 스토리 묶음, 오래된 순) */
+export interface StoryTrayItem {
+  user_id: UUID;
+  clerk_id: ClerkUserId;
+  name: string;
+  username: string;
+  avatar_url: string | null;
+  stories: StoryWithSeen[];
+  hasUnseen: boolean;
+  isOwn: boolean;
+}
+
+/** 스토리를 조회한 사용자 (작성자에게만 표시) */
+export interface StoryViewer {
+  user_id: UUID;
+  name: string;
+  username: string;
+  avatar_url: string | null;
+  viewed_at: Timestamp;
+}
+
+// ============================================
+// Notification 관련 타입들
+// ============================================
+
+/** 알림 종류 */
+export type NotificationType = "like" | "comment" | "follow";
+
+/** 알림 기본 정보 */
+export interface Notification {
+  id: UUID;
+  recipient_id: UUID; // 알림 받는 사람
+  actor_id: UUID; // 알림을 발생시킨 사람
+  type: NotificationType;
+  post_id: UUID | null; // like, comment인 경우
+  comment_id: UUID | null; // comment인 경우
+  is_read: boolean;
+  created_at: Timestamp;
+}
+
+/** 알림 + 발생자/게시물 정보 (활동 페이지용) */
+export interface NotificationWithActor extends Notification {
+  // 발생자 정보
+  actor_name: string;
+  actor_clerk_id: ClerkUserId;
+  actor_username: string;
+  // 게시물 썸네일 (like, comment인 경우)
+  post_image_url: string | null;
+  // 댓글 내용 (comment인 경우)
+  comment_content: string | null;
+}
+
+/** 알림 목록 API 응답 */
+export interface NotificationsResponse {
+  data: NotificationWithActor[];
+  unreadCount: number;
+  pagination: {
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+// ============================================
+// Direct Message 관련 타입들
+// ============================================
+
+/** 1:1 대화방 기본 정보 */
+export interface Conversation {
+  id: UUID;
+  last_message_id: UUID | null;
+  last_message_at: Timestamp | null;
+  created_at: Timestamp;
+}
+
+/** 대화 참여자 (last_read_at 이전 메시지는 읽음) */
+export interface ConversationParticipant {
+  id: UUID;
+  conversation_id: UUID;
+  user_id: UUID;
+  last_read_at: Timestamp | null;
+  created_at: Timestamp;
+}
+
+/** 메시지 기본 정보 */
+export interface Message {
+  id: UUID;
+  conversation_id: UUID;
+  sender_id: UUID;
+  content: string;
+  created_at: Timestamp;
+}
+
+/** 대화 상대 정보 */
+export interface ConversationUser {
+  id: UUID;
+  clerk_id: ClerkUserId;
+  name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+/** 받은 메시지함 항목 (대화 상대 + 마지막 메시지 미리보기) */
+export interface ConversationWithPreview {
+  id: UUID;
+  other_user: ConversationUser;
+  last_message: Message | null;
+  last_message_at: Timestamp | null;
+  hasUnread: boolean;
+}
+
+/** 대화방 상세 (읽음 확인용 상대방 읽음 시각 포함) */
+export interface ConversationDetail {
+  id: UUID;
+  current_user_id: UUID;
+  other_user: ConversationUser;
+  other_last_read_at: Timestamp | null;
+}
+
+// ============================================
+// Hashtag 관련 타입들
+// ============================================
+
+/** 해시태그 기본 정보 */
+export interface Hashtag {
+  id: UUID;
+  name: string; // '#' 제외, 소문자
+  created_at: Timestamp;
+}
+
+/** 게시물 ↔ 해시태그 연결 */
+export interface PostHashtag {
+  id: UUID;
+  post_id: UUID;
+  hashtag_id: UUID;
+  created_at: Timestamp;
+}
+
+// ============================================
+// Mention 관련 타입들
+// ============================================
+
+/** 멘션 기본 정보 (캡션 멘션은 comment_id가 null) */
+export interface Mention {
+  id: UUID;
+  post_id: UUID;
+  comment_id: UUID | null;
+  mentioned_user_id: UUID; // 멘션된 사람
+  actor_id: UUID; // 멘션한 사람
+  created_at: Timestamp;
+}
+
+// ============================================
+// Search 관련 타입들
+// ============================================
+
+/** 검색 탭 종류 */
+export type SearchType = "all" | "users" | "hashtags" | "posts";
+
+/** 사용자 검색 결과 */
+export interface UserSearchResult {
+  id: UUID;
+  clerk_id: ClerkUserId;
+  name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+/** 해시태그 검색 결과 */
+export interface HashtagSearchResult {
+  name: string;
+  posts_count: number;
+}
+
+/** 통합 검색 결과 (요청한 종류만 채워짐) */
+export interface SearchResults {
+  users: UserSearchResult[];
+  hashtags: HashtagSearchResult[];
+  posts: PostThumbnail[];
+}
+
+/** 최근 검색어 */
+export interface RecentSearch {
+  id: UUID;
+  user_id: UUID;
+  query: string;
+  created_at: Timestamp; // 마지막으로 검색한 시각
+}
+
+// ============================================
+// Save / Collection 관련 타입들
+// ============================================
+
+/** 저장(북마크) 테이블 타입 */
+export interface Save {
+  id: UUID;
+  user_id: UUID;
+  post_id: UUID;
+  created_at: Timestamp;
+}
+
+/** 컬렉션 테이블 타입 */
+export interface Collection {
+  id: UUID;
+  user_id: UUID;
+  name: string;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+/** 컬렉션 ↔ 저장한 게시물 */
+export interface CollectionPost {
+  id: UUID;
+  collection_id: UUID;
+  save_id: UUID;
+  created_at: Timestamp;
+}
+
+/** 컬렉션 + 미리보기 정보 (저장됨 탭용) */
+export interface CollectionWithPreview extends Collection {
+  posts_count: number;
+  cover_image_url: string | null; // 가장 최근에 추가한 게시물의 대표 이미지
+}
+
 // ============================================
 // API 응답 타입들
 // ============================================
@@ -156,6 +585,14 @@ export interface PaginationInfo {
   totalPages: number;
 }
 
+/** 커서 기반 페이지네이션 정보 (피드, 좋아요한 게시물) */
+export interface CursorPaginationInfo {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null; // 다음 페이지 요청 시 cursor 파라미터로 전달
+  total?: number; // includeTotal=true 요청 시에만 포함
+}
+
 /** API 기본 응답 */
 export interface ApiResponse<T> {
   data: T;
@@ -195,6 +632,8 @@ export interface FollowButtonProps {
   targetUserId: UUID;
   currentUserId?: UUID;
   isFollowing: boolean;
+  isRequested?: boolean; // 비공개 계정에 팔로우 요청을 보낸 상태
+  isPrivate?: boolean; // 대상이 비공개 계정이면 팔로우 시 요청 상태가 됨
   onFollow?: (userId: UUID) => void;
   onUnfollow?: (userId: UUID) => void;
 }
@@ -205,7 +644,7 @@ export interface FollowButtonProps {
 
 /** 게시물 작성 폼 데이터 */
 export interface PostFormData {
-  image: File | null;
+  images: File[];
   caption: string;
 }
 
@@ -218,13 +657,17 @@ export interface CommentFormData {
 export interface ProfileResponse {
   user: UserStats;
   isFollowing: boolean;
+  isRequested: boolean; // 비공개 계정에 팔로우 요청 중
+  isBlocked: boolean; // 내가 차단한 사용자
   isOwnProfile: boolean;
 }
 
 /** PostGrid용 게시물 타입 (썸네일용) */
 export interface PostThumbnail {
   post_id: UUID;
-  image_url: string;
+  image_url: string; // 첫 번째 이미지
+  image: PostImageSource; // 첫 번째 이미지의 변환본과 플레이스홀더
+  media_count: number; // 2 이상이면 캐러셀 게시물
   likes_count: number;
   comments_count: number;
 }
@@ -232,7 +675,10 @@ export interface PostThumbnail {
 /** 프로필 편집 폼 데이터 */
 export interface ProfileFormData {
   name: string;
-  bio?: string;
+  username: string;
+  bio: string; // 빈 문자열이면 삭제
+  website: string; // 빈 문자열이면 삭제
+  isPrivate: boolean; // 비공개 계정 여부
 }
 
 // ============================================
@@ -275,13 +721,19 @@ export interface PostWithUser {
   image_url: string;
   caption?: string;
   created_at: Timestamp;
+  updated_at: Timestamp;
   likes_count: number;
   comments_count: number;
   // 사용자 정보
   name: string;
   clerk_id: ClerkUserId;
+  username: string;
+  // 게시물 이미지 목록 (position 순, 없으면 image_url 단일 이미지)
+  media?: PostMedia[];
   // 현재 사용자의 좋아요 상태
   isLiked: boolean;
+  // 현재 사용자의 저장 상태 (피드, 상세, 저장 목록 조회 시 포함)
+  isSaved?: boolean;
   // 최신 댓글 2개
   recentComments: CommentWithUser[];
 }
@@ -291,23 +743,29 @@ export interface CommentWithUser {
   id: UUID;
   post_id: UUID;
   user_id: UUID;
+  parent_id?: UUID | null; // 답글인 경우 최상위 댓글 ID
   content: string;
   created_at: Timestamp;
   updated_at: Timestamp;
   // 사용자 정보
   name: string;
   clerk_id: ClerkUserId;
+  username: string;
+  // 좋아요 정보 (게시물 상세 조회 시 포함)
+  likes_count?: number;
+  isLiked?: boolean;
 }
 
 /** 게시물 피드 API 응답 */
 export interface PostsResponse {
   data: PostWithUser[];
-  pagination: {
-    total: number;
-    limit: number;
-    offset: number;
-    hasMore: boolean;
-  };
+  pagination: CursorPaginationInfo;
+}
+
+/** 게시물 상세 API 응답 (/api/posts/[postId]) */
+export interface PostDetailResponse {
+  post: PostWithUser;
+  comments: CommentWithUser[];
 }
 
 /** 업로드 결과 */
@@ -368,12 +826,14 @@ export type WithoutTimestamps<
 //   PostStats,
 //   Like,
 //   CreateLikeData,
+//   CommentLike,
 //   Comment,
 //   CreateCommentData,
 //   UpdateCommentData,
 //   Follow,
 //   CreateFollowData,
 //   PaginationInfo,
+//   CursorPaginationInfo,
 //   ApiResponse,
 //   ListResponse,
 //   PostCardProps,
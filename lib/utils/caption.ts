@@ -0,0 +1,58 @@
+import { HASHTAG_PATTERN_SOURCE, normalizeHashtag } from "@/lib/utils/hashtag";
+import { MENTION_PATTERN_SOURCE } from "@/lib/utils/mention";
+
+/**
+ * 캡션/댓글 텍스트 렌더링 유틸리티
+ *
+ * 텍스트를 일반 텍스트, #해시태그, @멘션 조각으로 분리합니다.
+ * (components/post/CaptionText.tsx에서 링크로 표시)
+ */
+
+/**
+ * 텍스트 조각 (일반 텍스트, 해시태그, 멘션)
+ */
+export type CaptionSegment =
+  | { type: "text"; value: string }
+  | { type: "hashtag"; value: string; tag: string }
+  | { type: "mention"; value: string; username: string };
+
+/**
+ * 텍스트를 일반 텍스트와 해시태그/멘션 조각으로 분리 (링크 렌더링용)
+ */
+export function splitCaption(text: string): CaptionSegment[] {
+  const pattern = new RegExp(
+    `${HASHTAG_PATTERN_SOURCE}|${MENTION_PATTERN_SOURCE}`,
+    "gu",
+  );
+  const segments: CaptionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: "text", value: text.slice(lastIndex, index) });
+    }
+
+    // match[1]: 해시태그, match[2]: 멘션
+    if (match[1] !== undefined) {
+      segments.push({
+        type: "hashtag",
+        value: match[0],
+        tag: normalizeHashtag(match[1]),
+      });
+    } else {
+      segments.push({
+        type: "mention",
+        value: match[0],
+        username: match[2].toLowerCase(),
+      });
+    }
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", value: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
@@ -0,0 +1,29 @@
+/**
+ * 컬렉션 관련 공통 유틸리티
+ *
+ * 컬렉션 생성/이름 변경 폼(클라이언트)과 /api/collections(서버)에서
+ * 함께 사용하는 입력 제한 상수
+ */
+
+/**
+ * 컬렉션 이름 최대 길이
+ */
+export const MAX_COLLECTION_NAME_LENGTH = 50;
+
+/**
+ * 컬렉션 이름 정리 (앞뒤 공백 제거)
+ *
+ * @returns 비어 있거나 최대 길이를 넘으면 null
+ */
+export function normalizeCollectionName(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.length > MAX_COLLECTION_NAME_LENGTH) {
+    return null;
+  }
+
+  return trimmed;
+}
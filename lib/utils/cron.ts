@@ -0,0 +1,14 @@
+/**
+ * Vercel Cron 요청 확인 (API Routes 전용)
+ *
+ * Vercel은 CRON_SECRET 환경 변수가 있으면 Cron 호출에
+ * Authorization: Bearer ${CRON_SECRET} 헤더를 붙입니다.
+ * CRON_SECRET이 설정되지 않았으면 항상 false를 반환합니다.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  return (
+    !!cronSecret &&
+    request.headers.get("authorization") === `Bearer ${cronSecret}`
+  );
+}
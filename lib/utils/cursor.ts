@@ -0,0 +1,79 @@
+/**
+ * 커서 기반(keyset) 페이지네이션 유틸리티 (API Routes 전용)
+ *
+ * (created_at, id) 내림차순 정렬 기준으로 마지막 항목 이후를 조회합니다.
+ * offset 방식과 달리 스크롤 중 새 항목이 추가되어도 중복/누락이 없습니다.
+ * 클라이언트에는 base64url로 인코딩한 불투명(opaque) 문자열만 노출합니다.
+ *
+ * @example
+ * ```ts
+ * const cursor = decodeCursor(searchParams.get("cursor"));
+ * if (cursor === undefined) return createBadRequestResponse("잘못된 cursor입니다.");
+ *
+ * let query = supabase.from("post_stats").select("*")
+ *   .order("created_at", { ascending: false })
+ *   .order("post_id", { ascending: false })
+ *   .limit(limit + 1);
+ * if (cursor) query = query.or(getCursorFilter(cursor, "post_id"));
+ * ```
+ */
+
+/**
+ * 커서가 가리키는 마지막 항목의 정렬 키
+ */
+export interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 정렬 키를 커서 문자열로 인코딩
+ */
+export function encodeCursor({ createdAt, id }: Cursor): string {
+  return Buffer.from(JSON.stringify([createdAt, id])).toString("base64url");
+}
+
+/**
+ * 커서 문자열 디코딩
+ *
+ * @returns 커서가 없으면 null, 형식이 잘못되었으면 undefined
+ */
+export function decodeCursor(value: string | null): Cursor | null | undefined {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString());
+
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 2 ||
+      typeof decoded[0] !== "string" ||
+      typeof decoded[1] !== "string" ||
+      Number.isNaN(Date.parse(decoded[0])) ||
+      decoded[0].includes('"') ||
+      !UUID_PATTERN.test(decoded[1])
+    ) {
+      return undefined;
+    }
+
+    return { createdAt: decoded[0], id: decoded[1] };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 커서 이후 항목을 조회하는 PostgREST or 필터 생성
+ *
+ * created_at < 커서 OR (created_at = 커서 AND id < 커서 id)
+ */
+export function getCursorFilter(cursor: Cursor, idColumn = "id"): string {
+  const createdAt = `"${cursor.createdAt}"`;
+  const id = `"${cursor.id}"`;
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},${idColumn}.lt.${id})`;
+}
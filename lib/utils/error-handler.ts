@@ -17,6 +17,7 @@ export type ErrorType =
   | "CONFLICT" // 409
   | "SERVER_ERROR" // 500
   | "NETWORK_ERROR" // 네트워크 연결 실패
+  | "ABORTED" // 요청 취소 (컴포넌트 언마운트 등, 사용자에게 표시하지 않음)
   | "UNKNOWN_ERROR"; // 알 수 없는 오류
 
 /**
@@ -26,6 +27,7 @@ export interface ErrorInfo {
   type: ErrorType;
   message: string;
   statusCode?: number;
+  code?: string; // API 에러 응답의 code (예: "UPLOAD_REJECTED")
   originalError?: unknown;
 }
 
@@ -65,6 +67,7 @@ const ERROR_MESSAGES: Record<ErrorType, string> = {
   CONFLICT: "이미 처리된 요청입니다.",
   SERVER_ERROR: "서버에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.",
   NETWORK_ERROR: "네트워크 연결에 문제가 있습니다. 인터넷 연결을 확인해주세요.",
+  ABORTED: "요청이 취소되었습니다.",
   UNKNOWN_ERROR: "알 수 없는 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
 };
 
@@ -93,6 +96,13 @@ export function isNetworkError(error: unknown): boolean {
   return false;
 }
 
+/**
+ * AbortController로 취소된 요청인지 확인
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
 /**
  * fetch 에러를 처리하고 ErrorInfo 반환
  */
@@ -113,13 +123,17 @@ export async function handleFetchError(
   if (response) {
     const errorType = getErrorTypeFromStatusCode(response.status);
     let message = getUserFriendlyMessage(errorType);
+    let code: string | undefined;
 
-    // 응답 본문에서 에러 메시지 추출 시도
+    // 응답 본문에서 에러 메시지/코드 추출 시도
     try {
       const data = await response.json();
       if (data.error && typeof data.error === "string") {
         message = data.error;
       }
+      if (typeof data.code === "string") {
+        code = data.code;
+      }
     } catch {
       // JSON 파싱 실패 시 기본 메시지 사용
     }
@@ -128,6 +142,7 @@ export async function handleFetchError(
       type: errorType,
       message,
       statusCode: response.status,
+      code,
       originalError: error,
     };
   }
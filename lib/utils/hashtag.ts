@@ -0,0 +1,50 @@
+/**
+ * 해시태그 관련 공통 유틸리티
+ *
+ * 캡션에서 #태그를 찾는 규칙을 서버(저장)와 클라이언트(링크 표시)에서
+ * 동일하게 사용하기 위한 헬퍼 함수
+ * (migrations/..._create_hashtags.sql의 기존 게시물 추출 규칙과 동일)
+ */
+
+/**
+ * 해시태그 최대 길이 ('#' 제외)
+ */
+export const MAX_HASHTAG_LENGTH = 100;
+
+/**
+ * 해시태그 패턴: '#' 뒤의 문자(한글 포함), 숫자, 밑줄 (u 플래그 필요)
+ */
+export const HASHTAG_PATTERN_SOURCE = `#([\\p{L}\\p{N}_]{1,${MAX_HASHTAG_LENGTH}})`;
+
+/**
+ * 태그 이름 정규화 (소문자, '#' 제거)
+ */
+export function normalizeHashtag(tag: string): string {
+  return tag.replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * 캡션에서 해시태그 추출 (정규화 후 중복 제거, 등장 순서 유지)
+ *
+ * @example extractHashtags("#Travel 여행 #travel #맛집") // ["travel", "맛집"]
+ */
+export function extractHashtags(caption: string | null | undefined): string[] {
+  if (!caption) {
+    return [];
+  }
+
+  const tags = new Set<string>();
+  for (const match of caption.matchAll(
+    new RegExp(HASHTAG_PATTERN_SOURCE, "gu"),
+  )) {
+    tags.add(normalizeHashtag(match[1]));
+  }
+  return Array.from(tags);
+}
+
+/**
+ * 태그 페이지 경로 (/tags/[tag])
+ */
+export function getTagPath(tag: string): string {
+  return `/tags/${encodeURIComponent(normalizeHashtag(tag))}`;
+}
@@ -0,0 +1,211 @@
+import { CropAspectRatio, ImageEdit, ImageFilterName } from "@/lib/types";
+
+/**
+ * 게시물 작성 이미지 편집 유틸리티 (클라이언트 전용)
+ *
+ * CreatePostModal의 편집 단계에서 사용하는 자르기 비율, 필터 프리셋과
+ * 미리보기/업로드 결과를 같은 계산으로 그리는 캔버스 헬퍼
+ */
+
+/** 자르기 비율 프리셋 (가로 / 세로) */
+export const CROP_ASPECT_RATIOS: {
+  value: CropAspectRatio;
+  label: string;
+  ratio: number;
+}[] = [
+  { value: "1:1", label: "1:1", ratio: 1 },
+  { value: "4:5", label: "4:5", ratio: 4 / 5 },
+  { value: "1.91:1", label: "1.91:1", ratio: 1.91 },
+];
+
+/** 필터 프리셋 (CSS filter 문자열, 캔버스 ctx.filter에도 그대로 사용) */
+export const IMAGE_FILTERS: {
+  value: ImageFilterName;
+  label: string;
+  css: string;
+}[] = [
+  { value: "none", label: "원본", css: "" },
+  { value: "vivid", label: "선명하게", css: "saturate(1.35) contrast(1.1)" },
+  { value: "warm", label: "따뜻하게", css: "sepia(0.25) saturate(1.2)" },
+  {
+    value: "cool",
+    label: "차갑게",
+    css: "hue-rotate(-10deg) saturate(0.9) brightness(1.05)",
+  },
+  { value: "mono", label: "흑백", css: "grayscale(1) contrast(1.1)" },
+  {
+    value: "vintage",
+    label: "빈티지",
+    css: "sepia(0.45) contrast(0.9) brightness(1.05)",
+  },
+];
+
+/** 확대 범위 */
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 3;
+
+/**
+ * 편집 결과 최대 너비 (px)
+ *
+ * 서버 변환본의 최대 너비(POST_IMAGE_WIDTHS)와 같습니다.
+ */
+export const MAX_EDITED_IMAGE_WIDTH = 1080;
+
+/** 편집하지 않은 초기 상태 */
+export const DEFAULT_IMAGE_EDIT: ImageEdit = {
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  filter: "none",
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+};
+
+/**
+ * 자르기 비율 값 반환 (가로 / 세로)
+ */
+export function getAspectRatioValue(aspectRatio: CropAspectRatio): number {
+  return (
+    CROP_ASPECT_RATIOS.find((item) => item.value === aspectRatio)?.ratio ?? 1
+  );
+}
+
+/**
+ * 필터 프리셋과 밝기/대비/채도 조정을 합친 CSS filter 문자열 반환
+ */
+export function getFilterString(edit: ImageEdit): string {
+  const preset =
+    IMAGE_FILTERS.find((item) => item.value === edit.filter)?.css ?? "";
+  const adjustments = [
+    edit.brightness !== 0 && `brightness(${1 + edit.brightness / 100})`,
+    edit.contrast !== 0 && `contrast(${1 + edit.contrast / 100})`,
+    edit.saturation !== 0 && `saturate(${1 + edit.saturation / 100})`,
+  ].filter(Boolean);
+
+  return [preset, ...adjustments].join(" ").trim() || "none";
+}
+
+/**
+ * 원본 이미지에서 잘라낼 영역 계산
+ *
+ * 비율에 맞는 가장 큰 영역을 zoom만큼 줄이고,
+ * 남는 공간 안에서 offset(-1 ~ 1)만큼 이동합니다.
+ */
+export function getCropRect(
+  imageWidth: number,
+  imageHeight: number,
+  aspectRatio: number,
+  edit: Pick<ImageEdit, "zoom" | "offsetX" | "offsetY">,
+): { x: number; y: number; width: number; height: number } {
+  // 1. 비율에 맞는 최대 영역
+  let width = imageWidth;
+  let height = imageWidth / aspectRatio;
+  if (height > imageHeight) {
+    height = imageHeight;
+    width = imageHeight * aspectRatio;
+  }
+
+  // 2. 확대
+  width /= edit.zoom;
+  height /= edit.zoom;
+
+  // 3. 이동 (남는 공간 기준)
+  const slackX = imageWidth - width;
+  const slackY = imageHeight - height;
+
+  return {
+    x: (slackX * (edit.offsetX + 1)) / 2,
+    y: (slackY * (edit.offsetY + 1)) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * 편집 상태를 적용해 캔버스에 그리기
+ *
+ * 캔버스 크기(width/height)는 호출하는 쪽에서 자르기 비율에 맞게 지정합니다.
+ */
+export function drawEditedImage(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  aspectRatio: number,
+  edit: ImageEdit,
+): void {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const crop = getCropRect(
+    image.naturalWidth,
+    image.naturalHeight,
+    aspectRatio,
+    edit,
+  );
+
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.filter = getFilterString(edit);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(
+    image,
+    crop.x,
+    crop.y,
+    crop.width,
+    crop.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height,
+  );
+  context.filter = "none";
+}
+
+/**
+ * 이미지 URL(blob URL 등)을 HTMLImageElement로 로드
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("이미지를 불러올 수 없습니다."));
+    image.src = src;
+  });
+}
+
+/**
+ * 편집 상태를 적용한 최종 이미지 Blob 생성 (업로드용 JPEG)
+ *
+ * 잘라낸 영역보다 크게 확대하지 않고, 최대 너비는 MAX_EDITED_IMAGE_WIDTH입니다.
+ * 서버에서 다시 WebP로 변환하므로 높은 품질로 인코딩합니다.
+ */
+export async function renderEditedImage(
+  src: string,
+  aspectRatio: number,
+  edit: ImageEdit,
+): Promise<Blob> {
+  const image = await loadImage(src);
+  const crop = getCropRect(
+    image.naturalWidth,
+    image.naturalHeight,
+    aspectRatio,
+    edit,
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(
+    1,
+    Math.round(Math.min(crop.width, MAX_EDITED_IMAGE_WIDTH)),
+  );
+  canvas.height = Math.max(1, Math.round(canvas.width / aspectRatio));
+
+  drawEditedImage(canvas, image, aspectRatio, edit);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("이미지 편집에 실패했습니다.")),
+      "image/jpeg",
+      0.92,
+    );
+  });
+}
@@ -0,0 +1,38 @@
+import type { ImageLoader } from "next/image";
+import { ImageVariant } from "@/lib/types";
+
+/**
+ * 게시물 이미지 변환본 관련 공통 유틸리티
+ *
+ * 서버(lib/images.ts)에서 생성하는 변환본 너비와
+ * 클라이언트에서 srcset을 구성하는 next/image 로더
+ */
+
+/**
+ * 게시물 이미지 변환본 너비 (px, 오름차순)
+ *
+ * 가장 큰 너비(1080px)가 게시물 이미지의 최대 해상도입니다.
+ */
+export const POST_IMAGE_WIDTHS = [320, 640, 1080];
+
+/**
+ * 요청 너비 이상인 가장 작은 변환본 URL 반환
+ *
+ * 요청 너비보다 큰 변환본이 없으면 가장 큰 변환본을 사용합니다.
+ */
+export function getVariantUrl(variants: ImageVariant[], width: number): string {
+  const sorted = [...variants].sort((a, b) => a.width - b.width);
+  const variant =
+    sorted.find((item) => item.width >= width) || sorted[sorted.length - 1];
+  return variant.url;
+}
+
+/**
+ * 변환본 목록으로 srcset을 구성하는 next/image 로더 생성
+ *
+ * next/image가 deviceSizes/imageSizes 너비마다 로더를 호출하므로
+ * 각 너비에 맞는 저장된 변환본 URL을 돌려줍니다. (Next.js 이미지 최적화 서버 미사용)
+ */
+export function createVariantLoader(variants: ImageVariant[]): ImageLoader {
+  return ({ width }) => getVariantUrl(variants, width);
+}
@@ -0,0 +1,57 @@
+import { MAX_USERNAME_LENGTH } from "@/lib/utils/profile";
+
+/**
+ * 멘션(@username) 관련 공통 유틸리티
+ *
+ * 캡션/댓글에서 @멘션을 찾는 규칙을 서버(저장)와 클라이언트(링크 표시,
+ * 자동완성)에서 동일하게 사용하기 위한 헬퍼 함수
+ */
+
+/**
+ * 멘션 패턴: '@' 뒤의 사용자 이름 (u 플래그 필요)
+ *
+ * 이메일 주소(foo@bar.com)처럼 앞에 문자가 붙은 '@'는 제외합니다.
+ * 사용자 이름은 마침표로 끝날 수 없으므로 문장 끝 마침표("@jane.")는 포함하지 않습니다.
+ */
+export const MENTION_PATTERN_SOURCE = `(?<![\\p{L}\\p{N}_.@])@([A-Za-z0-9._]{0,${MAX_USERNAME_LENGTH - 1}}[A-Za-z0-9_])`;
+
+/**
+ * 입력 중인 멘션 패턴 (커서 바로 앞의 "@" 또는 "@부분이름")
+ */
+const ACTIVE_MENTION_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}_.@])@([A-Za-z0-9._]{0,${MAX_USERNAME_LENGTH}})$`,
+  "u",
+);
+
+/**
+ * 텍스트에서 멘션된 사용자 이름 추출 (소문자, 중복 제거, 등장 순서 유지)
+ *
+ * @example extractMentions("@Jane 안녕 @jane @min.su") // ["jane", "min.su"]
+ */
+export function extractMentions(text: string | null | undefined): string[] {
+  if (!text) {
+    return [];
+  }
+
+  const usernames = new Set<string>();
+  for (const match of text.matchAll(new RegExp(MENTION_PATTERN_SOURCE, "gu"))) {
+    usernames.add(match[1].toLowerCase());
+  }
+  return Array.from(usernames);
+}
+
+/**
+ * 커서 위치에서 입력 중인 멘션 찾기 (자동완성용)
+ *
+ * @returns 입력 중인 멘션의 시작 위치('@')와 검색어, 없으면 null
+ */
+export function getActiveMention(
+  text: string,
+  caret: number,
+): { start: number; query: string } | null {
+  const match = text.slice(0, caret).match(ACTIVE_MENTION_PATTERN);
+  if (!match || match.index === undefined) {
+    return null;
+  }
+  return { start: match.index, query: match[1] };
+}
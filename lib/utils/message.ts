@@ -0,0 +1,31 @@
+/**
+ * 다이렉트 메시지 관련 공통 유틸리티
+ *
+ * 메시지 API(서버)와 대화방 화면(클라이언트)에서 함께 사용하는 상수와 읽음 확인 헬퍼
+ */
+
+import { Message } from "@/lib/types";
+
+/**
+ * 메시지 최대 길이 (DB CHECK 제약과 동일)
+ */
+export const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * 메시지 목록 한 번에 불러오는 개수
+ */
+export const MESSAGES_PAGE_SIZE = 30;
+
+/**
+ * 상대방이 메시지를 읽었는지 확인 (상대방의 last_read_at 이전에 작성된 메시지)
+ */
+export function isMessageRead(
+  message: Pick<Message, "created_at">,
+  lastReadAt: string | null,
+): boolean {
+  if (!lastReadAt) {
+    return false;
+  }
+
+  return new Date(message.created_at).getTime() <= new Date(lastReadAt).getTime();
+}
@@ -0,0 +1,99 @@
+/**
+ * 알림 관련 공통 유틸리티
+ *
+ * 활동 페이지에서 알림을 묶어서 표시하기 위한 그룹화 및 문구 생성 헬퍼
+ * - 좋아요: 같은 게시물 단위로 묶음
+ * - 팔로우: 하나로 묶음
+ * - 댓글: 내용이 모두 다르므로 개별 표시
+ */
+
+import { NotificationType, NotificationWithActor, UUID } from "@/lib/types";
+
+/**
+ * 그룹화된 알림 (목록 한 줄)
+ */
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  postId: UUID | null;
+  postImageUrl: string | null;
+  commentContent: string | null;
+  actors: { name: string; clerk_id: string; username: string }[]; // 최신순, 중복 제거
+  notificationIds: UUID[];
+  latestAt: string;
+  isRead: boolean; // 묶인 알림이 모두 읽음이면 true
+}
+
+/**
+ * 알림 목록을 그룹으로 묶기 (입력은 최신순 정렬 가정, 출력도 최신순)
+ */
+export function groupNotifications(
+  notifications: NotificationWithActor[],
+): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key =
+      notification.type === "like"
+        ? `like:${notification.post_id}`
+        : notification.type === "follow"
+          ? "follow"
+          : `comment:${notification.id}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        type: notification.type,
+        postId: notification.post_id,
+        postImageUrl: notification.post_image_url,
+        commentContent: notification.comment_content,
+        actors: [],
+        notificationIds: [],
+        latestAt: notification.created_at,
+        isRead: true,
+      };
+      groups.set(key, group);
+    }
+
+    group.notificationIds.push(notification.id);
+    group.isRead = group.isRead && notification.is_read;
+
+    if (
+      !group.actors.some(
+        (actor) => actor.clerk_id === notification.actor_clerk_id,
+      )
+    ) {
+      group.actors.push({
+        name: notification.actor_name,
+        clerk_id: notification.actor_clerk_id,
+        username: notification.actor_username,
+      });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * 그룹 알림 문구 생성
+ *
+ * @example "홍길동님 외 3명이 회원님의 게시물을 좋아합니다."
+ */
+export function getNotificationMessage(group: NotificationGroup): string {
+  const [firstActor] = group.actors;
+  const othersCount = group.actors.length - 1;
+  const subject =
+    othersCount > 0
+      ? `${firstActor.name}님 외 ${othersCount}명이`
+      : `${firstActor.name}님이`;
+
+  switch (group.type) {
+    case "like":
+      return `${subject} 회원님의 게시물을 좋아합니다.`;
+    case "comment":
+      return `${subject} 댓글을 남겼습니다: ${group.commentContent ?? ""}`;
+    case "follow":
+      return `${subject} 회원님을 팔로우하기 시작했습니다.`;
+  }
+}
@@ -0,0 +1,122 @@
+import { PostImageSource, PostMedia } from "@/lib/types";
+
+/**
+ * 게시물 관련 공통 유틸리티
+ *
+ * 캡션 길이 제한 등 클라이언트/서버에서 함께 사용하는 상수와
+ * 게시물 상태 판별 헬퍼 함수
+ */
+
+/**
+ * 캡션 최대 길이 (PRD 기준 2,200자)
+ */
+export const MAX_CAPTION_LENGTH = 2200;
+
+/**
+ * 게시물당 최대 이미지 수 (캐러셀)
+ */
+export const MAX_POST_IMAGES = 10;
+
+/**
+ * 게시물 이미지 1장당 최대 업로드 크기 (5MB)
+ */
+export const MAX_POST_IMAGE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 재개 가능 업로드로 받을 수 있는 이미지 형식 (MIME 타입 → 임시 파일 확장자)
+ */
+export const POST_UPLOAD_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+};
+
+/**
+ * 업로드한 임시 파일이 잘못되어 게시물 생성이 거부된 경우의 에러 코드
+ *
+ * 서버가 임시 파일을 삭제하므로 클라이언트는 이어서 업로드하지 않고 처음부터 다시 업로드합니다.
+ */
+export const UPLOAD_REJECTED_CODE = "UPLOAD_REJECTED";
+
+/**
+ * 게시물의 이미지 URL 목록 반환 (표시 순서대로)
+ *
+ * post_media가 없는 게시물(이관 전 데이터 등)은 image_url 단일 이미지로 처리합니다.
+ */
+export function getPostImageUrls(post: {
+  image_url: string;
+  media?: { image_url: string; position: number }[];
+}): string[] {
+  if (!post.media || post.media.length === 0) {
+    return [post.image_url];
+  }
+  return [...post.media]
+    .sort((a, b) => a.position - b.position)
+    .map((media) => media.image_url);
+}
+
+/**
+ * 게시물의 이미지 목록 반환 (표시 순서대로, 반응형 변환본과 플레이스홀더 포함)
+ *
+ * post_media가 없는 게시물은 image_url 단일 이미지로, 변환 전에 업로드된 이미지는
+ * 변환본 없이 원본 URL로 처리합니다.
+ */
+export function getPostImages(post: {
+  image_url: string;
+  media?: PostMedia[];
+}): PostImageSource[] {
+  if (!post.media || post.media.length === 0) {
+    return [
+      {
+        url: post.image_url,
+        width: null,
+        height: null,
+        blurhash: null,
+        variants: [],
+      },
+    ];
+  }
+  return [...post.media]
+    .sort((a, b) => a.position - b.position)
+    .map((media) => ({
+      url: media.image_url,
+      width: media.width ?? null,
+      height: media.height ?? null,
+      blurhash: media.blurhash ?? null,
+      variants: media.variants ?? [],
+    }));
+}
+
+/**
+ * 피드에 표시할 게시물 이미지 비율 (가로 / 세로)
+ *
+ * 첫 번째 이미지의 크기를 기준으로 작성 시 자르기 비율 범위(4:5 ~ 1.91:1)로 제한하고,
+ * 크기 정보가 없는 이관 전 이미지는 정사각형(1:1)으로 표시합니다.
+ */
+export function getPostAspectRatio(images: PostImageSource[]): number {
+  const first = images[0];
+  if (!first?.width || !first?.height) {
+    return 1;
+  }
+  return Math.min(1.91, Math.max(4 / 5, first.width / first.height));
+}
+
+/**
+ * 게시물이 수정되었는지 확인
+ *
+ * 생성 시에는 created_at과 updated_at이 같은 값으로 저장되므로
+ * 두 값이 다르면 이후에 캡션이 수정된 것으로 판단합니다.
+ */
+export function isPostEdited(post: {
+  created_at: string;
+  updated_at?: string | null;
+}): boolean {
+  if (!post.updated_at) {
+    return false;
+  }
+  return (
+    new Date(post.updated_at).getTime() !== new Date(post.created_at).getTime()
+  );
+}
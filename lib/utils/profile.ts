@@ -0,0 +1,135 @@
+/**
+ * 프로필 관련 공통 유틸리티
+ *
+ * 프로필 편집 폼(클라이언트)과 PATCH /api/users/[userId](서버)에서
+ * 함께 사용하는 입력 제한 상수와 검증 스키마,
+ * sync-user API와 Clerk 웹훅에서 함께 사용하는 표시 이름 계산
+ */
+
+import { z } from "zod";
+
+/**
+ * 이름 최대 길이
+ */
+export const MAX_NAME_LENGTH = 50;
+
+/**
+ * 핸들(username) 최대 길이
+ */
+export const MAX_USERNAME_LENGTH = 30;
+
+/**
+ * 소개 최대 길이 (Instagram 기준 150자)
+ */
+export const MAX_BIO_LENGTH = 150;
+
+/**
+ * 웹사이트 URL 최대 길이
+ */
+export const MAX_WEBSITE_LENGTH = 200;
+
+/**
+ * 프로필 이미지 최대 크기 (2MB)
+ */
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+/**
+ * 핸들 형식: 소문자, 숫자, 밑줄(_), 마침표(.) (마침표로 끝날 수 없음)
+ */
+export const USERNAME_PATTERN = /^[a-z0-9._]*[a-z0-9_]$/;
+
+/**
+ * 프로필 페이지 경로 (/u/[username])
+ */
+export function getProfilePath(username: string): string {
+  return `/u/${encodeURIComponent(username)}`;
+}
+
+/**
+ * Clerk 사용자 정보 중 표시 이름 계산에 사용하는 값
+ */
+export interface DisplayNameSource {
+  firstName?: string | null;
+  lastName?: string | null;
+  username?: string | null;
+  primaryEmail?: string | null;
+}
+
+/**
+ * Clerk 사용자 표시 이름 (이름 → 핸들 → 기본 이메일 순)
+ *
+ * 로그인 시 동기화(sync-user)와 웹훅(user.created/updated)이 같은 값을 저장해야
+ * clerk_name 비교로 Clerk 쪽 이름 변경 여부를 올바르게 판단할 수 있음
+ */
+export function getDisplayName({
+  firstName,
+  lastName,
+  username,
+  primaryEmail,
+}: DisplayNameSource): string {
+  const fullName = [firstName, lastName].filter(Boolean).join(" ");
+
+  return fullName || username || primaryEmail || "Unknown";
+}
+
+/**
+ * 웹사이트 주소 정규화 (프로토콜이 없으면 https:// 추가)
+ *
+ * @returns 올바른 http(s) URL이 아니면 null
+ */
+export function normalizeWebsite(value: string): string | null {
+  const trimmed = value.trim();
+  const withProtocol = /^https?:\/\//i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+
+  try {
+    const url = new URL(withProtocol);
+    if (!url.hostname.includes(".")) {
+      return null;
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 프로필 편집 폼 검증 스키마
+ */
+export const profileFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "이름을 입력해주세요.")
+    .max(MAX_NAME_LENGTH, `이름은 ${MAX_NAME_LENGTH}자 이하여야 합니다.`),
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, "사용자 이름을 입력해주세요.")
+    .max(
+      MAX_USERNAME_LENGTH,
+      `사용자 이름은 ${MAX_USERNAME_LENGTH}자 이하여야 합니다.`,
+    )
+    .regex(
+      USERNAME_PATTERN,
+      "사용자 이름에는 영문 소문자, 숫자, 밑줄(_), 마침표(.)만 사용할 수 있으며 마침표로 끝날 수 없습니다.",
+    ),
+  bio: z
+    .string()
+    .trim()
+    .max(MAX_BIO_LENGTH, `소개는 ${MAX_BIO_LENGTH}자 이하여야 합니다.`),
+  website: z
+    .string()
+    .trim()
+    .max(
+      MAX_WEBSITE_LENGTH,
+      `웹사이트 주소는 ${MAX_WEBSITE_LENGTH}자 이하여야 합니다.`,
+    )
+    .refine(
+      (value) => value === "" || normalizeWebsite(value) !== null,
+      "올바른 웹사이트 주소를 입력해주세요.",
+    ),
+  isPrivate: z.boolean(),
+});
@@ -0,0 +1,63 @@
+/**
+ * 신고 관련 공통 유틸리티
+ *
+ * 신고 다이얼로그(클라이언트)와 /api/reports, /api/admin/reports(서버)에서
+ * 함께 사용하는 신고 사유 목록과 입력 제한 상수
+ */
+
+import { ReportReason, ReportTargetType } from "@/lib/types";
+
+/**
+ * 신고 사유 (표시 순서대로)
+ */
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "스팸" },
+  { value: "nudity", label: "나체 이미지 또는 성적 행위" },
+  { value: "harassment", label: "따돌림 또는 괴롭힘" },
+  { value: "hate_speech", label: "혐오 발언 또는 상징" },
+  { value: "violence", label: "폭력 또는 위험한 단체" },
+  { value: "false_information", label: "거짓 정보" },
+  { value: "other", label: "기타" },
+];
+
+/**
+ * 신고 대상 종류
+ */
+export const REPORT_TARGET_TYPES: ReportTargetType[] = [
+  "post",
+  "comment",
+  "user",
+];
+
+/**
+ * 신고 상세 설명 최대 길이
+ */
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/**
+ * 신고 사유 표시 문구
+ */
+export function getReportReasonLabel(reason: ReportReason): string {
+  return REPORT_REASONS.find((item) => item.value === reason)?.label ?? reason;
+}
+
+/**
+ * 신고 대상 종류 표시 문구
+ */
+export function getReportTargetLabel(targetType: ReportTargetType): string {
+  switch (targetType) {
+    case "post":
+      return "게시물";
+    case "comment":
+      return "댓글";
+    case "user":
+      return "계정";
+  }
+}
+
+/**
+ * 신고 사유 유효성 확인
+ */
+export function isReportReason(value: unknown): value is ReportReason {
+  return REPORT_REASONS.some((item) => item.value === value);
+}
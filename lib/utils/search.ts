@@ -0,0 +1,36 @@
+/**
+ * 검색 관련 공통 유틸리티
+ *
+ * 검색어 정리 규칙과 제한 상수 (API Routes, 검색 페이지에서 사용)
+ */
+
+/**
+ * 검색어 최대 길이
+ */
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+
+/**
+ * 사용자별 최근 검색어 보관 개수
+ */
+export const MAX_RECENT_SEARCHES = 10;
+
+/**
+ * 검색어 정리
+ *
+ * - 앞뒤 공백 제거, 최대 길이로 자르기
+ * - PostgREST or 필터 구문을 깨뜨리는 문자(, ( ) * % \)는 제거
+ * - 앞의 '@', '#'은 유지 (검색 대상 구분에 사용)
+ */
+export function sanitizeSearchQuery(value: string | null): string {
+  return (value ?? "")
+    .replace(/[,()*%\\]/g, "")
+    .trim()
+    .slice(0, MAX_SEARCH_QUERY_LENGTH);
+}
+
+/**
+ * 검색어에서 '@', '#' 접두사 제거 (사용자 이름, 태그 이름 비교용)
+ */
+export function stripSearchPrefix(query: string): string {
+  return query.replace(/^[@#]+/, "");
+}
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Supabase Storage 관련 공통 유틸리티 (API Routes 전용)
+ *
+ * uploads 버킷 공개 URL ↔ 버킷 내부 경로 변환 헬퍼
+ * 하위 폴더까지 포함한 파일 목록 조회/일괄 삭제 헬퍼
+ */
+
+const STORAGE_BUCKET = "uploads";
+const STORAGE_PAGE_SIZE = 1000; // Storage list/remove 한 번에 처리 가능한 최대 개수
+
+/** 폴더 아래 파일 (버킷 내부 전체 경로) */
+export interface StorageFileEntry {
+  path: string;
+  createdAt: string | null;
+}
+
+/**
+ * Storage 공개 URL에서 uploads 버킷 내부 경로 추출
+ *
+ * URL 형식: https://[project].supabase.co/storage/v1/object/public/uploads/[userId]/[folder]/[fileName]
+ */
+export function extractStoragePath(imageUrl: string): string | null {
+  try {
+    const url = new URL(imageUrl);
+    const pathParts = url.pathname.split("/");
+    // /storage/v1/object/public/uploads/[userId]/[folder]/[fileName]
+    // uploads 이후 부분 추출
+    const uploadsIndex = pathParts.indexOf("uploads");
+    if (uploadsIndex !== -1 && pathParts.length > uploadsIndex + 1) {
+      return pathParts.slice(uploadsIndex + 1).join("/");
+    }
+  } catch (error) {
+    console.warn("Failed to parse image URL, skipping storage deletion:", error);
+  }
+  return null;
+}
+
+/**
+ * 재개 가능 업로드(게시물 작성) 임시 폴더 경로
+ *
+ * 클라이언트가 서명된 업로드 URL로 이 폴더에 원본을 올리면,
+ * 게시물 생성(POST /api/posts) 시 서버가 읽어서 변환한 뒤 삭제합니다.
+ */
+export function getPendingUploadFolder(
+  clerkUserId: string,
+  uploadId: string,
+): string {
+  return `${clerkUserId}/pending/${uploadId}`;
+}
+
+/**
+ * 업로드 ID 형식 확인 (서버에서 발급한 UUID만 허용, 경로 조작 방지)
+ */
+export function isValidUploadId(uploadId: unknown): uploadId is string {
+  return (
+    typeof uploadId === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      uploadId,
+    )
+  );
+}
+
+/**
+ * 폴더 아래 모든 파일 조회 (하위 폴더 포함, 1000개 이상이면 페이지 단위로 계속 조회)
+ *
+ * Storage list()는 한 단계만 조회하므로 폴더(id가 null인 항목)는 재귀적으로 탐색합니다.
+ * 조회 실패 시 에러를 throw합니다.
+ */
+export async function listStorageFiles(
+  supabase: SupabaseClient,
+  prefix: string,
+): Promise<StorageFileEntry[]> {
+  const files: StorageFileEntry[] = [];
+
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(prefix, { limit: STORAGE_PAGE_SIZE, offset });
+
+    if (error) {
+      throw error;
+    }
+
+    for (const item of data || []) {
+      const path = `${prefix}/${item.name}`;
+      if (item.id === null) {
+        files.push(...(await listStorageFiles(supabase, path)));
+      } else {
+        files.push({ path, createdAt: item.created_at ?? null });
+      }
+    }
+
+    if (!data || data.length < STORAGE_PAGE_SIZE) {
+      return files;
+    }
+  }
+}
+
+/**
+ * 여러 파일 삭제 (1000개씩 나누어 요청)
+ *
+ * 삭제 실패 시 에러를 throw합니다.
+ */
+export async function removeStorageFiles(
+  supabase: SupabaseClient,
+  paths: string[],
+): Promise<void> {
+  for (let i = 0; i < paths.length; i += STORAGE_PAGE_SIZE) {
+    const { error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .remove(paths.slice(i, i + STORAGE_PAGE_SIZE));
+
+    if (error) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * 스토리 관련 공통 유틸리티
+ *
+ * 스토리 트레이/뷰어(클라이언트)에서 사용하는 재생 시간 상수와 시간 표시 헬퍼
+ * (만료 시간 24시간은 DB 기본값 stories.expires_at으로 관리)
+ */
+
+/**
+ * 스토리 1장 재생 시간 (ms), 지나면 다음 스토리로 자동 이동
+ */
+export const STORY_DURATION_MS = 5000;
+
+/**
+ * 스토리 작성/조회 시각을 짧은 상대 시간으로 표시 (예: "방금", "5분", "3시간")
+ */
+export function getStoryTimeLabel(timestamp: string): string {
+  const diffInSeconds = Math.floor(
+    (Date.now() - new Date(timestamp).getTime()) / 1000,
+  );
+
+  if (diffInSeconds < 60) return "방금";
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}분`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}시간`;
+  return `${Math.floor(diffInSeconds / 86400)}일`;
+}
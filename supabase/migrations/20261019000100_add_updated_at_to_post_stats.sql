@@ -0,0 +1,34 @@
+-- ============================================
+-- Migration: post_stats 뷰에 updated_at 추가
+-- ============================================
+-- 게시물 캡션 수정 기능 (PATCH /api/posts/[postId]) 지원
+-- - 피드/상세 화면에서 "수정됨" 표시를 위해 updated_at 노출
+-- - posts.updated_at은 set_updated_at 트리거로 자동 갱신됨
+-- ============================================
+
+-- 뷰 재생성 (컬럼 추가 시 CREATE OR REPLACE로는 순서 변경 불가하므로 DROP 후 생성)
+DROP VIEW IF EXISTS public.post_stats;
+CREATE OR REPLACE VIEW public.post_stats
+WITH (security_invoker = true)
+AS
+SELECT
+    p.id as post_id,
+    p.user_id,
+    p.image_url,
+    p.caption,
+    p.created_at,
+    p.updated_at,
+    COUNT(DISTINCT l.id) as likes_count,
+    COUNT(DISTINCT c.id) as comments_count
+FROM public.posts p
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.updated_at;
+
+-- 보안 장벽 적용
+ALTER VIEW public.post_stats SET (security_barrier = true);
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
@@ -0,0 +1,97 @@
+-- ============================================
+-- Migration: 다중 이미지(캐러셀) 게시물 지원
+-- ============================================
+-- 1. post_media 테이블 생성 (게시물당 최대 10장, 순서 보장)
+-- 2. 기존 게시물의 image_url을 post_media로 이관
+-- ============================================
+-- Note: posts.image_url은 대표(첫 번째) 이미지로 유지하여
+--       썸네일/기존 쿼리와의 호환성을 보장합니다.
+-- ============================================
+
+-- ============================================
+-- 1. Post Media 테이블 (게시물 이미지)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.post_media (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+    image_url TEXT NOT NULL,  -- Supabase Storage URL
+    position SMALLINT NOT NULL,  -- 0부터 시작하는 표시 순서
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 같은 게시물 내 순서 중복 방지 및 최대 10장 제한
+    UNIQUE(post_id, position),
+    CHECK (position >= 0 AND position < 10)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.post_media OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_post_media_post_id ON public.post_media(post_id, position);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Post Media
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.post_media DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access post media"
+ON public.post_media FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to post media"
+ON public.post_media FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 인증된 사용자는 모든 게시물 이미지 조회 가능
+CREATE POLICY "Authenticated users can view all post media"
+ON public.post_media FOR SELECT
+TO authenticated
+USING (true);
+
+-- 프로덕션용: 게시물 작성자만 이미지 추가/삭제 가능
+CREATE POLICY "Users can manage own post media"
+ON public.post_media FOR ALL
+TO authenticated
+USING (
+  post_id IN (
+    SELECT p.id FROM public.posts p
+    JOIN public.users u ON u.id = p.user_id
+    WHERE u.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  post_id IN (
+    SELECT p.id FROM public.posts p
+    JOIN public.users u ON u.id = p.user_id
+    WHERE u.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.post_media TO anon;
+GRANT ALL ON TABLE public.post_media TO authenticated;
+GRANT ALL ON TABLE public.post_media TO service_role;
+
+-- ============================================
+-- 2. 기존 게시물 이미지 이관
+-- ============================================
+-- 단일 이미지 게시물을 position 0의 post_media 행으로 복사
+INSERT INTO public.post_media (post_id, image_url, position, created_at)
+SELECT p.id, p.image_url, 0, p.created_at
+FROM public.posts p
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.post_media m WHERE m.post_id = p.id
+);
@@ -0,0 +1,116 @@
+-- ============================================
+-- Migration: 알림(Notifications) 테이블 생성
+-- ============================================
+-- 좋아요, 댓글, 팔로우 발생 시 대상 사용자에게 알림 저장
+-- - /api/likes, /api/comments, /api/follows 성공 시 생성
+-- - 좋아요 취소, 팔로우 해제 시 해당 알림 삭제
+-- - 댓글/게시물 삭제 시 CASCADE로 자동 삭제
+-- ============================================
+
+-- ============================================
+-- 1. Notifications 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    recipient_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,  -- 알림 받는 사람
+    actor_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,  -- 알림을 발생시킨 사람
+    type TEXT NOT NULL CHECK (type IN ('like', 'comment', 'follow')),
+    post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,  -- like, comment인 경우
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,  -- comment인 경우
+    is_read BOOLEAN DEFAULT false NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 자기 자신에게는 알림을 보내지 않음
+    CHECK (recipient_id != actor_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.notifications OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_created_at
+    ON public.notifications(recipient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_unread
+    ON public.notifications(recipient_id)
+    WHERE is_read = false;
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Notifications
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.notifications DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access notifications"
+ON public.notifications FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to notifications"
+ON public.notifications FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 사용자는 자신이 받은 알림만 조회 가능
+CREATE POLICY "Users can view own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (
+  recipient_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+-- 프로덕션용: 사용자는 자신이 발생시킨 알림만 생성 가능
+CREATE POLICY "Users can create notifications as actor"
+ON public.notifications FOR INSERT
+TO authenticated
+WITH CHECK (
+  actor_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+-- 프로덕션용: 사용자는 자신이 받은 알림만 읽음 처리 가능
+CREATE POLICY "Users can update own notifications"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (
+  recipient_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  recipient_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+-- 프로덕션용: 알림 발생자(좋아요 취소, 팔로우 해제)만 삭제 가능
+CREATE POLICY "Actors can delete own notifications"
+ON public.notifications FOR DELETE
+TO authenticated
+USING (
+  actor_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.notifications TO anon;
+GRANT ALL ON TABLE public.notifications TO authenticated;
+GRANT ALL ON TABLE public.notifications TO service_role;
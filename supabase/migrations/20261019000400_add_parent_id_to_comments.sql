@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration: 댓글 답글(스레드) 지원
+-- ============================================
+-- comments.parent_id 추가 (1단계 스레드)
+-- - parent_id가 NULL이면 일반 댓글, 값이 있으면 해당 댓글의 답글
+-- - 답글의 답글은 API에서 최상위 댓글로 연결하여 깊이를 1단계로 유지
+-- - 부모 댓글 삭제 시 답글도 CASCADE로 함께 삭제
+-- ============================================
+
+ALTER TABLE public.comments
+    ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+-- 스레드 조회용 인덱스
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id
+    ON public.comments(parent_id, created_at)
+    WHERE parent_id IS NOT NULL;
@@ -0,0 +1,82 @@
+-- ============================================
+-- Migration: 댓글 좋아요(Comment Likes) 테이블 생성
+-- ============================================
+-- 댓글별 좋아요 저장
+-- - POST/DELETE /api/comments/likes 로 추가/제거
+-- - GET /api/posts/[postId] 댓글 목록에 좋아요 수/상태 포함
+-- - 댓글 삭제 시 CASCADE로 자동 삭제
+-- ============================================
+
+-- ============================================
+-- 1. Comment Likes 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.comment_likes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 중복 좋아요 방지 (같은 사용자가 같은 댓글에 여러 번 좋아요 불가)
+    UNIQUE(comment_id, user_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.comment_likes OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_comment_likes_comment_id ON public.comment_likes(comment_id);
+CREATE INDEX IF NOT EXISTS idx_comment_likes_user_id ON public.comment_likes(user_id);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Comment Likes
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.comment_likes DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access comment likes"
+ON public.comment_likes FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to comment likes"
+ON public.comment_likes FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 인증된 사용자는 모든 댓글 좋아요 조회 가능
+CREATE POLICY "Authenticated users can view all comment likes"
+ON public.comment_likes FOR SELECT
+TO authenticated
+USING (true);
+
+-- 프로덕션용: 사용자는 자신의 댓글 좋아요만 추가/삭제 가능
+CREATE POLICY "Users can manage own comment likes"
+ON public.comment_likes FOR ALL
+TO authenticated
+USING (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.comment_likes TO anon;
+GRANT ALL ON TABLE public.comment_likes TO authenticated;
+GRANT ALL ON TABLE public.comment_likes TO service_role;
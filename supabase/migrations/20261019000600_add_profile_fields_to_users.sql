@@ -0,0 +1,72 @@
+-- ============================================
+-- Migration: 프로필 편집 필드 추가
+-- ============================================
+-- PATCH /api/users/[userId] 프로필 편집 지원
+-- 1. users 테이블에 username(핸들), bio, website, avatar_url 추가
+-- 2. user_stats 뷰에 프로필 필드 노출
+-- 3. uploads 버킷 avatars 폴더 공개 읽기 정책 추가
+-- ============================================
+
+-- ============================================
+-- 1. users 테이블 컬럼 추가
+-- ============================================
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS username TEXT,  -- 소문자, 숫자, 밑줄, 마침표 (최대 30자)
+    ADD COLUMN IF NOT EXISTS bio TEXT,  -- 소개 (최대 150자)
+    ADD COLUMN IF NOT EXISTS website TEXT,  -- 웹사이트 URL
+    ADD COLUMN IF NOT EXISTS avatar_url TEXT;  -- Supabase Storage URL
+
+-- 핸들 형식 및 길이 제한
+ALTER TABLE public.users
+    ADD CONSTRAINT users_username_format
+        CHECK (username IS NULL OR username ~ '^[a-z0-9._]{1,30}$'),
+    ADD CONSTRAINT users_bio_length
+        CHECK (bio IS NULL OR char_length(bio) <= 150);
+
+-- 핸들 중복 방지 (NULL은 허용)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_username ON public.users(username);
+
+-- ============================================
+-- 2. user_stats 뷰 재생성 (프로필 필드 추가)
+-- ============================================
+-- 컬럼 추가 시 CREATE OR REPLACE로는 순서 변경 불가하므로 DROP 후 생성
+DROP VIEW IF EXISTS public.user_stats;
+CREATE OR REPLACE VIEW public.user_stats
+WITH (security_invoker = true)
+AS
+SELECT
+    u.id as user_id,
+    u.clerk_id,
+    u.name,
+    u.username,
+    u.bio,
+    u.website,
+    u.avatar_url,
+    COUNT(DISTINCT p.id) as posts_count,
+    COUNT(DISTINCT f1.id) as followers_count,  -- 나를 팔로우하는 사람들
+    COUNT(DISTINCT f2.id) as following_count   -- 내가 팔로우하는 사람들
+FROM public.users u
+LEFT JOIN public.posts p ON u.id = p.user_id
+LEFT JOIN public.follows f1 ON u.id = f1.following_id
+LEFT JOIN public.follows f2 ON u.id = f2.follower_id
+GROUP BY u.id, u.clerk_id, u.name, u.username, u.bio, u.website, u.avatar_url;
+
+-- 보안 장벽 적용
+ALTER VIEW public.user_stats SET (security_barrier = true);
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
+
+-- ============================================
+-- 3. 프로필 이미지 공개 읽기 정책
+-- ============================================
+-- 경로 형식: ${clerkUserId}/avatars/${fileName}
+CREATE POLICY "Public read access for avatar images"
+ON storage.objects FOR SELECT
+TO public
+USING (
+  bucket_id = 'uploads' AND
+  (storage.foldername(name))[2] = 'avatars'  -- 두 번째 폴더가 'avatars'인 경우만
+);
@@ -0,0 +1,80 @@
+-- ============================================
+-- Migration: username(핸들) 필수화
+-- ============================================
+-- /u/[username] 프로필 URL 지원
+-- 1. 이름 기반 고유 username 생성 함수
+-- 2. username 없이 생성되는 사용자에게 자동 부여 (INSERT 트리거)
+-- 3. 기존 사용자 username 채우기 후 NOT NULL 적용
+-- ============================================
+
+-- ============================================
+-- 1. 고유 username 생성 함수
+-- ============================================
+-- 이름에서 허용 문자(영문 소문자, 숫자, 밑줄, 마침표)만 남기고,
+-- 비어 있으면 'user'를 사용합니다. 이미 사용 중이면 숫자 접미사를 붙입니다.
+-- 예: 'Jane Doe' → 'janedoe', 'janedoe_4821' / '홍길동' → 'user_1234'
+CREATE OR REPLACE FUNCTION public.generate_username(base_name TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    base TEXT;
+    candidate TEXT;
+BEGIN
+    base := left(regexp_replace(lower(coalesce(base_name, '')), '[^a-z0-9._]', '', 'g'), 20);
+
+    IF base = '' THEN
+        base := 'user';
+    END IF;
+
+    candidate := base;
+
+    -- 'user'는 너무 흔하므로 처음부터 접미사 부여
+    IF base = 'user' THEN
+        candidate := base || '_' || floor(random() * 10000)::INT;
+    END IF;
+
+    WHILE EXISTS (SELECT 1 FROM public.users WHERE username = candidate) LOOP
+        candidate := base || '_' || floor(random() * 1000000)::INT;
+    END LOOP;
+
+    RETURN candidate;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 2. 사용자 생성 시 username 자동 부여
+-- ============================================
+CREATE OR REPLACE FUNCTION public.handle_default_username()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.username IS NULL THEN
+        NEW.username := public.generate_username(NEW.name);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_default_username
+    BEFORE INSERT ON public.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_default_username();
+
+-- ============================================
+-- 3. 기존 사용자 username 채우기
+-- ============================================
+-- 한 행씩 업데이트해야 앞에서 부여한 username이 중복 검사에 반영됨
+DO $$
+DECLARE
+    target RECORD;
+BEGIN
+    FOR target IN
+        SELECT id, name FROM public.users WHERE username IS NULL ORDER BY created_at
+    LOOP
+        UPDATE public.users
+        SET username = public.generate_username(target.name)
+        WHERE id = target.id;
+    END LOOP;
+END;
+$$;
+
+ALTER TABLE public.users
+    ALTER COLUMN username SET NOT NULL;
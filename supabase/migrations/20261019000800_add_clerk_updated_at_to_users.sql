@@ -0,0 +1,11 @@
+-- ============================================
+-- Migration: users 테이블에 clerk_updated_at 추가
+-- ============================================
+-- Clerk 웹훅 (POST /api/webhooks/clerk) 지원
+-- - 웹훅은 중복/순서 뒤바뀜으로 전달될 수 있으므로
+--   마지막으로 반영한 Clerk 사용자 updated_at을 저장하고
+--   그보다 오래된 user.updated 이벤트는 무시
+-- ============================================
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS clerk_updated_at TIMESTAMP WITH TIME ZONE;  -- 마지막으로 반영한 Clerk 사용자 수정 시각
@@ -0,0 +1,145 @@
+-- ============================================
+-- Migration: 해시태그(Hashtags) 테이블 생성
+-- ============================================
+-- 게시물 캡션의 #해시태그 저장
+-- - POST /api/posts, PATCH /api/posts/[postId]에서 캡션 파싱 후 저장
+-- - /tags/[tag] 페이지에서 태그별 게시물 조회
+-- - 태그 이름은 소문자로 저장 (#Travel, #travel → travel)
+-- ============================================
+
+-- ============================================
+-- 1. Hashtags 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.hashtags (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,  -- '#' 제외, 소문자
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT hashtags_name_length CHECK (char_length(name) BETWEEN 1 AND 100)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.hashtags OWNER TO postgres;
+
+-- ============================================
+-- 2. Post Hashtags 테이블 (게시물 ↔ 해시태그)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.post_hashtags (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+    hashtag_id UUID NOT NULL REFERENCES public.hashtags(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 같은 게시물에 같은 태그 중복 방지
+    UNIQUE(post_id, hashtag_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.post_hashtags OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_post_id ON public.post_hashtags(post_id);
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_hashtag_id ON public.post_hashtags(hashtag_id);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Hashtags, Post Hashtags
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.hashtags DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_hashtags DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access hashtags"
+ON public.hashtags FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Development: authenticated users can access post hashtags"
+ON public.post_hashtags FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to hashtags"
+ON public.hashtags FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to post hashtags"
+ON public.post_hashtags FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 누구나 해시태그 조회 가능
+CREATE POLICY "Anyone can view hashtags"
+ON public.hashtags FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- 프로덕션용: 인증된 사용자는 해시태그 생성 가능
+CREATE POLICY "Authenticated users can create hashtags"
+ON public.hashtags FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- 프로덕션용: 누구나 게시물 해시태그 조회 가능
+CREATE POLICY "Anyone can view post hashtags"
+ON public.post_hashtags FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- 프로덕션용: 자신의 게시물 해시태그만 추가/삭제 가능
+CREATE POLICY "Users can manage own post hashtags"
+ON public.post_hashtags FOR ALL
+TO authenticated
+USING (
+  post_id IN (
+    SELECT p.id FROM public.posts p
+    JOIN public.users u ON u.id = p.user_id
+    WHERE u.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  post_id IN (
+    SELECT p.id FROM public.posts p
+    JOIN public.users u ON u.id = p.user_id
+    WHERE u.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.hashtags TO anon;
+GRANT ALL ON TABLE public.hashtags TO authenticated;
+GRANT ALL ON TABLE public.hashtags TO service_role;
+
+GRANT ALL ON TABLE public.post_hashtags TO anon;
+GRANT ALL ON TABLE public.post_hashtags TO authenticated;
+GRANT ALL ON TABLE public.post_hashtags TO service_role;
+
+-- ============================================
+-- 3. 기존 게시물 캡션에서 해시태그 추출
+-- ============================================
+-- lib/utils/hashtag.ts의 extractHashtags와 같은 규칙 (문자, 숫자, 밑줄)
+INSERT INTO public.hashtags (name)
+SELECT DISTINCT lower(m[1])
+FROM public.posts p
+CROSS JOIN LATERAL regexp_matches(p.caption, '#([[:alnum:]_]{1,100})', 'g') AS m
+WHERE p.caption IS NOT NULL
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.post_hashtags (post_id, hashtag_id)
+SELECT DISTINCT p.id, h.id
+FROM public.posts p
+CROSS JOIN LATERAL regexp_matches(p.caption, '#([[:alnum:]_]{1,100})', 'g') AS m
+JOIN public.hashtags h ON h.name = lower(m[1])
+WHERE p.caption IS NOT NULL
+ON CONFLICT (post_id, hashtag_id) DO NOTHING;
@@ -0,0 +1,88 @@
+-- ============================================
+-- Migration: 멘션(Mentions) 테이블 생성
+-- ============================================
+-- 캡션/댓글의 @username 멘션 저장
+-- - POST /api/posts, PATCH /api/posts/[postId]: 캡션 멘션 (post_id)
+-- - POST /api/comments: 댓글 멘션 (comment_id, post_id 함께 저장)
+-- - 존재하는 사용자에 대한 멘션만 저장
+-- ============================================
+
+-- ============================================
+-- 1. Mentions 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.mentions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,  -- 멘션된 게시물 (댓글 멘션이면 댓글의 게시물)
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,  -- 댓글 멘션인 경우 (캡션 멘션이면 NULL)
+    mentioned_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,  -- 멘션된 사람
+    actor_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,  -- 멘션한 사람
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.mentions OWNER TO postgres;
+
+-- 중복 멘션 방지 (캡션/댓글별로 같은 사용자는 한 번만)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mentions_post_caption_unique
+    ON public.mentions(post_id, mentioned_user_id)
+    WHERE comment_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mentions_comment_unique
+    ON public.mentions(comment_id, mentioned_user_id)
+    WHERE comment_id IS NOT NULL;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_mentions_mentioned_user_id ON public.mentions(mentioned_user_id, created_at DESC);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Mentions
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.mentions DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access mentions"
+ON public.mentions FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to mentions"
+ON public.mentions FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 인증된 사용자는 모든 멘션 조회 가능
+CREATE POLICY "Authenticated users can view all mentions"
+ON public.mentions FOR SELECT
+TO authenticated
+USING (true);
+
+-- 프로덕션용: 사용자는 자신이 작성한 멘션만 추가/삭제 가능
+CREATE POLICY "Users can manage own mentions"
+ON public.mentions FOR ALL
+TO authenticated
+USING (
+  actor_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  actor_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.mentions TO anon;
+GRANT ALL ON TABLE public.mentions TO authenticated;
+GRANT ALL ON TABLE public.mentions TO service_role;
@@ -0,0 +1,95 @@
+-- ============================================
+-- Migration: 통합 검색 지원
+-- ============================================
+-- GET /api/search (사용자, 해시태그, 게시물 캡션 통합 검색)
+-- 1. posts.caption 전문 검색(Full-Text Search) 컬럼 및 인덱스
+-- 2. users.username/name 부분 일치 검색용 trigram 인덱스
+-- 3. 최근 검색어(recent_searches) 테이블
+-- ============================================
+
+-- ============================================
+-- 1. 캡션 전문 검색
+-- ============================================
+-- 한국어 형태소 분석기가 없으므로 'simple' 설정 사용 (공백 단위 토큰, 소문자 변환)
+ALTER TABLE public.posts
+    ADD COLUMN IF NOT EXISTS caption_search tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce(caption, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_posts_caption_search ON public.posts USING GIN(caption_search);
+
+-- ============================================
+-- 2. 사용자 검색 인덱스 (ilike '%검색어%')
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_users_username_trgm ON public.users USING GIN(username extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_users_name_trgm ON public.users USING GIN(name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_hashtags_name_trgm ON public.hashtags USING GIN(name extensions.gin_trgm_ops);
+
+-- ============================================
+-- 3. Recent Searches 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.recent_searches (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    query TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,  -- 마지막으로 검색한 시각
+
+    -- 같은 검색어는 한 번만 저장 (다시 검색하면 created_at 갱신)
+    UNIQUE(user_id, query),
+    CONSTRAINT recent_searches_query_length CHECK (char_length(query) BETWEEN 1 AND 100)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.recent_searches OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_recent_searches_user_id ON public.recent_searches(user_id, created_at DESC);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Recent Searches
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.recent_searches DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access recent searches"
+ON public.recent_searches FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to recent searches"
+ON public.recent_searches FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 사용자는 자신의 최근 검색어만 조회/추가/삭제 가능
+CREATE POLICY "Users can manage own recent searches"
+ON public.recent_searches FOR ALL
+TO authenticated
+USING (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.recent_searches TO anon;
+GRANT ALL ON TABLE public.recent_searches TO authenticated;
+GRANT ALL ON TABLE public.recent_searches TO service_role;
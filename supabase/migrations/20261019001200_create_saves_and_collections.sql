@@ -0,0 +1,191 @@
+-- ============================================
+-- Migration: 저장(Saves) 및 컬렉션(Collections) 테이블 생성
+-- ============================================
+-- 게시물 북마크와 이름 있는 컬렉션
+-- - POST/DELETE /api/saves로 저장/저장 취소
+-- - 컬렉션은 저장한 게시물을 묶는 폴더 (한 게시물이 여러 컬렉션에 속할 수 있음)
+-- - 저장을 취소하면 모든 컬렉션에서도 제거됨 (collection_posts → saves CASCADE)
+-- ============================================
+
+-- ============================================
+-- 1. Saves 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.saves (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 같은 게시물 중복 저장 방지
+    UNIQUE(user_id, post_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.saves OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_saves_user_id ON public.saves(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saves_post_id ON public.saves(post_id);
+
+-- ============================================
+-- 2. Collections 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.collections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 사용자별 컬렉션 이름 중복 방지
+    UNIQUE(user_id, name),
+    CONSTRAINT collections_name_length CHECK (char_length(name) BETWEEN 1 AND 50)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.collections OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_collections_user_id ON public.collections(user_id, created_at DESC);
+
+-- updated_at 자동 갱신 트리거
+CREATE TRIGGER set_collections_updated_at
+    BEFORE UPDATE ON public.collections
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- 3. Collection Posts 테이블 (컬렉션 ↔ 저장한 게시물)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.collection_posts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+    save_id UUID NOT NULL REFERENCES public.saves(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 같은 컬렉션에 같은 게시물 중복 방지
+    UNIQUE(collection_id, save_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.collection_posts OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_collection_posts_collection_id ON public.collection_posts(collection_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_collection_posts_save_id ON public.collection_posts(save_id);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Saves, Collections, Collection Posts
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.saves DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collections DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_posts DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access saves"
+ON public.saves FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Development: authenticated users can access collections"
+ON public.collections FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Development: authenticated users can access collection posts"
+ON public.collection_posts FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to saves"
+ON public.saves FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to collections"
+ON public.collections FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to collection posts"
+ON public.collection_posts FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 저장 목록은 본인만 조회/추가/삭제 가능 (다른 사용자에게 공개되지 않음)
+CREATE POLICY "Users can manage own saves"
+ON public.saves FOR ALL
+TO authenticated
+USING (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+-- 프로덕션용: 컬렉션은 본인만 조회/생성/수정/삭제 가능
+CREATE POLICY "Users can manage own collections"
+ON public.collections FOR ALL
+TO authenticated
+USING (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+-- 프로덕션용: 자신의 컬렉션에만 게시물 추가/제거 가능
+CREATE POLICY "Users can manage own collection posts"
+ON public.collection_posts FOR ALL
+TO authenticated
+USING (
+  collection_id IN (
+    SELECT c.id FROM public.collections c
+    JOIN public.users u ON u.id = c.user_id
+    WHERE u.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  collection_id IN (
+    SELECT c.id FROM public.collections c
+    JOIN public.users u ON u.id = c.user_id
+    WHERE u.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.saves TO anon;
+GRANT ALL ON TABLE public.saves TO authenticated;
+GRANT ALL ON TABLE public.saves TO service_role;
+
+GRANT ALL ON TABLE public.collections TO anon;
+GRANT ALL ON TABLE public.collections TO authenticated;
+GRANT ALL ON TABLE public.collections TO service_role;
+
+GRANT ALL ON TABLE public.collection_posts TO anon;
+GRANT ALL ON TABLE public.collection_posts TO authenticated;
+GRANT ALL ON TABLE public.collection_posts TO service_role;
@@ -0,0 +1,61 @@
+-- ============================================
+-- Migration: 비공개 계정 및 팔로우 요청
+-- ============================================
+-- 1. users.is_private (비공개 계정 여부)
+-- 2. follows.status (pending: 요청 대기, accepted: 팔로우 중)
+--    - 비공개 계정을 팔로우하면 pending으로 저장, 승인 시 accepted
+--    - 기존 팔로우는 모두 accepted
+-- 3. user_stats 뷰 재생성 (승인된 팔로우만 집계, is_private 노출)
+-- ============================================
+
+-- ============================================
+-- 1. 비공개 계정 여부
+-- ============================================
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS is_private BOOLEAN DEFAULT false NOT NULL;
+
+-- ============================================
+-- 2. 팔로우 상태
+-- ============================================
+ALTER TABLE public.follows
+    ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'accepted' NOT NULL
+        CHECK (status IN ('pending', 'accepted'));
+
+-- 받은 팔로우 요청 조회용 인덱스
+CREATE INDEX IF NOT EXISTS idx_follows_following_pending
+    ON public.follows(following_id, created_at DESC)
+    WHERE status = 'pending';
+
+-- ============================================
+-- 3. user_stats 뷰 재생성 (승인된 팔로우만 집계)
+-- ============================================
+-- 컬럼 추가 시 CREATE OR REPLACE로는 순서 변경 불가하므로 DROP 후 생성
+DROP VIEW IF EXISTS public.user_stats;
+CREATE OR REPLACE VIEW public.user_stats
+WITH (security_invoker = true)
+AS
+SELECT
+    u.id as user_id,
+    u.clerk_id,
+    u.name,
+    u.username,
+    u.bio,
+    u.website,
+    u.avatar_url,
+    u.is_private,
+    COUNT(DISTINCT p.id) as posts_count,
+    COUNT(DISTINCT f1.id) as followers_count,  -- 나를 팔로우하는 사람들 (승인된 팔로우만)
+    COUNT(DISTINCT f2.id) as following_count   -- 내가 팔로우하는 사람들 (승인된 팔로우만)
+FROM public.users u
+LEFT JOIN public.posts p ON u.id = p.user_id
+LEFT JOIN public.follows f1 ON u.id = f1.following_id AND f1.status = 'accepted'
+LEFT JOIN public.follows f2 ON u.id = f2.follower_id AND f2.status = 'accepted'
+GROUP BY u.id, u.clerk_id, u.name, u.username, u.bio, u.website, u.avatar_url, u.is_private;
+
+-- 보안 장벽 적용
+ALTER VIEW public.user_stats SET (security_barrier = true);
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
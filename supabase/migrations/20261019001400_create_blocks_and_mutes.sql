@@ -0,0 +1,152 @@
+-- ============================================
+-- Migration: 차단(Blocks) 및 뮤트(Mutes) 테이블 생성
+-- ============================================
+-- 원치 않는 사용자와의 상호작용 제한
+-- - 차단: 서로의 게시물/댓글/검색 결과가 보이지 않고, 팔로우/댓글 작성 불가
+--   (차단 시 양방향 팔로우 관계는 API에서 삭제)
+-- - 뮤트: 상대는 알지 못하며, 내 피드/댓글/검색 결과에서만 숨김
+-- - POST/DELETE /api/blocks, /api/mutes 로 추가/해제
+-- ============================================
+
+-- ============================================
+-- 1. Blocks 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.blocks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    blocker_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    blocked_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 중복 차단 방지
+    UNIQUE(blocker_id, blocked_id),
+    -- 자기 자신 차단 방지
+    CONSTRAINT blocks_no_self_block CHECK (blocker_id != blocked_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.blocks OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_blocks_blocker_id ON public.blocks(blocker_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_blocks_blocked_id ON public.blocks(blocked_id);
+
+-- ============================================
+-- 2. Mutes 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.mutes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    muter_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    muted_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 중복 뮤트 방지
+    UNIQUE(muter_id, muted_id),
+    -- 자기 자신 뮤트 방지
+    CONSTRAINT mutes_no_self_mute CHECK (muter_id != muted_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.mutes OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_mutes_muter_id ON public.mutes(muter_id, created_at DESC);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Blocks, Mutes
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.blocks DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mutes DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access blocks"
+ON public.blocks FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Development: authenticated users can access mutes"
+ON public.mutes FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to blocks"
+ON public.blocks FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to mutes"
+ON public.mutes FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 차단은 본인이 한 것만 추가/삭제 가능
+-- 조회는 차단한 사용자와 차단당한 사용자 모두 가능 (양방향 필터링에 필요)
+CREATE POLICY "Users can view blocks involving themselves"
+ON public.blocks FOR SELECT
+TO authenticated
+USING (
+  blocker_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+  OR blocked_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+CREATE POLICY "Users can insert own blocks"
+ON public.blocks FOR INSERT
+TO authenticated
+WITH CHECK (
+  blocker_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+CREATE POLICY "Users can delete own blocks"
+ON public.blocks FOR DELETE
+TO authenticated
+USING (
+  blocker_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+-- 프로덕션용: 뮤트는 본인만 조회/추가/삭제 가능 (상대에게 공개되지 않음)
+CREATE POLICY "Users can manage own mutes"
+ON public.mutes FOR ALL
+TO authenticated
+USING (
+  muter_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+)
+WITH CHECK (
+  muter_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.blocks TO anon;
+GRANT ALL ON TABLE public.blocks TO authenticated;
+GRANT ALL ON TABLE public.blocks TO service_role;
+
+GRANT ALL ON TABLE public.mutes TO anon;
+GRANT ALL ON TABLE public.mutes TO authenticated;
+GRANT ALL ON TABLE public.mutes TO service_role;
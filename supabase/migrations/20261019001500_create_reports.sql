@@ -0,0 +1,168 @@
+-- ============================================
+-- Migration: 신고(Reports) 테이블 및 콘텐츠 숨김 처리
+-- ============================================
+-- 게시물, 댓글, 프로필 신고와 관리자 검토 큐
+-- - POST /api/reports 로 신고 접수 (같은 대상에 대한 처리 대기 중 신고는 1건만)
+-- - /admin/reports 에서 관리자가 콘텐츠 숨김 또는 신고 기각
+-- - 숨김 처리된 게시물/댓글/사용자는 post_stats, user_stats 뷰에서 제외되어
+--   피드, 상세, 프로필, 검색 결과에 표시되지 않음
+-- ============================================
+
+-- ============================================
+-- 1. 숨김 컬럼 추가 (관리자 조치)
+-- ============================================
+ALTER TABLE public.posts
+    ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE public.comments
+    ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+
+-- ============================================
+-- 2. Reports 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.reports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reporter_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,  -- 신고한 사람
+    target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'user')),
+    post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,  -- post인 경우
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,  -- comment인 경우
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,  -- user(프로필)인 경우
+    reason TEXT NOT NULL CHECK (
+        reason IN ('spam', 'nudity', 'harassment', 'hate_speech', 'violence', 'false_information', 'other')
+    ),
+    details TEXT CHECK (char_length(details) <= 500),
+    status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'dismissed', 'actioned')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by TEXT,  -- 처리한 관리자의 Clerk user ID
+
+    -- 신고 대상 종류에 맞는 대상 ID가 정확히 하나만 있어야 함
+    CONSTRAINT reports_target_matches_type CHECK (
+        (target_type = 'post' AND post_id IS NOT NULL AND comment_id IS NULL AND user_id IS NULL)
+        OR (target_type = 'comment' AND comment_id IS NOT NULL AND post_id IS NULL AND user_id IS NULL)
+        OR (target_type = 'user' AND user_id IS NOT NULL AND post_id IS NULL AND comment_id IS NULL)
+    )
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.reports OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_reports_status_created_at
+    ON public.reports(status, created_at DESC);
+
+-- 같은 사용자가 같은 대상을 중복 신고하지 않도록 (처리 대기 중인 신고 기준)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_unique
+    ON public.reports(reporter_id, target_type, COALESCE(post_id, comment_id, user_id))
+    WHERE status = 'open';
+
+-- ============================================
+-- 3. post_stats 뷰 재생성 (숨김 처리된 게시물/댓글/사용자 제외)
+-- ============================================
+DROP VIEW IF EXISTS public.post_stats;
+CREATE OR REPLACE VIEW public.post_stats
+WITH (security_invoker = true)
+AS
+SELECT
+    p.id as post_id,
+    p.user_id,
+    p.image_url,
+    p.caption,
+    p.created_at,
+    p.updated_at,
+    COUNT(DISTINCT l.id) as likes_count,
+    COUNT(DISTINCT c.id) as comments_count
+FROM public.posts p
+JOIN public.users u ON p.user_id = u.id AND u.is_hidden = false
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id AND c.is_hidden = false
+WHERE p.is_hidden = false
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.updated_at;
+
+-- 보안 장벽 적용
+ALTER VIEW public.post_stats SET (security_barrier = true);
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
+
+-- ============================================
+-- 4. user_stats 뷰 재생성 (숨김 처리된 사용자/게시물 제외)
+-- ============================================
+DROP VIEW IF EXISTS public.user_stats;
+CREATE OR REPLACE VIEW public.user_stats
+WITH (security_invoker = true)
+AS
+SELECT
+    u.id as user_id,
+    u.clerk_id,
+    u.name,
+    u.username,
+    u.bio,
+    u.website,
+    u.avatar_url,
+    u.is_private,
+    COUNT(DISTINCT p.id) as posts_count,
+    COUNT(DISTINCT f1.id) as followers_count,  -- 나를 팔로우하는 사람들 (승인된 팔로우만)
+    COUNT(DISTINCT f2.id) as following_count   -- 내가 팔로우하는 사람들 (승인된 팔로우만)
+FROM public.users u
+LEFT JOIN public.posts p ON u.id = p.user_id AND p.is_hidden = false
+LEFT JOIN public.follows f1 ON u.id = f1.following_id AND f1.status = 'accepted'
+LEFT JOIN public.follows f2 ON u.id = f2.follower_id AND f2.status = 'accepted'
+WHERE u.is_hidden = false
+GROUP BY u.id, u.clerk_id, u.name, u.username, u.bio, u.website, u.avatar_url, u.is_private;
+
+-- 보안 장벽 적용
+ALTER VIEW public.user_stats SET (security_barrier = true);
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Reports
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.reports DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access reports"
+ON public.reports FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책 (관리자 검토 큐는 service role 클라이언트 사용)
+CREATE POLICY "Service role has full access to reports"
+ON public.reports FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 신고는 본인 명의로만 접수 가능
+-- 조회/처리는 관리자 API에서 service role 클라이언트로만 수행
+CREATE POLICY "Users can insert own reports"
+ON public.reports FOR INSERT
+TO authenticated
+WITH CHECK (
+  reporter_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.reports TO anon;
+GRANT ALL ON TABLE public.reports TO authenticated;
+GRANT ALL ON TABLE public.reports TO service_role;
@@ -0,0 +1,21 @@
+-- ============================================
+-- Migration: 게시물 이미지 반응형 변환본(variants) 메타데이터
+-- ============================================
+-- POST /api/posts 업로드 시 서버에서 이미지를 변환하여 저장
+-- - EXIF(GPS 포함) 메타데이터 제거, 방향(Orientation) 자동 회전
+-- - WebP로 재인코딩, 여러 너비(320/640/1080px)로 리사이즈
+-- - 원본 크기(width/height)와 blurhash 플레이스홀더 저장
+-- - PostCard, PostGrid에서 srcset과 blur 플레이스홀더로 사용
+--
+-- 이관 전 게시물은 width/height/blurhash가 NULL이고 variants가 빈 배열이며,
+-- image_url 단일 이미지로 표시됩니다.
+-- ============================================
+
+ALTER TABLE public.post_media
+    ADD COLUMN IF NOT EXISTS width INTEGER CHECK (width > 0),  -- 변환 후 최대 너비 (px)
+    ADD COLUMN IF NOT EXISTS height INTEGER CHECK (height > 0),  -- 변환 후 최대 높이 (px)
+    ADD COLUMN IF NOT EXISTS blurhash TEXT,  -- 로딩 중 표시할 blurhash 문자열
+    ADD COLUMN IF NOT EXISTS variants JSONB DEFAULT '[]'::jsonb NOT NULL;  -- [{ "width": 320, "url": "..." }, ...] 너비 오름차순
+
+COMMENT ON COLUMN public.post_media.variants IS
+    '리사이즈된 WebP 변환본 목록 ([{ width, url }], 너비 오름차순). image_url은 가장 큰 변환본';
@@ -0,0 +1,152 @@
+-- ============================================
+-- Migration: 스토리(Stories) 및 스토리 조회(Story Views) 테이블 생성
+-- ============================================
+-- 24시간 후 사라지는 스토리
+-- - POST /api/stories 로 이미지 1장 업로드 (서버에서 WebP 변환, EXIF 제거)
+-- - expires_at(작성 후 24시간)이 지난 스토리는 API에서 조회되지 않음
+-- - 만료된 스토리는 GET /api/cron/cleanup-expired-stories (Vercel Cron)가 Storage 이미지와 함께 삭제
+-- - 홈 피드 상단 스토리 트레이: 본인 + 팔로우한 사용자, 안 본 스토리가 있는 사용자 먼저
+-- - 작성자는 스토리별 조회한 사용자 목록 확인 가능
+-- ============================================
+
+-- ============================================
+-- 1. Stories 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.stories (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    image_url TEXT NOT NULL,  -- Supabase Storage URL (WebP 변환본)
+    width INTEGER CHECK (width > 0),
+    height INTEGER CHECK (height > 0),
+    blurhash TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT (now() + interval '24 hours') NOT NULL,
+
+    CONSTRAINT stories_expires_after_created CHECK (expires_at > created_at)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.stories OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_stories_user_id ON public.stories(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stories_expires_at ON public.stories(expires_at);
+
+-- ============================================
+-- 2. Story Views 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.story_views (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+    viewer_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    viewed_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 같은 스토리는 한 번만 기록
+    UNIQUE(story_id, viewer_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.story_views OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_story_views_story_id ON public.story_views(story_id, viewed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_story_views_viewer_id ON public.story_views(viewer_id);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Stories, Story Views
+-- ============================================
+
+-- RLS 비활성화 (개발용)
+ALTER TABLE public.stories DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_views DISABLE ROW LEVEL SECURITY;
+
+-- 개발용 임시 정책
+CREATE POLICY "Development: authenticated users can access stories"
+ON public.stories FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Development: authenticated users can access story_views"
+ON public.story_views FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to stories"
+ON public.stories FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to story_views"
+ON public.story_views FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 프로덕션용 엄격한 RLS 정책들 (주석 처리)
+-- ============================================
+
+/*
+-- 프로덕션용: 만료되지 않은 스토리만 조회 가능, 작성/삭제는 본인만
+CREATE POLICY "Authenticated users can view active stories"
+ON public.stories FOR SELECT
+TO authenticated
+USING (expires_at > now());
+
+CREATE POLICY "Users can insert own stories"
+ON public.stories FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+CREATE POLICY "Users can delete own stories"
+ON public.stories FOR DELETE
+TO authenticated
+USING (
+  user_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+-- 프로덕션용: 조회 기록은 본인 것만 추가, 스토리 작성자와 본인만 조회
+CREATE POLICY "Users can insert own story views"
+ON public.story_views FOR INSERT
+TO authenticated
+WITH CHECK (
+  viewer_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+CREATE POLICY "Viewers and authors can view story views"
+ON public.story_views FOR SELECT
+TO authenticated
+USING (
+  viewer_id IN (
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+  OR story_id IN (
+    SELECT s.id FROM public.stories s
+    JOIN public.users u ON u.id = s.user_id
+    WHERE u.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+*/
+
+-- 권한 부여
+GRANT ALL ON TABLE public.stories TO anon;
+GRANT ALL ON TABLE public.stories TO authenticated;
+GRANT ALL ON TABLE public.stories TO service_role;
+
+GRANT ALL ON TABLE public.story_views TO anon;
+GRANT ALL ON TABLE public.story_views TO authenticated;
+GRANT ALL ON TABLE public.story_views TO service_role;
@@ -0,0 +1,307 @@
+-- ============================================
+-- Migration: 다이렉트 메시지(Conversations, Messages) 테이블 생성
+-- ============================================
+-- 사용자 간 1:1 비공개 메시지
+-- - POST /api/conversations 로 대화방 생성 (이미 있으면 기존 대화방 반환)
+-- - 대화방 목록(받은 메시지함), 메시지 전송/조회, 읽음 처리는 /api/conversations 하위 라우트
+-- - 읽음 확인: 참여자별 last_read_at 이전에 작성된 메시지는 읽은 것으로 표시
+-- - Supabase Realtime으로 새 메시지/읽음 상태를 실시간 전달
+--
+-- 다른 테이블과 달리 개발 환경에서도 RLS를 활성화합니다.
+-- 대화 참여자만 대화방/참여자/메시지를 조회할 수 있고,
+-- Realtime 구독도 같은 정책으로 참여자에게만 전달됩니다.
+-- ============================================
+
+-- ============================================
+-- 1. Conversations 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.conversations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    direct_key TEXT NOT NULL UNIQUE,  -- 1:1 대화방 중복 방지 ("작은 user id:큰 user id")
+    last_message_at TIMESTAMP WITH TIME ZONE,  -- 받은 메시지함 정렬용
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.conversations OWNER TO postgres;
+
+-- ============================================
+-- 2. Conversation Participants 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.conversation_participants (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    last_read_at TIMESTAMP WITH TIME ZONE,  -- 이 시각까지의 메시지를 읽음
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    UNIQUE(conversation_id, user_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.conversation_participants OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user_id
+    ON public.conversation_participants(user_id);
+
+-- ============================================
+-- 3. Messages 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.messages (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 1000),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.messages OWNER TO postgres;
+
+-- 인덱스 생성 (커서 기반 페이지네이션: created_at, id 내림차순)
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at
+    ON public.messages(conversation_id, created_at DESC, id DESC);
+
+-- 받은 메시지함 미리보기용 마지막 메시지
+ALTER TABLE public.conversations
+    ADD COLUMN IF NOT EXISTS last_message_id UUID
+    REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 4. 헬퍼 함수
+-- ============================================
+
+-- 현재 요청의 Clerk 세션에 해당하는 users.id
+CREATE OR REPLACE FUNCTION public.requesting_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub');
+$$;
+
+ALTER FUNCTION public.requesting_user_id() OWNER TO postgres;
+
+-- 현재 사용자가 대화 참여자인지 확인
+-- (참여자 테이블 정책에서 자기 자신을 조회하면 무한 재귀가 발생하므로 SECURITY DEFINER 사용)
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(target_conversation_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.conversation_participants
+        WHERE conversation_id = target_conversation_id
+          AND user_id = public.requesting_user_id()
+    );
+$$;
+
+ALTER FUNCTION public.is_conversation_participant(UUID) OWNER TO postgres;
+
+-- 현재 사용자와 대화방의 다른 참여자 사이에 차단 관계가 있는지 확인 (어느 쪽이 차단했든)
+CREATE OR REPLACE FUNCTION public.is_conversation_blocked(target_conversation_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.conversation_participants p
+        JOIN public.blocks b
+          ON (b.blocker_id = p.user_id AND b.blocked_id = public.requesting_user_id())
+          OR (b.blocker_id = public.requesting_user_id() AND b.blocked_id = p.user_id)
+        WHERE p.conversation_id = target_conversation_id
+          AND p.user_id <> public.requesting_user_id()
+    );
+$$;
+
+ALTER FUNCTION public.is_conversation_blocked(UUID) OWNER TO postgres;
+
+-- 1:1 대화방 조회 또는 생성 (대화방과 두 참여자를 함께 생성)
+-- 브라우저 클라이언트에서 직접 호출해도 차단 관계면 거부 (API도 먼저 확인해서 403 반환)
+CREATE OR REPLACE FUNCTION public.get_or_create_direct_conversation(other_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_user_id UUID := public.requesting_user_id();
+    key TEXT;
+    target_conversation_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    IF other_user_id = current_user_id THEN
+        RAISE EXCEPTION 'Cannot create a conversation with yourself';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.blocks
+        WHERE (blocker_id = current_user_id AND blocked_id = other_user_id)
+           OR (blocker_id = other_user_id AND blocked_id = current_user_id)
+    ) THEN
+        RAISE EXCEPTION 'Cannot create a conversation with a blocked user';
+    END IF;
+
+    key := LEAST(current_user_id, other_user_id)::TEXT || ':' ||
+           GREATEST(current_user_id, other_user_id)::TEXT;
+
+    INSERT INTO public.conversations (direct_key)
+    VALUES (key)
+    ON CONFLICT (direct_key) DO NOTHING
+    RETURNING id INTO target_conversation_id;
+
+    IF target_conversation_id IS NULL THEN
+        SELECT id INTO target_conversation_id
+        FROM public.conversations
+        WHERE direct_key = key;
+    ELSE
+        INSERT INTO public.conversation_participants (conversation_id, user_id)
+        VALUES
+            (target_conversation_id, current_user_id),
+            (target_conversation_id, other_user_id);
+    END IF;
+
+    RETURN target_conversation_id;
+END;
+$$;
+
+ALTER FUNCTION public.get_or_create_direct_conversation(UUID) OWNER TO postgres;
+
+-- ============================================
+-- 5. 메시지 작성 시 대화방 갱신 트리거
+-- ============================================
+-- 마지막 메시지를 갱신하고, 보낸 사람은 자신의 메시지까지 읽은 것으로 처리
+CREATE OR REPLACE FUNCTION public.handle_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.conversations
+    SET last_message_id = NEW.id,
+        last_message_at = NEW.created_at
+    WHERE id = NEW.conversation_id;
+
+    UPDATE public.conversation_participants
+    SET last_read_at = NEW.created_at
+    WHERE conversation_id = NEW.conversation_id
+      AND user_id = NEW.sender_id;
+
+    RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION public.handle_new_message() OWNER TO postgres;
+
+DROP TRIGGER IF EXISTS on_message_created ON public.messages;
+CREATE TRIGGER on_message_created
+    AFTER INSERT ON public.messages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_new_message();
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Conversations, Participants, Messages
+-- ============================================
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- 대화방: 참여자만 조회 (생성은 get_or_create_direct_conversation으로만)
+CREATE POLICY "Participants can view conversations"
+ON public.conversations FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(id));
+
+-- 참여자: 같은 대화방 참여자만 조회, 본인 읽음 시각만 수정 (컬럼 권한은 아래 GRANT에서 last_read_at으로 제한)
+CREATE POLICY "Participants can view conversation participants"
+ON public.conversation_participants FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Users can update own read status"
+ON public.conversation_participants FOR UPDATE
+TO authenticated
+USING (user_id = public.requesting_user_id())
+WITH CHECK (user_id = public.requesting_user_id());
+
+-- 메시지: 참여자만 조회, 본인 명의로 참여 중인 대화방에만 작성 (상대와 차단 관계면 작성 불가)
+CREATE POLICY "Participants can view messages"
+ON public.messages FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can send messages"
+ON public.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  sender_id = public.requesting_user_id()
+  AND public.is_conversation_participant(conversation_id)
+  AND NOT public.is_conversation_blocked(conversation_id)
+);
+
+-- 서비스 역할 정책
+CREATE POLICY "Service role has full access to conversations"
+ON public.conversations FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to conversation_participants"
+ON public.conversation_participants FOR ALL
+TO service_role
+USING (true);
+
+CREATE POLICY "Service role has full access to messages"
+ON public.messages FOR ALL
+TO service_role
+USING (true);
+
+-- ============================================
+-- 6. Realtime 설정
+-- ============================================
+-- 새 메시지(INSERT)와 읽음 상태(UPDATE)를 구독할 수 있도록 publication에 추가
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
+    END IF;
+END;
+$$;
+
+-- 권한 부여 (비공개 데이터이므로 anon에는 부여하지 않음)
+-- authenticated에는 필요한 권한만 부여 (RLS 정책과 함께 적용)
+-- - 대화방/참여자 생성은 get_or_create_direct_conversation(SECURITY DEFINER)으로만
+-- - 참여자는 last_read_at 컬럼만 수정 가능 (conversation_id를 바꿔 다른 대화방에 참여하는 것 방지)
+-- - 메시지는 대화방, 보낸 사람, 내용 컬럼만 작성 가능 (created_at은 DB 기본값 사용, 트리거가 last_message_at/last_read_at에 복사하므로 조작 방지)
+REVOKE ALL ON TABLE public.conversations FROM authenticated;
+GRANT SELECT ON TABLE public.conversations TO authenticated;
+GRANT ALL ON TABLE public.conversations TO service_role;
+
+REVOKE ALL ON TABLE public.conversation_participants FROM authenticated;
+GRANT SELECT ON TABLE public.conversation_participants TO authenticated;
+GRANT UPDATE (last_read_at) ON TABLE public.conversation_participants TO authenticated;
+GRANT ALL ON TABLE public.conversation_participants TO service_role;
+
+REVOKE ALL ON TABLE public.messages FROM authenticated;
+GRANT SELECT ON TABLE public.messages TO authenticated;
+GRANT INSERT (conversation_id, sender_id, content) ON TABLE public.messages TO authenticated;
+GRANT ALL ON TABLE public.messages TO service_role;
+
+GRANT EXECUTE ON FUNCTION public.requesting_user_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_conversation_participant(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_conversation_blocked(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_direct_conversation(UUID) TO authenticated;
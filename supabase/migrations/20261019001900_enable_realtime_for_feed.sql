@@ -0,0 +1,35 @@
+-- ============================================
+-- Migration: 피드 실시간 업데이트(Realtime) 설정
+-- ============================================
+-- 홈 피드와 게시물 상세 모달의 실시간 반영
+-- - posts INSERT (팔로우한 사용자만 필터): 홈 피드 상단 "새 게시물" 버튼 표시
+-- - likes, comments INSERT (화면의 게시물만 필터): 좋아요 수, 댓글 수, 상세 모달 댓글 목록 갱신
+--
+-- Supabase Realtime은 DELETE 이벤트를 필터링할 수 없으므로 DELETE는 구독하지 않고
+-- (모든 클라이언트에 전체 행이 전달되지 않도록 REPLICA IDENTITY는 기본값 유지)
+-- 다음 INSERT 이벤트로 다시 조회할 때 실제 값으로 반영합니다.
+-- ============================================
+
+-- ============================================
+-- Realtime publication에 테이블 추가 (이미 추가된 테이블은 건너뜀)
+-- ============================================
+DO $$
+DECLARE
+    target_table TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        RETURN;
+    END IF;
+
+    FOREACH target_table IN ARRAY ARRAY['posts', 'likes', 'comments'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime'
+              AND schemaname = 'public'
+              AND tablename = target_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', target_table);
+        END IF;
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- ============================================
+-- Migration: 비공개 계정 게시물 조회 가능 여부 (computed field)
+-- ============================================
+-- 전체/해시태그 피드와 게시물 검색에서 볼 수 없는 비공개 계정의 게시물을 DB에서 제외
+-- - users.can_view_posts: 공개 계정이거나, 본인이거나, 승인된(accepted) 팔로워이면 true
+-- - 현재 사용자는 Clerk 세션(requesting_user_id)으로 판단, 비로그인이면 공개 계정만 true
+-- - PostgREST computed field이므로 users!inner 임베드에서 필터로 사용
+--
+-- @example
+--   supabase.from("post_stats")
+--     .select("post_id, users!inner(name)")
+--     .eq("users.can_view_posts", true)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.can_view_posts(author public.users)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT NOT author.is_private
+        OR author.id = public.requesting_user_id()
+        OR EXISTS (
+            SELECT 1 FROM public.follows
+            WHERE follower_id = public.requesting_user_id()
+              AND following_id = author.id
+              AND status = 'accepted'
+        );
+$$;
+
+ALTER FUNCTION public.can_view_posts(public.users) OWNER TO postgres;
+
+-- 비로그인 사용자도 전체 피드/검색 조회 가능
+GRANT EXECUTE ON FUNCTION public.requesting_user_id() TO anon;
+GRANT EXECUTE ON FUNCTION public.can_view_posts(public.users) TO anon;
+GRANT EXECUTE ON FUNCTION public.can_view_posts(public.users) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_posts(public.users) TO service_role;
@@ -0,0 +1,11 @@
+-- ============================================
+-- Migration: users 테이블에 clerk_name 추가
+-- ============================================
+-- Clerk 웹훅 user.updated가 프로필 편집으로 바꾼 이름을 덮어쓰지 않도록
+-- 마지막으로 반영한 Clerk 표시 이름을 저장하고,
+-- Clerk 쪽 이름이 실제로 바뀐 경우에만 users.name을 갱신
+-- - 기존 사용자는 NULL: 다음 웹훅에서 clerk_name만 기록하고 name은 유지
+-- ============================================
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS clerk_name TEXT;  -- 마지막으로 반영한 Clerk 표시 이름
@@ -0,0 +1,82 @@
+-- ============================================
+-- Migration: 사용자 이름(핸들) 끝의 마침표 금지
+-- ============================================
+-- 문장 끝 멘션("@jane.")에서 마침표가 사용자 이름에 포함되지 않도록
+-- 핸들은 영문 소문자/숫자/밑줄로 끝나야 함 (lib/utils/profile.ts USERNAME_PATTERN과 동일)
+-- 1. generate_username(): 자동 생성 핸들 끝의 마침표 제거
+-- 2. 마침표로 끝나는 기존 핸들 변경
+-- 3. 핸들 형식 제약 조건 교체
+-- ============================================
+
+-- ============================================
+-- 1. 고유 username 생성 함수 (끝의 마침표 제거)
+-- ============================================
+-- 예: 'John Jr.' → 'johnjr'
+CREATE OR REPLACE FUNCTION public.generate_username(base_name TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    base TEXT;
+    candidate TEXT;
+BEGIN
+    -- 20자로 자른 뒤에도 마침표로 끝날 수 있으므로 자른 다음 제거
+    base := rtrim(left(regexp_replace(lower(coalesce(base_name, '')), '[^a-z0-9._]', '', 'g'), 20), '.');
+
+    IF base = '' THEN
+        base := 'user';
+    END IF;
+
+    candidate := base;
+
+    -- 'user'는 너무 흔하므로 처음부터 접미사 부여
+    IF base = 'user' THEN
+        candidate := base || '_' || floor(random() * 10000)::INT;
+    END IF;
+
+    WHILE EXISTS (SELECT 1 FROM public.users WHERE username = candidate) LOOP
+        candidate := base || '_' || floor(random() * 1000000)::INT;
+    END LOOP;
+
+    RETURN candidate;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 2. 마침표로 끝나는 기존 핸들 변경
+-- ============================================
+-- 끝의 마침표만 제거하고, 이미 사용 중이면 숫자 접미사 부여 ('jane.' → 'jane' 또는 'jane_123456')
+-- 한 행씩 업데이트해야 앞에서 바꾼 username이 중복 검사에 반영됨
+DO $$
+DECLARE
+    target RECORD;
+    trimmed TEXT;
+BEGIN
+    FOR target IN
+        SELECT id, username FROM public.users WHERE username LIKE '%.' ORDER BY created_at
+    LOOP
+        trimmed := rtrim(target.username, '.');
+
+        IF trimmed = '' OR EXISTS (SELECT 1 FROM public.users WHERE username = trimmed) THEN
+            trimmed := public.generate_username(trimmed);
+        END IF;
+
+        UPDATE public.users
+        SET username = trimmed
+        WHERE id = target.id;
+    END LOOP;
+END;
+$$;
+
+-- ============================================
+-- 3. 핸들 형식 제약 조건 교체
+-- ============================================
+ALTER TABLE public.users
+    DROP CONSTRAINT IF EXISTS users_username_format;
+
+-- 테이블 잠금 시간을 줄이기 위해 NOT VALID로 추가한 뒤 기존 행 검증
+ALTER TABLE public.users
+    ADD CONSTRAINT users_username_format
+        CHECK (username ~ '^[a-z0-9._]{0,29}[a-z0-9_]$')
+        NOT VALID;
+
+ALTER TABLE public.users
+    VALIDATE CONSTRAINT users_username_format;
@@ -0,0 +1,52 @@
+-- ============================================
+-- Migration: 재개 가능 업로드 임시 폴더 기록(Pending Uploads) 테이블 생성
+-- ============================================
+-- 게시물 작성 중 업로드만 하고 게시하지 않은 원본([clerkId]/pending/[uploadId]/)을 정리하기 위한 기록
+-- - POST /api/posts/uploads 에서 업로드 ID 발급 시 추가
+-- - POST /api/posts 에서 게시물 생성(또는 잘못된 파일로 거부) 후 임시 파일과 함께 삭제
+-- - GET /api/cron/cleanup-pending-uploads (Vercel Cron)가 오래된 기록의 임시 폴더를 삭제
+--   (버킷 전체를 조회하지 않고 이 테이블만 확인)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.pending_uploads (
+    id UUID PRIMARY KEY,  -- 업로드 ID (임시 폴더명)
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.pending_uploads OWNER TO postgres;
+
+-- 인덱스 생성 (만료된 기록 조회)
+CREATE INDEX IF NOT EXISTS idx_pending_uploads_created_at
+    ON public.pending_uploads(created_at);
+
+-- ============================================
+-- Row Level Security (RLS) 설정 - Pending Uploads
+-- ============================================
+-- 본인 기록만 추가/삭제 (정리 작업은 service_role)
+ALTER TABLE public.pending_uploads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pending uploads"
+ON public.pending_uploads FOR SELECT
+TO authenticated
+USING (user_id = public.requesting_user_id());
+
+CREATE POLICY "Users can insert own pending uploads"
+ON public.pending_uploads FOR INSERT
+TO authenticated
+WITH CHECK (user_id = public.requesting_user_id());
+
+CREATE POLICY "Users can delete own pending uploads"
+ON public.pending_uploads FOR DELETE
+TO authenticated
+USING (user_id = public.requesting_user_id());
+
+CREATE POLICY "Service role has full access to pending_uploads"
+ON public.pending_uploads FOR ALL
+TO service_role
+USING (true);
+
+-- 권한 부여
+GRANT SELECT, INSERT, DELETE ON TABLE public.pending_uploads TO authenticated;
+GRANT ALL ON TABLE public.pending_uploads TO service_role;